@@ -19,6 +19,7 @@ import TemplatesPage from './components/Templates/TemplatesPage';
 import EditorPage from './components/Editor/EditorPage';
 import AdminDashboard from './components/Admin/AdminDashboard';
 import MadeWithBolt from './components/MadeWithBolt';
+import PaymentIssueBanner from './components/Billing/PaymentIssueBanner';
 
 // React Router setup
 const router = createBrowserRouter([
@@ -149,6 +150,7 @@ function App() {
       {shouldShowHeader && (
         <Header isMenuOpen={isMenuOpen} setIsMenuOpen={setIsMenuOpen} />
       )}
+      {isAuthenticated && !isPasswordReset && <PaymentIssueBanner />}
       <main className="pb-16">{renderCurrentView()}</main>
       <MadeWithBolt />
     </div>
@@ -4,7 +4,7 @@ import {
   Shield, Edit, Trash2, AlertCircle, CheckCircle, Crown,
   BarChart3, Calendar, DollarSign, Activity, MessageSquare,
   Settings, Bell, Download, Upload, Mail, UserCheck,
-  Clock, Target, Zap, Eye, MoreHorizontal
+  Clock, Target, Zap, Eye, MoreHorizontal, Tag
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useAppStore } from '../../store/useAppStore';
@@ -14,6 +14,8 @@ import SupportTickets from './SupportTickets';
 import BehavioralAnalytics from './BehavioralAnalytics';
 import BulkOperations from './BulkOperations';
 import SystemNotifications from './SystemNotifications';
+import StripeEvents from './StripeEvents';
+import Coupons from './Coupons';
 
 interface AdminStats {
   total_users: number;
@@ -124,6 +126,8 @@ const AdminDashboard: React.FC = () => {
     { id: 'analytics', name: 'Behavioral Analytics', icon: <Activity className="h-4 w-4" /> },
     { id: 'bulk', name: 'Bulk Operations', icon: <Zap className="h-4 w-4" /> },
     { id: 'notifications', name: 'Notifications', icon: <Bell className="h-4 w-4" /> },
+    { id: 'stripe-events', name: 'Stripe Events', icon: <CreditCard className="h-4 w-4" /> },
+    { id: 'coupons', name: 'Coupons', icon: <Tag className="h-4 w-4" /> },
   ];
 
   if (!user || user.role !== 'admin') {
@@ -387,6 +391,8 @@ const AdminDashboard: React.FC = () => {
           {activeTab === 'analytics' && <BehavioralAnalytics />}
           {activeTab === 'bulk' && <BulkOperations />}
           {activeTab === 'notifications' && <SystemNotifications notifications={notifications} onRefresh={fetchNotifications} />}
+          {activeTab === 'stripe-events' && <StripeEvents />}
+          {activeTab === 'coupons' && <Coupons />}
         </motion.div>
       </div>
     </div>
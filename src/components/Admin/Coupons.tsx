@@ -0,0 +1,381 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, Ban, Plus, RefreshCw, Tag, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { invokeFunction } from '../../lib/edgeFunctions';
+import { Coupon, CouponDuration, CouponRedemption, describeDiscount, formatMoney } from '../../lib/coupons';
+import type { PlanId } from '../../lib/entitlements';
+
+interface RedemptionRow extends CouponRedemption {
+  coupon: { code: string } | null;
+  profile: { email: string } | null;
+}
+
+interface CouponForm {
+  code: string;
+  name: string;
+  discountType: 'percent' | 'amount';
+  discount: string;
+  duration: CouponDuration;
+  durationInMonths: string;
+  maxRedemptions: string;
+  expiresAt: string;
+  allowedPlans: PlanId[];
+}
+
+const emptyForm: CouponForm = {
+  code: '',
+  name: '',
+  discountType: 'percent',
+  discount: '',
+  duration: 'once',
+  durationInMonths: '',
+  maxRedemptions: '',
+  expiresAt: '',
+  allowedPlans: [],
+};
+
+const paidPlans: PlanId[] = ['pro', 'business'];
+
+const Coupons: React.FC = () => {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [redemptions, setRedemptions] = useState<RedemptionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<CouponForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [deactivatingId, setDeactivatingId] = useState<string | null>(null);
+
+  const fetchCoupons = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [couponsResult, redemptionsResult] = await Promise.all([
+        supabase.from('coupons').select('*').order('created_at', { ascending: false }),
+        supabase
+          .from('coupon_redemptions')
+          .select('*, coupon:coupons(code), profile:profiles(email)')
+          .order('redeemed_at', { ascending: false })
+          .limit(50),
+      ]);
+
+      if (couponsResult.error) {
+        throw new Error(`Failed to fetch coupons: ${couponsResult.error.message}`);
+      }
+      if (redemptionsResult.error) {
+        throw new Error(`Failed to fetch redemptions: ${redemptionsResult.error.message}`);
+      }
+
+      setCoupons(couponsResult.data || []);
+      setRedemptions(redemptionsResult.data || []);
+    } catch (err) {
+      console.error('Error fetching coupons:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load coupons');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCoupons();
+  }, [fetchCoupons]);
+
+  const createCoupon = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const discount = Number(form.discount);
+      await invokeFunction<{ coupon: Coupon }>('create-coupon', {
+        code: form.code,
+        name: form.name,
+        // Amounts are entered in dollars and stored in cents
+        ...(form.discountType === 'percent' ? { percentOff: discount } : { amountOff: Math.round(discount * 100) }),
+        duration: form.duration,
+        durationInMonths: form.duration === 'repeating' ? Number(form.durationInMonths) : undefined,
+        maxRedemptions: form.maxRedemptions ? Number(form.maxRedemptions) : undefined,
+        expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : undefined,
+        allowedPlans: form.allowedPlans,
+      });
+
+      setForm(emptyForm);
+      setShowForm(false);
+      await fetchCoupons();
+    } catch (err) {
+      console.error('Error creating coupon:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create coupon');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deactivateCoupon = async (coupon: Coupon) => {
+    if (!confirm(`Deactivate ${coupon.code}? It can no longer be used at checkout.`)) return;
+
+    try {
+      setDeactivatingId(coupon.id);
+      setError(null);
+      await invokeFunction<{ coupon: Coupon }>('deactivate-coupon', { couponId: coupon.id });
+      await fetchCoupons();
+    } catch (err) {
+      console.error('Error deactivating coupon:', err);
+      setError(err instanceof Error ? err.message : 'Failed to deactivate coupon');
+    } finally {
+      setDeactivatingId(null);
+    }
+  };
+
+  const togglePlan = (plan: PlanId) => {
+    setForm(prev => ({
+      ...prev,
+      allowedPlans: prev.allowedPlans.includes(plan)
+        ? prev.allowedPlans.filter(p => p !== plan)
+        : [...prev.allowedPlans, plan],
+    }));
+  };
+
+  // Discount given across the redemptions shown, per currency
+  const discountTotals = redemptions.reduce<Record<string, number>>((totals, redemption) => {
+    totals[redemption.currency] = (totals[redemption.currency] || 0) + redemption.amount_discount;
+    return totals;
+  }, {});
+
+  const inputClass = 'w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="bg-purple-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-purple-700 transition-colors flex items-center"
+        >
+          {showForm ? <X className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+          {showForm ? 'Cancel' : 'New Coupon'}
+        </button>
+
+        <button
+          onClick={fetchCoupons}
+          className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg font-medium hover:bg-gray-200 transition-colors flex items-center"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center">
+          <AlertCircle className="h-5 w-5 text-red-500 mr-3 flex-shrink-0" />
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Create Form */}
+      {showForm && (
+        <form onSubmit={createCoupon} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+              <input
+                type="text"
+                required
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                placeholder="SUMMER20"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Summer sale"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Discount</label>
+              <div className="flex space-x-2">
+                <select
+                  value={form.discountType}
+                  onChange={(e) => setForm({ ...form, discountType: e.target.value as CouponForm['discountType'] })}
+                  className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="percent">% off</option>
+                  <option value="amount">$ off</option>
+                </select>
+                <input
+                  type="number"
+                  required
+                  min={form.discountType === 'percent' ? 1 : 0.01}
+                  max={form.discountType === 'percent' ? 100 : undefined}
+                  step={form.discountType === 'percent' ? 1 : 0.01}
+                  value={form.discount}
+                  onChange={(e) => setForm({ ...form, discount: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Duration</label>
+              <div className="flex space-x-2">
+                <select
+                  value={form.duration}
+                  onChange={(e) => setForm({ ...form, duration: e.target.value as CouponDuration })}
+                  className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="once">First payment</option>
+                  <option value="repeating">Several months</option>
+                  <option value="forever">Forever</option>
+                </select>
+                {form.duration === 'repeating' && (
+                  <input
+                    type="number"
+                    required
+                    min={1}
+                    value={form.durationInMonths}
+                    onChange={(e) => setForm({ ...form, durationInMonths: e.target.value })}
+                    placeholder="Months"
+                    className={inputClass}
+                  />
+                )}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Redemption limit</label>
+              <input
+                type="number"
+                min={1}
+                value={form.maxRedemptions}
+                onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })}
+                placeholder="Unlimited"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+              <input
+                type="datetime-local"
+                value={form.expiresAt}
+                onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Plans</span>
+            <div className="flex items-center space-x-4">
+              {paidPlans.map((plan) => (
+                <label key={plan} className="flex items-center text-sm text-gray-700 capitalize">
+                  <input
+                    type="checkbox"
+                    checked={form.allowedPlans.includes(plan)}
+                    onChange={() => togglePlan(plan)}
+                    className="mr-2 rounded text-purple-600 focus:ring-purple-500"
+                  />
+                  {plan}
+                </label>
+              ))}
+              <span className="text-xs text-gray-500">Leave both unchecked for every plan</span>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-purple-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Creating...' : 'Create Coupon'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Coupons List */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+        {!loading && coupons.length === 0 && (
+          <p className="p-6 text-sm text-gray-500 text-center">No coupons yet</p>
+        )}
+        {coupons.map((coupon) => (
+          <div key={coupon.id} className="p-4 flex items-center justify-between">
+            <div>
+              <div className="flex items-center space-x-3">
+                <Tag className="h-4 w-4 text-purple-600" />
+                <span className="text-sm font-semibold text-gray-900">{coupon.code}</span>
+                <span className="text-sm text-gray-600">{coupon.name}</span>
+                {!coupon.is_active && (
+                  <span className="px-2 py-1 rounded-full text-xs font-medium text-gray-700 bg-gray-100">Inactive</span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {describeDiscount(coupon)}
+                {' · '}
+                {coupon.allowed_plans.length > 0 ? `${coupon.allowed_plans.join(', ')} only` : 'all plans'}
+                {' · '}
+                {coupon.times_redeemed}{coupon.max_redemptions !== null ? ` of ${coupon.max_redemptions}` : ''} redeemed
+                {coupon.expires_at && ` · expires ${new Date(coupon.expires_at).toLocaleString()}`}
+              </p>
+            </div>
+            {coupon.is_active && (
+              <button
+                onClick={() => deactivateCoupon(coupon)}
+                disabled={deactivatingId !== null}
+                className="bg-gray-100 text-gray-700 px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors flex items-center disabled:opacity-50"
+              >
+                <Ban className="h-4 w-4 mr-1" />
+                Deactivate
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Redemptions Report */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Recent Redemptions</h3>
+          <p className="text-sm text-gray-600">
+            {Object.entries(discountTotals).map(([currency, total]) => formatMoney(total, currency)).join(' + ') || formatMoney(0)} discounted
+          </p>
+        </div>
+        {redemptions.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 px-3 text-sm font-medium text-gray-700">Date</th>
+                  <th className="text-left py-2 px-3 text-sm font-medium text-gray-700">Code</th>
+                  <th className="text-left py-2 px-3 text-sm font-medium text-gray-700">User</th>
+                  <th className="text-left py-2 px-3 text-sm font-medium text-gray-700">Plan</th>
+                  <th className="text-left py-2 px-3 text-sm font-medium text-gray-700">Discount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {redemptions.map((redemption) => (
+                  <tr key={redemption.id} className="border-b border-gray-100">
+                    <td className="py-2 px-3 text-sm text-gray-900">{new Date(redemption.redeemed_at).toLocaleDateString()}</td>
+                    <td className="py-2 px-3 text-sm text-gray-900">{redemption.coupon?.code}</td>
+                    <td className="py-2 px-3 text-sm text-gray-600">{redemption.profile?.email ?? redemption.user_id}</td>
+                    <td className="py-2 px-3 text-sm text-gray-600 capitalize">{redemption.plan_id}</td>
+                    <td className="py-2 px-3 text-sm text-gray-900">{formatMoney(redemption.amount_discount, redemption.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 text-center py-4">No coupons redeemed yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Coupons;
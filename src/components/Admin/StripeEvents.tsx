@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, CheckCircle, Clock, RefreshCw, RotateCcw, SkipForward } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { invokeFunction } from '../../lib/edgeFunctions';
+
+type StripeEventStatus = 'received' | 'processing' | 'processed' | 'skipped' | 'failed';
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  payload: Record<string, unknown>;
+  status: StripeEventStatus;
+  error: string | null;
+  attempts: number;
+  stripe_created_at: string;
+  received_at: string;
+  last_attempt_at: string | null;
+  processed_at: string | null;
+}
+
+const StripeEvents: React.FC = () => {
+  const [events, setEvents] = useState<StripeEvent[]>([]);
+  const [filterStatus, setFilterStatus] = useState<'all' | StripeEventStatus>('failed');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      let query = supabase
+        .from('stripe_events')
+        .select('*')
+        .order('received_at', { ascending: false })
+        .limit(100);
+
+      if (filterStatus !== 'all') {
+        query = query.eq('status', filterStatus);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        throw new Error(`Failed to fetch Stripe events: ${error.message}`);
+      }
+
+      setEvents(data || []);
+    } catch (err) {
+      console.error('Error fetching Stripe events:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load Stripe events');
+    } finally {
+      setLoading(false);
+    }
+  }, [filterStatus]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const replayEvent = async (eventId: string) => {
+    try {
+      setReplayingId(eventId);
+      setError(null);
+
+      const { event } = await invokeFunction<{ event: StripeEvent }>('replay-stripe-event', { eventId });
+      if (event.status === 'failed') {
+        setError(`Replay of ${eventId} failed again: ${event.error}`);
+      }
+
+      await fetchEvents();
+    } catch (err) {
+      console.error('Error replaying Stripe event:', err);
+      setError(err instanceof Error ? err.message : 'Failed to replay event');
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const getStatusBadge = (status: StripeEventStatus) => {
+    switch (status) {
+      case 'processed':
+        return <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium text-green-700 bg-green-100"><CheckCircle className="h-3 w-3 mr-1" />Processed</span>;
+      case 'skipped':
+        return <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium text-gray-700 bg-gray-100"><SkipForward className="h-3 w-3 mr-1" />Skipped</span>;
+      case 'failed':
+        return <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium text-red-700 bg-red-100"><AlertCircle className="h-3 w-3 mr-1" />Failed</span>;
+      default:
+        return <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium text-yellow-700 bg-yellow-100"><Clock className="h-3 w-3 mr-1" />{status === 'processing' ? 'Processing' : 'Received'}</span>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex items-center justify-between">
+        <select
+          value={filterStatus}
+          onChange={(e) => setFilterStatus(e.target.value as 'all' | StripeEventStatus)}
+          className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        >
+          <option value="all">All Status</option>
+          <option value="failed">Failed</option>
+          <option value="processed">Processed</option>
+          <option value="skipped">Skipped</option>
+          <option value="processing">Processing</option>
+          <option value="received">Received</option>
+        </select>
+
+        <button
+          onClick={fetchEvents}
+          className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg font-medium hover:bg-gray-200 transition-colors flex items-center"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center">
+          <AlertCircle className="h-5 w-5 text-red-500 mr-3 flex-shrink-0" />
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Events List */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+        {!loading && events.length === 0 && (
+          <p className="p-6 text-sm text-gray-500 text-center">No Stripe events</p>
+        )}
+        {events.map((event) => (
+          <div key={event.id} className="p-4">
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                className="text-left flex-1"
+              >
+                <div className="flex items-center space-x-3">
+                  <span className="text-sm font-medium text-gray-900">{event.type}</span>
+                  {getStatusBadge(event.status)}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {event.id} · created {new Date(event.stripe_created_at).toLocaleString()} · {event.attempts} attempt{event.attempts === 1 ? '' : 's'}
+                </p>
+                {event.error && <p className="text-xs text-red-600 mt-1">{event.error}</p>}
+              </button>
+              {event.status === 'failed' && (
+                <button
+                  onClick={() => replayEvent(event.id)}
+                  disabled={replayingId !== null}
+                  className="bg-purple-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-purple-700 transition-colors flex items-center disabled:opacity-50"
+                >
+                  <RotateCcw className={`h-4 w-4 mr-1 ${replayingId === event.id ? 'animate-spin' : ''}`} />
+                  Replay
+                </button>
+              )}
+            </div>
+            {expandedId === event.id && (
+              <pre className="mt-3 p-3 bg-gray-50 rounded-lg text-xs text-gray-700 overflow-x-auto max-h-80">
+                {JSON.stringify(event.payload, null, 2)}
+              </pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StripeEvents;
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { CreditCard, Download, Calendar, AlertCircle, CheckCircle, ExternalLink, Loader, DollarSign, TrendingUp } from 'lucide-react';
+import { CreditCard, Download, Calendar, AlertCircle, CheckCircle, ExternalLink, Loader, DollarSign, TrendingUp, Tag, X } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { useStripe, BillingSummary, PaymentMethod, Invoice } from '../../hooks/useStripe';
+import { useStripe, BillingSummary, PaymentMethod, Invoice, PlanChangePreview, SubscriptionPlan } from '../../hooks/useStripe';
 import { useAppStore } from '../../store/useAppStore';
+import { CouponSummary, couponAppliesTo, describeDiscount, discountedPrice } from '../../lib/coupons';
+import type { PlanId } from '../../lib/entitlements';
+
+// Yearly plans share their monthly plan's coupons
+const basePlan = (planId: string) => planId.replace(/_yearly$/, '') as PlanId;
 
 const BillingDashboard: React.FC = () => {
   const { user } = useAppStore();
@@ -11,10 +16,13 @@ const BillingDashboard: React.FC = () => {
     error, 
     plans, 
     createCheckoutSession, 
+    validateCoupon,
     createPortalSession, 
     getBillingSummary, 
     getPaymentMethods, 
     getInvoices,
+    previewPlanChange,
+    changePlan,
     cancelSubscription,
     reactivateSubscription
   } = useStripe();
@@ -24,6 +32,11 @@ const BillingDashboard: React.FC = () => {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [loadingData, setLoadingData] = useState(true);
   const [actionLoading, setActionLoading] = useState<Record<string, boolean>>({});
+  const [couponCode, setCouponCode] = useState('');
+  const [coupon, setCoupon] = useState<CouponSummary | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [billingInterval, setBillingInterval] = useState<'month' | 'year'>('month');
+  const [planChange, setPlanChange] = useState<{ plan: SubscriptionPlan; preview: PlanChangePreview } | null>(null);
 
   useEffect(() => {
     loadBillingData();
@@ -41,6 +54,10 @@ const BillingDashboard: React.FC = () => {
       ]);
 
       setBillingSummary(summary);
+      const currentPlan = plans.find(p => p.stripePriceId && p.stripePriceId === summary?.price_id);
+      if (currentPlan) {
+        setBillingInterval(currentPlan.interval);
+      }
       setPaymentMethods(methods);
       setInvoices(invoiceList);
     } catch (err) {
@@ -56,7 +73,8 @@ const BillingDashboard: React.FC = () => {
 
     try {
       setActionLoading(prev => ({ ...prev, [`upgrade-${planId}`]: true }));
-      await createCheckoutSession(plan.stripePriceId);
+      const applyCoupon = coupon && couponAppliesTo(coupon, basePlan(plan.id));
+      await createCheckoutSession(plan.stripePriceId, { couponCode: applyCoupon ? coupon.code : undefined });
     } catch (err) {
       console.error('Error upgrading plan:', err);
     } finally {
@@ -64,6 +82,45 @@ const BillingDashboard: React.FC = () => {
     }
   };
 
+  const handlePreviewChange = async (plan: SubscriptionPlan) => {
+    setActionLoading(prev => ({ ...prev, [`upgrade-${plan.id}`]: true }));
+    const preview = await previewPlanChange(plan.stripePriceId);
+    if (preview) {
+      setPlanChange({ plan, preview });
+    }
+    setActionLoading(prev => ({ ...prev, [`upgrade-${plan.id}`]: false }));
+  };
+
+  const handleConfirmChange = async () => {
+    if (!planChange) return;
+
+    setActionLoading(prev => ({ ...prev, change: true }));
+    const result = await changePlan(planChange.plan.stripePriceId, planChange.preview.prorationDate);
+    setActionLoading(prev => ({ ...prev, change: false }));
+    setPlanChange(null);
+    if (result.success) {
+      await loadBillingData();
+    }
+  };
+
+  const handleApplyCoupon = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!couponCode.trim()) return;
+
+    setActionLoading(prev => ({ ...prev, coupon: true }));
+    setCouponError(null);
+    const result = await validateCoupon(couponCode.trim());
+    setCoupon(result.coupon);
+    setCouponError(result.error ?? null);
+    setActionLoading(prev => ({ ...prev, coupon: false }));
+  };
+
+  const handleRemoveCoupon = () => {
+    setCoupon(null);
+    setCouponCode('');
+    setCouponError(null);
+  };
+
   const handleManageBilling = async () => {
     try {
       setActionLoading(prev => ({ ...prev, portal: true }));
@@ -140,6 +197,8 @@ const BillingDashboard: React.FC = () => {
     }
   };
 
+  const isSubscribed = !!billingSummary && billingSummary.plan_id !== 'free';
+
   if (!user) {
     return (
       <div className="text-center py-12">
@@ -268,16 +327,80 @@ const BillingDashboard: React.FC = () => {
       </motion.div>
 
       {/* Available Plans */}
-      {(!billingSummary || billingSummary.plan_id === 'free') && (
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.1 }}
-          className="bg-white rounded-xl shadow-sm border border-gray-200 p-6"
-        >
-          <h3 className="text-xl font-bold text-gray-900 mb-6">Upgrade Your Plan</h3>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            {plans.filter(plan => plan.id !== 'free').map((plan) => (
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="bg-white rounded-xl shadow-sm border border-gray-200 p-6"
+      >
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">{isSubscribed ? 'Change Plan' : 'Upgrade Your Plan'}</h3>
+            {isSubscribed && (
+              <p className="text-sm text-gray-600 mt-1">
+                {billingSummary.cancel_at_period_end
+                  ? 'Reactivate your subscription to change plans.'
+                  : 'Changes apply immediately. The difference for the rest of this period is charged or credited now.'}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-col items-end gap-3">
+            <div className="inline-flex bg-gray-100 rounded-lg p-1">
+              {(['month', 'year'] as const).map((interval) => (
+                <button
+                  key={interval}
+                  onClick={() => setBillingInterval(interval)}
+                  className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    billingInterval === interval ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {interval === 'month' ? 'Monthly' : 'Annual'}
+                </button>
+              ))}
+            </div>
+            {!isSubscribed && (coupon ? (
+              <div className="flex items-center bg-green-50 border border-green-200 rounded-lg px-3 py-2 text-sm text-green-800">
+                <Tag className="h-4 w-4 mr-2" />
+                <span>
+                  <span className="font-semibold">{coupon.code}</span>: {describeDiscount(coupon)}
+                  {coupon.allowed_plans.length > 0 && ` on ${coupon.allowed_plans.join(' and ')} plans`}
+                </span>
+                <button
+                  onClick={handleRemoveCoupon}
+                  className="ml-3 text-green-700 hover:text-green-900"
+                  title="Remove promo code"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={handleApplyCoupon} className="flex flex-col items-end">
+                <div className="flex">
+                  <input
+                    type="text"
+                    value={couponCode}
+                    onChange={(e) => setCouponCode(e.target.value)}
+                    placeholder="Promo code"
+                    className="px-3 py-2 border border-gray-300 rounded-l-lg text-sm uppercase focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    type="submit"
+                    disabled={actionLoading.coupon || !couponCode.trim()}
+                    className="bg-gray-100 border border-l-0 border-gray-300 text-gray-700 px-4 py-2 rounded-r-lg text-sm font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
+                  >
+                    {actionLoading.coupon ? <Loader className="h-4 w-4 animate-spin" /> : 'Apply'}
+                  </button>
+                </div>
+                {couponError && <p className="text-sm text-red-600 mt-1">{couponError}</p>}
+              </form>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {plans.filter(plan => plan.id !== 'free' && plan.interval === billingInterval).map((plan) => {
+            const planCoupon = !isSubscribed && coupon && couponAppliesTo(coupon, basePlan(plan.id)) ? coupon : null;
+            const isCurrent = isSubscribed && plan.stripePriceId === billingSummary.price_id;
+            return (
               <div
                 key={plan.id}
                 className={`border rounded-lg p-6 ${plan.popular ? 'border-blue-500 ring-2 ring-blue-100' : 'border-gray-200'}`}
@@ -289,8 +412,16 @@ const BillingDashboard: React.FC = () => {
                 )}
                 <h4 className="text-xl font-bold text-gray-900 mb-2">{plan.name}</h4>
                 <div className="mb-4">
-                  <span className="text-3xl font-bold text-gray-900">${plan.price}</span>
+                  {planCoupon ? (
+                    <>
+                      <span className="text-lg text-gray-400 line-through mr-2">${plan.price}</span>
+                      <span className="text-3xl font-bold text-gray-900">${discountedPrice(plan.price, planCoupon)}</span>
+                    </>
+                  ) : (
+                    <span className="text-3xl font-bold text-gray-900">${plan.price}</span>
+                  )}
                   <span className="text-gray-600">/{plan.interval}</span>
+                  {planCoupon && <p className="text-xs text-green-700 mt-1">{describeDiscount(planCoupon)}</p>}
                 </div>
                 <ul className="space-y-2 mb-6">
                   {plan.features.map((feature, index) => (
@@ -301,8 +432,8 @@ const BillingDashboard: React.FC = () => {
                   ))}
                 </ul>
                 <button
-                  onClick={() => handleUpgrade(plan.id)}
-                  disabled={actionLoading[`upgrade-${plan.id}`]}
+                  onClick={() => (isSubscribed ? handlePreviewChange(plan) : handleUpgrade(plan.id))}
+                  disabled={actionLoading[`upgrade-${plan.id}`] || isCurrent || (isSubscribed && billingSummary.cancel_at_period_end)}
                   className={`w-full py-2 px-4 rounded-lg font-medium transition-colors disabled:opacity-50 ${
                     plan.popular
                       ? 'bg-blue-600 text-white hover:bg-blue-700'
@@ -311,14 +442,76 @@ const BillingDashboard: React.FC = () => {
                 >
                   {actionLoading[`upgrade-${plan.id}`] ? (
                     <Loader className="h-4 w-4 animate-spin mx-auto" />
+                  ) : isCurrent ? (
+                    'Current Plan'
+                  ) : isSubscribed ? (
+                    `Switch to ${plan.name} ${plan.interval === 'year' ? 'Annual' : 'Monthly'}`
                   ) : (
                     `Upgrade to ${plan.name}`
                   )}
                 </button>
               </div>
-            ))}
-          </div>
-        </motion.div>
+            );
+          })}
+        </div>
+      </motion.div>
+
+      {/* Plan Change Confirmation */}
+      {planChange && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="bg-white rounded-xl max-w-lg w-full p-6"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-gray-900">
+                Switch to {planChange.plan.name} {planChange.plan.interval === 'year' ? 'Annual' : 'Monthly'}
+              </h3>
+              <button onClick={() => setPlanChange(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <ul className="divide-y divide-gray-100 mb-4">
+              {planChange.preview.lines.map((line, index) => (
+                <li key={index} className="flex justify-between py-2 text-sm">
+                  <span className="text-gray-600 pr-4">{line.description}</span>
+                  <span className="text-gray-900 whitespace-nowrap">{formatCurrency(line.amount, planChange.preview.currency)}</span>
+                </li>
+              ))}
+            </ul>
+
+            <div className="bg-gray-50 rounded-lg p-4 mb-6">
+              <div className="flex justify-between font-semibold text-gray-900">
+                <span>Due today</span>
+                <span>{formatCurrency(planChange.preview.amountDue, planChange.preview.currency)}</span>
+              </div>
+              {planChange.preview.total < 0 && (
+                <p className="text-sm text-gray-600 mt-1">
+                  {formatCurrency(-planChange.preview.total, planChange.preview.currency)} will be credited to your next invoice.
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setPlanChange(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmChange}
+                disabled={actionLoading.change}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center"
+              >
+                {actionLoading.change && <Loader className="h-4 w-4 animate-spin mr-2" />}
+                Confirm Change
+              </button>
+            </div>
+          </motion.div>
+        </div>
       )}
 
       {/* Payment Methods */}
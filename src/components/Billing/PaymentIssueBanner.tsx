@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, CreditCard } from 'lucide-react';
+import { useStripe, DunningStatus } from '../../hooks/useStripe';
+
+// Shown across the app while a subscription payment is outstanding
+const PaymentIssueBanner: React.FC = () => {
+  const { getDunningStatus, createPortalSession, loading } = useStripe();
+  const [dunning, setDunning] = useState<DunningStatus | null>(null);
+
+  // Reloads whenever the signed-in user or their plan changes
+  useEffect(() => {
+    getDunningStatus().then(setDunning);
+  }, [getDunningStatus]);
+
+  if (!dunning) return null;
+
+  const planName = dunning.plan_id.charAt(0).toUpperCase() + dunning.plan_id.slice(1);
+  const message =
+    dunning.dunning_status === 'grace'
+      ? `Your last payment failed. Update your payment method${
+          dunning.grace_period_ends_at
+            ? ` by ${new Date(dunning.grace_period_ends_at).toLocaleDateString()}`
+            : ''
+        } to keep your ${planName} plan.`
+      : `Your account was moved to the Free plan after a failed payment${
+          dunning.suspended_websites > 0
+            ? ` and ${dunning.suspended_websites} website${dunning.suspended_websites === 1 ? ' is' : 's are'} read-only`
+            : ''
+        }. Everything is restored once the payment goes through.`;
+
+  return (
+    <div className={dunning.dunning_status === 'grace' ? 'bg-yellow-50 border-b border-yellow-200' : 'bg-red-50 border-b border-red-200'}>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between gap-4">
+        <div className="flex items-center">
+          <AlertTriangle
+            className={`h-5 w-5 mr-3 flex-shrink-0 ${dunning.dunning_status === 'grace' ? 'text-yellow-500' : 'text-red-500'}`}
+          />
+          <p className={`text-sm ${dunning.dunning_status === 'grace' ? 'text-yellow-800' : 'text-red-800'}`}>{message}</p>
+        </div>
+        <button
+          onClick={() => createPortalSession()}
+          disabled={loading}
+          className="bg-white border border-gray-300 text-gray-700 px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors flex items-center whitespace-nowrap disabled:opacity-50"
+        >
+          <CreditCard className="h-4 w-4 mr-2" />
+          Update payment method
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentIssueBanner;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Crown } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useAppStore } from '../../store/useAppStore';
+
+interface UpgradePromptProps {
+  message: string;
+  className?: string;
+}
+
+// Shown when an action is past the user's plan limits; links to billing
+const UpgradePrompt: React.FC<UpgradePromptProps> = ({ message, className = '' }) => {
+  const { setCurrentView } = useAppStore();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between gap-4 ${className}`}
+    >
+      <div className="flex items-center">
+        <Crown className="h-5 w-5 text-yellow-500 mr-3 flex-shrink-0" />
+        <p className="text-yellow-700 text-sm">{message}</p>
+      </div>
+      <button
+        onClick={() => setCurrentView('profile')}
+        className="bg-yellow-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-yellow-700 transition-colors whitespace-nowrap"
+      >
+        Upgrade Plan
+      </button>
+    </motion.div>
+  );
+};
+
+export default UpgradePrompt;
@@ -3,6 +3,7 @@ import { Plus, Globe, Edit3, Search, Filter, Trash2, Copy, ExternalLink, AlertCi
 import { motion } from 'framer-motion';
 import { useAppStore } from '../../store/useAppStore';
 import { useWebsites, Website } from '../../hooks/useWebsites';
+import { subdomainHost } from '../../lib/subdomains';
 import WebsiteAnalytics from './WebsiteAnalytics';
 import { Button } from '../ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../ui/card';
@@ -96,13 +97,22 @@ const WebsiteCard = React.memo(({
             loading="lazy"
           />
           <div className="absolute top-4 right-4">
-            <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-              website.status === 'published' 
-                ? 'bg-green-100 text-green-800' 
-                : 'bg-yellow-100 text-yellow-800'
-            }`}>
-              {website.status === 'published' ? 'Published' : 'Draft'}
-            </span>
+            {website.suspended_at ? (
+              <span
+                className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+                title="Your plan no longer includes this website. Upgrade or pay your open invoice to edit it again."
+              >
+                Read-only
+              </span>
+            ) : (
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                website.status === 'published' 
+                  ? 'bg-green-100 text-green-800' 
+                  : 'bg-yellow-100 text-yellow-800'
+              }`}>
+                {website.status === 'published' ? 'Published' : 'Draft'}
+              </span>
+            )}
           </div>
           <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-20 transition-all flex items-center justify-center opacity-0 group-hover:opacity-100">
             <div className="flex space-x-2">
@@ -231,7 +241,7 @@ const WebsiteCard = React.memo(({
               )}
               <Button
                 onClick={() => onToggleStatus(website)}
-                disabled={actionLoading[`status-${website.id}`]}
+                disabled={actionLoading[`status-${website.id}`] || !!website.suspended_at}
                 variant={website.status === 'published' ? "outline" : "default"}
                 size="sm"
                 className={website.status === 'published' ? "bg-yellow-100 text-yellow-800 hover:bg-yellow-200 border-yellow-200" : ""}
@@ -504,28 +514,10 @@ const EditModal = ({
           </div>
 
           <div>
-            <label htmlFor="editDomain" className="block text-sm font-medium text-gray-700 mb-2">
-              Custom Domain (Optional)
-            </label>
-            <input
-              id="editDomain"
-              type="text"
-              value={editData.domain}
-              onChange={(e) => onChange('domain', e.target.value)}
-              className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                editErrors.domain ? 'border-red-300' : 'border-gray-300'
-              }`}
-              placeholder="example.com"
-              aria-invalid={!!editErrors.domain}
-              aria-describedby={editErrors.domain ? "editDomain-error" : undefined}
-            />
-            {editErrors.domain && (
-              <p id="editDomain-error" className="mt-1 text-sm text-red-600">
-                {editErrors.domain}
-              </p>
-            )}
+            <span className="block text-sm font-medium text-gray-700 mb-2">Custom Domain</span>
+            <p className="text-sm text-gray-900 break-all">{editData.domain || 'None'}</p>
             <p className="mt-1 text-xs text-gray-500">
-              Enter your custom domain without http:// or https://
+              Add, remove and redirect domains in Domain Settings in the editor
             </p>
           </div>
         </div>
@@ -784,6 +776,7 @@ const Dashboard: React.FC = () => {
       name: website.name,
       description: website.description || '',
       domain: website.domain || undefined,
+      subdomain: website.subdomain,
       status: website.status,
       lastModified: new Date(website.updated_at),
       template: website.template,
@@ -819,13 +812,6 @@ const Dashboard: React.FC = () => {
       newErrors.description = 'Description must be less than 200 characters';
     }
 
-    if (editData.domain && editData.domain.trim()) {
-      const domainRegex = /^[a-zA-Z0-9][a-zA-Z0-9-]{0,61}[a-zA-Z0-9](?:\.[a-zA-Z]{2,})+$/;
-      if (!domainRegex.test(editData.domain.trim())) {
-        newErrors.domain = 'Please enter a valid domain (e.g., example.com)';
-      }
-    }
-
     setEditErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -837,8 +823,7 @@ const Dashboard: React.FC = () => {
       setIsUpdating(true);
       await updateWebsite(showEditModal, {
         name: editData.name.trim(),
-        description: editData.description.trim() || undefined,
-        domain: editData.domain.trim() || undefined
+        description: editData.description.trim() || undefined
       });
       setShowEditModal(null);
       toast({
@@ -928,14 +913,7 @@ const Dashboard: React.FC = () => {
   };
 
   const handleViewWebsite = (website: Website) => {
-    if (website.domain) {
-      window.open(`https://${website.domain}`, '_blank');
-    } else {
-      const websiteName = website.name.toLowerCase().replace(/[^a-z0-9]/g, '-');
-      const websiteId = website.id.substring(0, 8);
-      const subdomain = `${websiteName}-${websiteId}.ncbx.app`;
-      window.open(`https://${subdomain}`, '_blank');
-    }
+    window.open(`https://${website.domain || subdomainHost(website.subdomain)}`, '_blank');
   };
 
   const handleShowAnalytics = (websiteId: string) => {
@@ -1,22 +1,23 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable react-hooks/exhaustive-deps */
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { useAppStore } from '../../store/useAppStore';
+import { useEditorStore, EditorComponent } from '../../store/useEditorStore';
+import {
+  Bounds,
+  findContainerAt,
+  getChildren,
+  getDescendantIds,
+  getDescendants,
+  isInFlow
+} from '../../lib/componentTree';
+import { getBreakpointLabel, resolveComponents } from '../../lib/breakpoints';
+import { createComponent, getComponentType, readComponentProps } from '../../lib/componentRegistry';
+import './componentTypes';
 import { Trash2, Copy, Move, Eye, EyeOff, Lock, Unlock, Plus, } from 'lucide-react';
 import { useToast } from '../ui/use-toast';
 
-interface Component {
-  id: string;
-  type: string;
-  content: string;
-  styles: Record<string, any>;
-  position: { x: number; y: number };
-  size: { width: number; height: number };
-  locked: boolean;
-  hidden: boolean;
-  layer: number;
-}
+type Component = EditorComponent;
 
 interface CanvasProps {
   editorMode: 'desktop' | 'tablet' | 'mobile';
@@ -24,86 +25,70 @@ interface CanvasProps {
   onContentChange?: (content: any) => void;
 }
 
+interface PointerInteraction {
+  componentId: string;
+  mode: 'drag' | 'resize';
+  // Set for children of flex containers, which are dragged as a preview and
+  // dropped into place instead of changing their coordinates
+  inFlow: boolean;
+  direction?: string;
+  startPoint: { x: number; y: number };
+  startPosition: { x: number; y: number };
+  startSize: { width: number; height: number };
+}
+
+const flexAlignment = {
+  start: 'flex-start',
+  center: 'center',
+  end: 'flex-end',
+  stretch: 'stretch',
+  'space-between': 'space-between'
+};
+
 const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentChange }) => {
-  const { selectedComponent, setSelectedComponent } = useAppStore();
+  const {
+    components: storedComponents,
+    breakpointWidths,
+    setBreakpointWidth,
+    selectedComponentId: selectedComponent,
+    selectComponent: setSelectedComponent,
+    history,
+    historyIndex,
+    addComponent,
+    updateComponent,
+    removeComponent,
+    duplicateComponent,
+    pasteComponent,
+    toggleVisibility,
+    toggleLock,
+    moveLayer,
+    reparentComponent,
+    reorderComponent,
+    commitHistory,
+    undo,
+    redo
+  } = useEditorStore();
+  // Components as they render at the current breakpoint
+  const components = useMemo(
+    () => resolveComponents(storedComponents, editorMode),
+    [storedComponents, editorMode]
+  );
   const { toast } = useToast();
   const canvasRef = useRef<HTMLDivElement>(null);
-  
-  const [components, setComponents] = useState<Component[]>([
-    {
-      id: '1',
-      type: 'text',
-      content: 'Welcome to Your Website',
-      styles: { 
-        fontSize: '2.5rem', 
-        fontWeight: 'bold', 
-        color: '#1f2937',
-        textAlign: 'center',
-        lineHeight: '1.2'
-      },
-      position: { x: 50, y: 50 },
-      size: { width: 600, height: 80 },
-      locked: false,
-      hidden: false,
-      layer: 1
-    },
-    {
-      id: '2',
-      type: 'text',
-      content: 'This is a sample paragraph. You can edit this text by clicking on it and modifying the content in the properties panel. Drag and drop components to build your perfect website.',
-      styles: { 
-        fontSize: '1.125rem', 
-        color: '#6b7280', 
-        lineHeight: '1.7',
-        textAlign: 'left'
-      },
-      position: { x: 50, y: 150 },
-      size: { width: 500, height: 100 },
-      locked: false,
-      hidden: false,
-      layer: 2
-    },
-    {
-      id: '3',
-      type: 'button',
-      content: 'Get Started',
-      styles: { 
-        backgroundColor: '#3b82f6', 
-        color: 'white', 
-        padding: '16px 32px',
-        borderRadius: '12px',
-        border: 'none',
-        fontWeight: '600',
-        fontSize: '1.125rem',
-        cursor: 'pointer',
-        transition: 'all 0.2s ease'
-      },
-      position: { x: 50, y: 280 },
-      size: { width: 160, height: 56 },
-      locked: false,
-      hidden: false,
-      layer: 3
-    }
-  ]);
+  const interactionRef = useRef<PointerInteraction | null>(null);
 
-  const [draggedComponent, setDraggedComponent] = useState<string | null>(null);
-  const [isResizing, setIsResizing] = useState<string | null>(null);
-  const [resizeDirection, setResizeDirection] = useState<string | null>(null);
-  const [startPoint, setStartPoint] = useState({ x: 0, y: 0 });
-  const [startSize, setStartSize] = useState({ width: 0, height: 0 });
-  const [history, setHistory] = useState<Component[][]>([components]);
-  const [historyIndex, setHistoryIndex] = useState(0);
   const [showContextMenu, setShowContextMenu] = useState(false);
   const [contextMenuPosition, setContextMenuPosition] = useState({ x: 0, y: 0 });
   const [contextMenuComponentId, setContextMenuComponentId] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState<string | null>(null);
   const [editContent, setEditContent] = useState('');
+  const [flowDragOffset, setFlowDragOffset] = useState<{ id: string; x: number; y: number } | null>(null);
   const editRef = useRef<HTMLTextAreaElement | null>(null);
 
   const canvasWidth = {
     desktop: '100%',
-    tablet: '768px',
-    mobile: '375px'
+    tablet: `${breakpointWidths.tablet}px`,
+    mobile: `${breakpointWidths.mobile}px`
   };
 
   const canvasHeight = {
@@ -116,28 +101,20 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
   useEffect(() => {
     if (onContentChange) {
       onContentChange({
-        components,
+        components: storedComponents,
         settings: {
           theme: 'light',
-          layout: 'standard'
+          layout: 'standard',
+          breakpoints: breakpointWidths
         }
       });
     }
-  }, [components, onContentChange]);
-
-  // Save to history for undo/redo
-  const saveToHistory = (newComponents: Component[]) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push([...newComponents]);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
-  };
+  }, [storedComponents, breakpointWidths, onContentChange]);
 
   // Undo functionality
   const handleUndo = () => {
     if (historyIndex > 0) {
-      setHistoryIndex(historyIndex - 1);
-      setComponents([...history[historyIndex - 1]]);
+      undo();
       
       toast({
         title: "Undo",
@@ -149,8 +126,7 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
   // Redo functionality
   const handleRedo = () => {
     if (historyIndex < history.length - 1) {
-      setHistoryIndex(historyIndex + 1);
-      setComponents([...history[historyIndex + 1]]);
+      redo();
       
       toast({
         title: "Redo",
@@ -163,6 +139,10 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (isEditing) return; // Don't handle shortcuts while editing text
+
+      // Leave typing in the properties panel and other form fields alone
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
       
       if (e.ctrlKey || e.metaKey) {
         switch (e.key) {
@@ -222,7 +202,7 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedComponent, historyIndex, history, isEditing, showContextMenu]);
+  }, [components, selectedComponent, historyIndex, history, isEditing, showContextMenu]);
 
   // Close context menu on click outside
   useEffect(() => {
@@ -253,107 +233,26 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
       const x = e.clientX - rect.left;
       const y = e.clientY - rect.top;
 
-      const newComponent: Component = {
-        id: Date.now().toString(),
-        type: component.id,
-        content: getDefaultContent(component.id),
-        styles: getDefaultStyles(component.id),
-        position: { x: Math.max(0, x - 50), y: Math.max(0, y - 25) },
-        size: getDefaultSize(component.id),
-        locked: false,
-        hidden: false,
-        layer: Math.max(...components.map(c => c.layer), 0) + 1
-      };
+      // Dropping onto a container nests the new component inside it
+      const parent = findContainerAt(components, { x, y }, new Set(), getCanvasBounds);
+      const origin = (parent && getCanvasBounds(parent)) || { x: 0, y: 0 };
+      const definition = getComponentType(component.id);
+      const newComponent = createComponent(component.id, {
+        parentId: parent?.id ?? null,
+        position: { x: Math.max(0, x - origin.x - 50), y: Math.max(0, y - origin.y - 25) }
+      });
 
-      const newComponents = [...components, newComponent];
-      setComponents(newComponents);
-      saveToHistory(newComponents);
-      setSelectedComponent(newComponent.id);
+      addComponent(newComponent, definition?.defaultChildren?.(newComponent.size) ?? []);
       
       toast({
         title: "Component added",
-        description: `Added ${component.name} component`,
+        description: parent
+          ? `Added ${component.name} component to ${parent.type}`
+          : `Added ${component.name} component`,
       });
     }
   };
 
-  const getDefaultContent = (type: string): string => {
-    switch (type) {
-      case 'text': return 'New text element';
-      case 'heading': return 'New Heading';
-      case 'button': return 'Button';
-      case 'image': return 'Image placeholder';
-      case 'container': return '';
-      case 'divider': return '';
-      default: return 'Element';
-    }
-  };
-
-  const getDefaultStyles = (type: string): Record<string, any> => {
-    switch (type) {
-      case 'text':
-        return { 
-          fontSize: '1rem', 
-          color: '#374151',
-          lineHeight: '1.6',
-          fontFamily: 'Inter, sans-serif'
-        };
-      case 'heading':
-        return { 
-          fontSize: '2rem', 
-          color: '#1f2937',
-          fontWeight: 'bold',
-          lineHeight: '1.2',
-          fontFamily: 'Inter, sans-serif'
-        };
-      case 'button':
-        return { 
-          backgroundColor: '#3b82f6', 
-          color: 'white', 
-          padding: '12px 24px',
-          borderRadius: '8px',
-          border: 'none',
-          fontWeight: '600',
-          cursor: 'pointer',
-          transition: 'all 0.2s ease'
-        };
-      case 'image':
-        return { 
-          width: '100%', 
-          height: '100%', 
-          objectFit: 'cover',
-          borderRadius: '8px'
-        };
-      case 'container':
-        return {
-          backgroundColor: '#f9fafb',
-          border: '2px dashed #d1d5db',
-          borderRadius: '8px',
-          padding: '20px'
-        };
-      case 'divider':
-        return {
-          height: '2px',
-          backgroundColor: '#e5e7eb',
-          border: 'none'
-        };
-      default:
-        return {};
-    }
-  };
-
-  const getDefaultSize = (type: string): { width: number; height: number } => {
-    switch (type) {
-      case 'text': return { width: 300, height: 60 };
-      case 'heading': return { width: 400, height: 80 };
-      case 'button': return { width: 120, height: 48 };
-      case 'image': return { width: 300, height: 200 };
-      case 'container': return { width: 400, height: 300 };
-      case 'divider': return { width: 300, height: 2 };
-      default: return { width: 200, height: 100 };
-    }
-  };
-
   const handleComponentClick = (componentId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (!isPreviewMode) {
@@ -364,9 +263,9 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
   const handleComponentDoubleClick = (componentId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (!isPreviewMode) {
-      // Enter text editing mode for text components
+      // Enter text editing mode for types with editable content
       const component = components.find(c => c.id === componentId);
-      if (component && (component.type === 'text' || component.type === 'heading' || component.type === 'button')) {
+      if (component && getComponentType(component.type)?.content) {
         setIsEditing(componentId);
         setEditContent(component.content);
       }
@@ -384,125 +283,178 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
     setShowContextMenu(true);
   };
 
-  const handleComponentDragStart = (componentId: string, e: React.MouseEvent) => {
-    if (isPreviewMode) return;
-    
-    const component = components.find(c => c.id === componentId);
-    if (!component || component.locked) return;
-    
-    setDraggedComponent(componentId);
-    setStartPoint({ x: e.clientX, y: e.clientY });
-    
-    document.addEventListener('mousemove', handleComponentDragMove);
-    document.addEventListener('mouseup', handleComponentDragEnd);
-  };
+  const handlePointerMove = (e: MouseEvent) => {
+    const interaction = interactionRef.current;
+    if (!interaction) return;
 
-  const handleComponentDragMove = (e: MouseEvent) => {
-    if (!draggedComponent) return;
-    
-    const component = components.find(c => c.id === draggedComponent);
-    if (!component) return;
-    
-    const deltaX = e.clientX - startPoint.x;
-    const deltaY = e.clientY - startPoint.y;
-    
-    const newComponents = components.map(c => 
-      c.id === draggedComponent 
-        ? { 
-            ...c, 
-            position: { 
-              x: Math.max(0, c.position.x + deltaX), 
-              y: Math.max(0, c.position.y + deltaY) 
-            } 
-          } 
-        : c
-    );
-    
-    setComponents(newComponents);
-    setStartPoint({ x: e.clientX, y: e.clientY });
-  };
+    const deltaX = e.clientX - interaction.startPoint.x;
+    const deltaY = e.clientY - interaction.startPoint.y;
 
-  const handleComponentDragEnd = () => {
-    if (draggedComponent) {
-      saveToHistory(components);
-      setDraggedComponent(null);
+    if (interaction.mode === 'drag' && interaction.inFlow) {
+      setFlowDragOffset({ id: interaction.componentId, x: deltaX, y: deltaY });
+      return;
     }
-    
-    document.removeEventListener('mousemove', handleComponentDragMove);
-    document.removeEventListener('mouseup', handleComponentDragEnd);
-  };
 
-  const handleResizeStart = (componentId: string, direction: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    if (isPreviewMode) return;
-    
-    const component = components.find(c => c.id === componentId);
-    if (!component || component.locked) return;
-    
-    setIsResizing(componentId);
-    setResizeDirection(direction);
-    setStartPoint({ x: e.clientX, y: e.clientY });
-    setStartSize({ width: component.size.width, height: component.size.height });
-    
-    document.addEventListener('mousemove', handleResizeMove);
-    document.addEventListener('mouseup', handleResizeEnd);
-  };
+    if (interaction.mode === 'drag') {
+      updateComponent(interaction.componentId, {
+        position: {
+          x: Math.max(0, interaction.startPosition.x + deltaX),
+          y: Math.max(0, interaction.startPosition.y + deltaY)
+        }
+      }, false);
+      return;
+    }
 
-  const handleResizeMove = (e: MouseEvent) => {
-    if (!isResizing || !resizeDirection) return;
-    
-    const component = components.find(c => c.id === isResizing);
-    if (!component) return;
-    
-    const deltaX = e.clientX - startPoint.x;
-    const deltaY = e.clientY - startPoint.y;
-    
+    const direction = interaction.direction || '';
+    const { startSize } = interaction;
     let newWidth = startSize.width;
     let newHeight = startSize.height;
     
-    if (resizeDirection.includes('e')) {
+    if (direction.includes('e')) {
       newWidth = Math.max(50, startSize.width + deltaX);
-    } else if (resizeDirection.includes('w')) {
+    } else if (direction.includes('w')) {
       newWidth = Math.max(50, startSize.width - deltaX);
     }
     
-    if (resizeDirection.includes('s')) {
+    if (direction.includes('s')) {
       newHeight = Math.max(20, startSize.height + deltaY);
-    } else if (resizeDirection.includes('n')) {
+    } else if (direction.includes('n')) {
       newHeight = Math.max(20, startSize.height - deltaY);
     }
     
-    const newComponents = components.map(c => 
-      c.id === isResizing 
-        ? { ...c, size: { width: newWidth, height: newHeight } } 
-        : c
-    );
+    updateComponent(interaction.componentId, { size: { width: newWidth, height: newHeight } }, false);
+  };
+
+  const handlePointerUp = (e: MouseEvent) => {
+    const interaction = interactionRef.current;
+    if (interaction) {
+      interactionRef.current = null;
+      if (interaction.mode === 'drag' && !reparentOnDrop(interaction, e)) {
+        commitHistory();
+      } else if (interaction.mode === 'resize') {
+        commitHistory();
+      }
+      setFlowDragOffset(null);
+    }
     
-    setComponents(newComponents);
+    document.removeEventListener('mousemove', handlePointerMove);
+    document.removeEventListener('mouseup', handlePointerUp);
+  };
+
+  // Measured position of a rendered component relative to the canvas, which
+  // also covers children laid out by flexbox
+  const getCanvasBounds = (component: Component): Bounds | null => {
+    const canvasRect = canvasRef.current?.getBoundingClientRect();
+    const element = canvasRef.current?.querySelector(`[data-component-id="${component.id}"]`);
+    if (!canvasRect || !element) return null;
+    const rect = element.getBoundingClientRect();
+    return {
+      x: rect.left - canvasRect.left,
+      y: rect.top - canvasRect.top,
+      width: rect.width,
+      height: rect.height
+    };
+  };
+
+  // Inserts a component into a flex container before the first child whose
+  // midpoint is past the pointer
+  const placeInFlow = (componentId: string, parent: Component, point: { x: number; y: number }) => {
+    const latest = resolveComponents(useEditorStore.getState().components, editorMode);
+    const siblings = getChildren(latest, parent.id).filter(c => c.id !== componentId);
+    const direction = parent.layout?.direction ?? 'column';
+    const next = siblings.find(sibling => {
+      const bounds = getCanvasBounds(sibling);
+      if (!bounds) return false;
+      return direction === 'row'
+        ? point.x < bounds.x + bounds.width / 2
+        : point.y < bounds.y + bounds.height / 2;
+    });
+
+    // Flow order is bottom layer first, so "below" a sibling means before it
+    if (next) {
+      reorderComponent(componentId, next.id, 'below');
+    } else if (siblings.length > 0) {
+      reorderComponent(componentId, siblings[siblings.length - 1].id, 'above');
+    } else {
+      reparentComponent(componentId, parent.id);
+    }
   };
 
-  const handleResizeEnd = () => {
-    if (isResizing) {
-      saveToHistory(components);
-      setIsResizing(null);
-      setResizeDirection(null);
+  // Moves a dragged component into the container under the pointer, or out to
+  // the page. Returns whether the tree changed.
+  const reparentOnDrop = (interaction: PointerInteraction, e: MouseEvent) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return false;
+
+    const { componentId } = interaction;
+    const latest = resolveComponents(useEditorStore.getState().components, editorMode);
+    const component = latest.find(c => c.id === componentId);
+    if (!component) return false;
+
+    const point = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    const excluded = getDescendantIds(latest, componentId).add(componentId);
+    const parent = findContainerAt(latest, point, excluded, getCanvasBounds);
+    if (parent?.layout?.mode === 'flex') {
+      placeInFlow(componentId, parent, point);
+      return true;
     }
+
+    const parentId = parent?.id ?? null;
+    if (parentId === component.parentId && !interaction.inFlow) return false;
+
+    // Leaving a flex stack: keep the component where it was dropped
+    const bounds = getCanvasBounds(component);
+    const origin = (parent && getCanvasBounds(parent)) || { x: 0, y: 0 };
+    reparentComponent(
+      componentId,
+      parentId,
+      interaction.inFlow && bounds
+        ? { x: Math.max(0, bounds.x - origin.x), y: Math.max(0, bounds.y - origin.y) }
+        : undefined
+    );
+    return true;
+  };
+
+  const startInteraction = (component: Component, mode: PointerInteraction['mode'], e: React.MouseEvent, direction?: string) => {
+    interactionRef.current = {
+      componentId: component.id,
+      mode,
+      inFlow: isInFlow(components, component),
+      direction,
+      startPoint: { x: e.clientX, y: e.clientY },
+      startPosition: { ...component.position },
+      startSize: { ...component.size }
+    };
+
+    document.addEventListener('mousemove', handlePointerMove);
+    document.addEventListener('mouseup', handlePointerUp);
+  };
+
+  const handleComponentDragStart = (componentId: string, e: React.MouseEvent) => {
+    // Only the innermost component under the pointer starts a drag
+    e.stopPropagation();
+    if (isPreviewMode || isEditing) return;
     
-    document.removeEventListener('mousemove', handleResizeMove);
-    document.removeEventListener('mouseup', handleResizeEnd);
+    const component = components.find(c => c.id === componentId);
+    if (!component || component.locked) return;
+    
+    startInteraction(component, 'drag', e);
+  };
+
+  const handleResizeStart = (componentId: string, direction: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (isPreviewMode) return;
+    
+    const component = components.find(c => c.id === componentId);
+    if (!component || component.locked) return;
+    
+    startInteraction(component, 'resize', e, direction);
   };
 
   const handleEditComplete = () => {
     if (!isEditing) return;
     
-    const newComponents = components.map(c => 
-      c.id === isEditing 
-        ? { ...c, content: editContent } 
-        : c
-    );
-    
-    setComponents(newComponents);
-    saveToHistory(newComponents);
+    updateComponent(isEditing, { content: editContent });
     setIsEditing(null);
     
     toast({
@@ -512,12 +464,7 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
   };
 
   const handleDeleteComponent = (componentId: string) => {
-    const newComponents = components.filter(c => c.id !== componentId);
-    setComponents(newComponents);
-    saveToHistory(newComponents);
-    if (selectedComponent === componentId) {
-      setSelectedComponent(null);
-    }
+    removeComponent(componentId);
     
     toast({
       title: "Component deleted",
@@ -526,9 +473,14 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
   };
 
   const handleCopyComponent = (componentId: string) => {
-    const component = components.find(c => c.id === componentId);
+    // Copy the stored components, with their breakpoint overrides
+    const component = storedComponents.find(c => c.id === componentId);
     if (component) {
-      localStorage.setItem('copiedComponent', JSON.stringify(component));
+      // Copy the whole subtree so containers paste with their contents
+      localStorage.setItem(
+        'copiedComponent',
+        JSON.stringify([component, ...getDescendants(storedComponents, componentId)])
+      );
       
       toast({
         title: "Component copied",
@@ -540,21 +492,9 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
   const handlePasteComponent = () => {
     const copiedData = localStorage.getItem('copiedComponent');
     if (copiedData) {
-      const copiedComponent = JSON.parse(copiedData);
-      const newComponent: Component = {
-        ...copiedComponent,
-        id: Date.now().toString(),
-        position: {
-          x: copiedComponent.position.x + 20,
-          y: copiedComponent.position.y + 20
-        },
-        layer: Math.max(...components.map(c => c.layer), 0) + 1
-      };
-      
-      const newComponents = [...components, newComponent];
-      setComponents(newComponents);
-      saveToHistory(newComponents);
-      setSelectedComponent(newComponent.id);
+      const copied = JSON.parse(copiedData);
+      const [component, ...descendants] = Array.isArray(copied) ? copied : [copied];
+      pasteComponent(component, descendants);
       
       toast({
         title: "Component pasted",
@@ -564,23 +504,7 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
   };
 
   const handleDuplicateComponent = (componentId: string) => {
-    const component = components.find(c => c.id === componentId);
-    if (component) {
-      const newComponent: Component = {
-        ...component,
-        id: Date.now().toString(),
-        position: {
-          x: component.position.x + 20,
-          y: component.position.y + 20
-        },
-        layer: Math.max(...components.map(c => c.layer), 0) + 1
-      };
-      
-      const newComponents = [...components, newComponent];
-      setComponents(newComponents);
-      saveToHistory(newComponents);
-      setSelectedComponent(newComponent.id);
-      
+    if (duplicateComponent(componentId)) {
       toast({
         title: "Component duplicated",
         description: "Component has been duplicated",
@@ -589,13 +513,9 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
   };
 
   const handleToggleVisibility = (componentId: string) => {
-    const newComponents = components.map(c => 
-      c.id === componentId ? { ...c, hidden: !c.hidden } : c
-    );
-    setComponents(newComponents);
-    saveToHistory(newComponents);
-    
     const component = components.find(c => c.id === componentId);
+    toggleVisibility(componentId);
+    
     toast({
       title: component?.hidden ? "Component shown" : "Component hidden",
       description: component?.hidden ? "Component is now visible" : "Component is now hidden",
@@ -603,13 +523,9 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
   };
 
   const handleToggleLock = (componentId: string) => {
-    const newComponents = components.map(c => 
-      c.id === componentId ? { ...c, locked: !c.locked } : c
-    );
-    setComponents(newComponents);
-    saveToHistory(newComponents);
-    
     const component = components.find(c => c.id === componentId);
+    toggleLock(componentId);
+    
     toast({
       title: component?.locked ? "Component unlocked" : "Component locked",
       description: component?.locked ? "Component can now be moved" : "Component is now locked",
@@ -617,19 +533,7 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
   };
 
   const handleLayerChange = (componentId: string, direction: 'up' | 'down') => {
-    const component = components.find(c => c.id === componentId);
-    if (!component) return;
-
-    const newComponents = components.map(c => {
-      if (c.id === componentId) {
-        const newLayer = direction === 'up' ? c.layer + 1 : Math.max(1, c.layer - 1);
-        return { ...c, layer: newLayer };
-      }
-      return c;
-    });
-
-    setComponents(newComponents);
-    saveToHistory(newComponents);
+    moveLayer(componentId, direction);
     
     toast({
       title: "Layer changed",
@@ -637,131 +541,100 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
     });
   };
 
-  const renderComponent = (component: Component) => {
+  const renderComponent = (component: Component): React.ReactNode => {
     if (component.hidden && !isPreviewMode) {
       return null;
     }
 
     const isSelected = selectedComponent === component.id && !isPreviewMode;
+    const children = getChildren(components, component.id);
+    const inFlow = isInFlow(components, component);
+    const dragOffset = flowDragOffset?.id === component.id ? flowDragOffset : null;
     
     const baseStyles = {
-      position: 'absolute' as const,
-      left: component.position.x,
-      top: component.position.y,
-      width: component.size.width,
-      height: component.size.height,
-      zIndex: component.layer,
+      width: '100%',
+      height: '100%',
       cursor: isPreviewMode ? 'default' : (component.locked ? 'not-allowed' : 'move'),
       opacity: component.hidden ? 0.3 : 1,
       ...component.styles
     };
 
-    const wrapperStyles = {
-      display: 'inline-block',
+    // The wrapper carries the layout so nested components are positioned
+    // relative to their parent. Children of flex containers keep their size
+    // but can shrink to fit narrow screens.
+    const wrapperStyles: React.CSSProperties = {
+      ...(inFlow
+        ? { position: 'relative', flex: '0 1 auto', maxWidth: '100%' }
+        : { position: 'absolute', left: component.position.x, top: component.position.y }),
+      width: component.size.width,
+      height: component.size.height,
+      zIndex: dragOffset ? 1000 : component.layer,
+      transform: dragOffset ? `translate(${dragOffset.x}px, ${dragOffset.y}px)` : undefined,
       outline: isSelected ? '2px solid #3b82f6' : 'none',
-      outlineOffset: '2px',
-      position: 'relative' as const
+      outlineOffset: '2px'
     };
 
-    let content;
-    switch (component.type) {
-      case 'text':
-      case 'heading':
-        content = isEditing === component.id ? (
-          <textarea
-            ref={editRef}
-            value={editContent}
-            onChange={(e) => setEditContent(e.target.value)}
-            onBlur={handleEditComplete}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter' && e.shiftKey === false) {
-                e.preventDefault();
-                handleEditComplete();
-              }
-            }}
-            style={{
-              ...baseStyles,
-              resize: 'none',
-              border: 'none',
-              outline: 'none',
-              background: 'transparent',
-              fontFamily: 'inherit',
-              overflow: 'auto'
-            }}
-          />
-        ) : (
-          <div style={baseStyles}>
-            {component.content}
-          </div>
-        );
-        break;
-      
-      case 'button':
-        content = isEditing === component.id ? (
-          <textarea
-            ref={editRef}
-            value={editContent}
-            onChange={(e) => setEditContent(e.target.value)}
-            onBlur={handleEditComplete}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter') {
-                e.preventDefault();
-                handleEditComplete();
-              }
-            }}
-            style={{
-              ...baseStyles,
-              resize: 'none',
-              border: 'none',
-              outline: 'none',
-              background: 'transparent',
-              fontFamily: 'inherit',
-              textAlign: 'center',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center'
-            }}
-          />
-        ) : (
-          <button style={baseStyles} disabled={!isPreviewMode}>
-            {component.content}
-          </button>
-        );
-        break;
-      
-      case 'image':
-        content = (
-          <div style={baseStyles} className="flex items-center justify-center border-2 border-dashed border-gray-300 bg-gray-50">
-            <span className="text-gray-500 text-sm">Image Placeholder</span>
-          </div>
-        );
-        break;
-
-      case 'container':
-        content = (
-          <div style={baseStyles} className="flex items-center justify-center">
-            <span className="text-gray-400 text-sm">Container</span>
-          </div>
-        );
-        break;
+    const layout = component.layout;
+    const flexStyles: React.CSSProperties | null = layout?.mode === 'flex'
+      ? {
+          position: 'absolute',
+          inset: 0,
+          display: 'flex',
+          flexDirection: layout.direction,
+          gap: layout.gap,
+          alignItems: flexAlignment[layout.align],
+          justifyContent: flexAlignment[layout.justify],
+          flexWrap: layout.wrap ? 'wrap' : 'nowrap',
+          padding: layout.padding
+        }
+      : null;
 
-      case 'divider':
-        content = (
-          <hr style={baseStyles} />
-        );
-        break;
-      
-      default:
-        content = (
-          <div style={baseStyles}>
-            {component.content}
-          </div>
-        );
+    const definition = getComponentType(component.type);
+    let content;
+    if (isEditing === component.id && definition?.content) {
+      const { multiline } = definition.content;
+      content = (
+        <textarea
+          ref={editRef}
+          value={editContent}
+          onChange={(e) => setEditContent(e.target.value)}
+          onBlur={handleEditComplete}
+          onKeyDown={(e) => {
+            // Shift+Enter adds a line break in multi-line content
+            if (e.key === 'Enter' && !(multiline && e.shiftKey)) {
+              e.preventDefault();
+              handleEditComplete();
+            }
+          }}
+          style={{
+            ...baseStyles,
+            resize: 'none',
+            border: 'none',
+            outline: 'none',
+            background: 'transparent',
+            fontFamily: 'inherit',
+            overflow: 'auto',
+            ...(multiline ? {} : { textAlign: 'center' })
+          }}
+        />
+      );
+    } else if (definition) {
+      content = definition.render({
+        component,
+        props: readComponentProps(definition, component.props),
+        style: baseStyles as React.CSSProperties,
+        isPreviewMode,
+        hasChildren: children.length > 0
+      });
+    } else {
+      // Unknown types, e.g. from a custom module that is no longer installed
+      content = <div style={baseStyles}>{component.content}</div>;
     }
 
     return (
       <div
         key={component.id}
+        data-component-id={component.id}
         style={wrapperStyles}
         onClick={(e) => handleComponentClick(component.id, e)}
         onDoubleClick={(e) => handleComponentDoubleClick(component.id, e)}
@@ -769,6 +642,11 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
         onMouseDown={(e) => !component.locked && handleComponentDragStart(component.id, e)}
       >
         {content}
+
+        {/* Nested components */}
+        {definition?.isContainer && (flexStyles ? (
+          <div style={flexStyles}>{children.map(renderComponent)}</div>
+        ) : children.map(renderComponent))}
         
         {/* Selection Controls */}
         {isSelected && !isPreviewMode && (
@@ -841,8 +719,8 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
     );
   };
 
-  // Sort components by layer for proper rendering order
-  const sortedComponents = [...components].sort((a, b) => a.layer - b.layer);
+  // Top-level components, sorted by layer for proper rendering order
+  const rootComponents = getChildren(components, null);
 
   return (
     <div className="flex-1 overflow-auto bg-gray-100 p-8">
@@ -865,7 +743,7 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
         >
           {/* Canvas Content */}
           <div className="relative w-full h-full">
-            {sortedComponents.map(renderComponent)}
+            {rootComponents.map(renderComponent)}
             
             {/* Drop Zone Indicator */}
             {!isPreviewMode && components.length === 0 && (
@@ -903,7 +781,7 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
           {editorMode !== 'desktop' && (
             <div className="absolute -top-4 left-1/2 transform -translate-x-1/2">
               <div className="bg-gray-800 text-white px-3 py-1 rounded-full text-sm">
-                {editorMode.charAt(0).toUpperCase() + editorMode.slice(1)} Preview
+                {getBreakpointLabel(editorMode)} Preview
               </div>
             </div>
           )}
@@ -1018,9 +896,23 @@ const Canvas: React.FC<CanvasProps> = ({ editorMode, isPreviewMode, onContentCha
         <div className="flex justify-center mt-4">
           <div className="bg-white rounded-lg px-4 py-2 shadow-sm border border-gray-200 flex items-center space-x-4">
             <span className="text-sm text-gray-600">
-              {editorMode.charAt(0).toUpperCase() + editorMode.slice(1)} View • 
+              {getBreakpointLabel(editorMode)} View • 
               {components.length} component{components.length !== 1 ? 's' : ''}
             </span>
+            {editorMode !== 'desktop' && (
+              <label className="flex items-center space-x-1 text-xs text-gray-500">
+                <span>Width</span>
+                <input
+                  type="number"
+                  min={240}
+                  value={breakpointWidths[editorMode]}
+                  onChange={(e) => setBreakpointWidth(editorMode, parseInt(e.target.value, 10))}
+                  className="w-16 px-1 py-0.5 border border-gray-300 rounded text-xs"
+                  title={`Canvas width for the ${editorMode} breakpoint on this website`}
+                />
+                <span>px</span>
+              </label>
+            )}
             <div className="flex items-center space-x-2 text-xs text-gray-500">
               <span>History: {historyIndex + 1}/{history.length}</span>
               <button
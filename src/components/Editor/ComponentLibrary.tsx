@@ -1,209 +1,13 @@
 import React from 'react';
-import { Type, Image, Square, Layout, Video, Map, FileText, Users, Minus, Box, Grid, Layers } from 'lucide-react';
 import { motion } from 'framer-motion';
-
-interface ComponentItem {
-  id: string;
-  name: string;
-  icon: React.ReactNode;
-  category: 'Basic' | 'Media' | 'Layout' | 'Advanced' | 'Forms';
-  description: string;
-  preview?: string;
-}
+import { COMPONENT_CATEGORIES, ComponentTypeDefinition, getComponentTypes } from '../../lib/componentRegistry';
+import './componentTypes';
 
 const ComponentLibrary: React.FC = () => {
   const [activeCategory, setActiveCategory] = React.useState<string>('Basic');
   const [searchTerm, setSearchTerm] = React.useState('');
 
-  const categories = ['Basic', 'Layout', 'Media', 'Forms', 'Advanced'];
-
-  const components: ComponentItem[] = [
-    // Basic Components
-    { 
-      id: 'text', 
-      name: 'Text', 
-      icon: <Type className="h-5 w-5" />, 
-      category: 'Basic', 
-      description: 'Add text content with rich formatting',
-      preview: 'Lorem ipsum dolor sit amet...'
-    },
-    { 
-      id: 'heading', 
-      name: 'Heading', 
-      icon: <div className="font-bold text-lg">H</div>, 
-      category: 'Basic', 
-      description: 'Add headings and titles',
-      preview: 'Your Heading Here'
-    },
-    { 
-      id: 'button', 
-      name: 'Button', 
-      icon: <Square className="h-5 w-5" />, 
-      category: 'Basic', 
-      description: 'Interactive button with actions',
-      preview: 'Click Me'
-    },
-    { 
-      id: 'divider', 
-      name: 'Divider', 
-      icon: <Minus className="h-5 w-5" />, 
-      category: 'Basic', 
-      description: 'Horizontal line separator',
-      preview: '─────────'
-    },
-    
-    // Layout Components
-    { 
-      id: 'container', 
-      name: 'Container', 
-      icon: <Box className="h-5 w-5" />, 
-      category: 'Layout', 
-      description: 'Content container with padding',
-      preview: '□ Container'
-    },
-    { 
-      id: 'columns', 
-      name: 'Columns', 
-      icon: <Grid className="h-5 w-5" />, 
-      category: 'Layout', 
-      description: 'Multi-column layout',
-      preview: '║ ║ ║'
-    },
-    { 
-      id: 'hero', 
-      name: 'Hero Section', 
-      icon: <Layout className="h-5 w-5" />, 
-      category: 'Layout', 
-      description: 'Large banner section',
-      preview: 'Hero Banner'
-    },
-    { 
-      id: 'section', 
-      name: 'Section', 
-      icon: <Layers className="h-5 w-5" />, 
-      category: 'Layout', 
-      description: 'Content section wrapper',
-      preview: 'Section Block'
-    },
-    
-    // Media Components
-    { 
-      id: 'image', 
-      name: 'Image', 
-      icon: <Image className="h-5 w-5" />, 
-      category: 'Media', 
-      description: 'Add images and photos',
-      preview: '🖼️ Image'
-    },
-    { 
-      id: 'video', 
-      name: 'Video', 
-      icon: <Video className="h-5 w-5" />, 
-      category: 'Media', 
-      description: 'Embed videos from YouTube, Vimeo',
-      preview: '▶️ Video'
-    },
-    { 
-      id: 'gallery', 
-      name: 'Gallery', 
-      icon: <Grid className="h-5 w-5" />, 
-      category: 'Media', 
-      description: 'Image gallery with lightbox',
-      preview: '🖼️ 🖼️ 🖼️'
-    },
-    { 
-      id: 'icon', 
-      name: 'Icon', 
-      icon: <div className="text-lg">⭐</div>, 
-      category: 'Media', 
-      description: 'Icons and symbols',
-      preview: '⭐ Icon'
-    },
-    
-    // Form Components
-    { 
-      id: 'form', 
-      name: 'Contact Form', 
-      icon: <FileText className="h-5 w-5" />, 
-      category: 'Forms', 
-      description: 'Contact form with validation',
-      preview: '📝 Form'
-    },
-    { 
-      id: 'input', 
-      name: 'Input Field', 
-      icon: <div className="border-b-2 border-gray-400 w-4 h-3"></div>, 
-      category: 'Forms', 
-      description: 'Text input field',
-      preview: '[ Input ]'
-    },
-    { 
-      id: 'textarea', 
-      name: 'Text Area', 
-      icon: <div className="border border-gray-400 w-4 h-4"></div>, 
-      category: 'Forms', 
-      description: 'Multi-line text input',
-      preview: '[ Text Area ]'
-    },
-    { 
-      id: 'checkbox', 
-      name: 'Checkbox', 
-      icon: <div className="w-3 h-3 border border-gray-400 flex items-center justify-center text-xs">✓</div>, 
-      category: 'Forms', 
-      description: 'Checkbox input',
-      preview: '☑️ Option'
-    },
-    
-    // Advanced Components
-    { 
-      id: 'map', 
-      name: 'Map', 
-      icon: <Map className="h-5 w-5" />, 
-      category: 'Advanced', 
-      description: 'Interactive Google Maps',
-      preview: '🗺️ Map'
-    },
-    { 
-      id: 'testimonials', 
-      name: 'Testimonials', 
-      icon: <Users className="h-5 w-5" />, 
-      category: 'Advanced', 
-      description: 'Customer testimonials slider',
-      preview: '💬 Reviews'
-    },
-    { 
-      id: 'pricing', 
-      name: 'Pricing Table', 
-      icon: <div className="text-lg">$</div>, 
-      category: 'Advanced', 
-      description: 'Pricing plans comparison',
-      preview: '💰 Pricing'
-    },
-    { 
-      id: 'countdown', 
-      name: 'Countdown', 
-      icon: <div className="text-lg">⏰</div>, 
-      category: 'Advanced', 
-      description: 'Countdown timer',
-      preview: '⏰ Timer'
-    },
-    { 
-      id: 'social', 
-      name: 'Social Links', 
-      icon: <div className="text-lg">📱</div>, 
-      category: 'Advanced', 
-      description: 'Social media links',
-      preview: '📱 Social'
-    },
-    { 
-      id: 'blog', 
-      name: 'Blog Posts', 
-      icon: <FileText className="h-5 w-5" />, 
-      category: 'Advanced', 
-      description: 'Blog post listing',
-      preview: '📰 Blog'
-    }
-  ];
+  const components = getComponentTypes().filter(component => !component.hideFromLibrary);
 
   const filteredComponents = components.filter(component => {
     const matchesCategory = activeCategory === 'All' || component.category === activeCategory;
@@ -212,8 +16,9 @@ const ComponentLibrary: React.FC = () => {
     return matchesCategory && matchesSearch;
   });
 
-  const handleDragStart = (e: React.DragEvent, component: ComponentItem) => {
-    e.dataTransfer.setData('component', JSON.stringify(component));
+  const handleDragStart = (e: React.DragEvent, component: ComponentTypeDefinition<unknown>) => {
+    // The icon is a React element, so only send what the canvas needs
+    e.dataTransfer.setData('component', JSON.stringify({ id: component.type, name: component.name }));
     e.dataTransfer.effectAllowed = 'copy';
   };
 
@@ -232,7 +37,7 @@ const ComponentLibrary: React.FC = () => {
 
       {/* Category Tabs */}
       <div className="flex border-b border-gray-200 overflow-x-auto">
-        {categories.map(category => (
+        {COMPONENT_CATEGORIES.map(category => (
           <button
             key={category}
             onClick={() => setActiveCategory(category)}
@@ -258,7 +63,7 @@ const ComponentLibrary: React.FC = () => {
         ) : (
           filteredComponents.map((component, index) => (
             <motion.div
-              key={component.id}
+              key={component.type}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 0.3, delay: index * 0.05 }}
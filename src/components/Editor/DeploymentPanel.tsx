@@ -1,7 +1,14 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Rocket, CheckCircle, AlertCircle, Loader, ExternalLink, Copy, RefreshCw } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Rocket, CheckCircle, AlertCircle, Loader, ExternalLink, Copy, RefreshCw, RotateCcw } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { useDeployment, DeploymentStatus } from '../../hooks/useDeployment';
+import {
+  useDeployment,
+  DeploymentStatus,
+  DeploymentState,
+  DeploymentHistory,
+  isDeploymentActive,
+  parseBuildLog
+} from '../../hooks/useDeployment';
 import { useToast } from '../ui/use-toast';
 
 interface DeploymentPanelProps {
@@ -9,14 +16,34 @@ interface DeploymentPanelProps {
   onClose: () => void;
 }
 
+const statusLabels: Record<DeploymentState, string> = {
+  pending: 'Queued',
+  building: 'Building',
+  deployed: 'Deployed',
+  failed: 'Failed'
+};
+
 const DeploymentPanel: React.FC<DeploymentPanelProps> = ({ websiteId, onClose }) => {
-  const { deployWebsite, getDeploymentStatus, getLatestDeployment, loading } = useDeployment();
+  const {
+    deployWebsite,
+    getDeploymentStatus,
+    subscribeToDeployment,
+    getLatestDeployment,
+    getDeploymentHistory,
+    promoteDeployment,
+    loading
+  } = useDeployment();
   const { toast } = useToast();
   
   const [deploymentId, setDeploymentId] = useState<string | null>(null);
   const [deploymentStatus, setDeploymentStatus] = useState<DeploymentStatus | null>(null);
   const [isDeploying, setIsDeploying] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<DeploymentHistory>({ deployments: [], liveDeploymentId: null });
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+  const logRef = useRef<HTMLDivElement | null>(null);
+  // Deployment started from this panel, so its outcome is announced once
+  const announceRef = useRef<string | null>(null);
 
   const loadLatestDeployment = useCallback(async () => {
     try {
@@ -30,49 +57,73 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({ websiteId, onClose })
     }
   }, [websiteId, getLatestDeployment]);
 
+  const loadHistory = useCallback(async () => {
+    setHistory(await getDeploymentHistory(websiteId));
+  }, [websiteId, getDeploymentHistory]);
+
+  const handleStatusUpdate = useCallback((status: DeploymentStatus) => {
+    setDeploymentStatus(status);
+    if (isDeploymentActive(status.status)) return;
+
+    setIsDeploying(false);
+    loadHistory();
+    if (announceRef.current !== status.id) return;
+    announceRef.current = null;
+
+    if (status.status === 'deployed') {
+      toast({
+        title: "Deployment successful",
+        description: "Your website has been deployed successfully",
+      });
+    } else {
+      toast({
+        title: "Deployment failed",
+        description: "There was an error deploying your website",
+        variant: "destructive",
+      });
+    }
+  }, [toast, loadHistory]);
+
   const checkDeploymentStatus = useCallback(async (id: string) => {
     try {
       const status = await getDeploymentStatus(id);
       if (status) {
-        setDeploymentStatus(status);
-        
-        if (status.status !== 'in_progress') {
-          setIsDeploying(false);
-          
-          if (status.status === 'completed') {
-            toast({
-              title: "Deployment successful",
-              description: "Your website has been deployed successfully",
-            });
-          } else if (status.status === 'failed') {
-            toast({
-              title: "Deployment failed",
-              description: "There was an error deploying your website",
-              variant: "destructive",
-            });
-          }
-        }
+        handleStatusUpdate(status);
       }
     } catch (err) {
       console.error('Error checking deployment status:', err);
     }
-  }, [getDeploymentStatus, toast]);
+  }, [getDeploymentStatus, handleStatusUpdate]);
 
   // Load latest deployment on mount
   useEffect(() => {
     loadLatestDeployment();
-  }, [loadLatestDeployment]);
+    loadHistory();
+  }, [loadLatestDeployment, loadHistory]);
+
+  const isActive = isDeploying || (!!deploymentStatus && isDeploymentActive(deploymentStatus.status));
 
-  // Poll for status updates when deploying
+  // Follow the build live, polling as well in case realtime is unavailable
   useEffect(() => {
-    if (deploymentId && (isDeploying || deploymentStatus?.status === 'in_progress')) {
-      const interval = setInterval(() => {
-        checkDeploymentStatus(deploymentId);
-      }, 2000);
-      
-      return () => clearInterval(interval);
-    }
-  }, [deploymentId, isDeploying, deploymentStatus, checkDeploymentStatus]);
+    if (!deploymentId || !isActive) return;
+
+    const unsubscribe = subscribeToDeployment(deploymentId, handleStatusUpdate);
+    const interval = setInterval(() => {
+      checkDeploymentStatus(deploymentId);
+    }, 3000);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [deploymentId, isActive, subscribeToDeployment, handleStatusUpdate, checkDeploymentStatus]);
+
+  const buildLog = parseBuildLog(deploymentStatus?.build_log ?? null);
+
+  // Keep the newest log line in view
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight });
+  }, [buildLog.length]);
 
   const handleDeploy = async () => {
     try {
@@ -82,7 +133,9 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({ websiteId, onClose })
       const result = await deployWebsite(websiteId);
       
       if (result.success && result.data?.deploymentId) {
+        announceRef.current = result.data.deploymentId;
         setDeploymentId(result.data.deploymentId);
+        await checkDeploymentStatus(result.data.deploymentId);
         toast({
           title: "Deployment started",
           description: "Your website is being deployed",
@@ -108,6 +161,26 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({ websiteId, onClose })
     }
   };
 
+  const handlePromote = async (id: string) => {
+    setPromotingId(id);
+    const result = await promoteDeployment(id);
+    setPromotingId(null);
+
+    if (result.success) {
+      setHistory((current) => ({ ...current, liveDeploymentId: id }));
+      toast({
+        title: "Deployment promoted",
+        description: "Production is now serving this deployment",
+      });
+    } else {
+      toast({
+        title: "Promote failed",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast({
@@ -120,10 +193,10 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({ websiteId, onClose })
     return new Date(dateString).toLocaleString();
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: DeploymentState) => {
     switch (status) {
-      case 'completed': return 'text-green-600 bg-green-100';
-      case 'in_progress': return 'text-blue-600 bg-blue-100';
+      case 'deployed': return 'text-green-600 bg-green-100';
+      case 'building': return 'text-blue-600 bg-blue-100';
       case 'failed': return 'text-red-600 bg-red-100';
       case 'pending': return 'text-yellow-600 bg-yellow-100';
       default: return 'text-gray-600 bg-gray-100';
@@ -167,7 +240,7 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({ websiteId, onClose })
                 <div className="flex items-center justify-between mb-4">
                   <div className="flex items-center">
                     <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(deploymentStatus.status)}`}>
-                      {deploymentStatus.status.charAt(0).toUpperCase() + deploymentStatus.status.slice(1)}
+                      {statusLabels[deploymentStatus.status] ?? deploymentStatus.status}
                     </span>
                   </div>
                   <span className="text-sm text-gray-500">
@@ -175,17 +248,21 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({ websiteId, onClose })
                   </span>
                 </div>
                 
-                {deploymentStatus.status === 'in_progress' && (
+                {isDeploymentActive(deploymentStatus.status) && (
                   <div className="flex items-center justify-center py-6">
                     <div className="flex flex-col items-center">
                       <Loader className="h-8 w-8 text-blue-600 animate-spin mb-3" />
-                      <p className="text-blue-600 font-medium">Deploying your website...</p>
-                      <p className="text-sm text-gray-500 mt-1">This may take a few moments</p>
+                      <p className="text-blue-600 font-medium">
+                        {deploymentStatus.status === 'pending' ? 'Waiting to start...' : 'Building your website...'}
+                      </p>
+                      <p className="text-sm text-gray-500 mt-1">
+                        {buildLog.length > 0 ? buildLog[buildLog.length - 1].message : 'This may take a few moments'}
+                      </p>
                     </div>
                   </div>
                 )}
                 
-                {deploymentStatus.status === 'completed' && deploymentStatus.deployment_url && (
+                {deploymentStatus.status === 'deployed' && deploymentStatus.deployment_url && (
                   <div className="space-y-4">
                     <div>
                       <h5 className="text-sm font-medium text-gray-700 mb-2">Deployment URL</h5>
@@ -265,23 +342,47 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({ websiteId, onClose })
                     <div>
                       <p className="text-red-800 font-medium">Deployment Failed</p>
                       <p className="text-sm text-red-700 mt-1">
-                        There was an error deploying your website. Please try again or contact support.
+                        There was an error deploying your website. Check the build log below, then try again or contact support.
                       </p>
                     </div>
                   </div>
                 )}
+
+                {buildLog.length > 0 && (
+                  <div className="mt-4">
+                    <h5 className="text-sm font-medium text-gray-700 mb-2">Build Log</h5>
+                    <div
+                      ref={logRef}
+                      className="bg-gray-900 text-gray-100 rounded-lg p-3 font-mono text-xs max-h-48 overflow-y-auto space-y-1"
+                    >
+                      {buildLog.map((line, index) => (
+                        <div key={index} className="flex">
+                          {line.time && (
+                            <span className="text-gray-500 mr-3 flex-shrink-0">
+                              {new Date(line.time).toLocaleTimeString()}
+                            </span>
+                          )}
+                          <span className="break-all">{line.message}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
               
               <div className="mt-6 flex justify-between">
                 <button
-                  onClick={loadLatestDeployment}
+                  onClick={() => {
+                    loadLatestDeployment();
+                    loadHistory();
+                  }}
                   className="flex items-center text-blue-600 hover:text-blue-800"
                 >
                   <RefreshCw className="h-4 w-4 mr-2" />
                   Refresh Status
                 </button>
                 
-                {deploymentStatus.status !== 'in_progress' && (
+                {!isDeploymentActive(deploymentStatus.status) && (
                   <button
                     onClick={handleDeploy}
                     disabled={isDeploying || loading}
@@ -338,10 +439,65 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({ websiteId, onClose })
           <div className="border-t border-gray-200 pt-6">
             <h4 className="text-sm font-medium text-gray-700 mb-2">Deployment History</h4>
             
-            {/* In a real app, this would show actual deployment history */}
-            <div className="text-center py-6 text-gray-500">
-              <p>Deployment history will appear here</p>
-            </div>
+            {history.deployments.length === 0 ? (
+              <div className="text-center py-6 text-gray-500">
+                <p>Deployments will appear here</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {history.deployments.map((deployment) => {
+                  const isLive = deployment.id === history.liveDeploymentId;
+                  const canPromote = !isLive && deployment.status === 'deployed' && !!deployment.artifact_path;
+                  return (
+                    <div key={deployment.id} className="flex items-center justify-between p-3">
+                      <div className="min-w-0">
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm font-medium text-gray-900">
+                            {deployment.version ? `Version ${deployment.version.version_number}` : 'Deleted version'}
+                          </span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(deployment.status)}`}>
+                            {statusLabels[deployment.status] ?? deployment.status}
+                          </span>
+                          {isLive && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium text-purple-700 bg-purple-100">
+                              Live
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {deployment.deployer?.full_name || deployment.deployer?.email || 'Unknown'} · {formatDate(deployment.deployed_at)}
+                        </p>
+                        {deployment.deployment_url && deployment.status === 'deployed' && (
+                          <a
+                            href={deployment.deployment_url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-xs text-blue-600 hover:text-blue-800 break-all"
+                          >
+                            {deployment.deployment_url}
+                          </a>
+                        )}
+                      </div>
+                      {canPromote && (
+                        <button
+                          onClick={() => handlePromote(deployment.id)}
+                          disabled={promotingId !== null}
+                          className="flex items-center ml-3 px-3 py-1.5 text-sm text-purple-700 border border-purple-200 rounded-lg hover:bg-purple-50 disabled:opacity-50 flex-shrink-0"
+                          title="Serve this deployment in production again"
+                        >
+                          {promotingId === deployment.id ? (
+                            <Loader className="h-4 w-4 animate-spin mr-1" />
+                          ) : (
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                          )}
+                          Promote
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </div>
         </div>
       </motion.div>
@@ -1,68 +1,145 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Globe, CheckCircle, AlertCircle, ExternalLink, Copy, RefreshCw } from 'lucide-react';
+import { Globe, CheckCircle, AlertCircle, ExternalLink, Copy, RefreshCw, Clock, XCircle, Lock, Star, Trash2 } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { useDomains } from '../../hooks/useDomains';
+import { useDomains, DomainCertificate, DomainVerification, WebsiteDomain } from '../../hooks/useDomains';
+import { DomainInstructions, DomainRedirect, DomainStatus, redirectTarget, wwwCounterpart } from '../../lib/domainRecords';
 import { useToast } from '../ui/use-toast';
+import UpgradePrompt from '../Billing/UpgradePrompt';
+import SubdomainPicker from './SubdomainPicker';
 
 interface DomainSettingsProps {
   website: {
     id: string;
     name: string;
     domain?: string;
+    subdomain: string;
     status: 'draft' | 'published';
   };
   onClose: () => void;
+  // Called with the new primary domain after domains are added or removed
+  onDomainChange?: (primaryDomain?: string) => void;
+  onSubdomainChange?: (subdomain: string) => void;
 }
 
-interface DomainStatus {
-  dns: {
-    configured: boolean;
-  };
-  ssl: {
-    configured: boolean;
-    validUntil?: string;
-  };
-}
+const statusStyles: Record<DomainStatus, { label: string; box: string; text: string; icon: React.ReactNode }> = {
+  pending: {
+    label: 'Waiting for DNS',
+    box: 'bg-yellow-50 border-yellow-200',
+    text: 'text-yellow-800',
+    icon: <Clock className="h-5 w-5 text-yellow-600 mr-2" />,
+  },
+  verified: {
+    label: 'Ownership Verified',
+    box: 'bg-blue-50 border-blue-200',
+    text: 'text-blue-800',
+    icon: <CheckCircle className="h-5 w-5 text-blue-600 mr-2" />,
+  },
+  active: {
+    label: 'Domain Active',
+    box: 'bg-green-50 border-green-200',
+    text: 'text-green-800',
+    icon: <CheckCircle className="h-5 w-5 text-green-600 mr-2" />,
+  },
+  failed: {
+    label: 'Verification Failed',
+    box: 'bg-red-50 border-red-200',
+    text: 'text-red-800',
+    icon: <XCircle className="h-5 w-5 text-red-600 mr-2" />,
+  },
+};
 
-interface DomainInstructions {
-  instructions: {
-    steps: string[];
-  };
-  dnsRecords: Array<{
-    type: string;
-    name: string;
-    value: string;
-    ttl: string;
-  }>;
-}
+const certificateSummary = (certificate: DomainCertificate | null) => {
+  if (!certificate || certificate.locked_at) {
+    return { label: 'Issuing certificate...', text: 'text-yellow-800', detail: null };
+  }
+  switch (certificate.status) {
+    case 'issued':
+      return {
+        label: certificate.expires_at
+          ? `Active until ${new Date(certificate.expires_at).toLocaleDateString()}`
+          : 'Active',
+        text: 'text-green-800',
+        detail: certificate.last_error ? `Last renewal attempt failed: ${certificate.last_error}` : null,
+      };
+    case 'expired':
+      return { label: 'Expired', text: 'text-red-800', detail: certificate.last_error };
+    case 'failed':
+      return { label: 'Issuance failed', text: 'text-red-800', detail: certificate.last_error };
+    default:
+      return { label: 'Pending', text: 'text-yellow-800', detail: null };
+  }
+};
 
-const DomainSettings: React.FC<DomainSettingsProps> = ({ website, onClose }) => {
-  const { connectCustomDomain, disconnectDomain, getDomainStatus, loading } = useDomains();
+const DomainSettings: React.FC<DomainSettingsProps> = ({ website, onClose, onDomainChange, onSubdomainChange }) => {
+  const {
+    getDomains,
+    connectCustomDomain,
+    removeDomain,
+    setPrimaryDomain,
+    setDomainRedirect,
+    verifyDomain,
+    getCertificates,
+    loading,
+  } = useDomains();
   const { toast } = useToast();
   
-  const [customDomain, setCustomDomain] = useState(website.domain || '');
+  const [customDomain, setCustomDomain] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [domainStatus, setDomainStatus] = useState<DomainStatus | null>(null);
+  const [domains, setDomains] = useState<WebsiteDomain[]>([]);
+  const [verification, setVerification] = useState<DomainVerification | null>(null);
+  const [verifyError, setVerifyError] = useState<string | null>(null);
   const [showInstructions, setShowInstructions] = useState(false);
   const [domainInstructions, setDomainInstructions] = useState<DomainInstructions | null>(null);
   const [checkingStatus, setCheckingStatus] = useState(false);
+  const [certificates, setCertificates] = useState<Record<string, DomainCertificate>>({});
 
-  const checkDomainStatus = useCallback(async (domain: string) => {
+  const loadDomains = useCallback(async () => {
+    const [domainsResult, certificatesResult] = await Promise.all([
+      getDomains(website.id),
+      getCertificates(website.id),
+    ]);
+
+    if (domainsResult.success) {
+      const loaded = domainsResult.data ?? [];
+      setDomains(loaded);
+      onDomainChange?.(loaded.find((domain) => domain.is_primary)?.domain);
+    } else {
+      setVerifyError(domainsResult.error || 'Failed to load domains');
+    }
+
+    if (certificatesResult.success) {
+      setCertificates(
+        Object.fromEntries((certificatesResult.data ?? []).map((certificate) => [certificate.domain, certificate]))
+      );
+    }
+  }, [getDomains, getCertificates, onDomainChange, website.id]);
+
+  const checkDomainStatus = useCallback(async () => {
       setCheckingStatus(true);
-      const result = await getDomainStatus(domain);
+      const result = await verifyDomain(website.id);
       setCheckingStatus(false);
-      
-      // Use a type assertion to inform TypeScript about the expected structure
-      if (result.success && (result.data as { status?: DomainStatus })?.status) {
-        setDomainStatus((result.data as { status: DomainStatus }).status);
+
+      if (result.success && result.data) {
+        setVerification(result.data);
+        setVerifyError(null);
+      } else {
+        setVerifyError(result.error || 'Failed to check domain status');
       }
-    }, [getDomainStatus]);
+
+      // Statuses are stored by the check, and active domains get their
+      // certificates from it
+      await loadDomains();
+    }, [verifyDomain, loadDomains, website.id]);
 
   useEffect(() => {
     if (website.domain) {
-      checkDomainStatus(website.domain);
+      checkDomainStatus();
+    } else {
+      loadDomains();
     }
-  }, [website.domain, checkDomainStatus]);
+    // Only on open; the handlers below refresh after each change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [website.id]);
 
   const validateDomain = () => {
     if (!customDomain) {
@@ -100,6 +177,10 @@ const DomainSettings: React.FC<DomainSettingsProps> = ({ website, onClose }) =>
         setDomainInstructions((result.data as { domainInstructions: DomainInstructions }).domainInstructions);
         setShowInstructions(true);
       }
+      setCustomDomain('');
+      await loadDomains();
+    } else if (result.entitlement) {
+      setErrors({ plan: result.error || 'Your plan does not include more custom domains' });
     } else {
       setErrors({ domain: result.error || 'Failed to connect domain' });
       toast({
@@ -110,24 +191,55 @@ const DomainSettings: React.FC<DomainSettingsProps> = ({ website, onClose }) =>
     }
   };
 
-  const handleDisconnect = async () => {
-    if (!website.domain) return;
-    
-    const result = await disconnectDomain(website.id);
+  const handleRemove = async (domain: WebsiteDomain) => {
+    const result = await removeDomain(domain.id);
     
     if (result.success) {
-      setCustomDomain('');
-      setDomainStatus(null);
-      setDomainInstructions(null);
-      setShowInstructions(false);
+      if (domainInstructions?.domain === domain.domain) {
+        setDomainInstructions(null);
+        setShowInstructions(false);
+      }
+      await loadDomains();
       
       toast({
-        title: "Domain disconnected",
+        title: "Domain removed",
         description: result.message,
       });
     } else {
       toast({
-        title: "Disconnection failed",
+        title: "Removal failed",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMakePrimary = async (domain: WebsiteDomain) => {
+    const result = await setPrimaryDomain(domain.id);
+
+    if (result.success) {
+      await loadDomains();
+      toast({
+        title: "Primary domain changed",
+        description: `Your website is now served on ${domain.domain}`,
+      });
+    } else {
+      toast({
+        title: "Update failed",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRedirectChange = async (domain: WebsiteDomain, redirect: DomainRedirect) => {
+    const result = await setDomainRedirect(domain.id, redirect);
+
+    if (result.success) {
+      await loadDomains();
+    } else {
+      toast({
+        title: "Update failed",
         description: result.error,
         variant: "destructive",
       });
@@ -142,10 +254,143 @@ const DomainSettings: React.FC<DomainSettingsProps> = ({ website, onClose }) =>
     });
   };
 
-  const getDefaultSubdomain = () => {
-    const websiteName = website.name.toLowerCase().replace(/[^a-z0-9]/g, '-');
-    const websiteId = website.id.substring(0, 8);
-    return `${websiteName}-${websiteId}.ncbx.app`;
+  const renderDomain = (domain: WebsiteDomain) => {
+    const style = statusStyles[domain.status];
+    const check = verification?.domains.find((result) => result.domain === domain.domain);
+    const target = redirectTarget(domain, domains);
+    const hasCounterpart = domains.some((other) => other.domain === wwwCounterpart(domain.domain));
+    const ssl = certificateSummary(certificates[domain.domain] ?? null);
+
+    return (
+      <div key={domain.id} className={`p-4 rounded-lg border ${style.box}`}>
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center">
+            {style.icon}
+            <span className={`font-medium ${style.text}`}>
+              {checkingStatus && !verification ? 'Checking DNS...' : style.label}
+            </span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => copyToClipboard(`https://${domain.domain}`)}
+              className="p-1 hover:bg-white/60 rounded"
+              title="Copy URL"
+            >
+              <Copy className={`h-4 w-4 ${style.text}`} />
+            </button>
+            <a
+              href={`https://${domain.domain}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="p-1 hover:bg-white/60 rounded"
+              title="Open website"
+            >
+              <ExternalLink className={`h-4 w-4 ${style.text}`} />
+            </a>
+            <button
+              onClick={() => handleRemove(domain)}
+              disabled={loading}
+              className="p-1 hover:bg-white/60 rounded disabled:opacity-50"
+              title="Remove domain"
+            >
+              <Trash2 className="h-4 w-4 text-red-600" />
+            </button>
+          </div>
+        </div>
+
+        <div className={`font-medium break-all ${style.text}`}>
+          https://{domain.domain}
+          {domain.is_primary && (
+            <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-white text-gray-700 border border-gray-200">
+              Primary
+            </span>
+          )}
+        </div>
+        {domain.failure_reason && (
+          <p className={`text-sm mt-2 ${style.text}`}>{domain.failure_reason}</p>
+        )}
+
+        {!domain.is_primary && (
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+            <label htmlFor={`redirect-${domain.id}`} className="text-gray-700">
+              Redirects to
+            </label>
+            <select
+              id={`redirect-${domain.id}`}
+              value={domain.redirect ?? 'primary'}
+              onChange={(e) => handleRedirectChange(domain, e.target.value as DomainRedirect)}
+              disabled={loading}
+              className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="primary">the primary domain (301)</option>
+              {(hasCounterpart || domain.redirect === 'apex_www') && (
+                <option value="apex_www">{wwwCounterpart(domain.domain)} (301)</option>
+              )}
+            </select>
+            {target && <span className="text-xs text-gray-600">Visitors land on {target}</span>}
+            <button
+              onClick={() => handleMakePrimary(domain)}
+              disabled={loading}
+              className="ml-auto text-blue-600 hover:text-blue-800 text-xs flex items-center disabled:opacity-50"
+            >
+              <Star className="h-3 w-3 mr-1" />
+              Make primary
+            </button>
+          </div>
+        )}
+
+        {check && domain.status !== 'active' && (
+          <div className="mt-3 space-y-3 bg-white p-3 rounded-lg border border-gray-200">
+            {check.records.map((record) => (
+              <div key={`${record.type}-${record.name}`} className="text-xs">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900">
+                    {record.type} <span className="font-mono font-normal text-gray-600">{record.name}</span>
+                  </span>
+                  {record.ok ? (
+                    <span className="font-medium px-2 py-1 rounded-full bg-green-100 text-green-800">Found</span>
+                  ) : (
+                    <span className="font-medium px-2 py-1 rounded-full bg-yellow-100 text-yellow-800">Not found</span>
+                  )}
+                </div>
+                <div className="mt-1 text-gray-600 flex items-center">
+                  <span className="mr-1">Expected:</span>
+                  <span className="font-mono break-all">{record.expected}</span>
+                  <button
+                    onClick={() => copyToClipboard(record.expected)}
+                    className="ml-1 text-blue-600 hover:text-blue-800"
+                    title="Copy value"
+                  >
+                    <Copy className="h-3 w-3" />
+                  </button>
+                </div>
+                {!record.ok && record.found.length > 0 && (
+                  <div className="text-gray-600">
+                    Found: <span className="font-mono break-all">{record.found.join(', ')}</span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {domain.status === 'active' && (
+          <div className="mt-3 bg-white p-3 rounded-lg border border-gray-200">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-900 flex items-center">
+                <Lock className="h-4 w-4 mr-2 text-gray-600" />
+                SSL Certificate
+              </span>
+              <span className={`font-medium ${ssl.text}`}>{ssl.label}</span>
+            </div>
+            {ssl.detail && <p className="text-xs text-gray-600 mt-2">{ssl.detail}</p>}
+            {certificates[domain.domain]?.status === 'issued' && certificates[domain.domain].issuer && (
+              <p className="text-xs text-gray-500 mt-2">Issued by {certificates[domain.domain].issuer}</p>
+            )}
+          </div>
+        )}
+      </div>
+    );
   };
 
   return (
@@ -169,176 +414,89 @@ const DomainSettings: React.FC<DomainSettingsProps> = ({ website, onClose }) =>
             </button>
           </div>
 
-          {/* Default Subdomain */}
+          {/* Subdomain */}
           <div className="mb-6">
-            <h4 className="text-sm font-medium text-gray-700 mb-2">Default Subdomain</h4>
-            <div className="bg-gray-50 p-4 rounded-lg">
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm text-gray-600">Your website is available at:</span>
-                <div className="flex items-center space-x-2">
-                  <button
-                    onClick={() => copyToClipboard(`https://${getDefaultSubdomain()}`)}
-                    className="p-1 hover:bg-gray-200 rounded"
-                    title="Copy URL"
-                  >
-                    <Copy className="h-4 w-4 text-gray-600" />
-                  </button>
-                  <a
-                    href={`https://${getDefaultSubdomain()}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="p-1 hover:bg-gray-200 rounded"
-                    title="Open website"
-                  >
-                    <ExternalLink className="h-4 w-4 text-gray-600" />
-                  </a>
-                </div>
-              </div>
-              <div className="text-blue-600 font-medium break-all">
-                https://{getDefaultSubdomain()}
-              </div>
-            </div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Subdomain</h4>
+            <SubdomainPicker
+              websiteId={website.id}
+              subdomain={website.subdomain}
+              onChange={onSubdomainChange}
+            />
           </div>
 
-          {/* Custom Domain */}
+          {/* Custom Domains */}
           <div className="mb-6">
-            <h4 className="text-sm font-medium text-gray-700 mb-2">Custom Domain</h4>
-            
-            {website.domain ? (
-              <div className="space-y-4">
-                <div className="bg-green-50 p-4 rounded-lg border border-green-200">
-                  <div className="flex items-center justify-between mb-2">
-                    <div className="flex items-center">
-                      <CheckCircle className="h-5 w-5 text-green-600 mr-2" />
-                      <span className="font-medium text-green-800">Domain Connected</span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => copyToClipboard(`https://${website.domain}`)}
-                        className="p-1 hover:bg-green-100 rounded"
-                        title="Copy URL"
-                      >
-                        <Copy className="h-4 w-4 text-green-600" />
-                      </button>
-                      <a
-                        href={`https://${website.domain}`}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="p-1 hover:bg-green-100 rounded"
-                        title="Open website"
-                      >
-                        <ExternalLink className="h-4 w-4 text-green-600" />
-                      </a>
-                    </div>
-                  </div>
-                  <div className="text-green-800 font-medium break-all">
-                    https://{website.domain}
-                  </div>
-                </div>
-
-                {domainStatus && (
-                  <div className="bg-white p-4 rounded-lg border border-gray-200">
-                    <h5 className="text-sm font-medium text-gray-900 mb-3 flex items-center justify-between">
-                      <span>Domain Status</span>
-                      <button
-                        onClick={() => checkDomainStatus(website.domain!)}
-                        disabled={checkingStatus}
-                        className="text-blue-600 hover:text-blue-800 text-xs flex items-center"
-                      >
-                        {checkingStatus ? (
-                          <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
-                        ) : (
-                          <RefreshCw className="h-3 w-3 mr-1" />
-                        )}
-                        Refresh
-                      </button>
-                    </h5>
-                    
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm text-gray-600">DNS Configuration</span>
-                        <span className={`text-xs font-medium px-2 py-1 rounded-full ${
-                          domainStatus.dns.configured 
-                            ? 'bg-green-100 text-green-800' 
-                            : 'bg-yellow-100 text-yellow-800'
-                        }`}>
-                          {domainStatus.dns.configured ? 'Configured' : 'Pending'}
-                        </span>
-                      </div>
-                      
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm text-gray-600">SSL Certificate</span>
-                        <span className={`text-xs font-medium px-2 py-1 rounded-full ${
-                          domainStatus.ssl.configured 
-                            ? 'bg-green-100 text-green-800' 
-                            : 'bg-yellow-100 text-yellow-800'
-                        }`}>
-                          {domainStatus.ssl.configured ? 'Active' : 'Pending'}
-                        </span>
-                      </div>
-                      
-                      {domainStatus.ssl.validUntil && (
-                        <div className="text-xs text-gray-500">
-                          SSL certificate valid until {new Date(domainStatus.ssl.validUntil).toLocaleDateString()}
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                )}
-
+            <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center justify-between">
+              <span>Custom Domains</span>
+              {domains.length > 0 && (
                 <button
-                  onClick={handleDisconnect}
-                  disabled={loading}
-                  className="w-full bg-red-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+                  onClick={checkDomainStatus}
+                  disabled={checkingStatus}
+                  className="text-blue-600 hover:text-blue-800 text-xs flex items-center"
                 >
-                  {loading ? (
-                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-                  ) : (
-                    'Disconnect Domain'
-                  )}
+                  <RefreshCw className={`h-3 w-3 mr-1 ${checkingStatus ? 'animate-spin' : ''}`} />
+                  Check now
                 </button>
-              </div>
-            ) : (
-              <div className="space-y-4">
-                <div className="bg-white p-4 rounded-lg border border-gray-200">
-                  <p className="text-sm text-gray-600 mb-4">
-                    Connect your own domain to give your website a professional look.
-                  </p>
-                  
-                  <div>
-                    <label htmlFor="customDomain" className="block text-sm font-medium text-gray-700 mb-2">
-                      Domain Name
-                    </label>
-                    <input
-                      id="customDomain"
-                      type="text"
-                      value={customDomain}
-                      onChange={(e) => setCustomDomain(e.target.value)}
-                      placeholder="example.com"
-                      className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                        errors.domain ? 'border-red-300' : 'border-gray-300'
-                      }`}
-                    />
-                    {errors.domain && <p className="mt-1 text-sm text-red-600">{errors.domain}</p>}
-                    <p className="mt-1 text-xs text-gray-500">
-                      Enter your domain without http:// or https://
-                    </p>
-                  </div>
+              )}
+            </h4>
+
+            <div className="space-y-4">
+              {verifyError && (
+                <p className="text-sm text-red-600">{verifyError}</p>
+              )}
+
+              {domains.map(renderDomain)}
+
+              {verification && (
+                <div className="text-xs text-gray-500">
+                  Last checked {new Date(verification.checkedAt).toLocaleString()}
                 </div>
+              )}
 
-                <button
-                  onClick={handleConnect}
-                  disabled={loading}
-                  className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center"
-                >
-                  {loading ? (
-                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-                  ) : (
-                    'Connect Domain'
-                  )}
-                </button>
+              <div className="bg-white p-4 rounded-lg border border-gray-200">
+                <p className="text-sm text-gray-600 mb-4">
+                  {domains.length === 0
+                    ? 'Connect your own domain to give your website a professional look.'
+                    : 'Add another domain, such as the www version or an old domain. It redirects to your primary domain.'}
+                </p>
+                
+                <div>
+                  <label htmlFor="customDomain" className="block text-sm font-medium text-gray-700 mb-2">
+                    Domain Name
+                  </label>
+                  <input
+                    id="customDomain"
+                    type="text"
+                    value={customDomain}
+                    onChange={(e) => setCustomDomain(e.target.value)}
+                    placeholder={domains.length === 0 ? 'example.com' : `www.${domains[0].domain.replace(/^www\./, '')}`}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                      errors.domain ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.domain && <p className="mt-1 text-sm text-red-600">{errors.domain}</p>}
+                  <p className="mt-1 text-xs text-gray-500">
+                    Enter your domain without http:// or https://
+                  </p>
+                </div>
               </div>
-            )}
+
+              {errors.plan && <UpgradePrompt message={errors.plan} />}
+
+              <button
+                onClick={handleConnect}
+                disabled={loading}
+                className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+              >
+                {loading ? (
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                ) : domains.length === 0 ? (
+                  'Connect Domain'
+                ) : (
+                  'Add Domain'
+                )}
+              </button>
+            </div>
           </div>
 
           {/* Domain Setup Instructions */}
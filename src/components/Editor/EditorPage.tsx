@@ -1,19 +1,31 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { 
   Monitor, Tablet, Smartphone, Eye, Save, Undo, Redo, 
   Settings, Users, Share2, ArrowLeft, CheckCircle, AlertCircle,
-  Layers, Globe, Rocket
+  Layers, Globe, Rocket, ListTree, Download, CornerUpRight, FileX
 } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { ZodError } from 'zod';
 import { useAppStore } from '../../store/useAppStore';
+import {
+  useEditorStore,
+  defaultComponents,
+  defaultNotFoundComponents,
+  parseEditorComponents,
+  parseNotFoundComponents,
+  parseEditorSettings
+} from '../../store/useEditorStore';
 import { useWebsites } from '../../hooks/useWebsites';
+import { compileSite } from '../../lib/siteCompiler';
 import ComponentLibrary from './ComponentLibrary';
 import Canvas from './Canvas';
 import PropertiesPanel from './PropertiesPanel';
+import LayersPanel from './LayersPanel';
 import CollaborationPanel from './CollaborationPanel';
 import PublishModal from './PublishModal';
 import VersionHistoryPanel from './VersionHistoryPanel';
 import DomainSettings from './DomainSettings';
+import RedirectSettings from './RedirectSettings';
 import DeploymentPanel from './DeploymentPanel';
 import { useToast } from '../ui/use-toast';
 
@@ -22,8 +34,21 @@ interface EditorContent extends Record<string, unknown> {
   components?: unknown[];
   styles?: Record<string, unknown>;
   layout?: Record<string, unknown>;
+  settings?: Record<string, unknown>;
+  // The custom 404 page; left out when the website uses the default one
+  notFoundPage?: { components: unknown[] };
 }
 
+// What was last loaded or saved, compared by reference to spot unsaved edits
+interface SavedContent {
+  components: unknown;
+  notFoundComponents: unknown;
+  breakpoints: unknown;
+}
+
+// The canvas shows one page at a time
+type EditorPageName = 'home' | 'notFound';
+
 const EditorPage: React.FC = () => {
   const { 
     currentWebsite, 
@@ -38,16 +63,22 @@ const EditorPage: React.FC = () => {
   const { 
     publishWebsite, 
     unpublishWebsite, 
-    saveWebsiteVersion 
+    saveWebsiteVersion,
+    getLatestWebsiteVersion,
+    publishWebsiteVersion
   } = useWebsites();
 
+  const { undo, redo, historyIndex, history, loadComponents, setBreakpoint } = useEditorStore();
+
   const { toast } = useToast();
 
   const [showComponentLibrary, setShowComponentLibrary] = useState(true);
   const [showPropertiesPanel, setShowPropertiesPanel] = useState(true);
   const [showCollaborationPanel, setShowCollaborationPanel] = useState(false);
   const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [showLayersPanel, setShowLayersPanel] = useState(false);
   const [showDomainSettings, setShowDomainSettings] = useState(false);
+  const [showRedirectSettings, setShowRedirectSettings] = useState(false);
   const [showDeploymentPanel, setShowDeploymentPanel] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isPublishing, setIsPublishing] = useState(false);
@@ -56,6 +87,79 @@ const EditorPage: React.FC = () => {
   const [showPublishModal, setShowPublishModal] = useState(false);
   const [editorContent, setEditorContent] = useState<EditorContent>({});
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [isLoadingContent, setIsLoadingContent] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const savedContentRef = useRef<SavedContent | null>(null);
+  const [activePage, setActivePage] = useState<EditorPageName>('home');
+  // Read by handleContentChange, which the canvas keeps for its lifetime
+  const activePageRef = useRef<EditorPageName>('home');
+  // Components of the page not on the canvas: the 404 page (null when there
+  // is none) while editing the home page, and the home page otherwise
+  const inactivePageRef = useRef<unknown[] | null>(null);
+
+  const websiteId = currentWebsite?.id;
+
+  const showPage = useCallback((page: EditorPageName, inactiveComponents: unknown[] | null) => {
+    activePageRef.current = page;
+    inactivePageRef.current = inactiveComponents;
+    setActivePage(page);
+  }, []);
+
+  const loadWebsiteContent = useCallback(async () => {
+    if (!websiteId) return;
+
+    try {
+      setIsLoadingContent(true);
+      setLoadError(null);
+
+      const latestVersion = await getLatestWebsiteVersion(websiteId);
+      const components = (latestVersion && parseEditorComponents(latestVersion.content)) || defaultComponents;
+
+      const notFoundComponents = latestVersion ? parseNotFoundComponents(latestVersion.content) : null;
+
+      const { breakpoints } = parseEditorSettings(latestVersion?.content);
+
+      savedContentRef.current = { components, notFoundComponents, breakpoints };
+      showPage('home', notFoundComponents);
+      loadComponents(components, breakpoints);
+      setHasUnsavedChanges(false);
+      setLastSaved(latestVersion ? new Date(latestVersion.created_at) : null);
+    } catch (error) {
+      console.error('Failed to load website content:', error);
+      setLoadError(
+        error instanceof ZodError
+          ? 'The saved content for this website could not be read'
+          : error instanceof Error ? error.message : 'Failed to load website content'
+      );
+    } finally {
+      setIsLoadingContent(false);
+    }
+  }, [websiteId, getLatestWebsiteVersion, loadComponents, showPage]);
+
+  // Edits made in the tablet and mobile views are stored as overrides
+  useEffect(() => {
+    setBreakpoint(editorMode);
+  }, [editorMode, setBreakpoint]);
+
+  const markSaved = (content: EditorContent) => {
+    savedContentRef.current = {
+      components: content.components,
+      notFoundComponents: content.notFoundPage?.components ?? null,
+      breakpoints: content.settings?.breakpoints
+    };
+  };
+
+  // Load the latest saved version whenever a website is opened
+  useEffect(() => {
+    loadWebsiteContent();
+  }, [loadWebsiteContent]);
+
+  const handleStartFresh = () => {
+    savedContentRef.current = null;
+    showPage('home', null);
+    loadComponents(defaultComponents);
+    setLoadError(null);
+  };
 
   const handleAutoSave = useCallback(async () => {
     if (!currentWebsite || !hasUnsavedChanges) return;
@@ -63,6 +167,7 @@ const EditorPage: React.FC = () => {
     try {
       setIsSaving(true);
       await saveWebsiteVersion(currentWebsite.id, editorContent);
+      markSaved(editorContent);
       setLastSaved(new Date());
       setSaveMessage('Auto-saved');
       setHasUnsavedChanges(false);
@@ -99,9 +204,41 @@ const EditorPage: React.FC = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [hasUnsavedChanges]);
 
-  const handleContentChange = (newContent: EditorContent) => {
+  // The canvas reports the page it shows; the other page is kept as it was
+  const handleContentChange = useCallback((canvasContent: EditorContent) => {
+    const otherPage = inactivePageRef.current;
+    const newContent: EditorContent =
+      activePageRef.current === 'home'
+        ? { ...canvasContent, ...(otherPage && { notFoundPage: { components: otherPage } }) }
+        : { ...canvasContent, components: otherPage ?? [], notFoundPage: { components: canvasContent.components ?? [] } };
+
     setEditorContent(newContent);
-    setHasUnsavedChanges(true);
+    const saved = savedContentRef.current;
+    setHasUnsavedChanges(
+      !saved ||
+      newContent.components !== saved.components ||
+      (newContent.notFoundPage?.components ?? null) !== saved.notFoundComponents ||
+      newContent.settings?.breakpoints !== saved.breakpoints
+    );
+  }, []);
+
+  // Swaps the pages on the canvas. Undo history is per page and starts over
+  // on each switch.
+  const handleSwitchPage = (page: EditorPageName) => {
+    if (page === activePage) return;
+
+    const { components, breakpointWidths } = useEditorStore.getState();
+    const next = (inactivePageRef.current ?? defaultNotFoundComponents) as typeof components;
+    showPage(page, components);
+    loadComponents(next, breakpointWidths);
+  };
+
+  // Goes back to the host's default 404 page
+  const handleRemoveNotFoundPage = () => {
+    const { components, breakpointWidths } = useEditorStore.getState();
+    const home = (inactivePageRef.current ?? components) as typeof components;
+    showPage('home', null);
+    loadComponents(home, breakpointWidths);
   };
 
   const handleManualSave = async () => {
@@ -111,7 +248,8 @@ const EditorPage: React.FC = () => {
       setIsSaving(true);
       setSaveMessage('Saving...');
       
-      await saveWebsiteVersion(currentWebsite.id, editorContent);
+      await saveWebsiteVersion(currentWebsite.id, editorContent, 'Manual save');
+      markSaved(editorContent);
       
       setLastSaved(new Date());
       setSaveMessage('Saved successfully');
@@ -139,6 +277,45 @@ const EditorPage: React.FC = () => {
     }
   };
 
+  // Downloads the current design as the static page a deployment would serve
+  const handleExportHtml = () => {
+    if (!currentWebsite) return;
+
+    try {
+      const { html } = compileSite(editorContent, {
+        title: currentWebsite.name,
+        description: currentWebsite.description,
+        inlineCss: true
+      });
+      const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'index.html';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export website",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Domain Settings and the publish dialog can change the primary domain
+  const handleDomainChange = (domain?: string) => {
+    if (currentWebsite && currentWebsite.domain !== domain) {
+      setCurrentWebsite({ ...currentWebsite, domain });
+    }
+  };
+
+  const handleSubdomainChange = (subdomain: string) => {
+    if (currentWebsite) {
+      setCurrentWebsite({ ...currentWebsite, subdomain });
+    }
+  };
+
   const handlePublish = async () => {
     if (!currentWebsite) return;
 
@@ -146,8 +323,10 @@ const EditorPage: React.FC = () => {
       setIsPublishing(true);
       
       // Save current version first
+      let versionId: string | undefined;
       if (hasUnsavedChanges) {
-        await saveWebsiteVersion(currentWebsite.id, editorContent);
+        versionId = await saveWebsiteVersion(currentWebsite.id, editorContent, 'Saved before publishing');
+        markSaved(editorContent);
         setHasUnsavedChanges(false);
       }
       
@@ -165,6 +344,12 @@ const EditorPage: React.FC = () => {
         });
       } else {
         const updatedWebsite = await publishWebsite(currentWebsite.id);
+
+        // Record which saved version is now live
+        versionId = versionId ?? (await getLatestWebsiteVersion(currentWebsite.id))?.id;
+        if (versionId) {
+          await publishWebsiteVersion(versionId);
+        }
         setCurrentWebsite({
           ...currentWebsite,
           status: 'published',
@@ -285,53 +470,82 @@ const EditorPage: React.FC = () => {
         </div>
 
         {/* Center Controls */}
-        <div className="flex items-center space-x-2 bg-gray-100 rounded-lg p-1">
-          <button
-            onClick={() => setEditorMode('desktop')}
-            className={`p-2 rounded-md transition-colors ${
-              editorMode === 'desktop' 
-                ? 'bg-white text-gray-900 shadow-sm' 
-                : 'text-gray-600 hover:text-gray-900'
-            }`}
-            title="Desktop View"
-          >
-            <Monitor className="h-4 w-4" />
-          </button>
-          <button
-            onClick={() => setEditorMode('tablet')}
-            className={`p-2 rounded-md transition-colors ${
-              editorMode === 'tablet' 
-                ? 'bg-white text-gray-900 shadow-sm' 
-                : 'text-gray-600 hover:text-gray-900'
-            }`}
-            title="Tablet View"
-          >
-            <Tablet className="h-4 w-4" />
-          </button>
-          <button
-            onClick={() => setEditorMode('mobile')}
-            className={`p-2 rounded-md transition-colors ${
-              editorMode === 'mobile' 
-                ? 'bg-white text-gray-900 shadow-sm' 
-                : 'text-gray-600 hover:text-gray-900'
-            }`}
-            title="Mobile View"
-          >
-            <Smartphone className="h-4 w-4" />
-          </button>
+        <div className="flex items-center space-x-3">
+          <div className="flex items-center space-x-1 bg-gray-100 rounded-lg p-1">
+            <button
+              onClick={() => handleSwitchPage('home')}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                activePage === 'home'
+                  ? 'bg-white text-gray-900 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Home
+            </button>
+            <button
+              onClick={() => handleSwitchPage('notFound')}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                activePage === 'notFound'
+                  ? 'bg-white text-gray-900 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+              title="Design the page shown for missing paths"
+            >
+              404 Page
+            </button>
+          </div>
+          <div className="flex items-center space-x-2 bg-gray-100 rounded-lg p-1">
+            <button
+              onClick={() => setEditorMode('desktop')}
+              className={`p-2 rounded-md transition-colors ${
+                editorMode === 'desktop' 
+                  ? 'bg-white text-gray-900 shadow-sm' 
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+              title="Desktop View"
+            >
+              <Monitor className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setEditorMode('tablet')}
+              className={`p-2 rounded-md transition-colors ${
+                editorMode === 'tablet' 
+                  ? 'bg-white text-gray-900 shadow-sm' 
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+              title="Tablet View"
+            >
+              <Tablet className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setEditorMode('mobile')}
+              className={`p-2 rounded-md transition-colors ${
+                editorMode === 'mobile' 
+                  ? 'bg-white text-gray-900 shadow-sm' 
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+              title="Mobile View"
+            >
+              <Smartphone className="h-4 w-4" />
+            </button>
+          </div>
         </div>
 
         {/* Right Controls */}
         <div className="flex items-center space-x-3">
           <div className="flex items-center space-x-1">
             <button
-              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              onClick={undo}
+              disabled={historyIndex === 0}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               title="Undo"
             >
               <Undo className="h-4 w-4 text-gray-600" />
             </button>
             <button
-              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              onClick={redo}
+              disabled={historyIndex >= history.length - 1}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               title="Redo"
             >
               <Redo className="h-4 w-4 text-gray-600" />
@@ -340,6 +554,18 @@ const EditorPage: React.FC = () => {
           
           <div className="w-px h-6 bg-gray-300"></div>
           
+          <button
+            onClick={() => setShowLayersPanel(!showLayersPanel)}
+            className={`p-2 rounded-lg transition-colors ${
+              showLayersPanel
+                ? 'bg-blue-100 text-blue-700'
+                : 'hover:bg-gray-100 text-gray-600'
+            }`}
+            title="Layers"
+          >
+            <ListTree className="h-4 w-4" />
+          </button>
+
           <button
             onClick={() => setShowVersionHistory(!showVersionHistory)}
             className={`p-2 rounded-lg transition-colors ${
@@ -372,6 +598,14 @@ const EditorPage: React.FC = () => {
             <Globe className="h-4 w-4 text-gray-600" />
           </button>
           
+          <button
+            onClick={() => setShowRedirectSettings(true)}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Redirects"
+          >
+            <CornerUpRight className="h-4 w-4 text-gray-600" />
+          </button>
+
           <button
             onClick={() => setShowDeploymentPanel(true)}
             className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
@@ -379,6 +613,14 @@ const EditorPage: React.FC = () => {
           >
             <Rocket className="h-4 w-4 text-gray-600" />
           </button>
+
+          <button
+            onClick={handleExportHtml}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Export HTML"
+          >
+            <Download className="h-4 w-4 text-gray-600" />
+          </button>
           
           <button
             onClick={togglePreviewMode}
@@ -449,6 +691,18 @@ const EditorPage: React.FC = () => {
           </motion.div>
         )}
 
+        {/* Layers Panel */}
+        {!isPreviewMode && showLayersPanel && (
+          <motion.div
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ duration: 0.6, delay: 0.1 }}
+            className="w-72 bg-white border-r border-gray-200 flex flex-col"
+          >
+            <LayersPanel />
+          </motion.div>
+        )}
+
         {/* Version History Panel */}
         {!isPreviewMode && showVersionHistory && (
           <motion.div
@@ -460,6 +714,7 @@ const EditorPage: React.FC = () => {
             <VersionHistoryPanel 
               websiteId={currentWebsite.id}
               onClose={() => setShowVersionHistory(false)}
+              onRestore={loadWebsiteContent}
             />
           </motion.div>
         )}
@@ -471,11 +726,58 @@ const EditorPage: React.FC = () => {
           transition={{ duration: 0.6, delay: 0.2 }}
           className="flex-1 flex flex-col bg-gray-50"
         >
-          <Canvas 
-            editorMode={editorMode}
-            isPreviewMode={isPreviewMode}
-            onContentChange={handleContentChange}
-          />
+          {isLoadingContent ? (
+            <div className="flex-1 flex items-center justify-center">
+              <div className="text-center">
+                <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-3" />
+                <p className="text-gray-600">Loading website content...</p>
+              </div>
+            </div>
+          ) : loadError ? (
+            <div className="flex-1 flex items-center justify-center p-8">
+              <div className="text-center max-w-md">
+                <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Couldn't load this website</h3>
+                <p className="text-gray-600 mb-6">{loadError}</p>
+                <div className="flex justify-center space-x-3">
+                  <button
+                    onClick={loadWebsiteContent}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+                  >
+                    Try Again
+                  </button>
+                  <button
+                    onClick={handleStartFresh}
+                    className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+                  >
+                    Start from a blank page
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <>
+              {activePage === 'notFound' && !isPreviewMode && (
+                <div className="px-4 py-2 bg-blue-50 border-b border-blue-200 flex items-center justify-between text-sm text-blue-800">
+                  <span>
+                    Editing the 404 page, shown for paths that have no page or redirect. It goes live with the next deployment.
+                  </span>
+                  <button
+                    onClick={handleRemoveNotFoundPage}
+                    className="flex items-center text-blue-700 hover:text-blue-900 font-medium ml-4 flex-shrink-0"
+                  >
+                    <FileX className="h-4 w-4 mr-1" />
+                    Use default 404 page
+                  </button>
+                </div>
+              )}
+              <Canvas 
+                editorMode={editorMode}
+                isPreviewMode={isPreviewMode}
+                onContentChange={handleContentChange}
+              />
+            </>
+          )}
         </motion.div>
 
         {/* Properties Panel */}
@@ -544,6 +846,7 @@ const EditorPage: React.FC = () => {
           website={currentWebsite}
           onClose={() => setShowPublishModal(false)}
           onPublish={handlePublish}
+          onDomainChange={handleDomainChange}
           isPublishing={isPublishing}
         />
       )}
@@ -553,6 +856,16 @@ const EditorPage: React.FC = () => {
         <DomainSettings
           website={currentWebsite}
           onClose={() => setShowDomainSettings(false)}
+          onDomainChange={handleDomainChange}
+          onSubdomainChange={handleSubdomainChange}
+        />
+      )}
+
+      {/* Redirects Modal */}
+      {showRedirectSettings && (
+        <RedirectSettings
+          website={currentWebsite}
+          onClose={() => setShowRedirectSettings(false)}
         />
       )}
 
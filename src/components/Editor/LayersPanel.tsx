@@ -2,6 +2,9 @@ import React from 'react';
 import { Eye, EyeOff, Lock, Unlock, Copy, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
+import { useEditorStore, LayerDropPosition } from '../../store/useEditorStore';
+import { buildComponentTree, ComponentNode, isContainerType } from '../../lib/componentTree';
+
 interface LayerItem {
   id: string;
   name: string;
@@ -13,92 +16,37 @@ interface LayerItem {
   expanded?: boolean;
 }
 
-interface LayersPanelProps {
-  selectedComponent: string | null;
-  onSelectComponent: (id: string) => void;
-  onToggleVisibility: (id: string) => void;
-  onToggleLock: (id: string) => void;
-  onDeleteComponent: (id: string) => void;
-  onDuplicateComponent: (id: string) => void;
-  onReorderLayers: (draggedId: string, targetId: string, position: 'above' | 'below') => void;
-}
+const LayersPanel: React.FC = () => {
+  const {
+    components,
+    selectedComponentId: selectedComponent,
+    selectComponent: onSelectComponent,
+    toggleVisibility: onToggleVisibility,
+    toggleLock: onToggleLock,
+    removeComponent: onDeleteComponent,
+    duplicateComponent: onDuplicateComponent,
+    reorderComponent: onReorderLayers,
+    groupComponent: onGroupComponent,
+    ungroupComponent: onUngroupComponent
+  } = useEditorStore();
+  const [collapsed, setCollapsed] = React.useState<Set<string>>(new Set());
 
-const LayersPanel: React.FC<LayersPanelProps> = ({
-  selectedComponent,
-  onSelectComponent,
-  onToggleVisibility,
-  onToggleLock,
-  onDeleteComponent,
-  onDuplicateComponent,
-  onReorderLayers
-}) => {
-  const [layers, setLayers] = React.useState<LayerItem[]>([
-    {
-      id: 'header',
-      name: 'Header Section',
-      type: 'container',
-      layer: 10,
-      visible: true,
-      locked: false,
-      expanded: true,
-      children: [
-        {
-          id: '1',
-          name: 'Main Heading',
-          type: 'heading',
-          layer: 11,
-          visible: true,
-          locked: false
-        },
-        {
-          id: '2',
-          name: 'Subtitle Text',
-          type: 'text',
-          layer: 12,
-          visible: true,
-          locked: false
-        }
-      ]
-    },
-    {
-      id: 'content',
-      name: 'Content Section',
-      type: 'container',
-      layer: 20,
-      visible: true,
-      locked: false,
-      expanded: true,
-      children: [
-        {
-          id: '3',
-          name: 'Call to Action',
-          type: 'button',
-          layer: 21,
-          visible: true,
-          locked: false
-        },
-        {
-          id: '4',
-          name: 'Feature Image',
-          type: 'image',
-          layer: 22,
-          visible: true,
-          locked: true
-        }
-      ]
-    },
-    {
-      id: '5',
-      name: 'Background Element',
-      type: 'divider',
-      layer: 1,
-      visible: true,
-      locked: false
-    }
-  ]);
+  // Top-most layer first at every level, as in the canvas stacking order
+  const toLayerItem = ({ component, children }: ComponentNode): LayerItem => ({
+    id: component.id,
+    name: component.content || component.type,
+    type: component.type,
+    layer: component.layer,
+    visible: !component.hidden,
+    locked: component.locked,
+    children: children.map(toLayerItem),
+    expanded: !collapsed.has(component.id)
+  });
+  const layers: LayerItem[] = buildComponentTree(components).map(toLayerItem);
+  const selectedData = components.find(c => c.id === selectedComponent);
 
   const [draggedItem, setDraggedItem] = React.useState<string | null>(null);
-  const [dropTarget, setDropTarget] = React.useState<{ id: string; position: 'above' | 'below' } | null>(null);
+  const [dropTarget, setDropTarget] = React.useState<{ id: string; position: LayerDropPosition } | null>(null);
 
   const getComponentIcon = (type: string) => {
     const iconClass = "h-4 w-4";
@@ -107,16 +55,26 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
       case 'heading': return <span className={`${iconClass} flex items-center justify-center font-bold text-lg`}>H</span>;
       case 'button': return <div className={`${iconClass} bg-blue-500 rounded`}></div>;
       case 'image': return <div className={`${iconClass} bg-green-500 rounded`}></div>;
-      case 'container': return <div className={`${iconClass} border-2 border-gray-400 rounded`}></div>;
+      case 'container':
+      case 'section':
+      case 'columns':
+      case 'column':
+      case 'hero': return <div className={`${iconClass} border-2 border-gray-400 rounded`}></div>;
       case 'divider': return <div className="w-4 h-1 bg-gray-400 rounded"></div>;
       default: return <div className={`${iconClass} bg-gray-400 rounded`}></div>;
     }
   };
 
   const handleToggleExpanded = (id: string) => {
-    setLayers(prev => prev.map(layer => 
-      layer.id === id ? { ...layer, expanded: !layer.expanded } : layer
-    ));
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
   };
 
   const handleDragStart = (e: React.DragEvent, id: string) => {
@@ -124,13 +82,17 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
     e.dataTransfer.effectAllowed = 'move';
   };
 
-  const handleDragOver = (e: React.DragEvent, id: string) => {
+  const handleDragOver = (e: React.DragEvent, layer: LayerItem) => {
     e.preventDefault();
-    if (draggedItem && draggedItem !== id) {
+    if (draggedItem && draggedItem !== layer.id) {
       const rect = e.currentTarget.getBoundingClientRect();
-      const midpoint = rect.top + rect.height / 2;
-      const position = e.clientY < midpoint ? 'above' : 'below';
-      setDropTarget({ id, position });
+      const offset = (e.clientY - rect.top) / rect.height;
+      // The middle of a container row drops the layer into the container
+      let position: LayerDropPosition = offset < 0.5 ? 'above' : 'below';
+      if (isContainerType(layer.type) && offset > 0.25 && offset < 0.75) {
+        position = 'inside';
+      }
+      setDropTarget({ id: layer.id, position });
     }
   };
 
@@ -162,17 +124,19 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
         <div
           draggable
           onDragStart={(e: React.DragEvent) => handleDragStart(e, layer.id)}
-          onDragOver={(e) => handleDragOver(e, layer.id)}
+          onDragOver={(e) => handleDragOver(e, layer)}
           onDragLeave={handleDragLeave}
           onDrop={handleDrop}
         >
           <motion.div
             initial={{ opacity: 0, x: -20 }}
             animate={{ opacity: isDragging ? 0.5 : 1, x: 0 }}
-            className={`flex items-center space-x-2 p-2 mx-2 rounded-lg transition-all cursor-pointer ${
+            className={`group flex items-center space-x-2 p-2 mx-2 rounded-lg transition-all cursor-pointer ${
               isSelected 
                 ? 'bg-blue-100 border border-blue-300' 
-                : 'hover:bg-gray-50 border border-transparent'
+                : isDropTarget && dropTarget?.position === 'inside'
+                  ? 'bg-blue-50 border border-blue-400 border-dashed'
+                  : 'hover:bg-gray-50 border border-transparent'
             }`}
             style={{ paddingLeft: `${8 + depth * 16}px` }}
             onClick={() => onSelectComponent(layer.id)}
@@ -296,12 +260,14 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
           <h3 className="text-lg font-semibold text-gray-900">Layers</h3>
           <div className="flex items-center space-x-1">
             <button
+              onClick={() => setCollapsed(new Set())}
               className="p-1 hover:bg-gray-100 rounded text-xs"
               title="Expand All"
             >
               <ChevronDown className="h-4 w-4 text-gray-600" />
             </button>
             <button
+              onClick={() => setCollapsed(new Set(components.map(c => c.id)))}
               className="p-1 hover:bg-gray-100 rounded text-xs"
               title="Collapse All"
             >
@@ -324,16 +290,25 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
       {/* Footer Actions */}
       <div className="p-4 border-t border-gray-200 bg-gray-50">
         <div className="grid grid-cols-2 gap-2">
-          <button className="px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50 transition-colors">
+          <button
+            onClick={() => selectedData && onGroupComponent(selectedData.id)}
+            disabled={!selectedData}
+            className="px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
             Group
           </button>
-          <button className="px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50 transition-colors">
+          <button
+            onClick={() => selectedData && onUngroupComponent(selectedData.id)}
+            disabled={!selectedData || !isContainerType(selectedData.type) || selectedData.layout?.mode === 'flex'}
+            title={selectedData?.layout?.mode === 'flex' ? 'Switch the stack to free-form layout to ungroup it' : undefined}
+            className="px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
             Ungroup
           </button>
         </div>
         
         <div className="mt-2 text-xs text-gray-500 text-center">
-          {layers.length} layers • {layers.filter(l => l.visible).length} visible
+          {components.length} layers • {components.filter(c => !c.hidden).length} visible
         </div>
       </div>
     </div>
@@ -1,34 +1,69 @@
 import React from 'react';
-import { Palette, Type, Layout, Settings, Layers, Eye, Lock, Copy, Trash2 } from 'lucide-react';
-import { useAppStore } from '../../store/useAppStore';
+import { z } from 'zod';
+import { Palette, Type, Layout, Settings, Layers, Eye, EyeOff, Lock, Unlock, Copy, Trash2, RotateCcw } from 'lucide-react';
+import { useEditorStore, ContainerLayout, EditorComponent, defaultContainerLayout } from '../../store/useEditorStore';
+import { isContainerType, isInFlow } from '../../lib/componentTree';
+import { getComponentType, readComponentProps } from '../../lib/componentRegistry';
+import SchemaForm from './SchemaForm';
+import './componentTypes';
+import { BREAKPOINTS, OverrideField, getBreakpointLabel, isOverridden, resolveComponent } from '../../lib/breakpoints';
+
+interface FieldLabelProps {
+  label: string;
+  overridden: boolean;
+  onReset: () => void;
+  className?: string;
+}
+
+// Highlights values set at the current breakpoint rather than inherited from a
+// wider one, with a button to inherit again
+const FieldLabel: React.FC<FieldLabelProps> = ({
+  label,
+  overridden,
+  onReset,
+  className = 'text-xs text-gray-500 mb-1'
+}) => (
+  <div className={`flex items-center justify-between ${className}`}>
+    <label className={overridden ? 'text-blue-600 font-medium' : undefined}>
+      {label}
+      {overridden && <span className="ml-1" title="Overridden at this breakpoint">•</span>}
+    </label>
+    {overridden && (
+      <button
+        onClick={onReset}
+        className="p-0.5 text-gray-400 hover:text-gray-700 rounded"
+        title="Reset to inherited value"
+      >
+        <RotateCcw className="h-3 w-3" />
+      </button>
+    )}
+  </div>
+);
 
 const PropertiesPanel: React.FC = () => {
-  const { selectedComponent } = useAppStore();
+  const {
+    components,
+    selectedComponentId: selectedComponent,
+    selectComponent,
+    updateComponent,
+    updateComponentStyles,
+    updateComponentProps,
+    toggleVisibility,
+    toggleLock,
+    duplicateComponent,
+    removeComponent,
+    moveLayer,
+    breakpoint,
+    resetOverride,
+    setVisibility
+  } = useEditorStore();
   const [activeTab, setActiveTab] = React.useState('style');
+  const [lockAspectRatio, setLockAspectRatio] = React.useState(false);
 
-  // Mock component data - in real app this would come from the canvas
-  const [componentData, setComponentData] = React.useState({
-    id: selectedComponent || '',
-    type: 'text',
-    content: 'Sample text content',
-    styles: {
-      fontFamily: 'Inter, sans-serif',
-      fontSize: '16px',
-      fontWeight: 'normal',
-      color: '#374151',
-      backgroundColor: 'transparent',
-      padding: '8px',
-      margin: '0px',
-      borderRadius: '4px',
-      textAlign: 'left',
-      lineHeight: '1.5'
-    },
-    position: { x: 100, y: 100 },
-    size: { width: 200, height: 100 },
-    layer: 1,
-    locked: false,
-    hidden: false
-  });
+  const storedData = components.find(c => c.id === selectedComponent);
+  // Values as they apply at the breakpoint being edited
+  const componentData = storedData && resolveComponent(storedData, breakpoint);
+  const layerList = [...components].sort((a, b) => b.layer - a.layer);
 
   const tabs = [
     { id: 'content', name: 'Content', icon: <Type className="h-4 w-4" /> },
@@ -38,23 +73,7 @@ const PropertiesPanel: React.FC = () => {
     { id: 'advanced', name: 'Advanced', icon: <Settings className="h-4 w-4" /> }
   ];
 
-  const fontFamilies = [
-    'Inter, sans-serif',
-    'Roboto, sans-serif',
-    'Open Sans, sans-serif',
-    'Lato, sans-serif',
-    'Montserrat, sans-serif',
-    'Poppins, sans-serif',
-    'Playfair Display, serif',
-    'Merriweather, serif',
-    'Georgia, serif',
-    'Times New Roman, serif'
-  ];
-
-  const fontSizes = ['12px', '14px', '16px', '18px', '20px', '24px', '28px', '32px', '36px', '48px', '64px'];
-  const fontWeights = ['100', '200', '300', '400', '500', '600', '700', '800', '900'];
-
-  if (!selectedComponent) {
+  if (!selectedComponent || !storedData || !componentData) {
     return (
       <div className="flex-1 flex items-center justify-center p-8">
         <div className="text-center text-gray-500">
@@ -71,6 +90,53 @@ const PropertiesPanel: React.FC = () => {
     );
   }
 
+  const fieldLabel = (label: string, field: OverrideField, styleProperty?: string, className?: string) => (
+    <FieldLabel
+      label={label}
+      overridden={isOverridden(storedData, breakpoint, field, styleProperty)}
+      onReset={() => resetOverride(storedData.id, field, styleProperty)}
+      className={className}
+    />
+  );
+
+  const styleLabel = (label: string, property: string) => fieldLabel(label, 'styles', property);
+
+  // The Content and Style tabs are generated from the type's schemas
+  const definition = getComponentType(componentData.type);
+  const propsSchema = definition?.propsSchema instanceof z.ZodObject ? definition.propsSchema : undefined;
+
+  const setStyle = (property: string, value: string | number) => {
+    updateComponentStyles(componentData.id, { [property]: value });
+  };
+
+  const handleSizeChange = (dimension: 'width' | 'height', value: number) => {
+    if (Number.isNaN(value) || value <= 0) return;
+    const { width, height } = componentData.size;
+    const size = { ...componentData.size, [dimension]: value };
+    if (lockAspectRatio && width > 0 && height > 0) {
+      if (dimension === 'width') {
+        size.height = Math.round(value * (height / width));
+      } else {
+        size.width = Math.round(value * (width / height));
+      }
+    }
+    updateComponent(componentData.id, { size });
+  };
+
+  const layout = componentData.layout ?? defaultContainerLayout;
+  const positionedByParent = isInFlow(components, componentData);
+
+  const setLayout = (updates: Partial<ContainerLayout>) => {
+    updateComponent(componentData.id, { layout: { ...layout, ...updates } });
+  };
+
+  const handlePositionChange = (axis: 'x' | 'y', value: number) => {
+    if (Number.isNaN(value)) return;
+    updateComponent(componentData.id, {
+      position: { ...componentData.position, [axis]: Math.max(0, value) }
+    });
+  };
+
   return (
     <div className="flex-1 flex flex-col h-full">
       {/* Component Info Header */}
@@ -84,24 +150,36 @@ const PropertiesPanel: React.FC = () => {
           </div>
           <div className="flex items-center space-x-1">
             <button
+              onClick={() => toggleVisibility(componentData.id)}
               className="p-1 hover:bg-gray-200 rounded"
-              title="Toggle visibility"
+              title={componentData.hidden ? "Show" : "Hide"}
             >
-              <Eye className="h-3 w-3 text-gray-600" />
+              {componentData.hidden ? (
+                <EyeOff className="h-3 w-3 text-gray-400" />
+              ) : (
+                <Eye className="h-3 w-3 text-gray-600" />
+              )}
             </button>
             <button
+              onClick={() => toggleLock(componentData.id)}
               className="p-1 hover:bg-gray-200 rounded"
-              title="Lock/unlock"
+              title={componentData.locked ? "Unlock" : "Lock"}
             >
-              <Lock className="h-3 w-3 text-gray-600" />
+              {componentData.locked ? (
+                <Lock className="h-3 w-3 text-gray-600" />
+              ) : (
+                <Unlock className="h-3 w-3 text-gray-400" />
+              )}
             </button>
             <button
+              onClick={() => duplicateComponent(componentData.id)}
               className="p-1 hover:bg-gray-200 rounded"
               title="Duplicate"
             >
               <Copy className="h-3 w-3 text-gray-600" />
             </button>
             <button
+              onClick={() => removeComponent(componentData.id)}
               className="p-1 hover:bg-red-200 rounded"
               title="Delete"
             >
@@ -114,6 +192,13 @@ const PropertiesPanel: React.FC = () => {
         </div>
       </div>
 
+      {breakpoint !== 'desktop' && (
+        <div className="px-4 py-2 bg-blue-50 border-b border-blue-100 text-xs text-blue-700">
+          Editing {getBreakpointLabel(breakpoint)}: style, position, size and visibility changes apply at this width and smaller.
+          Values marked • are overridden here.
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex border-b border-gray-200 overflow-x-auto">
         {tabs.map(tab => (
@@ -136,313 +221,215 @@ const PropertiesPanel: React.FC = () => {
       <div className="flex-1 p-4 overflow-y-auto">
         {activeTab === 'content' && (
           <div className="space-y-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Content
-              </label>
-              {componentData.type === 'text' || componentData.type === 'heading' ? (
-                <textarea
-                  value={componentData.content}
-                  onChange={(e) => setComponentData(prev => ({ ...prev, content: e.target.value }))}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  rows={4}
-                  placeholder="Enter your text content..."
-                />
-              ) : componentData.type === 'button' ? (
-                <input
-                  type="text"
-                  value={componentData.content}
-                  onChange={(e) => setComponentData(prev => ({ ...prev, content: e.target.value }))}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Button text"
-                />
-              ) : (
-                <div className="text-sm text-gray-500 p-3 bg-gray-50 rounded-lg">
-                  Content editing not available for this component type.
-                </div>
-              )}
-            </div>
-
-            {(componentData.type === 'button' || componentData.type === 'text') && (
+            {definition?.content && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Link (Optional)
+                  {definition.content.label}
                 </label>
-                <input
-                  type="url"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="https://example.com"
-                />
-                <div className="mt-2">
-                  <label className="flex items-center space-x-2">
-                    <input type="checkbox" className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
-                    <span className="text-sm text-gray-700">Open in new tab</span>
-                  </label>
-                </div>
-              </div>
-            )}
-
-            {componentData.type === 'image' && (
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Image Source
-                </label>
-                <input
-                  type="url"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-2"
-                  placeholder="https://example.com/image.jpg"
-                />
-                <button className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors">
-                  Upload Image
-                </button>
-                <div className="mt-2">
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Alt Text
-                  </label>
+                {definition.content.multiline ? (
+                  <textarea
+                    value={componentData.content}
+                    onChange={(e) => updateComponent(componentData.id, { content: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    rows={4}
+                    placeholder={definition.content.placeholder}
+                  />
+                ) : (
                   <input
                     type="text"
+                    value={componentData.content}
+                    onChange={(e) => updateComponent(componentData.id, { content: e.target.value })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="Describe the image"
+                    placeholder={definition.content.placeholder}
                   />
-                </div>
+                )}
+              </div>
+            )}
+
+            {definition && propsSchema && (
+              <SchemaForm
+                schema={propsSchema}
+                values={readComponentProps(definition, componentData.props) as Record<string, unknown>}
+                onChange={(props) => updateComponentProps(componentData.id, props)}
+              />
+            )}
+
+            {!definition?.content && !propsSchema && (
+              <div className="text-sm text-gray-500 p-3 bg-gray-50 rounded-lg">
+                Content editing not available for this component type.
               </div>
             )}
           </div>
         )}
 
         {activeTab === 'style' && (
+          definition?.styleSchema ? (
+            <SchemaForm
+              schema={definition.styleSchema}
+              values={componentData.styles}
+              onChange={(styles) => updateComponentStyles(componentData.id, styles as EditorComponent['styles'])}
+              renderLabel={(property, label) => styleLabel(label, property)}
+            />
+          ) : (
+            <div className="text-sm text-gray-500 p-3 bg-gray-50 rounded-lg">
+              Style editing not available for this component type.
+            </div>
+          )
+        )}
+
+        {activeTab === 'layout' && (
           <div className="space-y-6">
-            {/* Typography */}
-            {(componentData.type === 'text' || componentData.type === 'heading' || componentData.type === 'button') && (
+            {isContainerType(componentData.type) && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-3">
-                  Typography
+                  Children Layout
                 </label>
                 <div className="space-y-3">
-                  <div>
-                    <label className="block text-xs text-gray-500 mb-1">Font Family</label>
-                    <select 
-                      value={componentData.styles.fontFamily || 'Inter, sans-serif'}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                    >
-                      {fontFamilies.map(font => (
-                        <option key={font} value={font} style={{ fontFamily: font }}>
-                          {font.split(',')[0]}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                  
-                  <div className="grid grid-cols-2 gap-3">
-                    <div>
-                      <label className="block text-xs text-gray-500 mb-1">Font Size</label>
-                      <select 
-                        value={componentData.styles.fontSize}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                      >
-                        {fontSizes.map(size => (
-                          <option key={size} value={size}>{size}</option>
-                        ))}
-                      </select>
-                    </div>
-                    <div>
-                      <label className="block text-xs text-gray-500 mb-1">Font Weight</label>
-                      <select 
-                        value={componentData.styles.fontWeight}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  <div className="grid grid-cols-2 gap-2">
+                    {([
+                      { mode: 'absolute', label: 'Free-form' },
+                      { mode: 'flex', label: 'Stack' }
+                    ] as const).map(option => (
+                      <button
+                        key={option.mode}
+                        onClick={() => setLayout({ mode: option.mode })}
+                        className={`py-2 px-3 border rounded-lg text-sm transition-colors ${
+                          layout.mode === option.mode
+                            ? 'bg-blue-100 border-blue-300 text-blue-700'
+                            : 'border-gray-300 hover:bg-gray-50'
+                        }`}
                       >
-                        {fontWeights.map(weight => (
-                          <option key={weight} value={weight}>
-                            {weight === '400' ? 'Normal' : weight === '700' ? 'Bold' : weight}
-                          </option>
-                        ))}
-                      </select>
-                    </div>
-                  </div>
-
-                  <div>
-                    <label className="block text-xs text-gray-500 mb-1">Text Color</label>
-                    <div className="flex space-x-2">
-                      <input
-                        type="color"
-                        value={componentData.styles.color}
-                        className="w-12 h-10 border border-gray-300 rounded-lg cursor-pointer"
-                      />
-                      <input
-                        type="text"
-                        value={componentData.styles.color}
-                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm font-mono"
-                      />
-                    </div>
+                        {option.label}
+                      </button>
+                    ))}
                   </div>
 
-                  <div>
-                    <label className="block text-xs text-gray-500 mb-1">Text Alignment</label>
-                    <div className="grid grid-cols-4 gap-1">
-                      {['left', 'center', 'right', 'justify'].map(align => (
-                        <button
-                          key={align}
-                          className={`px-3 py-2 border rounded-lg text-sm capitalize transition-colors ${
-                            componentData.styles.textAlign === align
-                              ? 'border-blue-500 bg-blue-50 text-blue-700'
-                              : 'border-gray-300 hover:bg-gray-50'
-                          }`}
+                  {layout.mode === 'flex' && (
+                    <>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Direction</label>
+                        <select
+                          value={layout.direction}
+                          onChange={(e) => setLayout({ direction: e.target.value as ContainerLayout['direction'] })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
                         >
-                          {align}
-                        </button>
-                      ))}
-                    </div>
-                  </div>
-
-                  <div>
-                    <label className="block text-xs text-gray-500 mb-1">Line Height</label>
-                    <input
-                      type="range"
-                      min="1"
-                      max="3"
-                      step="0.1"
-                      value={componentData.styles.lineHeight}
-                      className="w-full"
-                    />
-                    <div className="text-xs text-gray-500 text-center mt-1">
-                      {componentData.styles.lineHeight}
-                    </div>
-                  </div>
+                          <option value="column">Vertical</option>
+                          <option value="row">Horizontal</option>
+                        </select>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Gap</label>
+                          <input
+                            type="number"
+                            min={0}
+                            value={layout.gap}
+                            onChange={(e) => {
+                              const gap = parseInt(e.target.value, 10);
+                              if (!Number.isNaN(gap) && gap >= 0) setLayout({ gap });
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Padding</label>
+                          <input
+                            type="number"
+                            min={0}
+                            value={layout.padding}
+                            onChange={(e) => {
+                              const padding = parseInt(e.target.value, 10);
+                              if (!Number.isNaN(padding) && padding >= 0) setLayout({ padding });
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                          />
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Align Items</label>
+                          <select
+                            value={layout.align}
+                            onChange={(e) => setLayout({ align: e.target.value as ContainerLayout['align'] })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                          >
+                            <option value="start">Start</option>
+                            <option value="center">Center</option>
+                            <option value="end">End</option>
+                            <option value="stretch">Stretch</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Justify</label>
+                          <select
+                            value={layout.justify}
+                            onChange={(e) => setLayout({ justify: e.target.value as ContainerLayout['justify'] })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                          >
+                            <option value="start">Start</option>
+                            <option value="center">Center</option>
+                            <option value="end">End</option>
+                            <option value="space-between">Space Between</option>
+                          </select>
+                        </div>
+                      </div>
+
+                      <label className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          checked={layout.wrap}
+                          onChange={(e) => setLayout({ wrap: e.target.checked })}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="text-sm text-gray-700">Wrap onto new lines</span>
+                      </label>
+                    </>
+                  )}
                 </div>
               </div>
             )}
 
-            {/* Background & Colors */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                Background & Colors
-              </label>
-              <div className="space-y-3">
-                <div>
-                  <label className="block text-xs text-gray-500 mb-1">Background Color</label>
-                  <div className="flex space-x-2">
+              {fieldLabel('Position', 'position', undefined, 'text-sm font-medium text-gray-700 mb-3')}
+              {positionedByParent ? (
+                <p className="text-xs text-gray-500">
+                  Positioned by the parent's stack layout. Drag to reorder, or drag out of the container to place freely.
+                </p>
+              ) : (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">X Position</label>
                     <input
-                      type="color"
-                      value={componentData.styles.backgroundColor === 'transparent' ? '#ffffff' : componentData.styles.backgroundColor}
-                      className="w-12 h-10 border border-gray-300 rounded-lg cursor-pointer"
+                      type="number"
+                      value={componentData.position.x}
+                      onChange={(e) => handlePositionChange('x', parseInt(e.target.value, 10))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
                     />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Y Position</label>
                     <input
-                      type="text"
-                      value={componentData.styles.backgroundColor}
-                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm font-mono"
-                      placeholder="transparent"
+                      type="number"
+                      value={componentData.position.y}
+                      onChange={(e) => handlePositionChange('y', parseInt(e.target.value, 10))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
                     />
                   </div>
                 </div>
-
-                <div>
-                  <label className="block text-xs text-gray-500 mb-1">Opacity</label>
-                  <input
-                    type="range"
-                    min="0"
-                    max="1"
-                    step="0.1"
-                    defaultValue="1"
-                    className="w-full"
-                  />
-                </div>
-              </div>
-            </div>
-
-            {/* Spacing */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                Spacing
-              </label>
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <label className="block text-xs text-gray-500 mb-1">Padding</label>
-                  <input
-                    type="text"
-                    value={componentData.styles.padding}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                    placeholder="8px"
-                  />
-                </div>
-                <div>
-                  <label className="block text-xs text-gray-500 mb-1">Margin</label>
-                  <input
-                    type="text"
-                    value={componentData.styles.margin}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                    placeholder="0px"
-                  />
-                </div>
-              </div>
-            </div>
-
-            {/* Border & Effects */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                Border & Effects
-              </label>
-              <div className="space-y-3">
-                <div>
-                  <label className="block text-xs text-gray-500 mb-1">Border Radius</label>
-                  <input
-                    type="text"
-                    value={componentData.styles.borderRadius}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                    placeholder="4px"
-                  />
-                </div>
-
-                <div>
-                  <label className="block text-xs text-gray-500 mb-1">Box Shadow</label>
-                  <select className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm">
-                    <option value="none">None</option>
-                    <option value="0 1px 3px rgba(0,0,0,0.1)">Small</option>
-                    <option value="0 4px 6px rgba(0,0,0,0.1)">Medium</option>
-                    <option value="0 10px 15px rgba(0,0,0,0.1)">Large</option>
-                    <option value="0 25px 50px rgba(0,0,0,0.25)">Extra Large</option>
-                  </select>
-                </div>
-              </div>
-            </div>
-          </div>
-        )}
-
-        {activeTab === 'layout' && (
-          <div className="space-y-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                Position
-              </label>
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <label className="block text-xs text-gray-500 mb-1">X Position</label>
-                  <input
-                    type="number"
-                    value={componentData.position.x}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                  />
-                </div>
-                <div>
-                  <label className="block text-xs text-gray-500 mb-1">Y Position</label>
-                  <input
-                    type="number"
-                    value={componentData.position.y}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                  />
-                </div>
-              </div>
+              )}
             </div>
 
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                Size
-              </label>
+              {fieldLabel('Size', 'size', undefined, 'text-sm font-medium text-gray-700 mb-3')}
               <div className="grid grid-cols-2 gap-3">
                 <div>
                   <label className="block text-xs text-gray-500 mb-1">Width</label>
                   <input
                     type="number"
                     value={componentData.size.width}
+                    onChange={(e) => handleSizeChange('width', parseInt(e.target.value, 10))}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
                   />
                 </div>
@@ -451,12 +438,18 @@ const PropertiesPanel: React.FC = () => {
                   <input
                     type="number"
                     value={componentData.size.height}
+                    onChange={(e) => handleSizeChange('height', parseInt(e.target.value, 10))}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
                   />
                 </div>
               </div>
               <div className="mt-2 flex items-center space-x-2">
-                <input type="checkbox" className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                <input
+                  type="checkbox"
+                  checked={lockAspectRatio}
+                  onChange={(e) => setLockAspectRatio(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
                 <span className="text-xs text-gray-600">Lock aspect ratio</span>
               </div>
             </div>
@@ -467,8 +460,12 @@ const PropertiesPanel: React.FC = () => {
               </label>
               <div className="space-y-3">
                 <div>
-                  <label className="block text-xs text-gray-500 mb-1">Display Type</label>
-                  <select className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm">
+                  {styleLabel('Display Type', 'display')}
+                  <select
+                    value={componentData.styles.display ?? 'block'}
+                    onChange={(e) => setStyle('display', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  >
                     <option value="block">Block</option>
                     <option value="inline">Inline</option>
                     <option value="inline-block">Inline Block</option>
@@ -482,7 +479,14 @@ const PropertiesPanel: React.FC = () => {
                   <label className="block text-xs text-gray-500 mb-1">Z-Index (Layer)</label>
                   <input
                     type="number"
+                    min={1}
                     value={componentData.layer}
+                    onChange={(e) => {
+                      const layer = parseInt(e.target.value, 10);
+                      if (!Number.isNaN(layer) && layer > 0) {
+                        updateComponent(componentData.id, { layer });
+                      }
+                    }}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
                   />
                 </div>
@@ -494,18 +498,22 @@ const PropertiesPanel: React.FC = () => {
                 Responsive Visibility
               </label>
               <div className="space-y-2">
-                <label className="flex items-center space-x-2">
-                  <input type="checkbox" className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" defaultChecked />
-                  <span className="text-sm text-gray-700">Visible on Desktop</span>
-                </label>
-                <label className="flex items-center space-x-2">
-                  <input type="checkbox" className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" defaultChecked />
-                  <span className="text-sm text-gray-700">Visible on Tablet</span>
-                </label>
-                <label className="flex items-center space-x-2">
-                  <input type="checkbox" className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" defaultChecked />
-                  <span className="text-sm text-gray-700">Visible on Mobile</span>
-                </label>
+                {BREAKPOINTS.map(name => (
+                  <div key={name} className="flex items-center justify-between">
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={!resolveComponent(storedData, name).hidden}
+                        onChange={(e) => setVisibility(storedData.id, name, e.target.checked)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-sm text-gray-700">Visible on {getBreakpointLabel(name)}</span>
+                    </label>
+                    {name !== 'desktop' && storedData.responsive?.[name]?.hidden !== undefined && (
+                      <span className="text-xs text-blue-600">Overridden</span>
+                    )}
+                  </div>
+                ))}
               </div>
             </div>
           </div>
@@ -516,25 +524,29 @@ const PropertiesPanel: React.FC = () => {
             <div className="flex items-center justify-between">
               <h4 className="text-sm font-medium text-gray-900">Layer Management</h4>
               <div className="flex items-center space-x-1">
-                <button className="p-1 hover:bg-gray-100 rounded text-xs">
+                <button
+                  onClick={() => moveLayer(componentData.id, 'up')}
+                  className="p-1 hover:bg-gray-100 rounded text-xs"
+                  title="Bring Forward"
+                >
                   ↑
                 </button>
-                <button className="p-1 hover:bg-gray-100 rounded text-xs">
+                <button
+                  onClick={() => moveLayer(componentData.id, 'down')}
+                  className="p-1 hover:bg-gray-100 rounded text-xs"
+                  title="Send Backward"
+                >
                   ↓
                 </button>
               </div>
             </div>
 
             <div className="space-y-2">
-              {/* Mock layer list */}
-              {[
-                { id: '3', name: 'Button', type: 'button', layer: 3, visible: true, locked: false },
-                { id: '2', name: 'Text Content', type: 'text', layer: 2, visible: true, locked: false },
-                { id: '1', name: 'Heading', type: 'heading', layer: 1, visible: true, locked: false }
-              ].map((item) => (
+              {layerList.map((item) => (
                 <div
                   key={item.id}
-                  className={`flex items-center space-x-2 p-2 rounded-lg border transition-colors ${
+                  onClick={() => selectComponent(item.id)}
+                  className={`flex items-center space-x-2 p-2 rounded-lg border transition-colors cursor-pointer ${
                     selectedComponent === item.id
                       ? 'border-blue-500 bg-blue-50'
                       : 'border-gray-200 hover:bg-gray-50'
@@ -542,15 +554,37 @@ const PropertiesPanel: React.FC = () => {
                 >
                   <div className="flex items-center space-x-2 flex-1">
                     <div className="w-3 h-3 bg-blue-500 rounded"></div>
-                    <span className="text-sm font-medium">{item.name}</span>
+                    <span className="text-sm font-medium truncate max-w-[8rem]">{item.content || item.type}</span>
                     <span className="text-xs text-gray-500 capitalize">({item.type})</span>
                   </div>
                   <div className="flex items-center space-x-1">
-                    <button className="p-1 hover:bg-gray-200 rounded">
-                      <Eye className="h-3 w-3 text-gray-600" />
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleVisibility(item.id);
+                      }}
+                      className="p-1 hover:bg-gray-200 rounded"
+                      title={item.hidden ? "Show" : "Hide"}
+                    >
+                      {item.hidden ? (
+                        <EyeOff className="h-3 w-3 text-gray-400" />
+                      ) : (
+                        <Eye className="h-3 w-3 text-gray-600" />
+                      )}
                     </button>
-                    <button className="p-1 hover:bg-gray-200 rounded">
-                      <Lock className="h-3 w-3 text-gray-600" />
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleLock(item.id);
+                      }}
+                      className="p-1 hover:bg-gray-200 rounded"
+                      title={item.locked ? "Unlock" : "Lock"}
+                    >
+                      {item.locked ? (
+                        <Lock className="h-3 w-3 text-gray-600" />
+                      ) : (
+                        <Unlock className="h-3 w-3 text-gray-400" />
+                      )}
                     </button>
                   </div>
                 </div>
@@ -560,16 +594,28 @@ const PropertiesPanel: React.FC = () => {
             <div className="pt-4 border-t border-gray-200">
               <h5 className="text-xs font-medium text-gray-700 mb-2">Layer Actions</h5>
               <div className="grid grid-cols-2 gap-2">
-                <button className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-xs hover:bg-gray-200 transition-colors">
+                <button
+                  onClick={() => moveLayer(componentData.id, 'up')}
+                  className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-xs hover:bg-gray-200 transition-colors"
+                >
                   Bring Forward
                 </button>
-                <button className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-xs hover:bg-gray-200 transition-colors">
+                <button
+                  onClick={() => moveLayer(componentData.id, 'down')}
+                  className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-xs hover:bg-gray-200 transition-colors"
+                >
                   Send Backward
                 </button>
-                <button className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-xs hover:bg-gray-200 transition-colors">
+                <button
+                  onClick={() => moveLayer(componentData.id, 'front')}
+                  className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-xs hover:bg-gray-200 transition-colors"
+                >
                   Bring to Front
                 </button>
-                <button className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-xs hover:bg-gray-200 transition-colors">
+                <button
+                  onClick={() => moveLayer(componentData.id, 'back')}
+                  className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-xs hover:bg-gray-200 transition-colors"
+                >
                   Send to Back
                 </button>
               </div>
@@ -586,6 +632,7 @@ const PropertiesPanel: React.FC = () => {
               <input
                 type="text"
                 value={componentData.id}
+                readOnly
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm font-mono"
                 placeholder="unique-id"
               />
@@ -1,9 +1,12 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Globe, AlertCircle, CheckCircle, Copy, ExternalLink } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { useDomains } from '../../hooks/useDomains';
+import { useDomains, WebsiteDomain } from '../../hooks/useDomains';
+import { redirectTarget } from '../../lib/domainRecords';
+import { subdomainHost } from '../../lib/subdomains';
 import { useToast } from '../ui/use-toast';
+import UpgradePrompt from '../Billing/UpgradePrompt';
 
 interface PublishModalProps {
   website: {
@@ -11,9 +14,12 @@ interface PublishModalProps {
     name: string;
     status: 'draft' | 'published';
     domain?: string;
+    subdomain: string;
   };
   onClose: () => void;
   onPublish: (customDomain?: string) => void;
+  // Called with the primary domain when publishing changes it
+  onDomainChange?: (primaryDomain?: string) => void;
   isPublishing: boolean;
 }
 
@@ -21,12 +27,16 @@ const PublishModal: React.FC<PublishModalProps> = ({
   website, 
   onClose, 
   onPublish,
+  onDomainChange,
   isPublishing
 }) => {
-  const { connectCustomDomain, loading: domainLoading } = useDomains();
+  const { getDomains, connectCustomDomain, setPrimaryDomain, loading: domainLoading } = useDomains();
   const { toast } = useToast();
   
-  const [customDomain, setCustomDomain] = useState(website.domain || '');
+  const [customDomain, setCustomDomain] = useState('');
+  const [domains, setDomains] = useState<WebsiteDomain[]>([]);
+  // The id of the domain to serve the website on, or 'new' to add one
+  const [selectedDomain, setSelectedDomain] = useState('new');
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [publishOption, setPublishOption] = useState<'subdomain' | 'custom'>(
@@ -35,8 +45,19 @@ const PublishModal: React.FC<PublishModalProps> = ({
   const [domainInstructions, setDomainInstructions] = useState<any>(null);
   const [showDomainInstructions, setShowDomainInstructions] = useState(false);
 
+  useEffect(() => {
+    getDomains(website.id).then((result) => {
+      if (!result.success || !result.data) return;
+      setDomains(result.data);
+      const primary = result.data.find((domain) => domain.is_primary);
+      if (primary) setSelectedDomain(primary.id);
+    });
+  }, [getDomains, website.id]);
+
+  const primaryDomain = domains.find((domain) => domain.is_primary);
+
   const validateDomain = () => {
-    if (publishOption === 'custom' && customDomain) {
+    if (publishOption === 'custom' && selectedDomain === 'new' && customDomain) {
       const domainRegex = /^[a-zA-Z0-9][a-zA-Z0-9-]{0,61}[a-zA-Z0-9](?:\.[a-zA-Z]{2,})+$/;
       if (!domainRegex.test(customDomain)) {
         setErrors({ domain: 'Please enter a valid domain name (e.g., example.com)' });
@@ -51,10 +72,15 @@ const PublishModal: React.FC<PublishModalProps> = ({
   const handlePublish = async () => {
     if (!validateDomain()) return;
     
-    if (publishOption === 'custom' && customDomain) {
-      // Connect domain first
-      const domainResult = await connectCustomDomain(website.id, customDomain);
+    if (publishOption === 'custom' && selectedDomain === 'new' && customDomain) {
+      // Connect domain first, as the one the website is served on
+      const domainResult = await connectCustomDomain(website.id, customDomain, { primary: true });
       
+      if (domainResult.entitlement) {
+        setErrors({ plan: domainResult.error || 'Your plan does not include more custom domains' });
+        return;
+      }
+
       if (!domainResult.success) {
         setErrors({ domain: domainResult.error || 'Failed to connect domain' });
         toast({
@@ -69,19 +95,27 @@ const PublishModal: React.FC<PublishModalProps> = ({
         setDomainInstructions(domainResult.data.domainInstructions);
         setShowDomainInstructions(true);
       }
+      onDomainChange?.(customDomain.trim().toLowerCase());
+    } else if (publishOption === 'custom' && selectedDomain !== primaryDomain?.id) {
+      const selected = domains.find((domain) => domain.id === selectedDomain);
+      const domainResult = selected ? await setPrimaryDomain(selected.id) : null;
+
+      if (domainResult && !domainResult.success) {
+        setErrors({ domain: domainResult.error || 'Failed to change the primary domain' });
+        return;
+      }
+      onDomainChange?.(selected?.domain);
     }
     
     // Publish the website
-    const domain = publishOption === 'custom' ? customDomain : undefined;
+    const domain = publishOption !== 'custom'
+      ? undefined
+      : selectedDomain === 'new'
+        ? customDomain
+        : domains.find((d) => d.id === selectedDomain)?.domain;
     onPublish(domain);
   };
 
-  const getDefaultSubdomain = () => {
-    const websiteName = website.name.toLowerCase().replace(/[^a-z0-9]/g, '-');
-    const websiteId = website.id.substring(0, 8);
-    return `${websiteName}-${websiteId}.ncbx.app`;
-  };
-
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast({
@@ -127,14 +161,14 @@ const PublishModal: React.FC<PublishModalProps> = ({
                   <span className="text-sm font-medium text-gray-700">Website URL</span>
                   <div className="flex items-center space-x-2">
                     <button
-                      onClick={() => copyToClipboard(`https://${website.domain || getDefaultSubdomain()}`)}
+                      onClick={() => copyToClipboard(`https://${website.domain || subdomainHost(website.subdomain)}`)}
                       className="p-1 hover:bg-gray-200 rounded"
                       title="Copy URL"
                     >
                       <Copy className="h-4 w-4 text-gray-600" />
                     </button>
                     <a
-                      href={`https://${website.domain || getDefaultSubdomain()}`}
+                      href={`https://${website.domain || subdomainHost(website.subdomain)}`}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="p-1 hover:bg-gray-200 rounded"
@@ -145,8 +179,13 @@ const PublishModal: React.FC<PublishModalProps> = ({
                   </div>
                 </div>
                 <div className="text-blue-600 font-medium break-all">
-                  https://{website.domain || getDefaultSubdomain()}
+                  https://{website.domain || subdomainHost(website.subdomain)}
                 </div>
+                {domains.filter((domain) => !domain.is_primary).map((domain) => (
+                  <div key={domain.id} className="text-xs text-gray-600 mt-1 break-all">
+                    {domain.domain} redirects to {redirectTarget(domain, domains)}
+                  </div>
+                ))}
               </div>
 
               <div className="bg-yellow-50 p-4 rounded-lg border border-yellow-200">
@@ -205,7 +244,7 @@ const PublishModal: React.FC<PublishModalProps> = ({
                         Quick and easy - no additional setup required
                       </p>
                       <div className="text-sm font-medium text-blue-600 break-all">
-                        https://{getDefaultSubdomain()}
+                        https://{subdomainHost(website.subdomain)}
                       </div>
                     </div>
                   </div>
@@ -235,21 +274,56 @@ const PublishModal: React.FC<PublishModalProps> = ({
                       
                       {publishOption === 'custom' && (
                         <div className="mt-3">
-                          <input
-                            type="text"
-                            value={customDomain}
-                            onChange={(e) => setCustomDomain(e.target.value)}
-                            placeholder="yourdomain.com"
-                            className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                              errors.domain ? 'border-red-300' : 'border-gray-300'
-                            }`}
-                          />
+                          {domains.length > 0 && (
+                            <div className="space-y-2 mb-3">
+                              {domains.map((domain) => (
+                                <label key={domain.id} className="flex items-center space-x-2 text-sm">
+                                  <input
+                                    type="radio"
+                                    name="publishDomain"
+                                    checked={selectedDomain === domain.id}
+                                    onChange={() => setSelectedDomain(domain.id)}
+                                    className="text-blue-600 focus:ring-blue-500"
+                                  />
+                                  <span className="text-gray-900 break-all">{domain.domain}</span>
+                                  {domain.is_primary && <span className="text-xs text-gray-500">(primary)</span>}
+                                </label>
+                              ))}
+                              <label className="flex items-center space-x-2 text-sm">
+                                <input
+                                  type="radio"
+                                  name="publishDomain"
+                                  checked={selectedDomain === 'new'}
+                                  onChange={() => setSelectedDomain('new')}
+                                  className="text-blue-600 focus:ring-blue-500"
+                                />
+                                <span className="text-gray-900">Add a new domain</span>
+                              </label>
+                              <p className="text-xs text-gray-500">
+                                Your other domains redirect to the one you choose. Manage redirects in Domain Settings.
+                              </p>
+                            </div>
+                          )}
+                          {selectedDomain === 'new' && (
+                            <>
+                              <input
+                                type="text"
+                                value={customDomain}
+                                onChange={(e) => setCustomDomain(e.target.value)}
+                                placeholder="yourdomain.com"
+                                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                                  errors.domain ? 'border-red-300' : 'border-gray-300'
+                                }`}
+                              />
+                              <p className="mt-1 text-xs text-gray-500">
+                                Enter your domain without http:// or https://
+                              </p>
+                            </>
+                          )}
                           {errors.domain && (
                             <p className="mt-1 text-sm text-red-600">{errors.domain}</p>
                           )}
-                          <p className="mt-1 text-xs text-gray-500">
-                            Enter your domain without http:// or https://
-                          </p>
+                          {errors.plan && <UpgradePrompt message={errors.plan} className="mt-3" />}
                         </div>
                       )}
                     </div>
@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ArrowRight, CornerUpRight, Pencil, Trash2, Upload } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useRedirects } from '../../hooks/useRedirects';
+import {
+  isWildcard,
+  parseRedirectsCsv,
+  redirectRuleError,
+  normalizeRedirectRule,
+  RedirectRule,
+  RedirectStatusCode,
+  REDIRECT_STATUS_CODES,
+  WebsiteRedirect,
+} from '../../lib/redirects';
+import { useToast } from '../ui/use-toast';
+
+interface RedirectSettingsProps {
+  website: {
+    id: string;
+    name: string;
+  };
+  onClose: () => void;
+}
+
+const emptyRule: RedirectRule = { source: '', target: '', status_code: 301 };
+
+const statusLabels: Record<RedirectStatusCode, string> = {
+  301: '301 Permanent',
+  302: '302 Temporary',
+};
+
+const RedirectSettings: React.FC<RedirectSettingsProps> = ({ website, onClose }) => {
+  const [redirects, setRedirects] = useState<WebsiteRedirect[]>([]);
+  const [newRule, setNewRule] = useState<RedirectRule>(emptyRule);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editRule, setEditRule] = useState<RedirectRule>(emptyRule);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const { loading, getRedirects, saveRedirects, updateRedirect, removeRedirect } = useRedirects();
+  const { toast } = useToast();
+
+  const loadRedirects = useCallback(async () => {
+    const result = await getRedirects(website.id);
+    if (result.success) {
+      setRedirects(result.data ?? []);
+    } else {
+      setFormError(result.error || 'Failed to load redirects');
+    }
+  }, [getRedirects, website.id]);
+
+  useEffect(() => {
+    loadRedirects();
+  }, [loadRedirects]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rule = normalizeRedirectRule(newRule);
+    const invalid = redirectRuleError(rule);
+    if (invalid) {
+      setFormError(invalid);
+      return;
+    }
+    if (redirects.some((redirect) => redirect.source === rule.source)) {
+      setFormError('A redirect for this source path already exists');
+      return;
+    }
+
+    const result = await saveRedirects(website.id, [rule]);
+    if (result.success) {
+      setNewRule(emptyRule);
+      setFormError(null);
+      await loadRedirects();
+    } else {
+      setFormError(result.error || 'Failed to add redirect');
+    }
+  };
+
+  const startEditing = (redirect: WebsiteRedirect) => {
+    setEditingId(redirect.id);
+    setEditRule({ source: redirect.source, target: redirect.target, status_code: redirect.status_code });
+    setFormError(null);
+  };
+
+  const handleUpdate = async (redirectId: string) => {
+    const result = await updateRedirect(redirectId, editRule);
+    if (result.success) {
+      setEditingId(null);
+      setFormError(null);
+      await loadRedirects();
+    } else {
+      setFormError(result.error || 'Failed to update redirect');
+    }
+  };
+
+  const handleRemove = async (redirect: WebsiteRedirect) => {
+    const result = await removeRedirect(redirect.id);
+    if (result.success) {
+      setRedirects((current) => current.filter((r) => r.id !== redirect.id));
+    } else {
+      toast({
+        title: "Failed to remove redirect",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Lets the same file be picked again after fixing it
+    e.target.value = '';
+    if (!file) return;
+
+    const { rules, errors } = parseRedirectsCsv(await file.text());
+    setImportErrors(errors);
+    if (rules.length === 0) {
+      if (errors.length === 0) setImportErrors(['The file has no redirects']);
+      return;
+    }
+
+    const result = await saveRedirects(website.id, rules);
+    if (result.success) {
+      toast({
+        title: "Redirects imported",
+        description: `Imported ${rules.length} redirect${rules.length === 1 ? '' : 's'}${
+          errors.length ? `; skipped ${errors.length} invalid line${errors.length === 1 ? '' : 's'}` : ''
+        }`,
+      });
+      await loadRedirects();
+    } else {
+      toast({
+        title: "Import failed",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderStatusSelect = (value: RedirectStatusCode, onChange: (status: RedirectStatusCode) => void, id: string) => (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value) as RedirectStatusCode)}
+      className="px-2 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    >
+      {REDIRECT_STATUS_CODES.map((code) => (
+        <option key={code} value={code}>{statusLabels[code]}</option>
+      ))}
+    </select>
+  );
+
+  const inputClass =
+    'flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  const renderRedirect = (redirect: WebsiteRedirect) => {
+    if (editingId === redirect.id) {
+      return (
+        <div key={redirect.id} className="p-3 border border-blue-200 bg-blue-50 rounded-lg space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={editRule.source}
+              onChange={(e) => setEditRule({ ...editRule, source: e.target.value })}
+              aria-label="Source path"
+              className={inputClass}
+            />
+            <ArrowRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <input
+              type="text"
+              value={editRule.target}
+              onChange={(e) => setEditRule({ ...editRule, target: e.target.value })}
+              aria-label="Target"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            {renderStatusSelect(
+              editRule.status_code,
+              (status_code) => setEditRule({ ...editRule, status_code }),
+              `status-${redirect.id}`
+            )}
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setEditingId(null)}
+                className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleUpdate(redirect.id)}
+                disabled={loading}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div key={redirect.id} className="p-3 border border-gray-200 rounded-lg flex items-center gap-3">
+        <div className="flex-1 min-w-0 text-sm font-mono">
+          <div className="text-gray-900 break-all">{redirect.source}</div>
+          <div className="text-gray-600 break-all flex items-center">
+            <ArrowRight className="h-3 w-3 mr-1 flex-shrink-0" />
+            {redirect.target}
+          </div>
+        </div>
+        {isWildcard(redirect.source) && (
+          <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-purple-100 text-purple-800">Wildcard</span>
+        )}
+        <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+          {redirect.status_code}
+        </span>
+        <button
+          onClick={() => startEditing(redirect)}
+          className="p-1 text-gray-500 hover:text-gray-700"
+          title="Edit redirect"
+        >
+          <Pencil className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => handleRemove(redirect)}
+          disabled={loading}
+          className="p-1 text-red-500 hover:text-red-700 disabled:opacity-50"
+          title="Remove redirect"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center">
+              <CornerUpRight className="h-6 w-6 text-blue-600 mr-3" />
+              <h3 className="text-2xl font-bold text-gray-900">Redirects</h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              ×
+            </button>
+          </div>
+
+          <p className="text-sm text-gray-600 mb-4">
+            Send visitors from old paths to new ones. End a source with <code className="font-mono">*</code> to
+            match everything below it, e.g. <code className="font-mono">/blog/*</code>, and use{' '}
+            <code className="font-mono">:splat</code> in the target for the matched part. Changes take effect the next
+            time you deploy {website.name}.
+          </p>
+
+          {/* Add Redirect */}
+          <form onSubmit={handleAdd} className="mb-6 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newRule.source}
+                onChange={(e) => setNewRule({ ...newRule, source: e.target.value })}
+                placeholder="/old-page"
+                aria-label="Source path"
+                className={inputClass}
+              />
+              <ArrowRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              <input
+                type="text"
+                value={newRule.target}
+                onChange={(e) => setNewRule({ ...newRule, target: e.target.value })}
+                placeholder="/new-page"
+                aria-label="Target"
+                className={inputClass}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              {renderStatusSelect(newRule.status_code, (status_code) => setNewRule({ ...newRule, status_code }), 'new-redirect-status')}
+              <button
+                type="submit"
+                disabled={loading || !newRule.source || !newRule.target}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Add Redirect
+              </button>
+            </div>
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+          </form>
+
+          {/* Redirect Rules */}
+          <div className="mb-6">
+            <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center justify-between">
+              <span>Rules ({redirects.length})</span>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={loading}
+                className="text-blue-600 hover:text-blue-800 text-xs flex items-center disabled:opacity-50"
+              >
+                <Upload className="h-3 w-3 mr-1" />
+                Import CSV
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleImport}
+                className="hidden"
+              />
+            </h4>
+            <p className="text-xs text-gray-500 mb-3">
+              CSV columns: source, target and an optional status code (301 when left out). Existing rules for the same
+              source are replaced.
+            </p>
+
+            {importErrors.length > 0 && (
+              <div className="mb-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-xs text-yellow-800">
+                <p className="font-medium mb-1">Some lines were not imported:</p>
+                <ul className="list-disc list-inside space-y-0.5">
+                  {importErrors.slice(0, 10).map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+                {importErrors.length > 10 && <p className="mt-1">and {importErrors.length - 10} more</p>}
+              </div>
+            )}
+
+            {redirects.length === 0 ? (
+              <p className="text-sm text-gray-500">No redirects yet.</p>
+            ) : (
+              <div className="space-y-2">{redirects.map(renderRedirect)}</div>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default RedirectSettings;
@@ -0,0 +1,357 @@
+import React from 'react';
+import { z } from 'zod';
+import { Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import {
+  createEmptyValue,
+  getFieldControl,
+  getFieldMeta,
+  getFieldOptions,
+  unwrapSchema
+} from '../../lib/schemaFields';
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+// Native color inputs only accept #rrggbb
+const toColorInputValue = (value: unknown, fallback: string) =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : fallback;
+
+// Keeps a value that was set elsewhere (e.g. "2.5rem") selectable in a fixed list
+const withCurrentValue = (options: readonly string[], value: unknown) =>
+  value !== undefined && value !== '' && !options.includes(String(value))
+    ? [String(value), ...options]
+    : options;
+
+// datetime-local wants "YYYY-MM-DDTHH:mm" in local time
+const toLocalDateTime = (value: unknown) => {
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime())
+    ? ''
+    : new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+interface ListEditorProps<T> {
+  label: string;
+  items: T[];
+  onChange: (items: T[]) => void;
+  createItem: () => T;
+  itemLabel: (item: T, index: number) => string;
+  renderItem: (item: T, update: (patch: Partial<T>) => void) => React.ReactNode;
+}
+
+// Editable list of entries (gallery images, pricing tiers, ...) with add,
+// remove and reorder controls
+const ListEditor = <T,>({ label, items, onChange, createItem, itemLabel, renderItem }: ListEditorProps<T>) => {
+  const move = (index: number, offset: number) => {
+    const next = [...items];
+    const [item] = next.splice(index, 1);
+    next.splice(index + offset, 0, item);
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium text-gray-700">{label}</label>
+        <button
+          onClick={() => onChange([...items, createItem()])}
+          className="flex items-center text-xs text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add
+        </button>
+      </div>
+      <div className="space-y-3">
+        {items.map((item, index) => (
+          <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-600 truncate">{itemLabel(item, index)}</span>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 hover:bg-gray-100 rounded disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ChevronUp className="h-3 w-3" />
+                </button>
+                <button
+                  onClick={() => move(index, 1)}
+                  disabled={index === items.length - 1}
+                  className="p-1 hover:bg-gray-100 rounded disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ChevronDown className="h-3 w-3" />
+                </button>
+                <button
+                  onClick={() => onChange(items.filter((_, i) => i !== index))}
+                  className="p-1 hover:bg-red-100 rounded text-red-600"
+                  title="Remove"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            </div>
+            {renderItem(item, (patch) => onChange(items.map((current, i) => (i === index ? { ...current, ...patch } : current))))}
+          </div>
+        ))}
+        {items.length === 0 && <p className="text-xs text-gray-500">Nothing here yet</p>}
+      </div>
+    </div>
+  );
+};
+
+interface SchemaFieldProps {
+  name: string;
+  schema: z.ZodTypeAny;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  renderLabel: (name: string, label: string) => React.ReactNode;
+}
+
+const SchemaField: React.FC<SchemaFieldProps> = ({ name, schema, value, onChange, renderLabel }) => {
+  const meta = getFieldMeta(schema);
+  const label = meta?.label ?? name;
+  const inner = unwrapSchema(schema);
+
+  // Lists of objects get an entry per item with its own generated fields
+  if (inner instanceof z.ZodArray && unwrapSchema(inner.element) instanceof z.ZodObject) {
+    const itemSchema = unwrapSchema(inner.element) as z.AnyZodObject;
+    const items = Array.isArray(value) ? (value as Record<string, unknown>[]) : [];
+    return (
+      <ListEditor
+        label={label}
+        items={items}
+        onChange={onChange}
+        createItem={() => createEmptyValue(itemSchema) as Record<string, unknown>}
+        itemLabel={(item, index) =>
+          (meta?.itemTitle && String(item[meta.itemTitle] ?? '')) || `${label} ${index + 1}`
+        }
+        renderItem={(item, update) => <SchemaForm schema={itemSchema} values={item} onChange={update} />}
+      />
+    );
+  }
+
+  const control = getFieldControl(schema);
+  const text = value === undefined || value === null ? '' : String(value);
+  const min = meta?.min ?? (inner instanceof z.ZodNumber ? inner.minValue ?? undefined : undefined);
+  const max = meta?.max ?? (inner instanceof z.ZodNumber ? inner.maxValue ?? undefined : undefined);
+
+  if (control === 'checkbox') {
+    return (
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span className="text-sm text-gray-700">{label}</span>
+      </label>
+    );
+  }
+
+  let input: React.ReactNode;
+  switch (control) {
+    case 'textarea':
+      input = (
+        <textarea value={text} onChange={(e) => onChange(e.target.value)} placeholder={meta?.placeholder} rows={3} className={inputClass} />
+      );
+      break;
+
+    case 'lines':
+      input = (
+        <textarea
+          value={Array.isArray(value) ? value.join('\n') : ''}
+          onChange={(e) => onChange(e.target.value.split('\n'))}
+          placeholder={meta?.placeholder}
+          rows={3}
+          className={inputClass}
+        />
+      );
+      break;
+
+    case 'color':
+      input = (
+        <div className="flex space-x-2">
+          <input
+            type="color"
+            value={toColorInputValue(value, '#000000')}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-12 h-10 border border-gray-300 rounded-lg cursor-pointer"
+          />
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={meta?.placeholder}
+            className={`flex-1 ${inputClass.replace('w-full ', '')} font-mono`}
+          />
+        </div>
+      );
+      break;
+
+    case 'number':
+      input = (
+        <input
+          type="number"
+          value={text}
+          min={min}
+          max={max}
+          onChange={(e) => {
+            const next = Number(e.target.value);
+            if (e.target.value === '' || Number.isNaN(next)) return;
+            onChange(Math.min(max ?? Infinity, Math.max(min ?? -Infinity, next)));
+          }}
+          placeholder={meta?.placeholder}
+          className={inputClass}
+        />
+      );
+      break;
+
+    case 'range': {
+      const current = text || meta?.placeholder || String(min ?? 0);
+      input = (
+        <>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={meta?.step}
+            value={current}
+            onChange={(e) => onChange(inner instanceof z.ZodNumber ? Number(e.target.value) : e.target.value)}
+            className="w-full"
+          />
+          <div className="text-xs text-gray-500 text-center mt-1">{current}</div>
+        </>
+      );
+      break;
+    }
+
+    case 'select': {
+      const options = withCurrentValue(getFieldOptions(schema), value);
+      input = (
+        <select
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={`${inputClass} ${meta?.optionLabels ? '' : 'capitalize'}`}
+        >
+          {schema.isOptional() && !options.includes(text) && <option value="">Default</option>}
+          {options.map(option => (
+            <option key={option} value={option}>
+              {meta?.optionLabels?.[option] ?? option}
+            </option>
+          ))}
+        </select>
+      );
+      break;
+    }
+
+    case 'segmented': {
+      const options = getFieldOptions(schema);
+      input = (
+        <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${options.length}, minmax(0, 1fr))` }}>
+          {options.map(option => (
+            <button
+              key={option}
+              onClick={() => onChange(option)}
+              className={`px-3 py-2 border rounded-lg text-sm capitalize transition-colors ${
+                value === option
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {meta?.optionLabels?.[option] ?? option}
+            </button>
+          ))}
+        </div>
+      );
+      break;
+    }
+
+    case 'datetime':
+      input = (
+        <input
+          type="datetime-local"
+          value={toLocalDateTime(value)}
+          onChange={(e) => e.target.value && onChange(new Date(e.target.value).toISOString())}
+          className={inputClass}
+        />
+      );
+      break;
+
+    default:
+      input = (
+        <input
+          type={control === 'url' ? 'url' : control === 'date' ? 'date' : 'text'}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={meta?.placeholder}
+          className={inputClass}
+        />
+      );
+  }
+
+  return (
+    <div>
+      {renderLabel(name, label)}
+      {input}
+    </div>
+  );
+};
+
+const defaultLabel = (_name: string, label: string) => (
+  <label className="block text-xs text-gray-500 mb-1">{label}</label>
+);
+
+interface SchemaFormProps {
+  schema: z.AnyZodObject;
+  values: Record<string, unknown>;
+  onChange: (patch: Record<string, unknown>) => void;
+  // Replaces the plain field label, e.g. to mark breakpoint overrides
+  renderLabel?: (name: string, label: string) => React.ReactNode;
+}
+
+// Fields generated from a zod object schema and its field() metadata. Fields
+// sharing a group are listed under one heading.
+const SchemaForm: React.FC<SchemaFormProps> = ({ schema, values, onChange, renderLabel = defaultLabel }) => {
+  const groups: { name?: string; fields: [string, z.ZodTypeAny][] }[] = [];
+  Object.entries(schema.shape as z.ZodRawShape).forEach(([name, fieldSchema]) => {
+    const group = getFieldMeta(fieldSchema)?.group;
+    const last = groups[groups.length - 1];
+    if (last && last.name === group) {
+      last.fields.push([name, fieldSchema]);
+    } else {
+      groups.push({ name: group, fields: [[name, fieldSchema]] });
+    }
+  });
+
+  const renderFields = (fields: [string, z.ZodTypeAny][]) =>
+    fields.map(([name, fieldSchema]) => (
+      <SchemaField
+        key={name}
+        name={name}
+        schema={fieldSchema}
+        value={values[name]}
+        onChange={(value) => onChange({ [name]: value })}
+        renderLabel={renderLabel}
+      />
+    ));
+
+  return (
+    <div className={groups.some(group => group.name) ? 'space-y-6' : 'space-y-3'}>
+      {groups.map((group, index) =>
+        group.name ? (
+          <div key={group.name}>
+            <label className="block text-sm font-medium text-gray-700 mb-3">{group.name}</label>
+            <div className="space-y-3">{renderFields(group.fields)}</div>
+          </div>
+        ) : (
+          <div key={index} className="space-y-3">{renderFields(group.fields)}</div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default SchemaForm;
@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { CheckCircle, Copy, ExternalLink, Loader, XCircle } from 'lucide-react';
+import { useDomains, SubdomainAvailability } from '../../hooks/useDomains';
+import {
+  normalizeSubdomain,
+  subdomainFormatError,
+  subdomainHost,
+  SITE_DOMAIN,
+  SUBDOMAIN_MAX_LENGTH,
+  SUBDOMAIN_REDIRECT_DAYS,
+  SUBDOMAIN_REDIRECT_LIMIT,
+} from '../../lib/subdomains';
+import { useToast } from '../ui/use-toast';
+
+interface SubdomainPickerProps {
+  websiteId: string;
+  subdomain: string;
+  onChange?: (subdomain: string) => void;
+}
+
+// How long to wait after the last keystroke before asking the database
+const CHECK_DELAY_MS = 400;
+
+const SubdomainPicker: React.FC<SubdomainPickerProps> = ({ websiteId, subdomain, onChange }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(subdomain);
+  const [availability, setAvailability] = useState<SubdomainAvailability | null>(null);
+  const [checking, setChecking] = useState(false);
+  const { loading, checkSubdomain, changeSubdomain } = useDomains();
+  const { toast } = useToast();
+
+  const normalized = normalizeSubdomain(draft);
+  const unchanged = normalized === subdomain;
+  const formatError = unchanged ? null : subdomainFormatError(normalized);
+
+  useEffect(() => {
+    setAvailability(null);
+    if (!editing || unchanged || formatError) {
+      setChecking(false);
+      return;
+    }
+
+    // Answers for earlier keystrokes are ignored once the draft moves on
+    let current = true;
+    setChecking(true);
+    const timer = setTimeout(async () => {
+      const result = await checkSubdomain(websiteId, normalized);
+      if (!current) return;
+      setChecking(false);
+      if (result.success && result.data) {
+        setAvailability(result.data);
+      } else {
+        setAvailability({ subdomain: normalized, available: false, reason: result.error ?? 'Could not check availability' });
+      }
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [editing, unchanged, formatError, normalized, websiteId, checkSubdomain]);
+
+  const startEditing = () => {
+    setDraft(subdomain);
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!availability?.available) return;
+
+    const result = await changeSubdomain(websiteId, normalized);
+    if (result.success && result.data) {
+      onChange?.(result.data);
+      setEditing(false);
+      toast({
+        title: "Subdomain changed",
+        description: `Your website is now at ${subdomainHost(result.data)}. ${subdomainHost(subdomain)} redirects there for ${SUBDOMAIN_REDIRECT_DAYS} days.`,
+      });
+    } else {
+      toast({
+        title: "Failed to change subdomain",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied to clipboard",
+      description: "Text copied successfully",
+    });
+  };
+
+  const url = `https://${subdomainHost(subdomain)}`;
+
+  const renderStatus = () => {
+    if (unchanged) {
+      return <span className="text-gray-500">This is your current subdomain</span>;
+    }
+    if (formatError) {
+      return (
+        <span className="text-red-600 flex items-center">
+          <XCircle className="h-3 w-3 mr-1" />
+          {formatError}
+        </span>
+      );
+    }
+    if (checking || !availability) {
+      return (
+        <span className="text-gray-500 flex items-center">
+          <Loader className="h-3 w-3 mr-1 animate-spin" />
+          Checking availability...
+        </span>
+      );
+    }
+    if (availability.available) {
+      return (
+        <span className="text-green-600 flex items-center">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          Available
+        </span>
+      );
+    }
+    return (
+      <span className="text-red-600 flex items-center">
+        <XCircle className="h-3 w-3 mr-1" />
+        {availability.reason}
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm text-gray-600">Your website is available at:</span>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => copyToClipboard(url)}
+            className="p-1 hover:bg-gray-200 rounded"
+            title="Copy URL"
+          >
+            <Copy className="h-4 w-4 text-gray-600" />
+          </button>
+          <a
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="p-1 hover:bg-gray-200 rounded"
+            title="Open website"
+          >
+            <ExternalLink className="h-4 w-4 text-gray-600" />
+          </a>
+          {!editing && (
+            <button
+              onClick={startEditing}
+              className="text-blue-600 hover:text-blue-800 text-xs font-medium"
+            >
+              Change
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="text-blue-600 font-medium break-all">{url}</div>
+
+      {editing && (
+        <form onSubmit={handleSave} className="mt-4">
+          <label htmlFor={`subdomain-${websiteId}`} className="block text-sm font-medium text-gray-700 mb-1">
+            New subdomain
+          </label>
+          <div className="flex items-center">
+            <input
+              id={`subdomain-${websiteId}`}
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={SUBDOMAIN_MAX_LENGTH}
+              autoFocus
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-l-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span className="px-3 py-2 border border-l-0 border-gray-300 rounded-r-lg bg-gray-100 text-gray-600 text-sm">
+              .{SITE_DOMAIN}
+            </span>
+          </div>
+          <div className="text-xs mt-2">{renderStatus()}</div>
+          <p className="text-xs text-gray-500 mt-2">
+            The current address redirects to the new one for {SUBDOMAIN_REDIRECT_DAYS} days. Only the last{' '}
+            {SUBDOMAIN_REDIRECT_LIMIT} addresses you replaced keep redirecting.
+          </p>
+          <div className="flex justify-end space-x-3 mt-3">
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || checking || !availability?.available}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default SubdomainPicker;
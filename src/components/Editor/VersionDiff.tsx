@@ -0,0 +1,105 @@
+import React, { useMemo } from 'react';
+import { Plus, Minus, Edit3, AlertCircle } from 'lucide-react';
+import { ZodError } from 'zod';
+import { WebsiteVersion } from '../../hooks/useWebsites';
+import { diffVersionContent, getComponentLabel, isEmptyDiff, VersionDiff as VersionDiffResult } from '../../lib/versionDiff';
+
+interface VersionDiffProps {
+  base: WebsiteVersion;
+  compare: WebsiteVersion;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value === '' ? '""' : value;
+  return JSON.stringify(value);
+};
+
+const VersionDiff: React.FC<VersionDiffProps> = ({ base, compare }) => {
+  const { diff, error } = useMemo<{ diff: VersionDiffResult | null; error: string | null }>(() => {
+    try {
+      return { diff: diffVersionContent(base.content, compare.content), error: null };
+    } catch (err) {
+      console.error('Error comparing versions:', err);
+      return {
+        diff: null,
+        error: err instanceof ZodError
+          ? 'One of these versions contains content that could not be read'
+          : 'Failed to compare versions'
+      };
+    }
+  }, [base, compare]);
+
+  if (error || !diff) {
+    return (
+      <div className="flex items-center text-sm text-red-600 bg-red-50 rounded-lg p-3">
+        <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+        {error}
+      </div>
+    );
+  }
+
+  if (isEmptyDiff(diff)) {
+    return (
+      <div className="text-sm text-gray-500 bg-gray-50 rounded-lg p-3 text-center">
+        No differences between version {base.version_number} and version {compare.version_number}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex items-center space-x-4 text-xs text-gray-600">
+        <span className="flex items-center"><Plus className="h-3 w-3 mr-1 text-green-600" />{diff.added.length} added</span>
+        <span className="flex items-center"><Minus className="h-3 w-3 mr-1 text-red-600" />{diff.removed.length} removed</span>
+        <span className="flex items-center"><Edit3 className="h-3 w-3 mr-1 text-blue-600" />{diff.changed.length} changed</span>
+      </div>
+
+      {diff.added.map(component => (
+        <div key={`added-${component.id}`} className="flex items-center p-2 rounded-lg border border-green-200 bg-green-50">
+          <Plus className="h-4 w-4 mr-2 text-green-600" />
+          <span className="font-medium text-gray-900 truncate">{getComponentLabel(component)}</span>
+          <span className="ml-2 text-xs text-gray-500 capitalize">({component.type})</span>
+        </div>
+      ))}
+
+      {diff.removed.map(component => (
+        <div key={`removed-${component.id}`} className="flex items-center p-2 rounded-lg border border-red-200 bg-red-50">
+          <Minus className="h-4 w-4 mr-2 text-red-600" />
+          <span className="font-medium text-gray-900 truncate line-through">{getComponentLabel(component)}</span>
+          <span className="ml-2 text-xs text-gray-500 capitalize">({component.type})</span>
+        </div>
+      ))}
+
+      {diff.changed.map(component => (
+        <div key={`changed-${component.id}`} className="rounded-lg border border-blue-200 overflow-hidden">
+          <div className="flex items-center p-2 bg-blue-50">
+            <Edit3 className="h-4 w-4 mr-2 text-blue-600" />
+            <span className="font-medium text-gray-900 truncate">{component.label}</span>
+            <span className="ml-2 text-xs text-gray-500 capitalize">({component.type})</span>
+          </div>
+          <table className="w-full text-xs table-fixed">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="px-2 py-1 font-medium w-1/4">Property</th>
+                <th className="px-2 py-1 font-medium">Version {base.version_number}</th>
+                <th className="px-2 py-1 font-medium">Version {compare.version_number}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {component.changes.map(change => (
+                <tr key={change.property} className="border-b border-gray-100 last:border-0 align-top">
+                  <td className="px-2 py-1 font-mono text-gray-700 break-words">{change.property}</td>
+                  <td className="px-2 py-1 font-mono text-red-700 bg-red-50 break-words">{formatValue(change.before)}</td>
+                  <td className="px-2 py-1 font-mono text-green-700 bg-green-50 break-words">{formatValue(change.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VersionDiff;
@@ -1,27 +1,51 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Clock, ArrowLeft, RotateCcw, AlertCircle, Loader } from 'lucide-react';
+import { Clock, ArrowLeft, RotateCcw, AlertCircle, Loader, X, Eye, ExternalLink } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useWebsites, WebsiteVersion } from '../../hooks/useWebsites';
+import { useDeployment, DeploymentStatus, isDeploymentActive } from '../../hooks/useDeployment';
+import VersionDiff from './VersionDiff';
+
+const VERSIONS_PAGE_SIZE = 20;
 
 interface VersionHistoryPanelProps {
   websiteId: string;
   onClose: () => void;
+  // Called after a restore so the editor can reload the canvas
+  onRestore?: () => void;
 }
 
-const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ websiteId, onClose }) => {
-  const { getWebsiteVersions } = useWebsites();
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ websiteId, onClose, onRestore }) => {
+  const { getWebsiteVersions, restoreWebsiteVersion } = useWebsites();
+  const { deployPreview, getPreviewDeployments } = useDeployment();
   const [versions, setVersions] = useState<WebsiteVersion[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(1);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [, setSelectedVersion] = useState<string | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<string | null>(null);
   const [showRestoreConfirm, setShowRestoreConfirm] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [diffVersions, setDiffVersions] = useState<{ baseId: string; compareId: string } | null>(null);
+  // Preview deployment of each version, keyed by version id
+  const [previews, setPreviews] = useState<Record<string, DeploymentStatus>>({});
+  const [startingPreview, setStartingPreview] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<{ versionId: string; message: string } | null>(null);
+
+  const findVersion = (id: string | null | undefined) => versions.find(v => v.id === id);
+  // The newest saved version is what the editor currently has loaded
+  const latestVersion = versions[0];
+  const versionToRestore = findVersion(selectedVersion);
 
   const fetchVersions = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
-      const data = await getWebsiteVersions(websiteId);
+      const { data, count } = await getWebsiteVersions(websiteId, 1, VERSIONS_PAGE_SIZE);
       setVersions(data);
+      setTotalCount(count);
+      setPage(1);
     } catch (err) {
       console.error('Error fetching versions:', err);
       setError('Failed to load version history');
@@ -34,15 +58,123 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ websiteId, on
     fetchVersions();
   }, [fetchVersions, websiteId]);
 
+  const fetchPreviews = useCallback(async () => {
+    setPreviews(await getPreviewDeployments(websiteId));
+  }, [getPreviewDeployments, websiteId]);
+
+  useEffect(() => {
+    fetchPreviews();
+  }, [fetchPreviews]);
+
+  // Refresh while any preview is still building
+  const hasActivePreview = Object.values(previews).some(preview => isDeploymentActive(preview.status));
+  useEffect(() => {
+    if (!hasActivePreview) return;
+    const interval = setInterval(fetchPreviews, 3000);
+    return () => clearInterval(interval);
+  }, [hasActivePreview, fetchPreviews]);
+
+  const loadMoreVersions = async () => {
+    try {
+      setLoadingMore(true);
+      const { data, count } = await getWebsiteVersions(websiteId, page + 1, VERSIONS_PAGE_SIZE);
+      setVersions(prev => [...prev, ...data]);
+      setTotalCount(count);
+      setPage(page + 1);
+    } catch (err) {
+      console.error('Error fetching more versions:', err);
+      setError('Failed to load version history');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const handleRestore = (versionId: string) => {
     setSelectedVersion(versionId);
+    setRestoreError(null);
     setShowRestoreConfirm(true);
   };
 
-  const confirmRestore = async () => {
-    // In a real implementation, this would restore the selected version
+  const cancelRestore = () => {
     setShowRestoreConfirm(false);
     setSelectedVersion(null);
+    setRestoreError(null);
+  };
+
+  const confirmRestore = async () => {
+    if (!selectedVersion) return;
+
+    try {
+      setRestoring(true);
+      setRestoreError(null);
+      await restoreWebsiteVersion(websiteId, selectedVersion);
+      setShowRestoreConfirm(false);
+      setSelectedVersion(null);
+      onRestore?.();
+      await fetchVersions();
+    } catch (err) {
+      console.error('Error restoring version:', err);
+      setRestoreError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handlePreview = async (versionId: string) => {
+    setStartingPreview(versionId);
+    setPreviewError(null);
+    const result = await deployPreview(versionId);
+    setStartingPreview(null);
+
+    if (result.success) {
+      await fetchPreviews();
+    } else {
+      setPreviewError({ versionId, message: result.error || 'Failed to deploy preview' });
+    }
+  };
+
+  const renderPreviewControl = (versionId: string) => {
+    const preview = previews[versionId];
+    if (preview?.status === 'deployed' && preview.deployment_url) {
+      return (
+        <a
+          href={preview.deployment_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs text-purple-600 hover:text-purple-800 flex items-center"
+          title={preview.deployment_url}
+        >
+          <ExternalLink className="h-3 w-3 mr-1" />
+          Preview
+        </a>
+      );
+    }
+    if (startingPreview === versionId || (preview && isDeploymentActive(preview.status))) {
+      return (
+        <span className="text-xs text-gray-500 flex items-center">
+          <Loader className="h-3 w-3 mr-1 animate-spin" />
+          Building preview
+        </span>
+      );
+    }
+    return (
+      <button
+        onClick={() => handlePreview(versionId)}
+        disabled={startingPreview !== null}
+        className="text-xs text-purple-600 hover:text-purple-800 flex items-center disabled:opacity-50"
+        title={preview?.status === 'failed' ? 'The last preview failed to build' : 'Deploy this version to its own preview URL'}
+      >
+        <Eye className="h-3 w-3 mr-1" />
+        {preview?.status === 'failed' ? 'Retry preview' : 'Preview'}
+      </button>
+    );
+  };
+
+  const handleViewChanges = (index: number) => {
+    const version = versions[index];
+    // Compare against the version saved just before it
+    const previous = versions[index + 1] ?? version;
+    setDiffVersions({ baseId: previous.id, compareId: version.id });
   };
 
   const formatDate = (dateString: string) => {
@@ -89,7 +221,10 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ websiteId, on
             <h3 className="text-lg font-semibold text-gray-900">Version History</h3>
           </div>
           <button
-            onClick={fetchVersions}
+            onClick={() => {
+              fetchVersions();
+              fetchPreviews();
+            }}
             className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
             title="Refresh"
           >
@@ -130,7 +265,7 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ websiteId, on
           </div>
         ) : (
           <div className="p-4 space-y-3">
-            {versions.map((version) => (
+            {versions.map((version, index) => (
               <div
                 key={version.id}
                 className={`border rounded-lg p-3 transition-colors ${
@@ -171,12 +306,33 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ websiteId, on
                     Restore this version
                   </button>
                   
-                  <button className="text-xs text-gray-600 hover:text-gray-800">
-                    View changes
-                  </button>
+                  <div className="flex items-center space-x-3">
+                    {renderPreviewControl(version.id)}
+                    <button
+                      onClick={() => handleViewChanges(index)}
+                      className="text-xs text-gray-600 hover:text-gray-800"
+                    >
+                      View changes
+                    </button>
+                  </div>
                 </div>
+
+                {previewError?.versionId === version.id && (
+                  <p className="text-xs text-red-600 mt-2">{previewError.message}</p>
+                )}
               </div>
             ))}
+
+            {versions.length < totalCount && (
+              <button
+                onClick={loadMoreVersions}
+                disabled={loadingMore}
+                className="w-full py-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50 flex items-center justify-center"
+              >
+                {loadingMore && <Loader className="h-4 w-4 mr-2 animate-spin" />}
+                Load older versions
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -187,30 +343,104 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ websiteId, on
           <motion.div
             initial={{ opacity: 0, scale: 0.9 }}
             animate={{ opacity: 1, scale: 1 }}
-            className="bg-white rounded-lg p-6 max-w-md w-full mx-4"
+            className="bg-white rounded-lg p-6 max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col"
           >
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">Restore Version</h3>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              Restore Version {versionToRestore?.version_number}
+            </h3>
             <p className="text-gray-600 mb-4">
-              Are you sure you want to restore this version? Your current unsaved changes will be lost.
+              Restoring saves a copy of this version as the newest version. Your current unsaved changes will be lost.
             </p>
+
+            {latestVersion && versionToRestore && latestVersion.id !== versionToRestore.id && (
+              <div className="flex-1 overflow-y-auto mb-4">
+                <h4 className="text-sm font-medium text-gray-900 mb-2">
+                  Changes from version {latestVersion.version_number} (current)
+                </h4>
+                <VersionDiff base={latestVersion} compare={versionToRestore} />
+              </div>
+            )}
+
+            {restoreError && (
+              <div className="flex items-center text-sm text-red-600 bg-red-50 rounded-lg p-3 mb-4">
+                <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+                {restoreError}
+              </div>
+            )}
+
             <div className="flex space-x-3">
               <button
-                onClick={() => setShowRestoreConfirm(false)}
-                className="flex-1 bg-gray-100 text-gray-700 py-2 px-4 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+                onClick={cancelRestore}
+                disabled={restoring}
+                className="flex-1 bg-gray-100 text-gray-700 py-2 px-4 rounded-lg font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
               >
                 Cancel
               </button>
               <button
                 onClick={confirmRestore}
-                className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center justify-center"
+                disabled={restoring}
+                className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center justify-center disabled:opacity-50"
               >
-                <RotateCcw className="h-4 w-4 mr-2" />
+                {restoring ? (
+                  <Loader className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                )}
                 Restore
               </button>
             </div>
           </motion.div>
         </div>
       )}
+
+      {/* Version Diff Modal */}
+      {diffVersions && findVersion(diffVersions.baseId) && findVersion(diffVersions.compareId) && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="bg-white rounded-lg p-6 max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Compare Versions</h3>
+              <button
+                onClick={() => setDiffVersions(null)}
+                className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5 text-gray-600" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              {(['baseId', 'compareId'] as const).map(key => (
+                <div key={key}>
+                  <label className="block text-xs text-gray-500 mb-1">
+                    {key === 'baseId' ? 'From' : 'To'}
+                  </label>
+                  <select
+                    value={diffVersions[key]}
+                    onChange={(e) => setDiffVersions({ ...diffVersions, [key]: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  >
+                    {versions.map(version => (
+                      <option key={version.id} value={version.id}>
+                        Version {version.version_number} — {formatDate(version.created_at)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              <VersionDiff
+                base={findVersion(diffVersions.baseId)!}
+                compare={findVersion(diffVersions.compareId)!}
+              />
+            </div>
+          </motion.div>
+        </div>
+      )}
     </div>
   );
 };
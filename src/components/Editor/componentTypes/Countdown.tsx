@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+
+const getTimeLeft = (targetDate: string) => {
+  const diff = new Date(targetDate).getTime() - Date.now();
+  if (Number.isNaN(diff) || diff <= 0) return null;
+  return {
+    days: Math.floor(diff / 86400000),
+    hours: Math.floor((diff / 3600000) % 24),
+    minutes: Math.floor((diff / 60000) % 60),
+    seconds: Math.floor((diff / 1000) % 60)
+  };
+};
+
+const Countdown: React.FC<{ targetDate: string; expiredLabel: string }> = ({ targetDate, expiredLabel }) => {
+  const [timeLeft, setTimeLeft] = useState(() => getTimeLeft(targetDate));
+
+  useEffect(() => {
+    setTimeLeft(getTimeLeft(targetDate));
+    const interval = setInterval(() => setTimeLeft(getTimeLeft(targetDate)), 1000);
+    return () => clearInterval(interval);
+  }, [targetDate]);
+
+  if (!timeLeft) {
+    return <div className="text-center font-semibold">{expiredLabel}</div>;
+  }
+
+  return (
+    <div className="flex justify-center space-x-4">
+      {Object.entries(timeLeft).map(([unit, value]) => (
+        <div key={unit} className="text-center">
+          <div className="text-3xl font-bold tabular-nums">{String(value).padStart(2, '0')}</div>
+          <div className="text-xs uppercase tracking-wide opacity-70">{unit}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default Countdown;
@@ -0,0 +1,24 @@
+import React from 'react';
+
+// Opens the link only in preview so clicks still select the component while
+// editing
+const LinkWrapper: React.FC<{
+  href: string;
+  openInNewTab: boolean;
+  isPreviewMode: boolean;
+  children: React.ReactNode;
+}> = ({ href, openInNewTab, isPreviewMode, children }) =>
+  href && isPreviewMode ? (
+    <a
+      href={href}
+      target={openInNewTab ? '_blank' : undefined}
+      rel={openInNewTab ? 'noopener noreferrer' : undefined}
+      style={{ display: 'block', width: '100%', height: '100%', color: 'inherit', textDecoration: 'none' }}
+    >
+      {children}
+    </a>
+  ) : (
+    <>{children}</>
+  );
+
+export default LinkWrapper;
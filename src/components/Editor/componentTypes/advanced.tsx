@@ -0,0 +1,185 @@
+import { Map, Users, FileText } from 'lucide-react';
+import { registerComponentType } from '../../../lib/componentRegistry';
+import { componentPropsSchemas, getMapEmbedUrl } from '../../../lib/componentProps';
+import { boxStylesSchema, coloredBoxStylesSchema, textStylesSchema } from './styleFields';
+import Countdown from './Countdown';
+
+registerComponentType({
+  type: 'map',
+  name: 'Map',
+  description: 'Interactive Google Maps',
+  category: 'Advanced',
+  icon: <Map className="h-5 w-5" />,
+  preview: '🗺️ Map',
+  defaultStyles: {
+    borderRadius: '8px',
+    overflow: 'hidden',
+    backgroundColor: '#111827'
+  },
+  defaultSize: { width: 600, height: 350 },
+  propsSchema: componentPropsSchemas.map,
+  styleSchema: boxStylesSchema,
+  render: ({ props, style, isPreviewMode }) => (
+    <div style={style}>
+      {/* Ignores the pointer while editing so the map can be selected and dragged */}
+      <iframe
+        src={getMapEmbedUrl(props.address, props.zoom)}
+        style={{ width: '100%', height: '100%', border: 0, pointerEvents: isPreviewMode ? 'auto' : 'none' }}
+        loading="lazy"
+        title={`Map of ${props.address}`}
+      />
+    </div>
+  )
+});
+
+registerComponentType({
+  type: 'testimonials',
+  name: 'Testimonials',
+  description: 'Customer testimonials slider',
+  category: 'Advanced',
+  icon: <Users className="h-5 w-5" />,
+  preview: '💬 Reviews',
+  defaultStyles: {
+    fontFamily: 'Inter, sans-serif'
+  },
+  defaultSize: { width: 700, height: 220 },
+  propsSchema: componentPropsSchemas.testimonials,
+  styleSchema: textStylesSchema,
+  render: ({ props, style }) => (
+    <div style={{ ...style, display: 'grid', gridTemplateColumns: `repeat(${Math.max(1, props.items.length)}, 1fr)`, gap: 16 }}>
+      {props.items.map((item, index) => (
+        <figure key={index} className="p-4 bg-white rounded-lg shadow-sm border border-gray-100 flex flex-col">
+          <blockquote className="flex-1 italic text-gray-700">“{item.quote}”</blockquote>
+          <figcaption className="mt-3 text-sm">
+            <span className="font-semibold text-gray-900">{item.author}</span>
+            {item.role && <span className="text-gray-500"> · {item.role}</span>}
+          </figcaption>
+        </figure>
+      ))}
+    </div>
+  )
+});
+
+registerComponentType({
+  type: 'pricing',
+  name: 'Pricing Table',
+  description: 'Pricing plans comparison',
+  category: 'Advanced',
+  icon: <div className="text-lg">$</div>,
+  preview: '💰 Pricing',
+  defaultStyles: {
+    fontFamily: 'Inter, sans-serif'
+  },
+  defaultSize: { width: 760, height: 380 },
+  propsSchema: componentPropsSchemas.pricing,
+  styleSchema: textStylesSchema,
+  render: ({ props, style, isPreviewMode }) => (
+    <div style={{ ...style, display: 'grid', gridTemplateColumns: `repeat(${Math.max(1, props.tiers.length)}, 1fr)`, gap: 16 }}>
+      {props.tiers.map((tier, index) => (
+        <div
+          key={index}
+          className={`p-5 rounded-lg border flex flex-col ${
+            tier.highlighted ? 'border-blue-500 shadow-lg bg-blue-50' : 'border-gray-200 bg-white'
+          }`}
+        >
+          <h4 className="font-semibold text-gray-900">{tier.name}</h4>
+          <div className="my-3">
+            <span className="text-3xl font-bold text-gray-900">{tier.price}</span>
+            <span className="text-sm text-gray-500">{tier.period}</span>
+          </div>
+          <ul className="flex-1 space-y-1 text-sm text-gray-700">
+            {tier.features.map((feature, featureIndex) => (
+              <li key={featureIndex}>✓ {feature}</li>
+            ))}
+          </ul>
+          <button
+            className={`mt-4 px-4 py-2 rounded font-medium ${
+              tier.highlighted ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'
+            }`}
+            disabled={!isPreviewMode}
+          >
+            {tier.ctaLabel}
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+});
+
+registerComponentType({
+  type: 'countdown',
+  name: 'Countdown',
+  description: 'Countdown timer',
+  category: 'Advanced',
+  icon: <div className="text-lg">⏰</div>,
+  preview: '⏰ Timer',
+  defaultStyles: {
+    backgroundColor: '#1f2937',
+    color: '#ffffff',
+    borderRadius: '12px',
+    padding: '16px'
+  },
+  defaultSize: { width: 400, height: 120 },
+  propsSchema: componentPropsSchemas.countdown,
+  styleSchema: textStylesSchema,
+  render: ({ props, style }) => (
+    <div style={style} className="flex items-center justify-center">
+      <Countdown targetDate={props.targetDate} expiredLabel={props.expiredLabel} />
+    </div>
+  )
+});
+
+registerComponentType({
+  type: 'social',
+  name: 'Social Links',
+  description: 'Social media links',
+  category: 'Advanced',
+  icon: <div className="text-lg">📱</div>,
+  preview: '📱 Social',
+  defaultStyles: {},
+  defaultSize: { width: 320, height: 48 },
+  propsSchema: componentPropsSchemas.social,
+  styleSchema: coloredBoxStylesSchema,
+  render: ({ props, style, isPreviewMode }) => (
+    <div style={style} className="flex items-center space-x-3">
+      {props.links.map((link, index) => (
+        <a
+          key={index}
+          href={link.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => !isPreviewMode && e.preventDefault()}
+          className="px-3 py-1 rounded-full bg-gray-100 text-sm text-gray-700 hover:bg-gray-200"
+        >
+          {link.platform}
+        </a>
+      ))}
+    </div>
+  )
+});
+
+registerComponentType({
+  type: 'blog',
+  name: 'Blog Posts',
+  description: 'Blog post listing',
+  category: 'Advanced',
+  icon: <FileText className="h-5 w-5" />,
+  preview: '📰 Blog',
+  defaultStyles: {
+    fontFamily: 'Inter, sans-serif'
+  },
+  defaultSize: { width: 600, height: 260 },
+  propsSchema: componentPropsSchemas.blog,
+  styleSchema: textStylesSchema,
+  render: ({ props, style }) => (
+    <div style={style} className="space-y-4 overflow-hidden">
+      {props.posts.map((post, index) => (
+        <article key={index} className="border-b border-gray-100 pb-3 last:border-0">
+          <h4 className="font-semibold text-gray-900">{post.title}</h4>
+          {post.date && <p className="text-xs text-gray-500">{post.date}</p>}
+          {post.excerpt && <p className="text-sm text-gray-700 mt-1">{post.excerpt}</p>}
+        </article>
+      ))}
+    </div>
+  )
+});
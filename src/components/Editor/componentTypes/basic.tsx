@@ -0,0 +1,96 @@
+import { Type, Square, Minus } from 'lucide-react';
+import { registerComponentType } from '../../../lib/componentRegistry';
+import { componentPropsSchemas } from '../../../lib/componentProps';
+import { boxStylesSchema, textStylesSchema } from './styleFields';
+import LinkWrapper from './LinkWrapper';
+
+registerComponentType({
+  type: 'text',
+  name: 'Text',
+  description: 'Add text content with rich formatting',
+  category: 'Basic',
+  icon: <Type className="h-5 w-5" />,
+  preview: 'Lorem ipsum dolor sit amet...',
+  content: { label: 'Content', default: 'New text element', placeholder: 'Enter your text content...', multiline: true },
+  defaultStyles: {
+    fontSize: '1rem',
+    color: '#374151',
+    lineHeight: '1.6',
+    fontFamily: 'Inter, sans-serif'
+  },
+  defaultSize: { width: 300, height: 60 },
+  propsSchema: componentPropsSchemas.text,
+  styleSchema: textStylesSchema,
+  render: ({ component, props, style, isPreviewMode }) => (
+    <LinkWrapper {...props} isPreviewMode={isPreviewMode}>
+      <div style={style}>{component.content}</div>
+    </LinkWrapper>
+  )
+});
+
+registerComponentType({
+  type: 'heading',
+  name: 'Heading',
+  description: 'Add headings and titles',
+  category: 'Basic',
+  icon: <div className="font-bold text-lg">H</div>,
+  preview: 'Your Heading Here',
+  content: { label: 'Content', default: 'New Heading', placeholder: 'Enter your heading...', multiline: true },
+  defaultStyles: {
+    fontSize: '2rem',
+    color: '#1f2937',
+    fontWeight: 'bold',
+    lineHeight: '1.2',
+    fontFamily: 'Inter, sans-serif'
+  },
+  defaultSize: { width: 400, height: 80 },
+  styleSchema: textStylesSchema,
+  render: ({ component, style }) => <div style={style}>{component.content}</div>
+});
+
+registerComponentType({
+  type: 'button',
+  name: 'Button',
+  description: 'Interactive button with actions',
+  category: 'Basic',
+  icon: <Square className="h-5 w-5" />,
+  preview: 'Click Me',
+  content: { label: 'Content', default: 'Button', placeholder: 'Button text' },
+  defaultStyles: {
+    backgroundColor: '#3b82f6',
+    color: 'white',
+    padding: '12px 24px',
+    borderRadius: '8px',
+    border: 'none',
+    fontWeight: '600',
+    cursor: 'pointer',
+    transition: 'all 0.2s ease'
+  },
+  defaultSize: { width: 120, height: 48 },
+  propsSchema: componentPropsSchemas.button,
+  styleSchema: textStylesSchema,
+  render: ({ component, props, style, isPreviewMode }) => (
+    <LinkWrapper {...props} isPreviewMode={isPreviewMode}>
+      <button style={style} disabled={!isPreviewMode}>
+        {component.content}
+      </button>
+    </LinkWrapper>
+  )
+});
+
+registerComponentType({
+  type: 'divider',
+  name: 'Divider',
+  description: 'Horizontal line separator',
+  category: 'Basic',
+  icon: <Minus className="h-5 w-5" />,
+  preview: '─────────',
+  defaultStyles: {
+    height: '2px',
+    backgroundColor: '#e5e7eb',
+    border: 'none'
+  },
+  defaultSize: { width: 300, height: 2 },
+  styleSchema: boxStylesSchema,
+  render: ({ style }) => <hr style={style} />
+});
@@ -0,0 +1,122 @@
+import { FileText } from 'lucide-react';
+import { registerComponentType } from '../../../lib/componentRegistry';
+import { componentPropsSchemas } from '../../../lib/componentProps';
+import { textStylesSchema } from './styleFields';
+
+// Form controls are only interactive in preview
+registerComponentType({
+  type: 'form',
+  name: 'Contact Form',
+  description: 'Contact form with validation',
+  category: 'Forms',
+  icon: <FileText className="h-5 w-5" />,
+  preview: '📝 Form',
+  defaultStyles: {
+    backgroundColor: '#ffffff',
+    padding: '24px',
+    borderRadius: '12px',
+    border: '1px solid #e5e7eb',
+    fontFamily: 'Inter, sans-serif'
+  },
+  defaultSize: { width: 400, height: 380 },
+  propsSchema: componentPropsSchemas.form,
+  styleSchema: textStylesSchema,
+  render: ({ props, style, isPreviewMode }) => (
+    <form style={style} onSubmit={(e) => e.preventDefault()} className="flex flex-col space-y-3 overflow-hidden">
+      {props.title && <h3 className="text-lg font-semibold">{props.title}</h3>}
+      {props.fields.map((field, index) => (
+        <label key={index} className="flex flex-col text-sm">
+          <span className="mb-1">{field.label}{field.required && ' *'}</span>
+          {field.type === 'textarea' ? (
+            <textarea className="px-3 py-2 border border-gray-300 rounded" rows={3} disabled={!isPreviewMode} required={field.required} />
+          ) : (
+            <input type={field.type} className="px-3 py-2 border border-gray-300 rounded" disabled={!isPreviewMode} required={field.required} />
+          )}
+        </label>
+      ))}
+      <button type="submit" className="self-start px-4 py-2 bg-blue-600 text-white rounded font-medium" disabled={!isPreviewMode}>
+        {props.submitLabel}
+      </button>
+    </form>
+  )
+});
+
+registerComponentType({
+  type: 'input',
+  name: 'Input Field',
+  description: 'Text input field',
+  category: 'Forms',
+  icon: <div className="border-b-2 border-gray-400 w-4 h-3"></div>,
+  preview: '[ Input ]',
+  defaultStyles: {
+    color: '#374151',
+    fontFamily: 'Inter, sans-serif'
+  },
+  defaultSize: { width: 300, height: 72 },
+  propsSchema: componentPropsSchemas.input,
+  styleSchema: textStylesSchema,
+  render: ({ props, style, isPreviewMode }) => (
+    <label style={style} className="flex flex-col text-sm">
+      {props.label && <span className="mb-1">{props.label}{props.required && ' *'}</span>}
+      <input
+        type={props.inputType}
+        name={props.name}
+        placeholder={props.placeholder}
+        required={props.required}
+        disabled={!isPreviewMode}
+        className="px-3 py-2 border border-gray-300 rounded"
+      />
+    </label>
+  )
+});
+
+registerComponentType({
+  type: 'textarea',
+  name: 'Text Area',
+  description: 'Multi-line text input',
+  category: 'Forms',
+  icon: <div className="border border-gray-400 w-4 h-4"></div>,
+  preview: '[ Text Area ]',
+  defaultStyles: {
+    color: '#374151',
+    fontFamily: 'Inter, sans-serif'
+  },
+  defaultSize: { width: 300, height: 150 },
+  propsSchema: componentPropsSchemas.textarea,
+  styleSchema: textStylesSchema,
+  render: ({ props, style, isPreviewMode }) => (
+    <label style={style} className="flex flex-col text-sm">
+      {props.label && <span className="mb-1">{props.label}{props.required && ' *'}</span>}
+      <textarea
+        name={props.name}
+        placeholder={props.placeholder}
+        rows={props.rows}
+        required={props.required}
+        disabled={!isPreviewMode}
+        className="flex-1 px-3 py-2 border border-gray-300 rounded resize-none"
+      />
+    </label>
+  )
+});
+
+registerComponentType({
+  type: 'checkbox',
+  name: 'Checkbox',
+  description: 'Checkbox input',
+  category: 'Forms',
+  icon: <div className="w-3 h-3 border border-gray-400 flex items-center justify-center text-xs">✓</div>,
+  preview: '☑️ Option',
+  defaultStyles: {
+    color: '#374151',
+    fontFamily: 'Inter, sans-serif'
+  },
+  defaultSize: { width: 260, height: 32 },
+  propsSchema: componentPropsSchemas.checkbox,
+  styleSchema: textStylesSchema,
+  render: ({ props, style, isPreviewMode }) => (
+    <label style={style} className="flex items-center space-x-2 text-sm">
+      <input type="checkbox" name={props.name} defaultChecked={props.checked} disabled={!isPreviewMode} />
+      <span>{props.label}</span>
+    </label>
+  )
+});
@@ -0,0 +1,11 @@
+// Registers the built-in component types, in the order the library lists
+// them, then any in-house types in ./custom. A custom module only needs to
+// call registerComponentType from lib/componentRegistry; registering an
+// existing type name replaces the built-in.
+import './basic';
+import './layout';
+import './media';
+import './forms';
+import './advanced';
+
+import.meta.glob('./custom/*.{ts,tsx}', { eager: true });
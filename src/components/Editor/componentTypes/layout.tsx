@@ -0,0 +1,139 @@
+import { Layout, Box, Grid, Layers, Columns } from 'lucide-react';
+import { defaultContainerLayout } from '../../../store/useEditorStore';
+import { ComponentRenderContext, createComponent, registerComponentType } from '../../../lib/componentRegistry';
+import { boxStylesSchema, coloredBoxStylesSchema } from './styleFields';
+
+// Containers draw their own box; the canvas renders their children on top.
+// An empty container shows its type so it can still be found while editing.
+const renderContainer = ({ component, style, isPreviewMode, hasChildren }: ComponentRenderContext<unknown>) => (
+  <div style={style} className="flex items-center justify-center">
+    {!hasChildren && !isPreviewMode && (
+      <span className="text-gray-400 text-sm capitalize">{component.type}</span>
+    )}
+  </div>
+);
+
+registerComponentType({
+  type: 'container',
+  name: 'Container',
+  description: 'Content container with padding',
+  category: 'Layout',
+  icon: <Box className="h-5 w-5" />,
+  preview: '□ Container',
+  isContainer: true,
+  defaultStyles: {
+    backgroundColor: '#f9fafb',
+    border: '2px dashed #d1d5db',
+    borderRadius: '8px',
+    padding: '20px'
+  },
+  defaultSize: { width: 400, height: 300 },
+  defaultLayout: defaultContainerLayout,
+  styleSchema: boxStylesSchema,
+  render: renderContainer
+});
+
+registerComponentType({
+  type: 'columns',
+  name: 'Columns',
+  description: 'Multi-column layout',
+  category: 'Layout',
+  icon: <Grid className="h-5 w-5" />,
+  preview: '║ ║ ║',
+  isContainer: true,
+  defaultStyles: {
+    backgroundColor: 'transparent',
+    border: '1px dashed #d1d5db',
+    borderRadius: '8px'
+  },
+  defaultSize: { width: 640, height: 240 },
+  // Side by side, wrapping on narrow screens
+  defaultLayout: { ...defaultContainerLayout, mode: 'flex', direction: 'row', wrap: true },
+  defaultChildren: (size) => {
+    const gap = 16;
+    const count = 3;
+    const width = Math.floor((size.width - gap * (count + 1)) / count);
+    return Array.from({ length: count }, (_, index) =>
+      createComponent('column', {
+        position: { x: gap + index * (width + gap), y: gap },
+        size: { width, height: size.height - gap * 2 }
+      })
+    );
+  },
+  styleSchema: boxStylesSchema,
+  render: renderContainer
+});
+
+registerComponentType({
+  type: 'column',
+  name: 'Column',
+  description: 'A single column inside Columns',
+  category: 'Layout',
+  icon: <Columns className="h-5 w-5" />,
+  hideFromLibrary: true,
+  isContainer: true,
+  defaultStyles: {
+    backgroundColor: '#f9fafb',
+    border: '1px dashed #d1d5db',
+    borderRadius: '4px'
+  },
+  defaultSize: { width: 200, height: 200 },
+  defaultLayout: defaultContainerLayout,
+  styleSchema: boxStylesSchema,
+  render: renderContainer
+});
+
+registerComponentType({
+  type: 'hero',
+  name: 'Hero Section',
+  description: 'Large banner section',
+  category: 'Layout',
+  icon: <Layout className="h-5 w-5" />,
+  preview: 'Hero Banner',
+  isContainer: true,
+  defaultStyles: {
+    backgroundColor: '#1f2937',
+    color: '#ffffff',
+    borderRadius: '8px'
+  },
+  defaultSize: { width: 800, height: 400 },
+  defaultLayout: defaultContainerLayout,
+  defaultChildren: (size) => [
+    createComponent('heading', {
+      content: 'Your Big Headline',
+      position: { x: 40, y: 80 },
+      size: { width: size.width - 80, height: 80 }
+    }),
+    createComponent('text', {
+      content: 'A short sentence that explains what you offer.',
+      position: { x: 40, y: 170 },
+      size: { width: size.width - 80, height: 60 }
+    }),
+    createComponent('button', {
+      content: 'Get Started',
+      position: { x: 40, y: 250 }
+    })
+  ],
+  styleSchema: coloredBoxStylesSchema,
+  render: renderContainer
+});
+
+registerComponentType({
+  type: 'section',
+  name: 'Section',
+  description: 'Content section wrapper',
+  category: 'Layout',
+  icon: <Layers className="h-5 w-5" />,
+  preview: 'Section Block',
+  isContainer: true,
+  defaultStyles: {
+    backgroundColor: '#ffffff',
+    borderTop: '1px solid #e5e7eb',
+    borderBottom: '1px solid #e5e7eb'
+  },
+  defaultSize: { width: 800, height: 300 },
+  // Stacks its content
+  defaultLayout: { ...defaultContainerLayout, mode: 'flex', direction: 'column', padding: 40 },
+  styleSchema: boxStylesSchema,
+  render: renderContainer
+});
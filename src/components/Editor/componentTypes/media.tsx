@@ -0,0 +1,126 @@
+import React from 'react';
+import { Image, Video, Grid } from 'lucide-react';
+import { registerComponentType } from '../../../lib/componentRegistry';
+import { componentPropsSchemas, getVideoEmbedUrl } from '../../../lib/componentProps';
+import { boxStylesSchema, coloredBoxStylesSchema } from './styleFields';
+
+registerComponentType({
+  type: 'image',
+  name: 'Image',
+  description: 'Add images and photos',
+  category: 'Media',
+  icon: <Image className="h-5 w-5" />,
+  preview: '🖼️ Image',
+  defaultStyles: {
+    width: '100%',
+    height: '100%',
+    objectFit: 'cover',
+    borderRadius: '8px'
+  },
+  defaultSize: { width: 300, height: 200 },
+  propsSchema: componentPropsSchemas.image,
+  styleSchema: boxStylesSchema,
+  render: ({ props, style }) =>
+    props.src ? (
+      <img src={props.src} alt={props.alt} style={{ ...style, objectFit: style.objectFit ?? 'cover' }} draggable={false} />
+    ) : (
+      <div style={style} className="flex items-center justify-center border-2 border-dashed border-gray-300 bg-gray-50">
+        <span className="text-gray-500 text-sm">Image Placeholder</span>
+      </div>
+    )
+});
+
+registerComponentType({
+  type: 'video',
+  name: 'Video',
+  description: 'Embed videos from YouTube, Vimeo',
+  category: 'Media',
+  icon: <Video className="h-5 w-5" />,
+  preview: '▶️ Video',
+  defaultStyles: {
+    borderRadius: '8px',
+    overflow: 'hidden',
+    backgroundColor: '#111827'
+  },
+  defaultSize: { width: 560, height: 315 },
+  propsSchema: componentPropsSchemas.video,
+  styleSchema: boxStylesSchema,
+  render: ({ props, style, isPreviewMode }) => {
+    // Embeds ignore the pointer while editing so they can be selected and
+    // dragged
+    const embedStyle: React.CSSProperties = {
+      width: '100%',
+      height: '100%',
+      border: 0,
+      pointerEvents: isPreviewMode ? 'auto' : 'none'
+    };
+    const embedUrl = getVideoEmbedUrl(props.url, props);
+    return (
+      <div style={style}>
+        {embedUrl ? (
+          <iframe src={embedUrl} style={embedStyle} allow="autoplay; fullscreen" allowFullScreen title="Video" />
+        ) : props.url ? (
+          <video
+            src={props.url}
+            style={{ ...embedStyle, objectFit: 'cover' }}
+            autoPlay={props.autoplay}
+            muted={props.muted}
+            controls={props.controls}
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center bg-gray-900 text-gray-400 text-sm">
+            Add a video URL
+          </div>
+        )}
+      </div>
+    );
+  }
+});
+
+registerComponentType({
+  type: 'gallery',
+  name: 'Gallery',
+  description: 'Image gallery with lightbox',
+  category: 'Media',
+  icon: <Grid className="h-5 w-5" />,
+  preview: '🖼️ 🖼️ 🖼️',
+  defaultStyles: {
+    gap: '8px'
+  },
+  defaultSize: { width: 600, height: 200 },
+  propsSchema: componentPropsSchemas.gallery,
+  styleSchema: boxStylesSchema,
+  render: ({ props, style }) => (
+    <div style={{ ...style, display: 'grid', gridTemplateColumns: `repeat(${props.columns}, 1fr)`, gap: style.gap ?? 8 }}>
+      {props.images.map((image, index) => (
+        <img
+          key={index}
+          src={image.src}
+          alt={image.alt}
+          className="w-full h-full object-cover rounded"
+          draggable={false}
+        />
+      ))}
+    </div>
+  )
+});
+
+registerComponentType({
+  type: 'icon',
+  name: 'Icon',
+  description: 'Icons and symbols',
+  category: 'Media',
+  icon: <div className="text-lg">⭐</div>,
+  preview: '⭐ Icon',
+  defaultStyles: {
+    color: '#f59e0b'
+  },
+  defaultSize: { width: 64, height: 64 },
+  propsSchema: componentPropsSchemas.icon,
+  styleSchema: coloredBoxStylesSchema,
+  render: ({ props, style }) => (
+    <div style={{ ...style, fontSize: props.size }} className="flex items-center justify-center">
+      {props.icon}
+    </div>
+  )
+});
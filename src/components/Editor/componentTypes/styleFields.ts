@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { field } from '../../../lib/schemaFields';
+
+// Style tab fields shared by the built-in types. A type's styleSchema picks
+// the groups that make sense for it.
+
+const fontFamilies = [
+  'Inter, sans-serif',
+  'Roboto, sans-serif',
+  'Open Sans, sans-serif',
+  'Lato, sans-serif',
+  'Montserrat, sans-serif',
+  'Poppins, sans-serif',
+  'Playfair Display, serif',
+  'Merriweather, serif',
+  'Georgia, serif',
+  'Times New Roman, serif'
+];
+
+const fontSizes = ['12px', '14px', '16px', '18px', '20px', '24px', '28px', '32px', '36px', '48px', '64px'];
+const fontWeights = ['100', '200', '300', '400', '500', '600', '700', '800', '900'];
+
+const typography = 'Typography';
+const background = 'Background & Colors';
+const spacing = 'Spacing';
+const border = 'Border & Effects';
+
+export const typographyStyles = {
+  fontFamily: field(z.string().optional(), {
+    label: 'Font Family',
+    control: 'select',
+    group: typography,
+    options: fontFamilies,
+    optionLabels: Object.fromEntries(fontFamilies.map(font => [font, font.split(',')[0]]))
+  }),
+  fontSize: field(z.string().optional(), { label: 'Font Size', control: 'select', group: typography, options: fontSizes }),
+  fontWeight: field(z.string().optional(), {
+    label: 'Font Weight',
+    control: 'select',
+    group: typography,
+    options: fontWeights,
+    optionLabels: { '400': 'Normal', '700': 'Bold' }
+  }),
+  color: field(z.string().optional(), { label: 'Text Color', control: 'color', group: typography }),
+  textAlign: field(z.string().optional(), {
+    label: 'Text Alignment',
+    control: 'segmented',
+    group: typography,
+    options: ['left', 'center', 'right', 'justify']
+  }),
+  lineHeight: field(z.string().optional(), { label: 'Line Height', control: 'range', group: typography, min: 1, max: 3, step: 0.1 })
+};
+
+export const backgroundStyles = {
+  backgroundColor: field(z.string().optional(), {
+    label: 'Background Color',
+    control: 'color',
+    group: background,
+    placeholder: 'transparent'
+  }),
+  opacity: field(z.number().optional(), { label: 'Opacity', control: 'range', group: background, min: 0, max: 1, step: 0.1 })
+};
+
+export const spacingStyles = {
+  padding: field(z.string().optional(), { label: 'Padding', group: spacing, placeholder: '8px' }),
+  margin: field(z.string().optional(), { label: 'Margin', group: spacing, placeholder: '0px' })
+};
+
+export const borderStyles = {
+  borderRadius: field(z.string().optional(), { label: 'Border Radius', group: border, placeholder: '4px' }),
+  boxShadow: field(z.string().optional(), {
+    label: 'Box Shadow',
+    control: 'select',
+    group: border,
+    options: [
+      'none',
+      '0 1px 3px rgba(0,0,0,0.1)',
+      '0 4px 6px rgba(0,0,0,0.1)',
+      '0 10px 15px rgba(0,0,0,0.1)',
+      '0 25px 50px rgba(0,0,0,0.25)'
+    ],
+    optionLabels: {
+      none: 'None',
+      '0 1px 3px rgba(0,0,0,0.1)': 'Small',
+      '0 4px 6px rgba(0,0,0,0.1)': 'Medium',
+      '0 10px 15px rgba(0,0,0,0.1)': 'Large',
+      '0 25px 50px rgba(0,0,0,0.25)': 'Extra Large'
+    }
+  })
+};
+
+// Background, spacing and border controls, offered for every type
+export const boxStyles = {
+  ...backgroundStyles,
+  ...spacingStyles,
+  ...borderStyles
+};
+
+export const textStylesSchema = z.object({ ...typographyStyles, ...boxStyles });
+
+export const boxStylesSchema = z.object(boxStyles);
+
+// For types that draw their own text but still follow a text color
+export const coloredBoxStylesSchema = z.object({ color: typographyStyles.color, ...boxStyles });
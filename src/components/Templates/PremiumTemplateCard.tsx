@@ -44,7 +44,8 @@ const PremiumTemplateCard: React.FC<PremiumTemplateCardProps> = ({ template, onU
     }
   };
 
-  const canAccess = template.has_access || user?.plan === 'pro' || user?.plan === 'business';
+  // has_access already includes templates that come with the user's plan
+  const canAccess = template.has_access;
 
   return (
     <>
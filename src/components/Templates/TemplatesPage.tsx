@@ -5,6 +5,8 @@ import { useAppStore } from '../../store/useAppStore';
 import { useWebsites } from '../../hooks/useWebsites';
 import { useStripe, PremiumTemplate } from '../../hooks/useStripe';
 import PremiumTemplateCard from './PremiumTemplateCard';
+import UpgradePrompt from '../Billing/UpgradePrompt';
+import { EntitlementError, requireEntitlement } from '../../lib/entitlements';
 import { Button } from '../ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../ui/card';
 import { useToast } from '../ui/use-toast';
@@ -177,7 +179,7 @@ const TemplatesPage: React.FC = () => {
     if ('price' in template) {
       // This is a premium template
       const premiumTemplate = template as PremiumTemplate;
-      if (!premiumTemplate.has_access && user.plan === 'free') {
+      if (!premiumTemplate.has_access) {
         setErrors({ plan: 'This is a premium template. Upgrade your plan or purchase individually to use it.' });
         toast({
           title: "Premium template",
@@ -237,6 +239,7 @@ const TemplatesPage: React.FC = () => {
         name: newWebsite.name,
         description: newWebsite.description || '',
         domain: newWebsite.domain || undefined,
+        subdomain: newWebsite.subdomain,
         status: newWebsite.status,
         lastModified: new Date(newWebsite.updated_at),
         template: newWebsite.template,
@@ -253,6 +256,11 @@ const TemplatesPage: React.FC = () => {
       });
     } catch (error) {
       console.error('Failed to create website:', error);
+      if (error instanceof EntitlementError) {
+        setShowCreateModal(null);
+        setErrors({ plan: error.message });
+        return;
+      }
       setErrors({ general: error instanceof Error ? error.message : 'Failed to create website' });
       toast({
         title: "Creation failed",
@@ -270,19 +278,13 @@ const TemplatesPage: React.FC = () => {
       return;
     }
 
-    // Check plan restrictions for premium templates
-    if (template.isPremium && user.plan === 'free') {
-      setErrors({ plan: 'This is a premium template. Upgrade your plan to use it.' });
-      toast({
-        title: "Premium template",
-        description: "This is a premium template. Upgrade your plan to use it.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     try {
       setIsCreating(template.id);
+
+      // Check plan restrictions for premium templates
+      if (template.isPremium) {
+        await requireEntitlement('premium_templates');
+      }
       
       // Create website with default name
       const newWebsite = await createWebsite({
@@ -298,6 +300,7 @@ const TemplatesPage: React.FC = () => {
         name: newWebsite.name,
         description: newWebsite.description || '',
         domain: newWebsite.domain || undefined,
+        subdomain: newWebsite.subdomain,
         status: newWebsite.status,
         lastModified: new Date(newWebsite.updated_at),
         template: newWebsite.template,
@@ -313,6 +316,11 @@ const TemplatesPage: React.FC = () => {
       });
     } catch (error) {
       console.error('Failed to create website:', error);
+      if (error instanceof EntitlementError) {
+        setShowCreateModal(null);
+        setErrors({ plan: error.message });
+        return;
+      }
       setErrors({ general: error instanceof Error ? error.message : 'Failed to create website' });
       toast({
         title: "Creation failed",
@@ -373,25 +381,7 @@ const TemplatesPage: React.FC = () => {
           </motion.div>
         )}
 
-        {errors.plan && (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between max-w-2xl mx-auto"
-          >
-            <div className="flex items-center">
-              <AlertCircle className="h-5 w-5 text-yellow-500 mr-3 flex-shrink-0" />
-              <p className="text-yellow-700 text-sm">{errors.plan}</p>
-            </div>
-            <Button
-              onClick={() => setCurrentView('profile')}
-              variant="default"
-              className="bg-yellow-600 hover:bg-yellow-700 text-white"
-            >
-              Upgrade Plan
-            </Button>
-          </motion.div>
-        )}
+        {errors.plan && <UpgradePrompt message={errors.plan} className="mb-6 max-w-2xl mx-auto" />}
 
         {/* Filters */}
         <motion.div
@@ -1,5 +1,6 @@
-import { useState } from 'react';
+import { useState, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
+import { invokeFunction } from '../lib/edgeFunctions';
 import { useAppStore } from '../store/useAppStore';
 
 export interface DeploymentData {
@@ -14,17 +15,64 @@ export interface DeploymentResult {
   data?: DeploymentData;
 }
 
+export type DeploymentState = 'pending' | 'building' | 'deployed' | 'failed';
+
+// Production deployments serve the published version; previews serve one
+// saved version at their own URL
+export type DeploymentKind = 'production' | 'preview';
+
 export interface DeploymentStatus {
   id: string;
   website_id: string;
   version_id: string;
   deployment_url: string | null;
   custom_domain: string | null;
-  status: string;
+  kind: DeploymentKind;
+  status: DeploymentState;
+  // One timestamped line per build step, appended while the build runs
+  build_log: string | null;
+  // Storage folder in the sites bucket, named after content_hash
+  artifact_path: string | null;
+  content_hash: string | null;
   deployed_by: string;
   deployed_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export interface PreviewResult extends DeploymentResult {
+  data?: DeploymentData & { url: string; status: DeploymentState };
+}
+
+export interface DeploymentHistoryEntry extends DeploymentStatus {
+  version: { version_number: number } | null;
+  deployer: { full_name: string | null; email: string } | null;
+}
+
+export interface DeploymentHistory {
+  deployments: DeploymentHistoryEntry[];
+  // The deployment production currently serves
+  liveDeploymentId: string | null;
+}
+
+export interface BuildLogLine {
+  time: string;
+  message: string;
 }
 
+// Whether the build is still queued or running
+export const isDeploymentActive = (status: DeploymentState) =>
+  status === 'pending' || status === 'building';
+
+export const parseBuildLog = (log: string | null): BuildLogLine[] =>
+  (log ?? '')
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const space = line.indexOf(' ');
+      return space === -1 ? { time: '', message: line } : { time: line.slice(0, space), message: line.slice(space + 1) };
+    });
+
 export const useDeployment = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -39,17 +87,10 @@ export const useDeployment = () => {
       setLoading(true);
       setError(null);
 
-      const { data, error: functionError } = await supabase.functions.invoke('deploy-website', {
-        body: {
-          websiteId,
-          userId: user.id
-        }
+      const data = await invokeFunction<{ message: string; deploymentId: string }>('deploy-website', {
+        websiteId
       });
 
-      if (functionError) {
-        throw new Error(functionError.message);
-      }
-
       return { 
         success: true, 
         message: data.message,
@@ -64,7 +105,59 @@ export const useDeployment = () => {
     }
   };
 
-  const getDeploymentStatus = async (deploymentId: string): Promise<DeploymentStatus | null> => {
+  // Deploys a saved version to its own preview URL, or returns the preview
+  // it already has
+  const deployPreview = async (versionId: string): Promise<PreviewResult> => {
+    if (!user) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await invokeFunction<{ message: string; deploymentId: string; url: string; status: DeploymentState }>(
+        'deploy-preview',
+        { versionId }
+      );
+
+      return {
+        success: true,
+        message: data.message,
+        data: { deploymentId: data.deploymentId, url: data.url, status: data.status }
+      };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to deploy preview';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Latest preview of each version that has one, keyed by version id
+  const getPreviewDeployments = useCallback(async (websiteId: string): Promise<Record<string, DeploymentStatus>> => {
+    try {
+      const { data, error } = await supabase
+        .from('website_deployments')
+        .select('*')
+        .eq('website_id', websiteId)
+        .eq('kind', 'preview')
+        .order('deployed_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching preview deployments:', error);
+        return {};
+      }
+
+      return Object.fromEntries((data ?? []).map((deployment: DeploymentStatus) => [deployment.version_id, deployment]));
+    } catch (err) {
+      console.error('Error in getPreviewDeployments:', err);
+      return {};
+    }
+  }, []);
+
+  const getDeploymentStatus = useCallback(async (deploymentId: string): Promise<DeploymentStatus | null> => {
     try {
       const { data, error } = await supabase
         .from('website_deployments')
@@ -82,14 +175,40 @@ export const useDeployment = () => {
       console.error('Error in getDeploymentStatus:', err);
       return null;
     }
-  };
+  }, []);
+
+  // Calls onChange with the row each time the build writes to it. Returns a
+  // function that stops listening.
+  const subscribeToDeployment = useCallback(
+    (deploymentId: string, onChange: (deployment: DeploymentStatus) => void) => {
+      const channel = supabase
+        .channel(`deployment_${deploymentId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'website_deployments',
+            filter: `id=eq.${deploymentId}`
+          },
+          (payload) => onChange(payload.new as DeploymentStatus)
+        )
+        .subscribe();
 
-  const getLatestDeployment = async (websiteId: string): Promise<DeploymentStatus | null> => {
+      return () => {
+        channel.unsubscribe();
+      };
+    },
+    []
+  );
+
+  const getLatestDeployment = useCallback(async (websiteId: string): Promise<DeploymentStatus | null> => {
     try {
       const { data, error } = await supabase
         .from('website_deployments')
         .select('*')
         .eq('website_id', websiteId)
+        .eq('kind', 'production')
         .order('deployed_at', { ascending: false })
         .limit(1)
         .single();
@@ -104,6 +223,67 @@ export const useDeployment = () => {
       console.error('Error in getLatestDeployment:', err);
       return null;
     }
+  }, []);
+
+  const getDeploymentHistory = useCallback(async (websiteId: string, limit = 20): Promise<DeploymentHistory> => {
+    try {
+      const [deploymentsResult, websiteResult] = await Promise.all([
+        supabase
+          .from('website_deployments')
+          .select(`
+            *,
+            version:website_versions(version_number),
+            deployer:profiles!website_deployments_deployed_by_fkey(full_name, email)
+          `)
+          .eq('website_id', websiteId)
+          .eq('kind', 'production')
+          .order('deployed_at', { ascending: false })
+          .limit(limit),
+        supabase
+          .from('websites')
+          .select('live_deployment_id')
+          .eq('id', websiteId)
+          .single()
+      ]);
+
+      if (deploymentsResult.error) {
+        console.error('Error fetching deployment history:', deploymentsResult.error);
+        return { deployments: [], liveDeploymentId: null };
+      }
+
+      return {
+        deployments: (deploymentsResult.data ?? []) as DeploymentHistoryEntry[],
+        liveDeploymentId: websiteResult.data?.live_deployment_id ?? null
+      };
+    } catch (err) {
+      console.error('Error in getDeploymentHistory:', err);
+      return { deployments: [], liveDeploymentId: null };
+    }
+  }, []);
+
+  // Serves an earlier successful deployment again. Its files are already in
+  // storage, so nothing is rebuilt.
+  const promoteDeployment = async (deploymentId: string): Promise<DeploymentResult> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { error: promoteError } = await supabase.rpc('promote_deployment', {
+        deployment_uuid: deploymentId
+      });
+
+      if (promoteError) {
+        throw new Error(promoteError.message);
+      }
+
+      return { success: true, message: 'Deployment promoted', data: { deploymentId } };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to promote deployment';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
   };
 
   return {
@@ -111,6 +291,11 @@ export const useDeployment = () => {
     error,
     deployWebsite,
     getDeploymentStatus,
-    getLatestDeployment
+    subscribeToDeployment,
+    getLatestDeployment,
+    getDeploymentHistory,
+    promoteDeployment,
+    deployPreview,
+    getPreviewDeployments
   };
 };
\ No newline at end of file
@@ -1,13 +1,63 @@
-import { useState } from 'react';
+import { useState, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAppStore } from '../store/useAppStore';
-import { getEntriLinks } from '../lib/entri';
+import { invokeFunction } from '../lib/edgeFunctions';
+import { DomainCheck, DomainRedirect, DomainStatus, getDomainInstructions } from '../lib/domainRecords';
+import { normalizeSubdomain, subdomainFormatError } from '../lib/subdomains';
+import { EntitlementError, EntitlementStatus, requireEntitlement, toEntitlementError } from '../lib/entitlements';
 
 export interface DomainResult<T = unknown> {
   success: boolean;
   error?: string;
   message?: string;
   data?: T;
+  // Set when the user's plan does not allow the action
+  entitlement?: EntitlementStatus;
+}
+
+// One domain's result from verify-domain
+export interface DomainCheckResult extends DomainCheck {
+  domain: string;
+}
+
+export interface DomainVerification {
+  checkedAt: string;
+  domains: DomainCheckResult[];
+}
+
+// A custom domain attached to a website. The primary domain serves the
+// website; every other domain redirects.
+export interface WebsiteDomain {
+  id: string;
+  website_id: string;
+  domain: string;
+  is_primary: boolean;
+  redirect: DomainRedirect | null;
+  status: DomainStatus;
+  verified_at: string | null;
+  checked_at: string | null;
+  failure_reason: string | null;
+  created_at: string;
+}
+
+export type CertificateStatus = 'pending' | 'issued' | 'failed' | 'expired';
+
+export interface DomainCertificate {
+  domain: string;
+  status: CertificateStatus;
+  issuer: string | null;
+  issued_at: string | null;
+  expires_at: string | null;
+  // Set while a certificate is being issued or renewed
+  locked_at: string | null;
+  last_error: string | null;
+  renew_at: string | null;
+}
+
+export interface SubdomainAvailability {
+  subdomain: string;
+  available: boolean;
+  reason: string | null;
 }
 
 export const useDomains = () => {
@@ -15,30 +65,59 @@ export const useDomains = () => {
   const [error, setError] = useState<string | null>(null);
   const { user } = useAppStore();
 
-  const connectCustomDomain = async (websiteId: string, domain: string): Promise<DomainResult> => {
+  // Lists the website's domains, primary first
+  const getDomains = useCallback(async (websiteId: string): Promise<DomainResult<WebsiteDomain[]>> => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('website_domains')
+        .select('*')
+        .eq('website_id', websiteId)
+        .order('is_primary', { ascending: false })
+        .order('created_at');
+
+      if (fetchError) {
+        throw new Error(`Failed to load domains: ${fetchError.message}`);
+      }
+
+      return { success: true, data: data ?? [] };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load domains';
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  // Adds a domain to the website. The website's first domain becomes its
+  // primary; later ones redirect to it unless `primary` is set.
+  const connectCustomDomain = async (
+    websiteId: string,
+    domain: string,
+    options: { primary?: boolean } = {}
+  ): Promise<DomainResult> => {
     if (!user) {
       return { success: false, error: 'User not authenticated' };
     }
 
+    const normalizedDomain = domain.trim().toLowerCase();
+
     try {
       setLoading(true);
       setError(null);
 
       // Validate domain format
       const domainRegex = /^[a-zA-Z0-9][a-zA-Z0-9-]{0,61}[a-zA-Z0-9](?:\.[a-zA-Z]{2,})+$/;
-      if (!domainRegex.test(domain)) {
+      if (!domainRegex.test(normalizedDomain)) {
         return { 
           success: false, 
           error: 'Please enter a valid domain name (e.g., example.com)' 
         };
       }
 
-      // Check if domain is already in use
+      // Check if domain is already in use. Other users' domains are not
+      // visible here; the unique constraint below catches those.
       const { data: existingDomain, error: checkError } = await supabase
-        .from('websites')
-        .select('id')
-        .eq('domain', domain)
-        .not('id', 'eq', websiteId)
+        .from('website_domains')
+        .select('website_id')
+        .eq('domain', normalizedDomain)
         .maybeSingle();
 
       if (checkError) {
@@ -48,43 +127,61 @@ export const useDomains = () => {
       if (existingDomain) {
         return { 
           success: false, 
-          error: 'This domain is already in use by another website' 
+          error: existingDomain.website_id === websiteId
+            ? 'This domain is already connected to this website'
+            : 'This domain is already in use by another website'
         };
       }
 
-      // Get domain connection instructions
-      const links = await getEntriLinks({ id: domain });
+      // Every domain counts towards the plan, aliases included
+      await requireEntitlement('custom_domains');
 
-      // Update website with domain
-      const { data, error: updateError } = await supabase
+      const { data, error: insertError } = await supabase
+        .from('website_domains')
+        .insert({ website_id: websiteId, domain: normalizedDomain, is_primary: options.primary ?? false })
+        .select()
+        .single();
+
+      if (insertError) {
+        if (insertError.code === '23505') {
+          return { success: false, error: 'This domain is already in use by another website' };
+        }
+        throw toEntitlementError(insertError) ?? new Error(`Failed to add domain: ${insertError.message}`);
+      }
+
+      const { data: website, error: websiteError } = await supabase
         .from('websites')
-        .update({ domain })
+        .select('domain_verification_token')
         .eq('id', websiteId)
-        .select()
         .single();
 
-      if (updateError) {
-        throw new Error(`Failed to update domain: ${updateError.message}`);
+      if (websiteError) {
+        throw new Error(`Failed to load verification token: ${websiteError.message}`);
       }
 
       return { 
         success: true, 
-        message: 'Domain connected successfully!',
+        message: 'Domain connected. Add the DNS records below to verify it.',
         data: { 
-          website: data,
-          domainInstructions: links
+          websiteDomain: data as WebsiteDomain,
+          domainInstructions: getDomainInstructions(normalizedDomain, website.domain_verification_token)
         }
       };
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to connect domain';
       setError(errorMessage);
+      if (err instanceof EntitlementError) {
+        return { success: false, error: errorMessage, entitlement: err.status };
+      }
       return { success: false, error: errorMessage };
     } finally {
       setLoading(false);
     }
   };
 
-  const disconnectDomain = async (websiteId: string): Promise<DomainResult> => {
+  // Removes a domain. Removing the primary promotes the oldest remaining
+  // domain in its place.
+  const removeDomain = async (domainId: string): Promise<DomainResult> => {
     if (!user) {
       return { success: false, error: 'User not authenticated' };
     }
@@ -93,24 +190,21 @@ export const useDomains = () => {
       setLoading(true);
       setError(null);
 
-      const { data, error: updateError } = await supabase
-        .from('websites')
-        .update({ domain: null })
-        .eq('id', websiteId)
-        .select()
-        .single();
+      const { error: deleteError } = await supabase
+        .from('website_domains')
+        .delete()
+        .eq('id', domainId);
 
-      if (updateError) {
-        throw new Error(`Failed to disconnect domain: ${updateError.message}`);
+      if (deleteError) {
+        throw new Error(`Failed to remove domain: ${deleteError.message}`);
       }
 
       return { 
         success: true, 
-        message: 'Domain disconnected successfully!',
-        data: { website: data }
+        message: 'Domain removed successfully!'
       };
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to disconnect domain';
+      const errorMessage = err instanceof Error ? err.message : 'Failed to remove domain';
       setError(errorMessage);
       return { success: false, error: errorMessage };
     } finally {
@@ -118,31 +212,50 @@ export const useDomains = () => {
     }
   };
 
-  const getDomainStatus = async (domain: string): Promise<DomainResult> => {
+  const updateDomain = async (
+    domainId: string,
+    updates: Partial<Pick<WebsiteDomain, 'is_primary' | 'redirect'>>
+  ): Promise<DomainResult> => {
     try {
       setLoading(true);
       setError(null);
 
-      // In a real implementation, this would check DNS records and SSL status
-      // For demo purposes, we'll simulate a successful check
-      const status = {
-        dns: {
-          configured: true,
-          records: [
-            { type: 'A', name: domain, value: '76.76.21.21', status: 'valid' },
-            { type: 'CNAME', name: `www.${domain}`, value: 'cname.ncbx.app', status: 'valid' }
-          ]
-        },
-        ssl: {
-          configured: true,
-          issuer: 'Let\'s Encrypt',
-          validUntil: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString()
-        }
-      };
+      const { error: updateError } = await supabase
+        .from('website_domains')
+        .update(updates)
+        .eq('id', domainId);
+
+      if (updateError) {
+        throw toEntitlementError(updateError) ?? new Error(`Failed to update domain: ${updateError.message}`);
+      }
+
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update domain';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The current primary becomes an alias that redirects to the new one
+  const setPrimaryDomain = (domainId: string) => updateDomain(domainId, { is_primary: true });
+
+  const setDomainRedirect = (domainId: string, redirect: DomainRedirect) => updateDomain(domainId, { redirect });
+
+  // Looks up the DNS records of the website's domains, or just `domain`,
+  // and stores the resulting statuses
+  const verifyDomain = useCallback(async (websiteId: string, domain?: string): Promise<DomainResult<DomainVerification>> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await invokeFunction<DomainVerification>('verify-domain', { websiteId, domain });
 
       return { 
         success: true, 
-        data: { status }
+        data
       };
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to check domain status';
@@ -151,13 +264,95 @@ export const useDomains = () => {
     } finally {
       setLoading(false);
     }
+  }, []);
+
+  // Certificates for the website's custom domains, where one has been requested
+  const getCertificates = useCallback(async (websiteId: string): Promise<DomainResult<DomainCertificate[]>> => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('domain_certificates')
+        .select('domain, status, issuer, issued_at, expires_at, locked_at, last_error, renew_at')
+        .eq('website_id', websiteId);
+
+      if (fetchError) {
+        throw new Error(`Failed to load certificates: ${fetchError.message}`);
+      }
+
+      return { success: true, data: data ?? [] };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load certificates';
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  // Whether websiteId could switch to the subdomain; its own current and
+  // recent subdomains count as available
+  const checkSubdomain = useCallback(async (websiteId: string, subdomain: string): Promise<DomainResult<SubdomainAvailability>> => {
+    const normalized = normalizeSubdomain(subdomain);
+    const formatError = subdomainFormatError(normalized);
+    if (formatError) {
+      return { success: true, data: { subdomain: normalized, available: false, reason: formatError } };
+    }
+
+    try {
+      const { data, error: checkError } = await supabase
+        .rpc('check_subdomain', { subdomain_name: normalized, website_uuid: websiteId })
+        .single();
+
+      if (checkError) {
+        throw new Error(`Failed to check subdomain: ${checkError.message}`);
+      }
+
+      return { success: true, data: data as SubdomainAvailability };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to check subdomain';
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  // The old subdomain redirects to the new one for a while
+  const changeSubdomain = async (websiteId: string, subdomain: string): Promise<DomainResult<string>> => {
+    if (!user) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: updateError } = await supabase
+        .from('websites')
+        .update({ subdomain: normalizeSubdomain(subdomain) })
+        .eq('id', websiteId)
+        .select('subdomain')
+        .single();
+
+      if (updateError) {
+        // The database rejects taken and reserved subdomains with the reason
+        throw new Error(updateError.hint === 'subdomain_unavailable' ? updateError.message : `Failed to change subdomain: ${updateError.message}`);
+      }
+
+      return { success: true, data: data.subdomain };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to change subdomain';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
   };
 
   return {
     loading,
     error,
+    getDomains,
     connectCustomDomain,
-    disconnectDomain,
-    getDomainStatus
+    removeDomain,
+    setPrimaryDomain,
+    setDomainRedirect,
+    verifyDomain,
+    getCertificates,
+    checkSubdomain,
+    changeSubdomain
   };
 };
\ No newline at end of file
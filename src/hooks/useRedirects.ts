@@ -0,0 +1,139 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { normalizeRedirectRule, redirectRuleError, RedirectRule, WebsiteRedirect } from '../lib/redirects';
+
+export interface RedirectResult<T = unknown> {
+  success: boolean;
+  error?: string;
+  message?: string;
+  data?: T;
+}
+
+// Redirect rules take effect with the website's next deployment
+export const useRedirects = () => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Lists the website's rules by source path
+  const getRedirects = useCallback(async (websiteId: string): Promise<RedirectResult<WebsiteRedirect[]>> => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('website_redirects')
+        .select('*')
+        .eq('website_id', websiteId)
+        .order('source');
+
+      if (fetchError) {
+        throw new Error(`Failed to load redirects: ${fetchError.message}`);
+      }
+
+      return { success: true, data: data ?? [] };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load redirects';
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  // Adds the rules, replacing the target and status code of rules that
+  // already exist for the same source
+  const saveRedirects = async (websiteId: string, rules: RedirectRule[]): Promise<RedirectResult<WebsiteRedirect[]>> => {
+    const normalized = rules.map(normalizeRedirectRule);
+    const invalid = normalized.map(redirectRuleError).find(Boolean);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: saveError } = await supabase
+        .from('website_redirects')
+        .upsert(
+          normalized.map((rule) => ({ ...rule, website_id: websiteId })),
+          { onConflict: 'website_id,source' }
+        )
+        .select();
+
+      if (saveError) {
+        throw new Error(`Failed to save redirects: ${saveError.message}`);
+      }
+
+      return { success: true, data: data ?? [] };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save redirects';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRedirect = async (redirectId: string, rule: RedirectRule): Promise<RedirectResult<WebsiteRedirect>> => {
+    const normalized = normalizeRedirectRule(rule);
+    const invalid = redirectRuleError(normalized);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: updateError } = await supabase
+        .from('website_redirects')
+        .update(normalized)
+        .eq('id', redirectId)
+        .select()
+        .single();
+
+      if (updateError) {
+        if (updateError.code === '23505') {
+          return { success: false, error: 'Another redirect already uses this source path' };
+        }
+        throw new Error(`Failed to update redirect: ${updateError.message}`);
+      }
+
+      return { success: true, data };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update redirect';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const removeRedirect = async (redirectId: string): Promise<RedirectResult> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('website_redirects')
+        .delete()
+        .eq('id', redirectId);
+
+      if (deleteError) {
+        throw new Error(`Failed to remove redirect: ${deleteError.message}`);
+      }
+
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to remove redirect';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    loading,
+    error,
+    getRedirects,
+    saveRedirects,
+    updateRedirect,
+    removeRedirect
+  };
+};
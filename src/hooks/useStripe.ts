@@ -1,5 +1,7 @@
-import { useState } from 'react';
+import { useState, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
+import { invokeFunction } from '../lib/edgeFunctions';
+import { CouponSummary } from '../lib/coupons';
 import { useAppStore } from '../store/useAppStore';
 
 export interface StripeResult {
@@ -42,6 +44,7 @@ export interface Invoice {
 export interface BillingSummary {
   subscription_status: string;
   plan_id: string;
+  price_id: string | null;
   current_period_end: string;
   cancel_at_period_end: boolean;
   next_invoice_amount: number;
@@ -49,6 +52,34 @@ export interface BillingSummary {
   payment_method_brand: string;
 }
 
+// Set while a subscription payment has failed and not yet been paid
+export interface DunningStatus {
+  dunning_status: 'grace' | 'downgraded';
+  plan_id: string;
+  payment_failed_at: string;
+  grace_period_ends_at: string | null;
+  downgraded_at: string | null;
+  suspended_websites: number;
+}
+
+// What moving the current subscription to another price would cost now
+export interface PlanChangePreview {
+  planId: string;
+  priceId: string;
+  prorationDate: number;
+  amountDue: number;
+  // Negative when the change leaves a credit
+  total: number;
+  currency: string;
+  lines: { description: string | null; amount: number; proration: boolean }[];
+}
+
+export interface CheckoutOptions {
+  couponCode?: string;
+  successUrl?: string;
+  cancelUrl?: string;
+}
+
 export interface PremiumTemplate {
   id: string;
   name: string;
@@ -153,7 +184,7 @@ export const useStripe = () => {
     }
   ];
 
-  const createCheckoutSession = async (priceId: string, successUrl?: string, cancelUrl?: string): Promise<StripeResult> => {
+  const createCheckoutSession = async (priceId: string, options: CheckoutOptions = {}): Promise<StripeResult> => {
     if (!user) {
       return { success: false, error: 'User not authenticated' };
     }
@@ -162,20 +193,13 @@ export const useStripe = () => {
       setLoading(true);
       setError(null);
 
-      const { data, error: functionError } = await supabase.functions.invoke('create-checkout-session', {
-        body: {
-          priceId,
-          successUrl: successUrl || `${window.location.origin}/profile?success=true`,
-          cancelUrl: cancelUrl || `${window.location.origin}/profile?canceled=true`,
-          userId: user.id,
-          userEmail: user.email
-        }
+      const data = await invokeFunction<{ url: string | null }>('create-checkout-session', {
+        priceId,
+        couponCode: options.couponCode,
+        successUrl: options.successUrl || `${window.location.origin}/profile?success=true`,
+        cancelUrl: options.cancelUrl || `${window.location.origin}/profile?canceled=true`
       });
 
-      if (functionError) {
-        throw new Error(functionError.message);
-      }
-
       if (data.url) {
         window.location.href = data.url;
         return { success: true, data: { url: data.url } };
@@ -191,6 +215,19 @@ export const useStripe = () => {
     }
   };
 
+  // Checks a promo code before checkout; pass priceId to check it for one plan
+  const validateCoupon = async (
+    code: string,
+    priceId?: string
+  ): Promise<{ coupon: CouponSummary | null; error?: string }> => {
+    try {
+      const data = await invokeFunction<{ coupon: CouponSummary }>('validate-coupon', { code, priceId });
+      return { coupon: data.coupon };
+    } catch (err) {
+      return { coupon: null, error: err instanceof Error ? err.message : 'Failed to check promo code' };
+    }
+  };
+
   const createPortalSession = async (): Promise<StripeResult> => {
     if (!user) {
       return { success: false, error: 'User not authenticated' };
@@ -200,17 +237,10 @@ export const useStripe = () => {
       setLoading(true);
       setError(null);
 
-      const { data, error: functionError } = await supabase.functions.invoke('create-portal-session', {
-        body: {
-          userId: user.id,
-          returnUrl: `${window.location.origin}/profile`
-        }
+      const data = await invokeFunction<{ url: string | null }>('create-portal-session', {
+        returnUrl: `${window.location.origin}/profile`
       });
 
-      if (functionError) {
-        throw new Error(functionError.message);
-      }
-
       if (data.url) {
         window.location.href = data.url;
         return { success: true, data: { url: data.url } };
@@ -246,6 +276,38 @@ export const useStripe = () => {
     }
   };
 
+  const getDunningStatus = useCallback(async (): Promise<DunningStatus | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('subscriptions')
+        .select('dunning_status, plan_id, payment_failed_at, grace_period_ends_at, downgraded_at')
+        .eq('user_id', user.id)
+        .neq('dunning_status', 'none')
+        .order('payment_failed_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching dunning status:', error);
+        return null;
+      }
+      if (!data) return null;
+
+      const { count } = await supabase
+        .from('websites')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .not('suspended_at', 'is', null);
+
+      return { ...data, suspended_websites: count || 0 } as DunningStatus;
+    } catch (err) {
+      console.error('Error in getDunningStatus:', err);
+      return null;
+    }
+  }, [user]);
+
   const getPaymentMethods = async (): Promise<PaymentMethod[]> => {
     if (!user) return [];
 
@@ -338,19 +400,12 @@ export const useStripe = () => {
       setLoading(true);
       setError(null);
 
-      const { data, error: functionError } = await supabase.functions.invoke('purchase-template', {
-        body: {
-          templateId,
-          userId: user.id,
-          successUrl: `${window.location.origin}/templates?purchase=success`,
-          cancelUrl: `${window.location.origin}/templates?purchase=canceled`
-        }
+      const data = await invokeFunction<{ url: string | null }>('purchase-template', {
+        templateId,
+        successUrl: `${window.location.origin}/templates?purchase=success`,
+        cancelUrl: `${window.location.origin}/templates?purchase=canceled`
       });
 
-      if (functionError) {
-        throw new Error(functionError.message);
-      }
-
       if (data.url) {
         window.location.href = data.url;
         return { success: true, data: { url: data.url } };
@@ -408,7 +463,30 @@ export const useStripe = () => {
     }
   };
 
-  const cancelSubscription = async (): Promise<StripeResult> => {
+  const previewPlanChange = async (priceId: string): Promise<PlanChangePreview | null> => {
+    if (!user) return null;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await invokeFunction<{ preview: PlanChangePreview }>('change-subscription-plan', {
+        priceId,
+        preview: true
+      });
+
+      return data.preview;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to preview plan change';
+      setError(errorMessage);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Pass the preview's prorationDate so the charge matches what was shown
+  const changePlan = async (priceId: string, prorationDate?: number): Promise<StripeResult> => {
     if (!user) {
       return { success: false, error: 'User not authenticated' };
     }
@@ -417,14 +495,34 @@ export const useStripe = () => {
       setLoading(true);
       setError(null);
 
-      const { data, error: functionError } = await supabase.functions.invoke('cancel-subscription', {
-        body: { userId: user.id }
-      });
+      const data = await invokeFunction<{ pending: boolean }>('change-subscription-plan', { priceId, prorationDate });
 
-      if (functionError) {
-        throw new Error(functionError.message);
+      // The plan stays as it was until the prorated invoice is paid
+      if (data.pending) {
+        throw new Error('The payment for this change did not go through. Your plan changes once the invoice is paid.');
       }
 
+      return { success: true, data };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to change plan';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const cancelSubscription = async (): Promise<StripeResult> => {
+    if (!user) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await invokeFunction<unknown>('cancel-subscription', {});
+
       return { success: true, data };
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to cancel subscription';
@@ -444,13 +542,7 @@ export const useStripe = () => {
       setLoading(true);
       setError(null);
 
-      const { data, error: functionError } = await supabase.functions.invoke('reactivate-subscription', {
-        body: { userId: user.id }
-      });
-
-      if (functionError) {
-        throw new Error(functionError.message);
-      }
+      const data = await invokeFunction<unknown>('reactivate-subscription', {});
 
       return { success: true, data };
     } catch (err) {
@@ -467,14 +559,18 @@ export const useStripe = () => {
     error,
     plans,
     createCheckoutSession,
+    validateCoupon,
     createPortalSession,
     getBillingSummary,
+    getDunningStatus,
     getPaymentMethods,
     getInvoices,
     getPremiumTemplates,
     purchaseTemplate,
     checkTemplateAccess,
     getUserUsage,
+    previewPlanChange,
+    changePlan,
     cancelSubscription,
     reactivateSubscription
   };
@@ -249,6 +249,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "../lib/supabase";
+import { requireEntitlement, toEntitlementError } from "../lib/entitlements";
 import { useAppStore } from "../store/useAppStore";
 import { z } from "zod";
 
@@ -259,9 +260,13 @@ const WebsiteSchema = z.object({
   name: z.string().min(3).max(50),
   description: z.string().max(200).nullable().optional(),
   domain: z.string().nullable().optional(),
+  subdomain: z.string(),
   status: z.enum(["draft", "published"]),
   template: z.string(),
   thumbnail: z.string().nullable().optional(),
+  // Set while the owner's plan does not include the website; it is
+  // unpublished and read-only until then
+  suspended_at: z.string().nullable().optional(),
   created_at: z.string(),
   updated_at: z.string(),
 });
@@ -275,9 +280,23 @@ const CollaboratorSchema = z.object({
   created_at: z.string(),
 });
 
+// Zod schema for website version validation
+const WebsiteVersionSchema = z.object({
+  id: z.string().uuid(),
+  website_id: z.string().uuid(),
+  version_number: z.number().int(),
+  content: z.record(z.unknown()),
+  changes_summary: z.string().nullable(),
+  created_by: z.string().uuid().nullable(),
+  created_at: z.string(),
+  is_published: z.boolean().nullable(),
+  published_at: z.string().nullable(),
+});
+
 // TypeScript type derived from Zod schema
 export type Website = z.infer<typeof WebsiteSchema>;
 export type Collaborator = z.infer<typeof CollaboratorSchema>;
+export type WebsiteVersion = z.infer<typeof WebsiteVersionSchema>;
 
 // Interface for creating websites
 export interface CreateWebsiteData {
@@ -292,7 +311,6 @@ export interface CreateWebsiteData {
 export interface UpdateWebsiteData {
   name?: string;
   description?: string;
-  domain?: string;
   status?: "draft" | "published";
   template?: string;
   thumbnail?: string;
@@ -384,6 +402,8 @@ export const useWebsites = () => {
     }
 
     try {
+      await requireEntitlement("websites");
+
       const { data, error } = await supabase
         .from("websites")
         .insert({
@@ -397,7 +417,8 @@ export const useWebsites = () => {
         .select()
         .single();
 
-      if (error || !data) throw error || new Error("No data returned");
+      if (error) throw toEntitlementError(error) ?? error;
+      if (!data) throw new Error("No data returned");
 
       const validated = WebsiteSchema.parse(data);
       setWebsites((prev) => [validated, ...prev]);
@@ -483,6 +504,8 @@ export const useWebsites = () => {
         throw fetchError || new Error("Website not found");
       }
 
+      await requireEntitlement("websites");
+
       // Create a duplicate with a new name
       const { data, error } = await supabase
         .from("websites")
@@ -497,7 +520,8 @@ export const useWebsites = () => {
         .select()
         .single();
 
-      if (error || !data) throw error || new Error("No data returned");
+      if (error) throw toEntitlementError(error) ?? error;
+      if (!data) throw new Error("No data returned");
 
       const validated = WebsiteSchema.parse(data);
       setWebsites((prev) => [validated, ...prev]);
@@ -525,6 +549,151 @@ export const useWebsites = () => {
     return updateWebsite(id, { status: "draft" });
   };
 
+  // Save a new version of website content
+  const saveWebsiteVersion = useCallback(
+    async (
+      websiteId: string,
+      content: Record<string, unknown>,
+      changesSummary = "Auto-save"
+    ): Promise<string> => {
+      try {
+        const { data, error } = await supabase.rpc("save_website_version", {
+          website_uuid: websiteId,
+          content_data: content,
+          changes_description: changesSummary,
+        });
+
+        if (error) throw new Error(error.message);
+        if (!data) throw new Error("No version ID returned");
+
+        return data as string;
+      } catch (err) {
+        console.error("Error saving website version:", err);
+        throw err instanceof Error
+          ? err
+          : new Error("Failed to save website version");
+      }
+    },
+    []
+  );
+
+  // Get saved versions of a website, newest first
+  const getWebsiteVersions = useCallback(
+    async (
+      websiteId: string,
+      page = 1,
+      pageSize = 20
+    ): Promise<{ data: WebsiteVersion[]; count: number }> => {
+      try {
+        const { data, error, count } = await supabase
+          .from("website_versions")
+          .select("*", { count: "exact" })
+          .eq("website_id", websiteId)
+          .order("version_number", { ascending: false })
+          .range((page - 1) * pageSize, page * pageSize - 1);
+
+        if (error) throw new Error(error.message);
+
+        return {
+          data: z.array(WebsiteVersionSchema).parse(data || []),
+          count: count || 0,
+        };
+      } catch (err) {
+        console.error("Error fetching website versions:", err);
+        throw err instanceof Error
+          ? err
+          : new Error("Failed to load version history");
+      }
+    },
+    []
+  );
+
+  // Get a single saved version
+  const getWebsiteVersion = useCallback(
+    async (versionId: string): Promise<WebsiteVersion | null> => {
+      try {
+        const { data, error } = await supabase
+          .from("website_versions")
+          .select("*")
+          .eq("id", versionId)
+          .maybeSingle();
+
+        if (error) throw new Error(error.message);
+
+        return data ? WebsiteVersionSchema.parse(data) : null;
+      } catch (err) {
+        console.error("Error fetching website version:", err);
+        throw err instanceof Error
+          ? err
+          : new Error("Failed to load website version");
+      }
+    },
+    []
+  );
+
+  // Mark a version as the published version of its website
+  const publishWebsiteVersion = useCallback(
+    async (versionId: string): Promise<WebsiteVersion> => {
+      try {
+        const { data, error } = await supabase.rpc("publish_website_version", {
+          version_uuid: versionId,
+        });
+
+        if (error) throw new Error(error.message);
+
+        return WebsiteVersionSchema.parse(data);
+      } catch (err) {
+        console.error("Error publishing website version:", err);
+        throw err instanceof Error
+          ? err
+          : new Error("Failed to publish website version");
+      }
+    },
+    []
+  );
+
+  // Restore an older version by saving a copy of it as the newest version
+  const restoreWebsiteVersion = useCallback(
+    async (websiteId: string, versionId: string): Promise<string> => {
+      const version = await getWebsiteVersion(versionId);
+      if (!version || version.website_id !== websiteId) {
+        throw new Error("Version not found");
+      }
+
+      return saveWebsiteVersion(
+        websiteId,
+        version.content,
+        `Restored from version ${version.version_number}`
+      );
+    },
+    [getWebsiteVersion, saveWebsiteVersion]
+  );
+
+  // Get the most recently saved version of a website, or null if it has none
+  const getLatestWebsiteVersion = useCallback(
+    async (websiteId: string): Promise<WebsiteVersion | null> => {
+      try {
+        const { data, error } = await supabase
+          .from("website_versions")
+          .select("*")
+          .eq("website_id", websiteId)
+          .order("version_number", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (error) throw new Error(error.message);
+
+        return data ? WebsiteVersionSchema.parse(data) : null;
+      } catch (err) {
+        console.error("Error fetching latest website version:", err);
+        throw err instanceof Error
+          ? err
+          : new Error("Failed to load website content");
+      }
+    },
+    []
+  );
+
   // Get website collaborators
   const getWebsiteCollaborators = async (websiteId: string): Promise<Collaborator[]> => {
     try {
@@ -555,6 +724,8 @@ export const useWebsites = () => {
     role: "editor" | "viewer" = "viewer"
   ): Promise<Collaborator> => {
     try {
+      await requireEntitlement("collaborators", websiteId);
+
       const { data, error } = await supabase
         .from("website_collaborators")
         .insert({
@@ -565,7 +736,8 @@ export const useWebsites = () => {
         .select()
         .single();
 
-      if (error || !data) throw error || new Error("No data returned");
+      if (error) throw toEntitlementError(error) ?? error;
+      if (!data) throw new Error("No data returned");
 
       return CollaboratorSchema.parse(data);
     } catch (err) {
@@ -633,6 +805,12 @@ export const useWebsites = () => {
     duplicateWebsite,
     publishWebsite,
     unpublishWebsite,
+    saveWebsiteVersion,
+    getWebsiteVersions,
+    getWebsiteVersion,
+    getLatestWebsiteVersion,
+    publishWebsiteVersion,
+    restoreWebsiteVersion,
     getWebsiteCollaborators,
     addCollaborator,
     removeCollaborator,
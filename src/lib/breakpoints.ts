@@ -0,0 +1,61 @@
+import type {
+  Breakpoint,
+  BreakpointOverride,
+  BreakpointWidths,
+  EditorComponent,
+} from "../store/useEditorStore";
+
+// Widest first; each breakpoint inherits everything set above it
+export const BREAKPOINTS: Breakpoint[] = ["desktop", "tablet", "mobile"];
+
+export const defaultBreakpointWidths: BreakpointWidths = {
+  tablet: 768,
+  mobile: 375,
+};
+
+export type OverrideField = "styles" | "position" | "size" | "hidden";
+
+// The smaller breakpoints whose overrides apply at breakpoint, widest first
+const getCascade = (breakpoint: Breakpoint) =>
+  BREAKPOINTS.slice(1, BREAKPOINTS.indexOf(breakpoint) + 1) as Exclude<Breakpoint, "desktop">[];
+
+const applyOverride = (component: EditorComponent, override?: BreakpointOverride): EditorComponent =>
+  override
+    ? {
+        ...component,
+        styles: { ...component.styles, ...override.styles },
+        position: override.position ?? component.position,
+        size: override.size ?? component.size,
+        hidden: override.hidden ?? component.hidden,
+      }
+    : component;
+
+// The component as it renders at a breakpoint, with desktop values cascading
+// down through tablet to mobile
+export const resolveComponent = (component: EditorComponent, breakpoint: Breakpoint) =>
+  getCascade(breakpoint).reduce(
+    (resolved, name) => applyOverride(resolved, component.responsive?.[name]),
+    component
+  );
+
+export const resolveComponents = (components: EditorComponent[], breakpoint: Breakpoint) =>
+  breakpoint === "desktop" ? components : components.map((c) => resolveComponent(c, breakpoint));
+
+// Whether a value is set at this exact breakpoint rather than inherited
+export const isOverridden = (
+  component: EditorComponent,
+  breakpoint: Breakpoint,
+  field: OverrideField,
+  styleProperty?: string
+) => {
+  if (breakpoint === "desktop") return false;
+  const override = component.responsive?.[breakpoint];
+  if (!override) return false;
+  if (field === "styles") {
+    return styleProperty ? override.styles?.[styleProperty] !== undefined : !!override.styles;
+  }
+  return override[field] !== undefined;
+};
+
+export const getBreakpointLabel = (breakpoint: Breakpoint) =>
+  breakpoint.charAt(0).toUpperCase() + breakpoint.slice(1);
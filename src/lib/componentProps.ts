@@ -0,0 +1,212 @@
+import { z } from "zod";
+import { field } from "./schemaFields";
+
+// Type-specific settings stored in EditorComponent.props. Every field has a
+// default so a freshly dropped component renders with sample content, and a
+// label so the properties panel can generate its form.
+
+const LinkPropsSchema = z.object({
+  href: field(z.string().default(""), { label: "Link (Optional)", control: "url", placeholder: "https://example.com" }),
+  openInNewTab: field(z.boolean().default(false), { label: "Open in new tab" }),
+});
+
+const ImagePropsSchema = z.object({
+  src: field(z.string().default(""), { label: "Image URL", control: "url", placeholder: "https://example.com/image.jpg" }),
+  alt: field(z.string().default(""), { label: "Alt Text", placeholder: "Describe the image" }),
+});
+
+const VideoPropsSchema = z.object({
+  url: field(z.string().default("https://www.youtube.com/watch?v=dQw4w9WgXcQ"), {
+    label: "Video URL",
+    control: "url",
+    placeholder: "YouTube, Vimeo or a video file",
+  }),
+  autoplay: field(z.boolean().default(false), { label: "Autoplay" }),
+  muted: field(z.boolean().default(false), { label: "Muted" }),
+  controls: field(z.boolean().default(true), { label: "Show controls" }),
+});
+
+const GalleryPropsSchema = z.object({
+  columns: field(z.number().int().min(1).max(6).default(3), { label: "Columns", min: 1, max: 6 }),
+  images: field(
+    z
+      .array(
+        z.object({
+          src: field(z.string(), { label: "Image URL", control: "url" }),
+          alt: field(z.string().default(""), { label: "Alt Text" }),
+        })
+      )
+      .default([
+      { src: "https://images.pexels.com/photos/1103970/pexels-photo-1103970.jpeg?w=400", alt: "Gallery image 1" },
+      { src: "https://images.pexels.com/photos/1366919/pexels-photo-1366919.jpeg?w=400", alt: "Gallery image 2" },
+      { src: "https://images.pexels.com/photos/1402787/pexels-photo-1402787.jpeg?w=400", alt: "Gallery image 3" },
+      ]),
+    { label: "Images", itemTitle: "alt" }
+  ),
+});
+
+const IconPropsSchema = z.object({
+  icon: field(z.string().default("⭐"), { label: "Icon", placeholder: "Emoji or symbol" }),
+  size: field(z.number().positive().default(48), { label: "Size (px)", min: 8 }),
+});
+
+const FormFieldSchema = z.object({
+  label: field(z.string().default("New field"), { label: "Label" }),
+  type: field(z.enum(["text", "email", "tel", "textarea"]).default("text"), { label: "Type" }),
+  required: field(z.boolean().default(false), { label: "Required" }),
+});
+
+const FormPropsSchema = z.object({
+  title: field(z.string().default("Get in touch"), { label: "Title" }),
+  submitLabel: field(z.string().default("Send message"), { label: "Submit Button" }),
+  // Email address or URL the submissions go to
+  action: field(z.string().default(""), { label: "Send Submissions To", placeholder: "you@example.com or https://..." }),
+  fields: field(
+    z.array(FormFieldSchema).default([
+      { label: "Name", type: "text", required: true },
+      { label: "Email", type: "email", required: true },
+      { label: "Message", type: "textarea", required: false },
+    ]),
+    { label: "Fields", itemTitle: "label" }
+  ),
+});
+
+const InputPropsSchema = z.object({
+  label: field(z.string().default("Label"), { label: "Label" }),
+  name: field(z.string().default("field"), { label: "Field Name" }),
+  placeholder: field(z.string().default("Enter a value"), { label: "Placeholder" }),
+  inputType: field(z.enum(["text", "email", "tel", "number", "password"]).default("text"), { label: "Input Type" }),
+  required: field(z.boolean().default(false), { label: "Required" }),
+});
+
+const TextareaPropsSchema = z.object({
+  label: field(z.string().default("Message"), { label: "Label" }),
+  name: field(z.string().default("message"), { label: "Field Name" }),
+  placeholder: field(z.string().default("Write your message"), { label: "Placeholder" }),
+  rows: field(z.number().int().positive().default(4), { label: "Rows", min: 1 }),
+  required: field(z.boolean().default(false), { label: "Required" }),
+});
+
+const CheckboxPropsSchema = z.object({
+  label: field(z.string().default("I agree to the terms"), { label: "Label" }),
+  name: field(z.string().default("agree"), { label: "Field Name" }),
+  checked: field(z.boolean().default(false), { label: "Checked by default" }),
+});
+
+const MapPropsSchema = z.object({
+  address: field(z.string().default("San Francisco, CA"), { label: "Address" }),
+  zoom: field(z.number().int().min(1).max(20).default(13), { label: "Zoom (1-20)", min: 1, max: 20 }),
+});
+
+const TestimonialsPropsSchema = z.object({
+  items: field(
+    z
+      .array(
+        z.object({
+          quote: field(z.string().default("What a great product!"), { label: "Quote", control: "textarea" }),
+          author: field(z.string().default("Customer name"), { label: "Author" }),
+          role: field(z.string().default(""), { label: "Role" }),
+        })
+      )
+      .default([
+        { quote: "This product changed how our team works.", author: "Alex Morgan", role: "Product Lead" },
+        { quote: "Setup took minutes and support is excellent.", author: "Sam Lee", role: "Founder" },
+      ]),
+    { label: "Testimonials", itemTitle: "author" }
+  ),
+});
+
+const PricingPropsSchema = z.object({
+  tiers: field(
+    z
+      .array(
+        z.object({
+          name: field(z.string().default("New plan"), { label: "Name" }),
+          price: field(z.string().default("$0"), { label: "Price" }),
+          period: field(z.string().default("/month"), { label: "Period" }),
+          features: field(z.array(z.string()).default([]), { label: "Features (one per line)" }),
+          ctaLabel: field(z.string().default("Choose plan"), { label: "Button Label" }),
+          highlighted: field(z.boolean().default(false), { label: "Highlight this tier" }),
+        })
+      )
+      .default([
+        { name: "Starter", price: "$0", period: "/month", features: ["1 website", "Community support"], ctaLabel: "Get started", highlighted: false },
+        { name: "Pro", price: "$19", period: "/month", features: ["10 websites", "Custom domains", "Priority support"], ctaLabel: "Go Pro", highlighted: true },
+        { name: "Business", price: "$49", period: "/month", features: ["Unlimited websites", "Team seats", "SLA"], ctaLabel: "Contact sales", highlighted: false },
+      ]),
+    { label: "Pricing Tiers", itemTitle: "name" }
+  ),
+});
+
+const CountdownPropsSchema = z.object({
+  // ISO date the timer counts down to
+  targetDate: field(
+    z.string().default(() => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()),
+    { label: "Count Down To", control: "datetime" }
+  ),
+  expiredLabel: field(z.string().default("The wait is over!"), { label: "Message When Finished" }),
+});
+
+const SocialPropsSchema = z.object({
+  links: field(
+    z
+      .array(
+        z.object({
+          platform: field(z.string().default("Website"), { label: "Platform" }),
+          url: field(z.string().default("https://"), { label: "URL", control: "url" }),
+        })
+      )
+      .default([
+        { platform: "Twitter", url: "https://twitter.com" },
+        { platform: "Instagram", url: "https://instagram.com" },
+        { platform: "LinkedIn", url: "https://linkedin.com" },
+      ]),
+    { label: "Links", itemTitle: "platform" }
+  ),
+});
+
+const BlogPropsSchema = z.object({
+  posts: field(
+    z
+      .array(
+        z.object({
+          title: field(z.string().default("New post"), { label: "Title" }),
+          excerpt: field(z.string().default(""), { label: "Excerpt", control: "textarea" }),
+          date: field(z.string().default(""), { label: "Date", control: "date" }),
+          url: field(z.string().default(""), { label: "Link", control: "url" }),
+        })
+      )
+      .default([
+        { title: "Announcing our new editor", excerpt: "Build pages faster with nested layouts.", date: "2025-06-01", url: "" },
+        { title: "Five tips for a faster site", excerpt: "Small changes that make a big difference.", date: "2025-05-20", url: "" },
+      ]),
+    { label: "Posts", itemTitle: "title" }
+  ),
+});
+
+export const componentPropsSchemas = {
+  text: LinkPropsSchema,
+  button: LinkPropsSchema,
+  image: ImagePropsSchema,
+  video: VideoPropsSchema,
+  gallery: GalleryPropsSchema,
+  icon: IconPropsSchema,
+  form: FormPropsSchema,
+  input: InputPropsSchema,
+  textarea: TextareaPropsSchema,
+  checkbox: CheckboxPropsSchema,
+  map: MapPropsSchema,
+  testimonials: TestimonialsPropsSchema,
+  pricing: PricingPropsSchema,
+  countdown: CountdownPropsSchema,
+  social: SocialPropsSchema,
+  blog: BlogPropsSchema,
+};
+
+export type PropsType = keyof typeof componentPropsSchemas;
+
+export type ComponentProps<T extends PropsType> = z.infer<(typeof componentPropsSchemas)[T]>;
+
+// Player and map URLs live with the site compiler so published pages embed
+// the same players as the editor
+export { getMapEmbedUrl, getVideoEmbedUrl } from "./siteCompiler";
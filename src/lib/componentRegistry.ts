@@ -0,0 +1,103 @@
+import type { CSSProperties, ReactNode } from "react";
+import type { z } from "zod";
+import type { ContainerLayout, EditorComponent, NewComponent } from "../store/useEditorStore";
+
+// Everything the editor knows about a component type. Built-in types are
+// registered from components/Editor/componentTypes; modules dropped into its
+// custom folder register in-house types the same way.
+
+export type ComponentCategory = "Basic" | "Layout" | "Media" | "Forms" | "Advanced";
+
+export const COMPONENT_CATEGORIES: ComponentCategory[] = ["Basic", "Layout", "Media", "Forms", "Advanced"];
+
+export interface ComponentRenderContext<P> {
+  component: EditorComponent;
+  props: P;
+  // The component's styles resolved for the current breakpoint, sized to fill
+  // its wrapper
+  style: CSSProperties;
+  isPreviewMode: boolean;
+  // Whether a container currently holds any components
+  hasChildren: boolean;
+}
+
+export interface ComponentTypeDefinition<P = Record<string, unknown>> {
+  type: string;
+  name: string;
+  description: string;
+  category: ComponentCategory;
+  icon: ReactNode;
+  // Short sample shown in the component library
+  preview?: string;
+  // Only created by other types, e.g. the columns inside Columns
+  hideFromLibrary?: boolean;
+  // Containers can hold other components
+  isContainer?: boolean;
+  // Text edited from the Content tab and by double-clicking on the canvas
+  content?: {
+    label: string;
+    default: string;
+    placeholder?: string;
+    // Shift+Enter adds line breaks; otherwise Enter finishes inline editing
+    multiline?: boolean;
+  };
+  defaultStyles: Record<string, string | number>;
+  defaultSize: { width: number; height: number };
+  defaultLayout?: ContainerLayout;
+  // Components created inside a new instance, positioned relative to it
+  defaultChildren?: (size: { width: number; height: number }) => NewComponent[];
+  // Type-specific settings stored in EditorComponent.props; every field needs
+  // a default
+  propsSchema?: z.ZodType<P, z.ZodTypeDef, unknown>;
+  // Style properties offered in the Style tab
+  styleSchema?: z.AnyZodObject;
+  render(context: ComponentRenderContext<P>): ReactNode;
+}
+
+const registry = new Map<string, ComponentTypeDefinition<unknown>>();
+
+export const registerComponentType = <P>(definition: ComponentTypeDefinition<P>) => {
+  if (registry.has(definition.type)) {
+    console.warn(`Component type "${definition.type}" is already registered and will be replaced`);
+  }
+  registry.set(definition.type, definition as ComponentTypeDefinition<unknown>);
+};
+
+export const getComponentType = (type: string) => registry.get(type);
+
+// In registration order, which is the order the library lists them
+export const getComponentTypes = () => Array.from(registry.values());
+
+export const getDefaultProps = (type: string): Record<string, unknown> => {
+  const schema = registry.get(type)?.propsSchema;
+  return schema ? (schema.parse({}) as Record<string, unknown>) : {};
+};
+
+// Reads a component's props, falling back to the defaults for anything
+// missing or malformed so a bad value never breaks the canvas
+export const readComponentProps = <P>(definition: ComponentTypeDefinition<P>, props: unknown): P | undefined => {
+  const schema = definition.propsSchema;
+  if (!schema) return undefined;
+  const parsed = schema.safeParse(props ?? {});
+  return parsed.success ? parsed.data : schema.parse({});
+};
+
+// A new component of a registered type with its default content, styles, size
+// and props
+export const createComponent = (
+  type: string,
+  overrides: Partial<NewComponent> & Pick<NewComponent, "position">
+): NewComponent => {
+  const definition = registry.get(type);
+  return {
+    type,
+    content: definition?.content?.default ?? "",
+    styles: { ...definition?.defaultStyles },
+    size: definition?.defaultSize ?? { width: 200, height: 100 },
+    props: getDefaultProps(type),
+    layout: definition?.defaultLayout,
+    locked: false,
+    hidden: false,
+    ...overrides,
+  };
+};
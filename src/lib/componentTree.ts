@@ -0,0 +1,116 @@
+import type { EditorComponent } from "../store/useEditorStore";
+import { getComponentType } from "./componentRegistry";
+
+// Whether components of this type can hold other components
+export const isContainerType = (type: string) => !!getComponentType(type)?.isContainer;
+
+export interface ComponentNode {
+  component: EditorComponent;
+  children: ComponentNode[];
+}
+
+// A component whose parent no longer exists is treated as top-level so it
+// never disappears from the canvas
+const resolveParentId = (components: EditorComponent[], component: EditorComponent) =>
+  component.parentId && components.some((c) => c.id === component.parentId)
+    ? component.parentId
+    : null;
+
+// Direct children of a parent (null for the page), bottom-most layer first
+export const getChildren = (components: EditorComponent[], parentId: string | null) =>
+  components
+    .filter((c) => resolveParentId(components, c) === parentId)
+    .sort((a, b) => a.layer - b.layer);
+
+// Every component nested under id, parents before their children
+export const getDescendants = (components: EditorComponent[], id: string): EditorComponent[] =>
+  getChildren(components, id).flatMap((child) => [child, ...getDescendants(components, child.id)]);
+
+export const getDescendantIds = (components: EditorComponent[], id: string) =>
+  new Set(getDescendants(components, id).map((c) => c.id));
+
+export const getDepth = (components: EditorComponent[], id: string) => {
+  let depth = 0;
+  let current = components.find((c) => c.id === id);
+  while (current && current.parentId) {
+    const parentId: string = current.parentId;
+    current = components.find((c) => c.id === parentId);
+    if (current) depth++;
+  }
+  return depth;
+};
+
+// Positions are stored relative to the parent; this resolves them to canvas
+// coordinates
+export const getAbsolutePosition = (components: EditorComponent[], id: string | null) => {
+  const position = { x: 0, y: 0 };
+  const visited = new Set<string>();
+  let current = id ? components.find((c) => c.id === id) : undefined;
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    position.x += current.position.x;
+    position.y += current.position.y;
+    const parentId = current.parentId;
+    current = parentId ? components.find((c) => c.id === parentId) : undefined;
+  }
+  return position;
+};
+
+// Whether the component is placed by its parent's flex layout rather than by
+// its own position
+export const isInFlow = (components: EditorComponent[], component: EditorComponent) =>
+  !!component.parentId &&
+  components.find((c) => c.id === component.parentId)?.layout?.mode === "flex";
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Canvas bounds from the stored coordinates. Only exact outside flex
+// layouts; the canvas passes measured bounds instead.
+const getStoredBounds = (components: EditorComponent[], component: EditorComponent): Bounds => ({
+  ...getAbsolutePosition(components, component.id),
+  ...component.size,
+});
+
+// Whether parentId can hold id without creating a cycle
+export const canBeParent = (components: EditorComponent[], id: string, parentId: string | null) =>
+  parentId === null || (parentId !== id && !getDescendantIds(components, id).has(parentId));
+
+// The innermost visible container under a canvas point, ignoring the given ids
+export const findContainerAt = (
+  components: EditorComponent[],
+  point: { x: number; y: number },
+  excludeIds: Set<string> = new Set(),
+  getBounds: (component: EditorComponent) => Bounds | null = (c) => getStoredBounds(components, c)
+): EditorComponent | null => {
+  const candidates = components.filter((c) => {
+    if (!isContainerType(c.type) || c.hidden || excludeIds.has(c.id)) return false;
+    const bounds = getBounds(c);
+    if (!bounds) return false;
+    const { x, y, width, height } = bounds;
+    return point.x >= x && point.x <= x + width && point.y >= y && point.y <= y + height;
+  });
+  if (candidates.length === 0) return null;
+
+  return candidates.reduce((best, candidate) => {
+    const depthDiff = getDepth(components, candidate.id) - getDepth(components, best.id);
+    if (depthDiff !== 0) return depthDiff > 0 ? candidate : best;
+    return candidate.layer > best.layer ? candidate : best;
+  });
+};
+
+// Nested view of the flat component list, top-most layer first at every level
+export const buildComponentTree = (
+  components: EditorComponent[],
+  parentId: string | null = null
+): ComponentNode[] =>
+  getChildren(components, parentId)
+    .reverse()
+    .map((component) => ({
+      component,
+      children: buildComponentTree(components, component.id),
+    }));
@@ -0,0 +1,76 @@
+import type { PlanId } from "./entitlements";
+
+// A coupon as the validate-coupon function describes it to users. Admin
+// screens read the full row from the coupons table.
+
+export type CouponDuration = "once" | "repeating" | "forever";
+
+export interface CouponSummary {
+  code: string;
+  name: string;
+  percent_off: number | null;
+  // In cents
+  amount_off: number | null;
+  currency: string;
+  duration: CouponDuration;
+  duration_in_months: number | null;
+  // Empty when the coupon applies to every paid plan
+  allowed_plans: PlanId[];
+}
+
+export interface Coupon extends CouponSummary {
+  id: string;
+  max_redemptions: number | null;
+  expires_at: string | null;
+  is_active: boolean;
+  times_redeemed: number;
+  stripe_coupon_id: string;
+  stripe_promotion_code_id: string;
+  created_at: string;
+}
+
+export interface CouponRedemption {
+  id: string;
+  coupon_id: string;
+  user_id: string;
+  plan_id: string;
+  stripe_checkout_session_id: string;
+  amount_discount: number;
+  currency: string;
+  redeemed_at: string;
+}
+
+export const formatMoney = (cents: number, currency = "usd") =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(cents / 100);
+
+// e.g. "20% off for 3 months"
+export const describeDiscount = (coupon: CouponSummary) => {
+  const amount =
+    coupon.percent_off !== null
+      ? `${coupon.percent_off}% off`
+      : `${formatMoney(coupon.amount_off ?? 0, coupon.currency)} off`;
+
+  switch (coupon.duration) {
+    case "once":
+      return `${amount} the first payment`;
+    case "repeating":
+      return `${amount} for ${coupon.duration_in_months} month${coupon.duration_in_months === 1 ? "" : "s"}`;
+    case "forever":
+      return `${amount} every payment`;
+  }
+};
+
+export const couponAppliesTo = (coupon: CouponSummary, plan: PlanId) =>
+  coupon.allowed_plans.length === 0 || coupon.allowed_plans.includes(plan);
+
+// The first payment after the discount, in whole currency units
+export const discountedPrice = (price: number, coupon: CouponSummary) => {
+  const discounted =
+    coupon.percent_off !== null
+      ? price * (1 - coupon.percent_off / 100)
+      : price - (coupon.amount_off ?? 0) / 100;
+  return Math.max(0, Math.round(discounted * 100) / 100);
+};
@@ -0,0 +1,30 @@
+import { requiredRecords } from "../../supabase/functions/_shared/domainRecords.ts";
+
+// The record definitions live with the edge functions so the instructions
+// shown here match what verify-domain checks
+export * from "../../supabase/functions/_shared/domainRecords.ts";
+
+export interface DomainInstructions {
+  domain: string;
+  dnsRecords: { type: string; name: string; value: string; ttl: number }[];
+  instructions: { steps: string[] };
+}
+
+export const getDomainInstructions = (domain: string, verificationToken: string): DomainInstructions => {
+  const records = requiredRecords(domain, verificationToken);
+  const routing = records[1];
+
+  return {
+    domain,
+    dnsRecords: records.map(({ type, host, value, ttl }) => ({ type, name: host, value, ttl })),
+    instructions: {
+      steps: [
+        "Log in to your domain registrar (e.g., GoDaddy, Namecheap)",
+        "Navigate to the DNS settings for your domain",
+        `Add the TXT record ${records[0].host} with the value ${records[0].value} to prove you own the domain`,
+        `Add the ${routing.type} record for ${routing.host} pointing to ${routing.value}`,
+        "Click Check now in Domain Settings once the records are saved (DNS changes can take up to 48 hours)",
+      ],
+    },
+  };
+};
@@ -0,0 +1,43 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+
+// Error body returned by every edge function (supabase/functions/_shared/http.ts)
+interface ErrorEnvelope {
+  error?: { code?: string; message?: string; details?: unknown };
+}
+
+export class EdgeFunctionError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status?: number,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = "EdgeFunctionError";
+  }
+}
+
+// Calls an edge function as the signed-in user. The caller is identified by
+// the session's access token, which supabase-js sends automatically, so
+// bodies never carry user ids. Failures are thrown as EdgeFunctionError with
+// the function's own message.
+export const invokeFunction = async <T>(name: string, body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke<T>(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response = error.context as Response;
+      const envelope = (await response.json().catch(() => ({}))) as ErrorEnvelope;
+      throw new EdgeFunctionError(
+        envelope.error?.message ?? error.message,
+        envelope.error?.code ?? "http_error",
+        response.status,
+        envelope.error?.details
+      );
+    }
+    throw new EdgeFunctionError(error.message, "network_error");
+  }
+
+  return data as T;
+};
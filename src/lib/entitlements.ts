@@ -0,0 +1,91 @@
+import { supabase } from "./supabase";
+
+// What each plan includes is defined once, in the plan_entitlements table.
+// The database enforces it on insert; these helpers let the client check
+// first so it can show an upgrade prompt instead of a failed request.
+
+export type PlanId = "free" | "pro" | "business";
+
+export type EntitlementFeature =
+  | "websites"
+  | "custom_domains"
+  | "collaborators"
+  | "storage"
+  | "premium_templates";
+
+export interface EntitlementStatus {
+  feature: EntitlementFeature;
+  plan: PlanId;
+  used: number;
+  // null when the plan has no limit
+  limit_count: number | null;
+  allowed: boolean;
+  // Cheapest plan that would allow one more, if any
+  upgrade_plan: PlanId | null;
+}
+
+const featureLabels: Record<EntitlementFeature, string> = {
+  websites: "websites",
+  custom_domains: "custom domains",
+  collaborators: "collaborators per website",
+  storage: "MB of storage",
+  premium_templates: "premium templates",
+};
+
+const planName = (plan: PlanId) => plan.charAt(0).toUpperCase() + plan.slice(1);
+
+// Thrown when an action would exceed the user's plan
+export class EntitlementError extends Error {
+  constructor(public status: EntitlementStatus) {
+    super(describeLimit(status));
+    this.name = "EntitlementError";
+  }
+}
+
+export const describeLimit = (status: EntitlementStatus): string => {
+  const included =
+    status.feature === "premium_templates"
+      ? `Your ${planName(status.plan)} plan does not include premium templates.`
+      : `Your ${planName(status.plan)} plan includes ${status.limit_count} ${featureLabels[status.feature]}.`;
+  return status.upgrade_plan
+    ? `${included} Upgrade to ${planName(status.upgrade_plan)} for more.`
+    : included;
+};
+
+// The signed-in user's usage and limit for one feature. Collaborators are
+// counted per website, against the website owner's plan.
+export const checkEntitlement = async (
+  feature: EntitlementFeature,
+  websiteId?: string
+): Promise<EntitlementStatus> => {
+  const { data, error } = await supabase
+    .rpc("check_entitlement", { feature_name: feature, website_uuid: websiteId ?? null })
+    .single();
+
+  if (error) throw new Error(`Failed to check plan limits: ${error.message}`);
+  return data as EntitlementStatus;
+};
+
+// Throws EntitlementError unless the user can use one more of the feature
+export const requireEntitlement = async (
+  feature: EntitlementFeature,
+  websiteId?: string
+): Promise<void> => {
+  const status = await checkEntitlement(feature, websiteId);
+  if (!status.allowed) throw new EntitlementError(status);
+};
+
+// Turns the database's upgrade_required error into an EntitlementError, so
+// a limit hit between the check and the write reads the same
+export const toEntitlementError = (error: {
+  message: string;
+  hint?: string | null;
+  details?: string | null;
+}): EntitlementError | null => {
+  if (error.hint !== "upgrade_required" || !error.details) return null;
+  try {
+    return new EntitlementError(JSON.parse(error.details) as EntitlementStatus);
+  } catch {
+    return null;
+  }
+};
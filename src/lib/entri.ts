@@ -1,60 +0,0 @@
-// This is a mock implementation of the Entri API for domain connection
-// In a real application, this would integrate with a real domain provider API
-
-export interface EntriLinksParams {
-  id: string;
-}
-
-export interface DnsRecord {
-  type: string;
-  name: string;
-  value: string;
-  ttl: number;
-}
-
-export interface EntriInstructions {
-  steps: string[];
-  verificationMethod: string;
-}
-
-export interface EntriLinksResult {
-  domain: string;
-  dnsRecords: DnsRecord[];
-  verificationStatus: string;
-  instructions: EntriInstructions;
-}
-
-export const getEntriLinks = async (params: EntriLinksParams): Promise<EntriLinksResult> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  // Return mock domain connection instructions
-  return {
-    domain: params.id,
-    dnsRecords: [
-      {
-        type: 'A',
-        name: '@',
-        value: '76.76.21.21',
-        ttl: 3600
-      },
-      {
-        type: 'CNAME',
-        name: 'www',
-        value: 'cname.ncbx.app',
-        ttl: 3600
-      }
-    ],
-    verificationStatus: 'pending',
-    instructions: {
-      steps: [
-        'Log in to your domain registrar (e.g., GoDaddy, Namecheap)',
-        'Navigate to the DNS settings for your domain',
-        'Add the A record pointing to 76.76.21.21',
-        'Add the CNAME record for www pointing to cname.ncbx.app',
-        'Wait for DNS propagation (may take up to 48 hours)'
-      ],
-      verificationMethod: 'automatic'
-    }
-  };
-};
\ No newline at end of file
@@ -0,0 +1,3 @@
+// The redirect rules and CSV import live with the edge functions so the
+// editor and the deployed hosting config agree
+export * from "../../supabase/functions/_shared/redirects.ts";
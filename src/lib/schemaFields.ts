@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+// Editor metadata attached to zod schemas so the properties panel can build a
+// form from a component type's schema without a hand-written tab per type
+
+export type FieldControl =
+  | "text"
+  | "textarea"
+  | "url"
+  | "color"
+  | "number"
+  | "range"
+  | "select"
+  | "segmented"
+  | "checkbox"
+  | "date"
+  | "datetime"
+  | "lines";
+
+export interface FieldMeta {
+  label: string;
+  // Inferred from the schema type when omitted
+  control?: FieldControl;
+  placeholder?: string;
+  // Heading the field is listed under; consecutive fields share a heading
+  group?: string;
+  options?: readonly string[];
+  optionLabels?: Record<string, string>;
+  min?: number;
+  max?: number;
+  step?: number;
+  // For lists of objects, the item property used as each entry's title
+  itemTitle?: string;
+}
+
+const fieldMeta = new WeakMap<z.ZodTypeAny, FieldMeta>();
+
+export const field = <T extends z.ZodTypeAny>(schema: T, meta: FieldMeta): T => {
+  fieldMeta.set(schema, meta);
+  return schema;
+};
+
+export const getFieldMeta = (schema: z.ZodTypeAny): FieldMeta | undefined => fieldMeta.get(schema);
+
+// The schema inside any default, optional or nullable wrappers
+export const unwrapSchema = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+  if (schema instanceof z.ZodDefault) return unwrapSchema(schema._def.innerType);
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrapSchema(schema.unwrap());
+  }
+  return schema;
+};
+
+export const getFieldControl = (schema: z.ZodTypeAny): FieldControl => {
+  const meta = getFieldMeta(schema);
+  if (meta?.control) return meta.control;
+  const inner = unwrapSchema(schema);
+  if (inner instanceof z.ZodBoolean) return "checkbox";
+  if (inner instanceof z.ZodNumber) return "number";
+  if (inner instanceof z.ZodEnum) return "select";
+  if (inner instanceof z.ZodArray && unwrapSchema(inner.element) instanceof z.ZodString) return "lines";
+  return "text";
+};
+
+export const getFieldOptions = (schema: z.ZodTypeAny): readonly string[] => {
+  const inner = unwrapSchema(schema);
+  return getFieldMeta(schema)?.options ?? (inner instanceof z.ZodEnum ? inner.options : []);
+};
+
+// A blank value for a new list entry: the field's default where it has one,
+// otherwise the empty value for its type
+export const createEmptyValue = (schema: z.ZodTypeAny): unknown => {
+  if (schema instanceof z.ZodDefault) return schema._def.defaultValue();
+  const inner = unwrapSchema(schema);
+  if (inner instanceof z.ZodObject) {
+    return Object.fromEntries(
+      Object.entries(inner.shape as z.ZodRawShape).map(([key, value]) => [key, createEmptyValue(value)])
+    );
+  }
+  if (inner instanceof z.ZodArray) return [];
+  if (inner instanceof z.ZodBoolean) return false;
+  if (inner instanceof z.ZodNumber) return inner.minValue ?? 0;
+  if (inner instanceof z.ZodEnum) return inner.options[0];
+  return "";
+};
@@ -0,0 +1,3 @@
+// The static site compiler lives with the edge functions so deploy-website
+// and the editor's HTML export share one implementation
+export * from "../../supabase/functions/_shared/siteCompiler/index.ts";
@@ -0,0 +1,3 @@
+// The validation rules live with the edge functions so the picker and the
+// deployed addresses agree
+export * from "../../supabase/functions/_shared/subdomains.ts";
@@ -0,0 +1,96 @@
+import { parseEditorComponents, type EditorComponent } from "../store/useEditorStore";
+
+export interface PropertyChange {
+  // Dotted path into the component, e.g. "styles.fontSize" or "position.x"
+  property: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ComponentChange {
+  id: string;
+  type: string;
+  label: string;
+  changes: PropertyChange[];
+}
+
+export interface VersionDiff {
+  added: EditorComponent[];
+  removed: EditorComponent[];
+  changed: ComponentChange[];
+}
+
+export const getComponentLabel = (component: EditorComponent) =>
+  component.content ? component.content.slice(0, 40) : component.type;
+
+// Flattens nested objects into dotted paths so every style or layout value is
+// compared on its own. Arrays are compared as a whole.
+const flatten = (
+  value: unknown,
+  prefix: string,
+  out: Record<string, unknown>
+): Record<string, unknown> => {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    });
+  } else if (prefix) {
+    out[prefix] = value;
+  }
+  return out;
+};
+
+const isSameValue = (a: unknown, b: unknown) =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+export const diffComponents = (
+  before: EditorComponent[],
+  after: EditorComponent[]
+): VersionDiff => {
+  const beforeById = new Map(before.map((c) => [c.id, c]));
+  const afterById = new Map(after.map((c) => [c.id, c]));
+
+  const changed: ComponentChange[] = [];
+  after.forEach((component) => {
+    const previous = beforeById.get(component.id);
+    if (!previous) return;
+
+    const beforeValues = flatten(previous, "", {});
+    const afterValues = flatten(component, "", {});
+    delete beforeValues.id;
+    delete afterValues.id;
+    const properties = new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)]);
+
+    const changes = [...properties]
+      .filter((property) => !isSameValue(beforeValues[property], afterValues[property]))
+      .sort()
+      .map((property) => ({
+        property,
+        before: beforeValues[property],
+        after: afterValues[property],
+      }));
+
+    if (changes.length > 0) {
+      changed.push({
+        id: component.id,
+        type: component.type,
+        label: getComponentLabel(component),
+        changes,
+      });
+    }
+  });
+
+  return {
+    added: after.filter((c) => !beforeById.has(c.id)),
+    removed: before.filter((c) => !afterById.has(c.id)),
+    changed,
+  };
+};
+
+// Diffs two website_versions.content values; content without components
+// counts as an empty page
+export const diffVersionContent = (before: unknown, after: unknown): VersionDiff =>
+  diffComponents(parseEditorComponents(before) ?? [], parseEditorComponents(after) ?? []);
+
+export const isEmptyDiff = (diff: VersionDiff) =>
+  diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
@@ -15,6 +15,8 @@ interface Website {
   name: string;
   description: string;
   domain?: string;
+  // Address on ncbx.app
+  subdomain: string;
   status: "draft" | "published";
   lastModified: Date;
   thumbnail?: string;
@@ -26,14 +28,12 @@ interface AppState {
   isAuthenticated: boolean;
   currentView: "landing" | "auth" | "profile" | "dashboard" | "editor" | "templates" | "admin";
   currentWebsite: Website | null;
-  selectedComponent: string | null;
   editorMode: "desktop" | "tablet" | "mobile";
   isPreviewMode: boolean;
   
   setUser: (user: User | null) => void;
   setCurrentView: (view: AppState["currentView"]) => void;
   setCurrentWebsite: (website: Website | null) => void;
-  setSelectedComponent: (id: string | null) => void;
   setEditorMode: (mode: AppState["editorMode"]) => void;
   togglePreviewMode: () => void;
   logout: () => void;
@@ -46,7 +46,6 @@ export const useAppStore = create<AppState>()(
       isAuthenticated: false,
       currentView: "landing",
       currentWebsite: null,
-      selectedComponent: null,
       editorMode: "desktop",
       isPreviewMode: false,
 
@@ -67,10 +66,6 @@ export const useAppStore = create<AppState>()(
         set({ currentWebsite }, false, "setCurrentWebsite");
       },
 
-      setSelectedComponent: (selectedComponent) => {
-        set({ selectedComponent }, false, "setSelectedComponent");
-      },
-
       setEditorMode: (editorMode) => {
         set({ editorMode }, false, "setEditorMode");
       },
@@ -0,0 +1,802 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { z } from "zod";
+import {
+  canBeParent,
+  getAbsolutePosition,
+  getChildren,
+  getDescendantIds,
+  getDescendants,
+  isContainerType,
+} from "../lib/componentTree";
+import {
+  BREAKPOINTS,
+  OverrideField,
+  defaultBreakpointWidths,
+  resolveComponent,
+  resolveComponents,
+} from "../lib/breakpoints";
+
+// How a container places its children: free-form coordinates, or a flexbox
+// stack where child positions are ignored
+const ContainerLayoutSchema = z.object({
+  mode: z.enum(["absolute", "flex"]).default("absolute"),
+  direction: z.enum(["column", "row"]).default("column"),
+  gap: z.number().default(16),
+  align: z.enum(["start", "center", "end", "stretch"]).default("start"),
+  justify: z.enum(["start", "center", "end", "space-between"]).default("start"),
+  wrap: z.boolean().default(false),
+  padding: z.number().default(16),
+});
+
+export type ContainerLayout = z.infer<typeof ContainerLayoutSchema>;
+
+export const defaultContainerLayout: ContainerLayout = {
+  mode: "absolute",
+  direction: "column",
+  gap: 16,
+  align: "start",
+  justify: "start",
+  wrap: false,
+  padding: 16,
+};
+
+const StylesSchema = z.record(z.union([z.string(), z.number()]));
+const PositionSchema = z.object({ x: z.number(), y: z.number() });
+const SizeSchema = z.object({ width: z.number(), height: z.number() });
+
+export type Breakpoint = "desktop" | "tablet" | "mobile";
+
+// Values that differ from the desktop design at a smaller breakpoint
+const BreakpointOverrideSchema = z.object({
+  styles: StylesSchema.optional(),
+  position: PositionSchema.optional(),
+  size: SizeSchema.optional(),
+  hidden: z.boolean().optional(),
+});
+
+export type BreakpointOverride = z.infer<typeof BreakpointOverrideSchema>;
+
+// Canvas widths for the smaller breakpoints, set per website
+const BreakpointWidthsSchema = z.object({
+  tablet: z.number().int().positive(),
+  mobile: z.number().int().positive(),
+});
+
+export type BreakpointWidths = z.infer<typeof BreakpointWidthsSchema>;
+
+// Zod schema for components persisted in website_versions.content
+const EditorComponentSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  // Containing component; position is relative to it. Null for top-level
+  parentId: z.string().nullable().default(null),
+  content: z.string().default(""),
+  styles: StylesSchema.default({}),
+  // Type-specific settings such as gallery images or pricing tiers; see
+  // lib/componentProps for the shape per type
+  props: z.record(z.unknown()).default({}),
+  position: PositionSchema,
+  size: SizeSchema,
+  locked: z.boolean().default(false),
+  hidden: z.boolean().default(false),
+  layer: z.number().default(1),
+  // Only set on containers
+  layout: ContainerLayoutSchema.optional(),
+  responsive: z
+    .object({
+      tablet: BreakpointOverrideSchema.optional(),
+      mobile: BreakpointOverrideSchema.optional(),
+    })
+    .optional(),
+});
+
+export type EditorComponent = z.infer<typeof EditorComponentSchema>;
+
+export type ComponentUpdate = Partial<Omit<EditorComponent, "id" | "parentId">>;
+
+export type NewComponent = Omit<EditorComponent, "id" | "layer" | "parentId" | "props"> &
+  Partial<Pick<EditorComponent, "id" | "layer" | "parentId" | "props">>;
+
+export type LayerDropPosition = "above" | "below" | "inside";
+
+const MAX_HISTORY = 100;
+
+const createComponentId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const SMALLER_BREAKPOINTS = BREAKPOINTS.filter(
+  (name): name is Exclude<Breakpoint, "desktop"> => name !== "desktop"
+);
+
+// Edits made while a smaller breakpoint is active are stored as overrides for
+// it; everything else (content, layer, lock) is shared by all breakpoints
+const applyAtBreakpoint = (
+  component: EditorComponent,
+  updates: ComponentUpdate,
+  breakpoint: Breakpoint
+): EditorComponent => {
+  if (breakpoint === "desktop") return { ...component, ...updates };
+
+  const { styles, position, size, hidden, ...shared } = updates;
+  const current = component.responsive?.[breakpoint] ?? {};
+  const override: BreakpointOverride = {
+    ...current,
+    ...(styles && { styles: { ...current.styles, ...styles } }),
+    ...(position && { position }),
+    ...(size && { size }),
+    ...(hidden !== undefined && { hidden }),
+  };
+  return {
+    ...component,
+    ...shared,
+    responsive: { ...component.responsive, [breakpoint]: override },
+  };
+};
+
+const removeOverride = (
+  component: EditorComponent,
+  breakpoint: Exclude<Breakpoint, "desktop">,
+  field: OverrideField,
+  styleProperty?: string
+): EditorComponent => {
+  const current = component.responsive?.[breakpoint];
+  if (!current) return component;
+
+  const override = { ...current };
+  if (field === "styles" && styleProperty && override.styles) {
+    const styles = { ...override.styles };
+    delete styles[styleProperty];
+    override.styles = Object.keys(styles).length > 0 ? styles : undefined;
+  } else {
+    delete override[field];
+  }
+  return { ...component, responsive: { ...component.responsive, [breakpoint]: override } };
+};
+
+// Position of id relative to parentId, as laid out at a breakpoint
+const getRelativePosition = (
+  components: EditorComponent[],
+  id: string,
+  parentId: string | null,
+  breakpoint: Breakpoint
+) => {
+  const resolved = resolveComponents(components, breakpoint);
+  const absolute = getAbsolutePosition(resolved, id);
+  const origin = getAbsolutePosition(resolved, parentId);
+  return { x: absolute.x - origin.x, y: absolute.y - origin.y };
+};
+
+// Layers stack siblings within their parent
+const nextLayer = (components: EditorComponent[], parentId: string | null) =>
+  Math.max(...getChildren(components, parentId).map((c) => c.layer), 0) + 1;
+
+// Moves a component (and so its subtree) under parentId, keeping it in the
+// same spot on screen at every breakpoint, and restacks the new siblings with
+// it at insertIndex (0 is the top-most layer). An explicit position applies
+// to the given breakpoint. Returns null for moves that would create a cycle.
+const moveInTree = (
+  components: EditorComponent[],
+  id: string,
+  parentId: string | null,
+  getInsertIndex: (siblings: EditorComponent[]) => number,
+  breakpoint: Breakpoint = "desktop",
+  position?: EditorComponent["position"]
+): EditorComponent[] | null => {
+  const component = components.find((c) => c.id === id);
+  if (!component || !canBeParent(components, id, parentId)) return null;
+
+  let moved: EditorComponent = {
+    ...component,
+    parentId,
+    position: getRelativePosition(components, id, parentId, "desktop"),
+  };
+  SMALLER_BREAKPOINTS.forEach((name) => {
+    if (component.responsive?.[name]?.position) {
+      moved = applyAtBreakpoint(
+        moved,
+        { position: getRelativePosition(components, id, parentId, name) },
+        name
+      );
+    }
+  });
+  if (position) {
+    moved = applyAtBreakpoint(moved, { position }, breakpoint);
+  }
+
+  const siblings = getChildren(components, parentId)
+    .reverse()
+    .filter((c) => c.id !== id);
+  siblings.splice(getInsertIndex(siblings), 0, moved);
+  const layerById = new Map(siblings.map((c, index) => [c.id, siblings.length - index]));
+
+  return components.map((c) => {
+    const layer = layerById.get(c.id);
+    if (c.id === id) return { ...moved, layer: layer ?? moved.layer };
+    return layer === undefined ? c : { ...c, layer };
+  });
+};
+
+// Reads the component list out of saved version content. Returns null when the
+// content has no components yet (e.g. the empty initial version) and throws
+// when it has components that don't match the schema.
+export const parseEditorComponents = (content: unknown): EditorComponent[] | null => {
+  if (!content || typeof content !== "object" || !("components" in content)) {
+    return null;
+  }
+  return z.array(EditorComponentSchema).parse((content as { components: unknown }).components);
+};
+
+// Reads the custom 404 page saved next to the main page. Returns null when the
+// website uses the host's default 404 page.
+export const parseNotFoundComponents = (content: unknown): EditorComponent[] | null => {
+  if (!content || typeof content !== "object" || !("notFoundPage" in content)) {
+    return null;
+  }
+  return parseEditorComponents((content as { notFoundPage: unknown }).notFoundPage);
+};
+
+export interface EditorSettings {
+  breakpoints: BreakpointWidths;
+}
+
+const EditorSettingsSchema = z.object({
+  breakpoints: BreakpointWidthsSchema.default(defaultBreakpointWidths),
+});
+
+// Reads the site-wide settings saved next to the components. These are not
+// critical, so unreadable settings fall back to the defaults.
+export const parseEditorSettings = (content: unknown): EditorSettings => {
+  const settings =
+    content && typeof content === "object" && "settings" in content
+      ? (content as { settings: unknown }).settings
+      : undefined;
+  const parsed = EditorSettingsSchema.safeParse(settings ?? {});
+  return parsed.success ? parsed.data : { breakpoints: defaultBreakpointWidths };
+};
+
+// Starter content for sites that have no saved version yet
+export const defaultComponents: EditorComponent[] = [
+  {
+    id: "1",
+    type: "text",
+    content: "Welcome to Your Website",
+    styles: {
+      fontSize: "2.5rem",
+      fontWeight: "bold",
+      color: "#1f2937",
+      textAlign: "center",
+      lineHeight: "1.2",
+    },
+    position: { x: 50, y: 50 },
+    size: { width: 600, height: 80 },
+    parentId: null,
+    props: {},
+    locked: false,
+    hidden: false,
+    layer: 1,
+  },
+  {
+    id: "2",
+    type: "text",
+    content:
+      "This is a sample paragraph. You can edit this text by clicking on it and modifying the content in the properties panel. Drag and drop components to build your perfect website.",
+    styles: {
+      fontSize: "1.125rem",
+      color: "#6b7280",
+      lineHeight: "1.7",
+      textAlign: "left",
+    },
+    position: { x: 50, y: 150 },
+    size: { width: 500, height: 100 },
+    parentId: null,
+    props: {},
+    locked: false,
+    hidden: false,
+    layer: 2,
+  },
+  {
+    id: "3",
+    type: "button",
+    content: "Get Started",
+    styles: {
+      backgroundColor: "#3b82f6",
+      color: "white",
+      padding: "16px 32px",
+      borderRadius: "12px",
+      border: "none",
+      fontWeight: "600",
+      fontSize: "1.125rem",
+      cursor: "pointer",
+      transition: "all 0.2s ease",
+    },
+    position: { x: 50, y: 280 },
+    size: { width: 160, height: 56 },
+    parentId: null,
+    props: {},
+    locked: false,
+    hidden: false,
+    layer: 3,
+  },
+];
+
+// Starter content for a website's first custom 404 page
+export const defaultNotFoundComponents: EditorComponent[] = [
+  {
+    id: "1",
+    type: "text",
+    content: "Page not found",
+    styles: {
+      fontSize: "2.5rem",
+      fontWeight: "bold",
+      color: "#1f2937",
+      textAlign: "center",
+      lineHeight: "1.2",
+    },
+    position: { x: 50, y: 50 },
+    size: { width: 600, height: 80 },
+    parentId: null,
+    props: {},
+    locked: false,
+    hidden: false,
+    layer: 1,
+  },
+  {
+    id: "2",
+    type: "text",
+    content: "The page you are looking for does not exist or has moved.",
+    styles: {
+      fontSize: "1.125rem",
+      color: "#6b7280",
+      lineHeight: "1.7",
+      textAlign: "center",
+    },
+    position: { x: 50, y: 150 },
+    size: { width: 600, height: 60 },
+    parentId: null,
+    props: {},
+    locked: false,
+    hidden: false,
+    layer: 2,
+  },
+  {
+    id: "3",
+    type: "button",
+    content: "Back to Home",
+    styles: {
+      backgroundColor: "#3b82f6",
+      color: "white",
+      padding: "16px 32px",
+      borderRadius: "12px",
+      border: "none",
+      fontWeight: "600",
+      fontSize: "1.125rem",
+      cursor: "pointer",
+      transition: "all 0.2s ease",
+    },
+    position: { x: 270, y: 240 },
+    size: { width: 180, height: 56 },
+    parentId: null,
+    props: { href: "/" },
+    locked: false,
+    hidden: false,
+    layer: 3,
+  },
+];
+
+interface EditorState {
+  components: EditorComponent[];
+  selectedComponentId: string | null;
+  history: EditorComponent[][];
+  historyIndex: number;
+  // Breakpoint being edited; style and layout edits made at tablet or mobile
+  // are stored as overrides for it
+  breakpoint: Breakpoint;
+  breakpointWidths: BreakpointWidths;
+
+  // Replaces the document and starts a fresh history (e.g. when a site is opened)
+  loadComponents: (components: EditorComponent[], breakpointWidths?: BreakpointWidths) => void;
+  setBreakpoint: (breakpoint: Breakpoint) => void;
+  setBreakpointWidth: (breakpoint: Exclude<Breakpoint, "desktop">, width: number) => void;
+  // Drops the value set at the current breakpoint so it inherits again
+  resetOverride: (id: string, field: OverrideField, styleProperty?: string) => void;
+  setVisibility: (id: string, breakpoint: Breakpoint, visible: boolean) => void;
+  selectComponent: (id: string | null) => void;
+  // Children are added inside the new component in the same undo step
+  addComponent: (component: NewComponent, children?: NewComponent[]) => EditorComponent;
+  // Pass recordHistory=false for continuous edits (dragging, resizing) and
+  // call commitHistory() once the gesture ends
+  updateComponent: (id: string, updates: ComponentUpdate, recordHistory?: boolean) => void;
+  updateComponentStyles: (id: string, styles: EditorComponent["styles"]) => void;
+  // Props are shared by all breakpoints
+  updateComponentProps: (id: string, props: EditorComponent["props"]) => void;
+  // Removes the component together with everything nested in it
+  removeComponent: (id: string) => void;
+  duplicateComponent: (id: string) => EditorComponent | null;
+  pasteComponent: (component: EditorComponent, descendants?: EditorComponent[]) => EditorComponent;
+  toggleVisibility: (id: string) => void;
+  toggleLock: (id: string) => void;
+  moveLayer: (id: string, direction: "up" | "down" | "front" | "back") => void;
+  reorderComponent: (draggedId: string, targetId: string, position: LayerDropPosition) => void;
+  // Moves a component into another container (or to the page with null).
+  // position overrides the computed one, for components leaving a flex stack.
+  reparentComponent: (
+    id: string,
+    parentId: string | null,
+    position?: EditorComponent["position"]
+  ) => void;
+  // Wraps a component in a new container of the same bounds
+  groupComponent: (id: string) => EditorComponent | null;
+  // Moves a container's children up to its parent and removes the container.
+  // Does nothing for other components and for flex stacks.
+  ungroupComponent: (id: string) => void;
+  commitHistory: () => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+}
+
+export const useEditorStore = create<EditorState>()(
+  devtools(
+    (set, get) => {
+      // Applies a change to the document and records it as one undo step
+      const commit = (components: EditorComponent[], action: string) => {
+        const { history, historyIndex } = get();
+        const newHistory = [...history.slice(0, historyIndex + 1), components].slice(-MAX_HISTORY);
+        set(
+          { components, history: newHistory, historyIndex: newHistory.length - 1 },
+          false,
+          action
+        );
+      };
+
+      return {
+        components: defaultComponents,
+        selectedComponentId: null,
+        history: [defaultComponents],
+        historyIndex: 0,
+        breakpoint: "desktop",
+        breakpointWidths: defaultBreakpointWidths,
+
+        loadComponents: (components, breakpointWidths = defaultBreakpointWidths) => {
+          set(
+            {
+              components,
+              breakpointWidths,
+              history: [components],
+              historyIndex: 0,
+              selectedComponentId: null,
+            },
+            false,
+            "loadComponents"
+          );
+        },
+
+        setBreakpoint: (breakpoint) => {
+          set({ breakpoint }, false, "setBreakpoint");
+        },
+
+        setBreakpointWidth: (breakpoint, width) => {
+          if (!Number.isInteger(width) || width <= 0) return;
+          set(
+            { breakpointWidths: { ...get().breakpointWidths, [breakpoint]: width } },
+            false,
+            "setBreakpointWidth"
+          );
+        },
+
+        resetOverride: (id, field, styleProperty) => {
+          const { breakpoint } = get();
+          if (breakpoint === "desktop") return;
+          const components = get().components.map((c) =>
+            c.id === id ? removeOverride(c, breakpoint, field, styleProperty) : c
+          );
+          commit(components, "resetOverride");
+        },
+
+        setVisibility: (id, breakpoint, visible) => {
+          const components = get().components.map((c) =>
+            c.id === id ? applyAtBreakpoint(c, { hidden: !visible }, breakpoint) : c
+          );
+          commit(components, "setVisibility");
+        },
+
+        selectComponent: (selectedComponentId) => {
+          if (selectedComponentId !== get().selectedComponentId) {
+            set({ selectedComponentId }, false, "selectComponent");
+          }
+        },
+
+        addComponent: (component, children = []) => {
+          const { components } = get();
+          const parentId = component.parentId ?? null;
+          const newComponent: EditorComponent = {
+            ...component,
+            id: component.id ?? createComponentId(),
+            parentId,
+            props: component.props ?? {},
+            layer: component.layer ?? nextLayer(components, parentId),
+          };
+          const newChildren: EditorComponent[] = children.map((child, index) => ({
+            ...child,
+            id: child.id ?? createComponentId(),
+            props: child.props ?? {},
+            parentId: newComponent.id,
+            layer: child.layer ?? index + 1,
+          }));
+          commit([...components, newComponent, ...newChildren], "addComponent");
+          set({ selectedComponentId: newComponent.id }, false, "addComponent");
+          return newComponent;
+        },
+
+        updateComponent: (id, updates, recordHistory = true) => {
+          const { breakpoint } = get();
+          const components = get().components.map((c) =>
+            c.id === id ? applyAtBreakpoint(c, updates, breakpoint) : c
+          );
+          if (recordHistory) {
+            commit(components, "updateComponent");
+          } else {
+            set({ components }, false, "updateComponent");
+          }
+        },
+
+        updateComponentStyles: (id, styles) => {
+          const { breakpoint } = get();
+          const components = get().components.map((c) =>
+            c.id === id
+              ? breakpoint === "desktop"
+                ? { ...c, styles: { ...c.styles, ...styles } }
+                : applyAtBreakpoint(c, { styles }, breakpoint)
+              : c
+          );
+          commit(components, "updateComponentStyles");
+        },
+
+        updateComponentProps: (id, props) => {
+          const components = get().components.map((c) =>
+            c.id === id ? { ...c, props: { ...c.props, ...props } } : c
+          );
+          commit(components, "updateComponentProps");
+        },
+
+        removeComponent: (id) => {
+          const { components, selectedComponentId } = get();
+          const removed = getDescendantIds(components, id).add(id);
+          commit(
+            components.filter((c) => !removed.has(c.id)),
+            "removeComponent"
+          );
+          if (selectedComponentId && removed.has(selectedComponentId)) {
+            set({ selectedComponentId: null }, false, "removeComponent");
+          }
+        },
+
+        duplicateComponent: (id) => {
+          const { components } = get();
+          const component = components.find((c) => c.id === id);
+          if (!component) return null;
+          return get().pasteComponent(component, getDescendants(components, id));
+        },
+
+        pasteComponent: (component, descendants = []) => {
+          const { components } = get();
+          const idMap = new Map(
+            [component, ...descendants].map((c) => [c.id, createComponentId()])
+          );
+          // Paste next to the original when its container is still around
+          const parentId =
+            component.parentId && components.some((c) => c.id === component.parentId)
+              ? component.parentId
+              : null;
+          const newComponent: EditorComponent = {
+            ...component,
+            id: idMap.get(component.id)!,
+            parentId,
+            position: {
+              x: component.position.x + 20,
+              y: component.position.y + 20,
+            },
+            layer: nextLayer(components, parentId),
+          };
+          const copies = descendants.map((c) => ({
+            ...c,
+            id: idMap.get(c.id)!,
+            parentId: (c.parentId && idMap.get(c.parentId)) || newComponent.id,
+          }));
+          commit([...components, newComponent, ...copies], "pasteComponent");
+          set({ selectedComponentId: newComponent.id }, false, "pasteComponent");
+          return newComponent;
+        },
+
+        toggleVisibility: (id) => {
+          const { breakpoint } = get();
+          const components = get().components.map((c) =>
+            c.id === id
+              ? applyAtBreakpoint(c, { hidden: !resolveComponent(c, breakpoint).hidden }, breakpoint)
+              : c
+          );
+          commit(components, "toggleVisibility");
+        },
+
+        toggleLock: (id) => {
+          const components = get().components.map((c) =>
+            c.id === id ? { ...c, locked: !c.locked } : c
+          );
+          commit(components, "toggleLock");
+        },
+
+        moveLayer: (id, direction) => {
+          const { components } = get();
+          const target = components.find((c) => c.id === id);
+          if (!target) return;
+          const layers = getChildren(components, target.parentId).map((c) => c.layer);
+          const updated = components.map((c) => {
+            if (c.id !== id) return c;
+            switch (direction) {
+              case "up":
+                return { ...c, layer: c.layer + 1 };
+              case "down":
+                return { ...c, layer: Math.max(1, c.layer - 1) };
+              case "front":
+                return { ...c, layer: Math.max(...layers) + 1 };
+              case "back":
+                return { ...c, layer: Math.max(1, Math.min(...layers) - 1) };
+            }
+          });
+          commit(updated, "moveLayer");
+        },
+
+        reorderComponent: (draggedId, targetId, position) => {
+          if (draggedId === targetId) return;
+          const { components, breakpoint } = get();
+          const target = components.find((c) => c.id === targetId);
+          if (!target) return;
+
+          // Layers are listed top-most first, so "above" means a higher layer
+          const updated =
+            position === "inside"
+              ? moveInTree(components, draggedId, targetId, () => 0, breakpoint)
+              : moveInTree(
+                  components,
+                  draggedId,
+                  target.parentId,
+                  (siblings) => {
+                    const targetIndex = siblings.findIndex((c) => c.id === targetId);
+                    return position === "above" ? targetIndex : targetIndex + 1;
+                  },
+                  breakpoint
+                );
+          if (updated) commit(updated, "reorderComponent");
+        },
+
+        reparentComponent: (id, parentId, position) => {
+          const { components, breakpoint } = get();
+          const component = components.find((c) => c.id === id);
+          if (!component || (component.parentId === parentId && !position)) return;
+          const updated = moveInTree(components, id, parentId, () => 0, breakpoint, position);
+          if (updated) commit(updated, "reparentComponent");
+        },
+
+        groupComponent: (id) => {
+          const { components } = get();
+          const component = components.find((c) => c.id === id);
+          if (!component) return null;
+
+          const group: EditorComponent = {
+            id: createComponentId(),
+            type: "container",
+            content: "",
+            styles: {},
+            props: {},
+            parentId: component.parentId,
+            position: component.position,
+            size: component.size,
+            locked: false,
+            hidden: false,
+            layer: component.layer,
+          };
+          // The group takes over the component's bounds at every breakpoint
+          let child: EditorComponent = {
+            ...component,
+            parentId: group.id,
+            position: { x: 0, y: 0 },
+            layer: 1,
+          };
+          SMALLER_BREAKPOINTS.forEach((name) => {
+            const override = component.responsive?.[name];
+            if (!override?.position && !override?.size) return;
+            group.responsive = {
+              ...group.responsive,
+              [name]: { position: override.position, size: override.size },
+            };
+            child = removeOverride(child, name, "position");
+          });
+          commit(
+            [...components.map((c) => (c.id === id ? child : c)), group],
+            "groupComponent"
+          );
+          set({ selectedComponentId: group.id }, false, "groupComponent");
+          return group;
+        },
+
+        ungroupComponent: (id) => {
+          const { components, selectedComponentId } = get();
+          const group = components.find((c) => c.id === id);
+          // Only containers can be ungrouped. A flex stack ignores its
+          // children's saved positions, so they have nothing to keep.
+          if (!group || !isContainerType(group.type) || group.layout?.mode === "flex") return;
+
+          const children = getChildren(components, id);
+          const baseLayer = nextLayer(components, group.parentId);
+          const childIds = new Set(children.map((c) => c.id));
+          const updated = components
+            .filter((c) => c.id !== id)
+            .map((c) => {
+              if (!childIds.has(c.id)) return c;
+              let child: EditorComponent = {
+                ...c,
+                parentId: group.parentId,
+                position: {
+                  x: group.position.x + c.position.x,
+                  y: group.position.y + c.position.y,
+                },
+                layer: baseLayer + c.layer,
+              };
+              SMALLER_BREAKPOINTS.forEach((name) => {
+                if (!group.responsive?.[name]?.position && !c.responsive?.[name]?.position) return;
+                const groupPosition = resolveComponent(group, name).position;
+                const childPosition = resolveComponent(c, name).position;
+                child = applyAtBreakpoint(
+                  child,
+                  {
+                    position: {
+                      x: groupPosition.x + childPosition.x,
+                      y: groupPosition.y + childPosition.y,
+                    },
+                  },
+                  name
+                );
+              });
+              return child;
+            });
+          commit(updated, "ungroupComponent");
+          if (selectedComponentId === id) {
+            set({ selectedComponentId: null }, false, "ungroupComponent");
+          }
+        },
+
+        commitHistory: () => {
+          const { components, history, historyIndex } = get();
+          if (history[historyIndex] === components) return;
+          commit(components, "commitHistory");
+        },
+
+        undo: () => {
+          const { history, historyIndex } = get();
+          if (historyIndex === 0) return;
+          set(
+            { components: history[historyIndex - 1], historyIndex: historyIndex - 1 },
+            false,
+            "undo"
+          );
+        },
+
+        redo: () => {
+          const { history, historyIndex } = get();
+          if (historyIndex >= history.length - 1) return;
+          set(
+            { components: history[historyIndex + 1], historyIndex: historyIndex + 1 },
+            false,
+            "redo"
+          );
+        },
+
+        canUndo: () => get().historyIndex > 0,
+        canRedo: () => get().historyIndex < get().history.length - 1,
+      };
+    },
+    { name: "editor-store" }
+  )
+);
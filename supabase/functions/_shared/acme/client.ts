@@ -0,0 +1,221 @@
+import { base64url, createCsr, exportPrivateKeyPem, generateKeyPair, jwkThumbprint, publicJwk, readCertificate, sign } from './keys.ts'
+
+// An RFC 8555 client for one ACME directory, e.g. Let's Encrypt or a local
+// Pebble server. It validates domains with HTTP-01 challenges only.
+
+export interface ChallengeResponder {
+  // Must make keyAuthorization available at
+  // http://<domain>/.well-known/acme-challenge/<token> before resolving
+  present(domain: string, token: string, keyAuthorization: string): Promise<void>
+  remove(token: string): Promise<void>
+}
+
+export interface IssuedCertificate {
+  // Leaf first, followed by the intermediates
+  certificatePem: string
+  privateKeyPem: string
+  issuer: string
+  notBefore: Date
+  notAfter: Date
+}
+
+// What certificate provisioning needs from a certificate authority
+export interface CertificateIssuer {
+  issue(domain: string, responder: ChallengeResponder): Promise<IssuedCertificate>
+}
+
+export interface AcmeClientOptions {
+  directoryUrl: string
+  accountKey: CryptoKeyPair
+  contactEmail?: string
+  // Between status polls while the CA validates or issues
+  pollIntervalMs?: number
+  pollAttempts?: number
+}
+
+interface Directory {
+  newNonce: string
+  newAccount: string
+  newOrder: string
+}
+
+interface AcmeProblem {
+  type: string
+  detail?: string
+}
+
+interface Order {
+  status: 'pending' | 'ready' | 'processing' | 'valid' | 'invalid'
+  authorizations: string[]
+  finalize: string
+  certificate?: string
+  error?: AcmeProblem
+}
+
+interface Authorization {
+  status: 'pending' | 'valid' | 'invalid' | 'deactivated' | 'expired' | 'revoked'
+  identifier: { value: string }
+  challenges: { type: string; url: string; token: string; status: string; error?: AcmeProblem }[]
+}
+
+export class AcmeError extends Error {
+  constructor(message: string, public type?: string) {
+    super(message)
+    this.name = 'AcmeError'
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export class AcmeClient implements CertificateIssuer {
+  private directory: Directory | null = null
+  private nonce: string | null = null
+  private accountUrl: string | null = null
+
+  constructor(private options: AcmeClientOptions) {}
+
+  async issue(domain: string, responder: ChallengeResponder): Promise<IssuedCertificate> {
+    await this.ensureAccount()
+
+    const { body: order, location: orderUrl } = await this.post<Order>((await this.getDirectory()).newOrder, {
+      identifiers: [{ type: 'dns', value: domain }],
+    })
+
+    for (const authorizationUrl of order.authorizations) {
+      await this.authorize(authorizationUrl, responder)
+    }
+
+    const certificateKeys = await generateKeyPair()
+    const csr = await createCsr(certificateKeys, domain)
+    await this.post<Order>(order.finalize, { csr: base64url(csr) })
+
+    const issued = await this.poll<Order>(orderUrl!, (current) => current.status === 'valid' || current.status === 'invalid')
+    if (issued.status !== 'valid' || !issued.certificate) {
+      throw new AcmeError(`Order for ${domain} failed: ${issued.error?.detail ?? issued.status}`, issued.error?.type)
+    }
+
+    const certificatePem = await this.postAsGet(issued.certificate, 'application/pem-certificate-chain')
+    return {
+      certificatePem,
+      privateKeyPem: await exportPrivateKeyPem(certificateKeys.privateKey),
+      ...readCertificate(certificatePem),
+    }
+  }
+
+  private async authorize(url: string, responder: ChallengeResponder) {
+    const { body: authorization } = await this.post<Authorization>(url, null)
+    if (authorization.status === 'valid') return
+
+    const challenge = authorization.challenges.find((candidate) => candidate.type === 'http-01')
+    if (!challenge) {
+      throw new AcmeError(`The CA offered no HTTP-01 challenge for ${authorization.identifier.value}`)
+    }
+
+    const domain = authorization.identifier.value
+    const keyAuthorization = `${challenge.token}.${await jwkThumbprint(this.options.accountKey.publicKey)}`
+    await responder.present(domain, challenge.token, keyAuthorization)
+
+    try {
+      // An empty object tells the CA the response is in place
+      await this.post(challenge.url, {})
+      const result = await this.poll<Authorization>(url, (current) => current.status !== 'pending')
+      if (result.status !== 'valid') {
+        const failed = result.challenges.find((candidate) => candidate.type === 'http-01')
+        throw new AcmeError(
+          `Could not validate ${domain}: ${failed?.error?.detail ?? result.status}`,
+          failed?.error?.type
+        )
+      }
+    } finally {
+      await responder.remove(challenge.token)
+    }
+  }
+
+  private async ensureAccount() {
+    if (this.accountUrl) return
+
+    // Registering an existing key returns the existing account
+    const { location } = await this.post((await this.getDirectory()).newAccount, {
+      termsOfServiceAgreed: true,
+      ...(this.options.contactEmail ? { contact: [`mailto:${this.options.contactEmail}`] } : {}),
+    })
+    if (!location) throw new AcmeError('The CA did not return an account URL')
+    this.accountUrl = location
+  }
+
+  private async getDirectory() {
+    if (!this.directory) {
+      const response = await fetch(this.options.directoryUrl)
+      if (!response.ok) {
+        throw new AcmeError(`Could not load ACME directory ${this.options.directoryUrl}: HTTP ${response.status}`)
+      }
+      this.directory = (await response.json()) as Directory
+    }
+    return this.directory
+  }
+
+  private async getNonce() {
+    if (this.nonce) {
+      const nonce = this.nonce
+      this.nonce = null
+      return nonce
+    }
+    const response = await fetch((await this.getDirectory()).newNonce, { method: 'HEAD' })
+    const nonce = response.headers.get('Replay-Nonce')
+    if (!nonce) throw new AcmeError('The CA did not return a nonce')
+    return nonce
+  }
+
+  // Signed POST. A null payload is a POST-as-GET, which ACME uses for reads.
+  private async request(url: string, payload: unknown, accept = 'application/json', retryBadNonce = true): Promise<Response> {
+    const header = {
+      alg: 'ES256',
+      nonce: await this.getNonce(),
+      url,
+      ...(this.accountUrl ? { kid: this.accountUrl } : { jwk: await publicJwk(this.options.accountKey.publicKey) }),
+    }
+    const encodedHeader = base64url(JSON.stringify(header))
+    const encodedPayload = payload === null ? '' : base64url(JSON.stringify(payload))
+    const signature = await sign(
+      this.options.accountKey.privateKey,
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    )
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/jose+json', Accept: accept },
+      body: JSON.stringify({ protected: encodedHeader, payload: encodedPayload, signature: base64url(signature) }),
+    })
+    this.nonce = response.headers.get('Replay-Nonce')
+
+    if (!response.ok) {
+      const problem = (await response.json().catch(() => ({}))) as Partial<AcmeProblem>
+      // Nonces can expire between requests; the CA expects one retry
+      if (problem.type === 'urn:ietf:params:acme:error:badNonce' && retryBadNonce) {
+        return this.request(url, payload, accept, false)
+      }
+      throw new AcmeError(problem.detail ?? `ACME request to ${url} failed with HTTP ${response.status}`, problem.type)
+    }
+    return response
+  }
+
+  private async post<T>(url: string, payload: unknown) {
+    const response = await this.request(url, payload)
+    const text = await response.text()
+    return { body: (text ? JSON.parse(text) : {}) as T, location: response.headers.get('Location') }
+  }
+
+  private async postAsGet(url: string, accept: string) {
+    return (await this.request(url, null, accept)).text()
+  }
+
+  private async poll<T>(url: string, done: (current: T) => boolean) {
+    const attempts = this.options.pollAttempts ?? 30
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const { body } = await this.post<T>(url, null)
+      if (done(body)) return body
+      await sleep(this.options.pollIntervalMs ?? 2000)
+    }
+    throw new AcmeError(`Timed out waiting for ${url}`)
+  }
+}
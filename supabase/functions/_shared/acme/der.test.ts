@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import {
+  bitString,
+  children,
+  decode,
+  decodeObjectIdentifier,
+  decodeTime,
+  integer,
+  objectIdentifier,
+  octetString,
+  sequence,
+  tagged,
+  utf8String,
+} from './der.ts'
+
+const text = new TextEncoder()
+
+describe('encoding', () => {
+  it('writes tag, length and content', () => {
+    expect(utf8String('hi')).toEqual(Uint8Array.of(0x0c, 2, 0x68, 0x69))
+    expect(octetString(Uint8Array.of(1, 2))).toEqual(Uint8Array.of(0x04, 2, 1, 2))
+    expect(bitString(Uint8Array.of(0xff))).toEqual(Uint8Array.of(0x03, 2, 0, 0xff))
+  })
+
+  it('uses the long form for lengths of 128 bytes and more', () => {
+    expect(octetString(new Uint8Array(0x80)).subarray(0, 3)).toEqual(Uint8Array.of(0x04, 0x81, 0x80))
+    expect(octetString(new Uint8Array(0x1234)).subarray(0, 4)).toEqual(Uint8Array.of(0x04, 0x82, 0x12, 0x34))
+  })
+
+  it('writes integers in their shortest unsigned form', () => {
+    expect(integer(Uint8Array.of(0))).toEqual(Uint8Array.of(0x02, 1, 0))
+    expect(integer(Uint8Array.of(0, 0, 0x7f))).toEqual(Uint8Array.of(0x02, 1, 0x7f))
+    expect(integer(Uint8Array.of(0x80))).toEqual(Uint8Array.of(0x02, 2, 0, 0x80))
+  })
+
+  it('writes object identifiers in base 128', () => {
+    expect(objectIdentifier('2.5.4.3')).toEqual(Uint8Array.of(0x06, 3, 0x55, 4, 3))
+    expect(objectIdentifier('1.2.840.10045.4.3.2')).toEqual(
+      Uint8Array.of(0x06, 8, 0x2a, 0x86, 0x48, 0xce, 0x3d, 4, 3, 2)
+    )
+  })
+
+  it('tags context-specific values as constructed or primitive', () => {
+    expect(tagged(0, integer(Uint8Array.of(2)))[0]).toBe(0xa0)
+    expect(tagged(2, text.encode('example.com'), false)[0]).toBe(0x82)
+  })
+})
+
+describe('decoding', () => {
+  it('reads back what was encoded', () => {
+    const encoded = sequence(
+      objectIdentifier('1.2.840.113549.1.9.14'),
+      utf8String('example.com'),
+      octetString(new Uint8Array(300).fill(7)),
+      tagged(2, text.encode('www.example.com'), false)
+    )
+
+    const { tag, content, end } = decode(encoded)
+    const [oid, name, octets, dnsName] = children(content)
+
+    expect(tag).toBe(0x30)
+    expect(end).toBe(encoded.length)
+    expect(decodeObjectIdentifier(oid.content)).toBe('1.2.840.113549.1.9.14')
+    expect(new TextDecoder().decode(name.content)).toBe('example.com')
+    expect(octets).toEqual({ tag: 0x04, content: new Uint8Array(300).fill(7) })
+    expect(dnsName.tag).toBe(0x82)
+    expect(new TextDecoder().decode(dnsName.content)).toBe('www.example.com')
+  })
+
+  it('reads UTCTime and GeneralizedTime', () => {
+    expect(decodeTime({ tag: 0x17, content: text.encode('250701120000Z') })).toEqual(new Date('2025-07-01T12:00:00Z'))
+    expect(decodeTime({ tag: 0x17, content: text.encode('991231235959Z') })).toEqual(new Date('1999-12-31T23:59:59Z'))
+    expect(decodeTime({ tag: 0x18, content: text.encode('20510101000000Z') })).toEqual(new Date('2051-01-01T00:00:00Z'))
+  })
+})
@@ -0,0 +1,109 @@
+// Just enough DER (the binary ASN.1 encoding) to build a certificate
+// signing request and read an issued certificate's issuer and validity.
+
+export const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+const encodeLength = (length: number) => {
+  if (length < 0x80) return Uint8Array.of(length)
+  const bytes: number[] = []
+  for (let rest = length; rest > 0; rest >>= 8) bytes.unshift(rest & 0xff)
+  return Uint8Array.of(0x80 | bytes.length, ...bytes)
+}
+
+const element = (tag: number, ...content: Uint8Array[]) => {
+  const body = concat(...content)
+  return concat(Uint8Array.of(tag), encodeLength(body.length), body)
+}
+
+const text = new TextEncoder()
+
+export const sequence = (...items: Uint8Array[]) => element(0x30, ...items)
+export const set = (...items: Uint8Array[]) => element(0x31, ...items)
+export const utf8String = (value: string) => element(0x0c, text.encode(value))
+export const octetString = (value: Uint8Array) => element(0x04, value)
+// Prefixed with the count of unused bits, always 0 here
+export const bitString = (value: Uint8Array) => element(0x03, Uint8Array.of(0), value)
+// [n] context-specific tag; constructed unless it wraps a primitive value
+export const tagged = (tag: number, value: Uint8Array, constructed = true) =>
+  element((constructed ? 0xa0 : 0x80) | tag, value)
+
+// Unsigned big-endian integer, as ECDSA signature parts are
+export const integer = (value: Uint8Array) => {
+  let start = 0
+  while (start < value.length - 1 && value[start] === 0) start++
+  const trimmed = value.slice(start)
+  return element(0x02, trimmed[0] & 0x80 ? concat(Uint8Array.of(0), trimmed) : trimmed)
+}
+
+export const objectIdentifier = (dotted: string) => {
+  const [first, second, ...rest] = dotted.split('.').map(Number)
+  const bytes = [first * 40 + second]
+  for (const arc of rest) {
+    const groups = [arc & 0x7f]
+    for (let value = arc >> 7; value > 0; value >>= 7) groups.unshift((value & 0x7f) | 0x80)
+    bytes.push(...groups)
+  }
+  return element(0x06, Uint8Array.from(bytes))
+}
+
+export interface DerElement {
+  tag: number
+  // The element's content, without tag and length
+  content: Uint8Array
+}
+
+const readElement = (bytes: Uint8Array, offset: number): DerElement & { end: number } => {
+  const tag = bytes[offset]
+  let length = bytes[offset + 1]
+  let start = offset + 2
+  if (length & 0x80) {
+    const count = length & 0x7f
+    length = 0
+    for (let i = 0; i < count; i++) length = (length << 8) | bytes[start + i]
+    start += count
+  }
+  return { tag, content: bytes.subarray(start, start + length), end: start + length }
+}
+
+// The elements inside a constructed element, e.g. a SEQUENCE
+export const children = (content: Uint8Array) => {
+  const items: DerElement[] = []
+  for (let offset = 0; offset < content.length; ) {
+    const item = readElement(content, offset)
+    items.push({ tag: item.tag, content: item.content })
+    offset = item.end
+  }
+  return items
+}
+
+export const decode = (bytes: Uint8Array) => readElement(bytes, 0)
+
+export const decodeObjectIdentifier = (content: Uint8Array) => {
+  const arcs = [Math.floor(content[0] / 40), content[0] % 40]
+  let value = 0
+  for (const byte of content.subarray(1)) {
+    value = (value << 7) | (byte & 0x7f)
+    if (!(byte & 0x80)) {
+      arcs.push(value)
+      value = 0
+    }
+  }
+  return arcs.join('.')
+}
+
+// UTCTime (YYMMDDHHMMSSZ) or GeneralizedTime (YYYYMMDDHHMMSSZ)
+export const decodeTime = ({ tag, content }: DerElement) => {
+  const value = new TextDecoder().decode(content)
+  const full = tag === 0x17 ? `${Number(value.slice(0, 2)) < 50 ? '20' : '19'}${value}` : value
+  return new Date(
+    `${full.slice(0, 4)}-${full.slice(4, 6)}-${full.slice(6, 8)}T${full.slice(8, 10)}:${full.slice(10, 12)}:${full.slice(12, 14)}Z`
+  )
+}
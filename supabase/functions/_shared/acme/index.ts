@@ -0,0 +1,9 @@
+// ACME certificate issuance. AcmeClient works with any ACME directory:
+// Let's Encrypt in production, Pebble (https://github.com/letsencrypt/pebble)
+// for local testing.
+
+export { AcmeClient, AcmeError } from './client.ts'
+export type { AcmeClientOptions, CertificateIssuer, ChallengeResponder, IssuedCertificate } from './client.ts'
+export { exportPrivateJwk, generateKeyPair, importKeyPair } from './keys.ts'
+
+export const LETS_ENCRYPT_DIRECTORY = 'https://acme-v02.api.letsencrypt.org/directory'
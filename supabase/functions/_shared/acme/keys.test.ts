@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import { children, concat, decode, decodeObjectIdentifier, integer, objectIdentifier, sequence, set, tagged, utf8String } from './der.ts'
+import { createCsr, exportPrivateJwk, generateKeyPair, importKeyPair, readCertificate, sign } from './keys.ts'
+
+const SIGNATURE = { name: 'ECDSA', hash: 'SHA-256' }
+
+const text = new TextEncoder()
+const readText = (bytes: Uint8Array) => new TextDecoder().decode(bytes)
+
+// An ECDSA signature as DER SEQUENCE { r, s } back to raw r || s
+const rawSignature = (der: Uint8Array) =>
+  concat(
+    ...children(decode(der).content).map(({ content }) => {
+      const part = new Uint8Array(32)
+      part.set(content.subarray(-32), 32 - Math.min(content.length, 32))
+      return part
+    })
+  )
+
+const name = (...attributes: [string, string][]) =>
+  sequence(...attributes.map(([oid, value]) => set(sequence(objectIdentifier(oid), utf8String(value)))))
+
+const time = (tag: number, value: string) => concat(Uint8Array.of(tag, value.length), text.encode(value))
+
+const toPem = (der: Uint8Array) => `-----BEGIN CERTIFICATE-----\n${btoa(String.fromCharCode(...der))}\n-----END CERTIFICATE-----\n`
+
+// A certificate with the fields readCertificate looks at; the signature is
+// not checked, so it is left empty
+const certificate = (issuer: Uint8Array, withVersion = true) => {
+  const tbsCertificate = sequence(
+    ...(withVersion ? [tagged(0, integer(Uint8Array.of(2)))] : []),
+    integer(Uint8Array.of(0x12, 0x34)),
+    sequence(objectIdentifier('1.2.840.10045.4.3.2')),
+    issuer,
+    sequence(time(0x17, '250701000000Z'), time(0x18, '20250929235959Z')),
+    name(['2.5.4.3', 'example.com'])
+  )
+  return toPem(sequence(tbsCertificate, sequence(objectIdentifier('1.2.840.10045.4.3.2')), Uint8Array.of(0x03, 1, 0)))
+}
+
+describe('createCsr', () => {
+  it('requests the domain as common name and subject alternative name', async () => {
+    const keys = await generateKeyPair()
+
+    const [requestInfo] = children(decode(await createCsr(keys, 'www.example.com')).content)
+    const [version, subject, , attributes] = children(requestInfo.content)
+    const [, commonName] = children(children(children(subject.content)[0].content)[0].content)
+    const [attributeType, values] = children(children(attributes.content)[0].content)
+    const [extension] = children(children(values.content)[0].content)
+    const [extensionId, extensionValue] = children(extension.content)
+    const [dnsName] = children(decode(extensionValue.content).content)
+
+    expect(version.content).toEqual(Uint8Array.of(0))
+    expect(readText(commonName.content)).toBe('www.example.com')
+    expect(attributes.tag).toBe(0xa0)
+    expect(decodeObjectIdentifier(attributeType.content)).toBe('1.2.840.113549.1.9.14')
+    expect(decodeObjectIdentifier(extensionId.content)).toBe('2.5.29.17')
+    expect(dnsName.tag).toBe(0x82)
+    expect(readText(dnsName.content)).toBe('www.example.com')
+  })
+
+  it('signs the request with the certificate key', async () => {
+    const keys = await generateKeyPair()
+
+    const [requestInfo, algorithm, signature] = children(decode(await createCsr(keys, 'example.com')).content)
+    const [algorithmId] = children(algorithm.content)
+
+    expect(decodeObjectIdentifier(algorithmId.content)).toBe('1.2.840.10045.4.3.2')
+    expect(signature.content[0]).toBe(0)
+    expect(
+      await crypto.subtle.verify(
+        SIGNATURE,
+        keys.publicKey,
+        rawSignature(signature.content.subarray(1)),
+        sequence(requestInfo.content)
+      )
+    ).toBe(true)
+  })
+})
+
+describe('importKeyPair', () => {
+  it('rebuilds a key pair from its stored private key', async () => {
+    const original = await generateKeyPair()
+    const restored = await importKeyPair(await exportPrivateJwk(original.privateKey))
+    const data = text.encode('payload')
+
+    const signature = await sign(restored.privateKey, data)
+
+    expect(signature).toHaveLength(64)
+    expect(await crypto.subtle.verify(SIGNATURE, original.publicKey, signature, data)).toBe(true)
+  })
+})
+
+describe('readCertificate', () => {
+  it('reads the issuing organisation and validity', () => {
+    const pem = certificate(name(['2.5.4.6', 'US'], ['2.5.4.10', "Let's Encrypt"], ['2.5.4.3', 'R11']))
+
+    expect(readCertificate(pem)).toEqual({
+      issuer: "Let's Encrypt",
+      notBefore: new Date('2025-07-01T00:00:00Z'),
+      notAfter: new Date('2025-09-29T23:59:59Z'),
+    })
+  })
+
+  it('falls back to the common name and reads only the leaf of a chain', () => {
+    const leaf = certificate(name(['2.5.4.3', 'Pebble Intermediate CA']), false)
+    const intermediate = certificate(name(['2.5.4.10', 'Pebble Root']))
+
+    expect(readCertificate(leaf + intermediate).issuer).toBe('Pebble Intermediate CA')
+  })
+
+  it('rejects text without a certificate', () => {
+    expect(() => readCertificate('not a certificate')).toThrow('No certificate in PEM')
+  })
+})
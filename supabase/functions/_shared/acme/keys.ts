@@ -0,0 +1,131 @@
+import {
+  bitString,
+  children,
+  decode,
+  decodeObjectIdentifier,
+  decodeTime,
+  integer,
+  objectIdentifier,
+  octetString,
+  sequence,
+  set,
+  tagged,
+  utf8String,
+} from './der.ts'
+
+// Keys, signatures and certificate encoding for the ACME client. Every key
+// is ECDSA P-256, which both ACME (ES256) and TLS clients support.
+
+const ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' }
+const SIGNATURE = { name: 'ECDSA', hash: 'SHA-256' }
+
+const OID = {
+  commonName: '2.5.4.3',
+  organizationName: '2.5.4.10',
+  extensionRequest: '1.2.840.113549.1.9.14',
+  subjectAltName: '2.5.29.17',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+}
+
+export const base64url = (bytes: Uint8Array | string) => {
+  const data = typeof bytes === 'string' ? new TextEncoder().encode(bytes) : bytes
+  return btoa(String.fromCharCode(...data)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const toPem = (label: string, der: Uint8Array) => {
+  const lines = btoa(String.fromCharCode(...der)).match(/.{1,64}/g) ?? []
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`
+}
+
+const fromPem = (pem: string) => {
+  const body = pem.replace(/-----(BEGIN|END) [^-]+-----/g, '').replace(/\s+/g, '')
+  return Uint8Array.from(atob(body), (char) => char.charCodeAt(0))
+}
+
+export const generateKeyPair = () =>
+  crypto.subtle.generateKey(ALGORITHM, true, ['sign', 'verify']) as Promise<CryptoKeyPair>
+
+export const exportPrivateJwk = (key: CryptoKey) => crypto.subtle.exportKey('jwk', key)
+
+// Rebuilds both halves from a stored private JWK
+export const importKeyPair = async (jwk: JsonWebKey): Promise<CryptoKeyPair> => {
+  const { crv, kty, x, y } = jwk
+  return {
+    privateKey: await crypto.subtle.importKey('jwk', jwk, ALGORITHM, true, ['sign']),
+    publicKey: await crypto.subtle.importKey('jwk', { crv, kty, x, y }, ALGORITHM, true, ['verify']),
+  }
+}
+
+export const exportPrivateKeyPem = async (key: CryptoKey) =>
+  toPem('PRIVATE KEY', new Uint8Array(await crypto.subtle.exportKey('pkcs8', key)))
+
+export const publicJwk = async (key: CryptoKey) => {
+  const { crv, kty, x, y } = await crypto.subtle.exportKey('jwk', key)
+  return { crv, kty, x, y } as JsonWebKey
+}
+
+// RFC 7638 thumbprint: the hash of the required members in sorted order
+export const jwkThumbprint = async (key: CryptoKey) => {
+  const { crv, kty, x, y } = await publicJwk(key)
+  const canonical = JSON.stringify({ crv, kty, x, y })
+  return base64url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical))))
+}
+
+// Raw r || s, the form JWS ES256 uses
+export const sign = async (key: CryptoKey, data: Uint8Array) =>
+  new Uint8Array(await crypto.subtle.sign(SIGNATURE, key, data))
+
+// X.509 wants the signature as SEQUENCE { r INTEGER, s INTEGER }
+const derSignature = (raw: Uint8Array) => sequence(integer(raw.slice(0, 32)), integer(raw.slice(32)))
+
+// PKCS #10 request for a certificate covering one domain
+export const createCsr = async (keys: CryptoKeyPair, domain: string) => {
+  const subjectPublicKeyInfo = new Uint8Array(await crypto.subtle.exportKey('spki', keys.publicKey))
+  const subjectAltName = sequence(
+    objectIdentifier(OID.subjectAltName),
+    octetString(sequence(tagged(2, new TextEncoder().encode(domain), false)))
+  )
+
+  const requestInfo = sequence(
+    integer(Uint8Array.of(0)),
+    sequence(set(sequence(objectIdentifier(OID.commonName), utf8String(domain)))),
+    subjectPublicKeyInfo,
+    tagged(0, sequence(objectIdentifier(OID.extensionRequest), set(sequence(subjectAltName))))
+  )
+
+  const signature = await sign(keys.privateKey, requestInfo)
+  return sequence(requestInfo, sequence(objectIdentifier(OID.ecdsaWithSha256)), bitString(derSignature(signature)))
+}
+
+export interface CertificateInfo {
+  // The issuing organisation, or its common name when it has none
+  issuer: string
+  notBefore: Date
+  notAfter: Date
+}
+
+// Reads the first (leaf) certificate of a PEM chain
+export const readCertificate = (pem: string): CertificateInfo => {
+  const leaf = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/)
+  if (!leaf) throw new Error('No certificate in PEM')
+
+  const [tbsCertificate] = children(decode(fromPem(leaf[0])).content)
+  const fields = children(tbsCertificate.content)
+  // The version field is optional and tagged [0]
+  const [, , issuer, validity] = fields[0].tag === 0xa0 ? fields.slice(1) : fields
+
+  const names = new Map<string, string>()
+  for (const relativeName of children(issuer.content)) {
+    for (const attribute of children(relativeName.content)) {
+      const [type, value] = children(attribute.content)
+      names.set(decodeObjectIdentifier(type.content), new TextDecoder().decode(value.content))
+    }
+  }
+
+  const [notBefore, notAfter] = children(validity.content)
+  return {
+    issuer: names.get(OID.organizationName) ?? names.get(OID.commonName) ?? 'Unknown',
+    notBefore: decodeTime(notBefore),
+    notAfter: decodeTime(notAfter),
+  }
+}
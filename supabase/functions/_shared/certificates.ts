@@ -0,0 +1,204 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  AcmeClient,
+  type CertificateIssuer,
+  type ChallengeResponder,
+  exportPrivateJwk,
+  generateKeyPair,
+  importKeyPair,
+  LETS_ENCRYPT_DIRECTORY,
+} from './acme/index.ts'
+
+// TLS certificates for custom domains. A domain gets its first certificate
+// once verify-domain finds it active; renew-certificates then renews it
+// ahead of expiry and retries failures with a growing backoff.
+
+export type CertificateStatus = 'pending' | 'issued' | 'failed' | 'expired'
+
+export interface DomainCertificateRow {
+  id: string
+  website_id: string
+  domain: string
+  status: CertificateStatus
+  issuer: string | null
+  issued_at: string | null
+  expires_at: string | null
+  locked_at: string | null
+  attempts: number
+  last_error: string | null
+  renew_at: string | null
+}
+
+// Days before expiry to renew; Let's Encrypt certificates last 90
+const renewBeforeDays = () => Number(Deno.env.get('CERT_RENEW_BEFORE_DAYS') ?? '30')
+
+const HOUR = 60 * 60 * 1000
+
+// 15 minutes after the first failure, doubling up to a day
+const retryDelay = (attempts: number) => Math.min(24 * HOUR, 15 * 60 * 1000 * 2 ** Math.max(0, attempts - 1))
+
+const check = <T>({ data, error }: { data: T; error: { message: string } | null }, action: string) => {
+  if (error) throw new Error(`Failed to ${action}: ${error.message}`)
+  return data
+}
+
+// Challenge answers go in a table the acme-challenge function reads from
+const challengeResponder = (supabase: SupabaseClient): ChallengeResponder => ({
+  async present(domain, token, keyAuthorization) {
+    check(
+      await supabase.from('acme_challenges').upsert({ token, domain, key_authorization: keyAuthorization }),
+      'store ACME challenge'
+    )
+  },
+  async remove(token) {
+    check(await supabase.from('acme_challenges').delete().eq('token', token), 'remove ACME challenge')
+  },
+})
+
+// The account key is created on first use and kept per directory, so
+// switching ACME_DIRECTORY_URL to Pebble registers a separate account
+const loadAccountKey = async (supabase: SupabaseClient, directoryUrl: string) => {
+  const existing = check(
+    await supabase.from('acme_accounts').select('private_key_jwk').eq('directory_url', directoryUrl).maybeSingle(),
+    'load ACME account'
+  )
+  if (existing) return importKeyPair(existing.private_key_jwk)
+
+  const keys = await generateKeyPair()
+  check(
+    await supabase
+      .from('acme_accounts')
+      .upsert(
+        { directory_url: directoryUrl, private_key_jwk: await exportPrivateJwk(keys.privateKey) },
+        { onConflict: 'directory_url', ignoreDuplicates: true }
+      ),
+    'save ACME account'
+  )
+
+  // Another worker may have created one first; use whichever was stored
+  const stored = check(
+    await supabase.from('acme_accounts').select('private_key_jwk').eq('directory_url', directoryUrl).single(),
+    'load ACME account'
+  )
+  return importKeyPair(stored.private_key_jwk)
+}
+
+export const issuerFromEnv = async (supabase: SupabaseClient): Promise<CertificateIssuer> => {
+  const directoryUrl = Deno.env.get('ACME_DIRECTORY_URL') ?? LETS_ENCRYPT_DIRECTORY
+  return new AcmeClient({
+    directoryUrl,
+    accountKey: await loadAccountKey(supabase, directoryUrl),
+    contactEmail: Deno.env.get('ACME_CONTACT_EMAIL'),
+  })
+}
+
+const hasValidCertificate = (row: Pick<DomainCertificateRow, 'status' | 'expires_at'>) =>
+  row.status === 'issued' && !!row.expires_at && new Date(row.expires_at) > new Date()
+
+// Issues or renews the certificate for a website's domain. Returns the
+// updated row, or null while another run holds the domain. Failures are
+// stored on the row; a renewal failure keeps the current certificate.
+export const provisionCertificate = async (
+  supabase: SupabaseClient,
+  issuer: CertificateIssuer,
+  websiteId: string,
+  domain: string
+) => {
+  const claimed = check(
+    await supabase
+      .rpc('claim_domain_certificate', { website_uuid: websiteId, domain_name: domain })
+      .maybeSingle<DomainCertificateRow>(),
+    'claim domain certificate'
+  )
+  if (!claimed) return null
+
+  const finish = async (fields: Record<string, unknown>) =>
+    check(
+      await supabase
+        .from('domain_certificates')
+        .update({ ...fields, locked_at: null })
+        .eq('id', claimed.id)
+        .select('id, website_id, domain, status, issuer, issued_at, expires_at, locked_at, attempts, last_error, renew_at')
+        .single<DomainCertificateRow>(),
+      'save domain certificate'
+    )
+
+  try {
+    const certificate = await issuer.issue(domain, challengeResponder(supabase))
+    const renewAt = new Date(certificate.notAfter.getTime() - renewBeforeDays() * 24 * HOUR)
+
+    return await finish({
+      status: 'issued',
+      issuer: certificate.issuer,
+      issued_at: certificate.notBefore.toISOString(),
+      expires_at: certificate.notAfter.toISOString(),
+      certificate_pem: certificate.certificatePem,
+      private_key_pem: certificate.privateKeyPem,
+      attempts: 0,
+      last_error: null,
+      renew_at: renewAt.toISOString(),
+    })
+  } catch (err) {
+    console.error(`Certificate for ${domain} failed:`, err)
+    const attempts = claimed.attempts + 1
+    return await finish({
+      status: hasValidCertificate(claimed) ? 'issued' : 'failed',
+      attempts,
+      last_error: err instanceof Error ? err.message : String(err),
+      renew_at: new Date(Date.now() + retryDelay(attempts)).toISOString(),
+    })
+  }
+}
+
+// Run on a schedule: marks expired certificates, then issues certificates
+// for active domains that lack one and renews those that are due. Handles
+// at most `limit` domains per run, since each issuance takes a while.
+export const renewCertificates = async (supabase: SupabaseClient, limit = 10) => {
+  const now = new Date().toISOString()
+
+  check(
+    await supabase.from('domain_certificates').update({ status: 'expired' }).eq('status', 'issued').lte('expires_at', now),
+    'expire certificates'
+  )
+
+  const due = check(
+    await supabase
+      .from('domain_certificates')
+      .select('website_id, domain, website_domain:website_domains!inner(status)')
+      .lte('renew_at', now)
+      // Same takeover window as claim_domain_certificate, for runs that died
+      .or(`locked_at.is.null,locked_at.lt.${new Date(Date.now() - 10 * 60 * 1000).toISOString()}`)
+      .eq('website_domain.status', 'active')
+      .order('renew_at')
+      .limit(limit),
+    'load certificates due for renewal'
+  )
+
+  // Active domains that have never had a certificate row
+  const { data: missing, error } = await supabase
+    .from('website_domains')
+    .select('website_id, domain, domain_certificates!left(id)')
+    .eq('status', 'active')
+    .is('domain_certificates', null)
+    .limit(limit)
+  if (error) throw new Error(`Failed to load domains without certificates: ${error.message}`)
+
+  const targets = [
+    ...(due ?? []).map((row) => ({ websiteId: row.website_id as string, domain: row.domain as string })),
+    ...(missing ?? []).map((row) => ({ websiteId: row.website_id as string, domain: row.domain as string })),
+  ].slice(0, limit)
+
+  if (targets.length === 0) return { issued: 0, failed: 0 }
+
+  const issuer = await issuerFromEnv(supabase)
+  let issued = 0
+  let failed = 0
+  for (const target of targets) {
+    const row = await provisionCertificate(supabase, issuer, target.websiteId, target.domain)
+    if (!row) continue
+    if (row.last_error) failed++
+    else issued++
+  }
+
+  return { issued, failed }
+}
@@ -0,0 +1,101 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { HttpError } from './http.ts'
+import { planIdForPrice, Stripe } from './stripe.ts'
+
+// Coupons are created by admins and applied at checkout through their
+// Stripe promotion code. Stripe enforces expiry and redemption limits too;
+// checking here first lets the user see why a code does not apply before
+// they are sent to Stripe.
+
+export interface CouponRow {
+  id: string
+  code: string
+  name: string
+  percent_off: number | null
+  amount_off: number | null
+  currency: string
+  duration: 'once' | 'repeating' | 'forever'
+  duration_in_months: number | null
+  max_redemptions: number | null
+  expires_at: string | null
+  allowed_plans: string[]
+  is_active: boolean
+  times_redeemed: number
+  stripe_coupon_id: string
+  stripe_promotion_code_id: string
+}
+
+const invalidCoupon = (message: string) => new HttpError(400, 'invalid_coupon', message)
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase()
+
+// What the user may see of a coupon
+export const describeCoupon = (coupon: CouponRow) => ({
+  code: coupon.code,
+  name: coupon.name,
+  percent_off: coupon.percent_off,
+  amount_off: coupon.amount_off,
+  currency: coupon.currency,
+  duration: coupon.duration,
+  duration_in_months: coupon.duration_in_months,
+  allowed_plans: coupon.allowed_plans,
+})
+
+// Finds the coupon for a code and checks that userId may use it, for the
+// given price when one is known. Throws invalid_coupon with the reason.
+export const findRedeemableCoupon = async (
+  supabase: SupabaseClient,
+  code: string,
+  userId: string,
+  priceId?: string
+) => {
+  const { data: coupon, error } = await supabase
+    .from('coupons')
+    .select('*')
+    .eq('code', normalizeCouponCode(code))
+    .maybeSingle<CouponRow>()
+
+  if (error) throw new HttpError(500, 'internal_error', 'Failed to look up coupon')
+  if (!coupon || !coupon.is_active) throw invalidCoupon('This code is not valid')
+  if (coupon.expires_at && new Date(coupon.expires_at) <= new Date()) {
+    throw invalidCoupon('This code has expired')
+  }
+  if (coupon.max_redemptions !== null && coupon.times_redeemed >= coupon.max_redemptions) {
+    throw invalidCoupon('This code has been fully redeemed')
+  }
+  if (priceId && coupon.allowed_plans.length > 0 && !coupon.allowed_plans.includes(planIdForPrice(priceId))) {
+    throw invalidCoupon(`This code only applies to the ${coupon.allowed_plans.join(' and ')} plans`)
+  }
+
+  const { data: redeemed } = await supabase
+    .from('coupon_redemptions')
+    .select('id')
+    .eq('coupon_id', coupon.id)
+    .eq('user_id', userId)
+    .limit(1)
+    .maybeSingle()
+  if (redeemed) throw invalidCoupon('You have already used this code')
+
+  return coupon
+}
+
+// Called for completed checkouts; a redelivered session is ignored
+export const recordCouponRedemption = async (supabase: SupabaseClient, session: Stripe.Checkout.Session) => {
+  const couponId = session.metadata?.coupon_id
+  const userId = session.metadata?.user_id
+  if (!couponId || !userId) return
+
+  const { error } = await supabase.from('coupon_redemptions').upsert(
+    {
+      coupon_id: couponId,
+      user_id: userId,
+      plan_id: session.metadata?.plan_id ?? 'free',
+      stripe_checkout_session_id: session.id,
+      stripe_subscription_id: (session.subscription as string | null) ?? null,
+      amount_discount: session.total_details?.amount_discount ?? 0,
+      currency: session.currency ?? 'usd',
+    },
+    { onConflict: 'stripe_checkout_session_id', ignoreDuplicates: true }
+  )
+  if (error) throw new Error(`Failed to record coupon redemption: ${error.message}`)
+}
@@ -0,0 +1,77 @@
+// DNS lookups behind a small interface, so domain verification can run
+// against real DNS in production and against fixed answers locally.
+
+export type DnsRecordType = 'A' | 'CNAME' | 'TXT'
+
+export interface DnsResolver {
+  // Values of the records of one type at a name: IPs for A, the target
+  // without its trailing dot for CNAME, the joined text for TXT. Empty when
+  // there are none.
+  resolve(name: string, type: DnsRecordType): Promise<string[]>
+}
+
+export class DnsLookupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DnsLookupError'
+  }
+}
+
+const typeCodes: Record<DnsRecordType, number> = { A: 1, CNAME: 5, TXT: 16 }
+
+const normalizeName = (value: string) => value.replace(/\.$/, '').toLowerCase()
+
+// TXT data arrives quoted and may be split into several strings
+const joinTxt = (data: string) =>
+  (data.match(/"((?:[^"\\]|\\.)*)"/g) ?? [data]).map((part) => part.replace(/^"|"$/g, '')).join('')
+
+interface DohAnswer {
+  Status: number
+  Answer?: { name: string; type: number; data: string }[]
+}
+
+// DNS-over-HTTPS using the JSON API that Cloudflare and Google both serve
+export class DohResolver implements DnsResolver {
+  constructor(private endpoint = 'https://cloudflare-dns.com/dns-query') {}
+
+  async resolve(name: string, type: DnsRecordType) {
+    const url = `${this.endpoint}?name=${encodeURIComponent(name)}&type=${type}`
+    const response = await fetch(url, { headers: { accept: 'application/dns-json' } })
+    if (!response.ok) {
+      throw new DnsLookupError(`DNS lookup for ${name} failed with HTTP ${response.status}`)
+    }
+
+    const body = (await response.json()) as DohAnswer
+    // 3 is NXDOMAIN: the name does not exist, so it has no records
+    if (body.Status === 3) return []
+    if (body.Status !== 0) {
+      throw new DnsLookupError(`DNS lookup for ${name} failed with status ${body.Status}`)
+    }
+
+    // An A lookup also returns the CNAME chain that led to the addresses
+    return (body.Answer ?? [])
+      .filter((answer) => answer.type === typeCodes[type])
+      .map((answer) => (type === 'TXT' ? joinTxt(answer.data) : normalizeName(answer.data)))
+  }
+}
+
+export type StaticRecords = Record<string, Partial<Record<DnsRecordType, string[]>>>
+
+// Answers from a fixed table, for local development and tests
+export class StaticResolver implements DnsResolver {
+  constructor(private records: StaticRecords) {}
+
+  async resolve(name: string, type: DnsRecordType) {
+    return this.records[normalizeName(name)]?.[type] ?? []
+  }
+}
+
+// DNS_STATIC_RECORDS (JSON, keyed by name) selects the static resolver;
+// otherwise lookups go to DNS_DOH_URL or Cloudflare
+export const resolverFromEnv = (): DnsResolver => {
+  const staticRecords = Deno.env.get('DNS_STATIC_RECORDS')
+  if (staticRecords) {
+    return new StaticResolver(JSON.parse(staticRecords) as StaticRecords)
+  }
+  return new DohResolver(Deno.env.get('DNS_DOH_URL') || undefined)
+}
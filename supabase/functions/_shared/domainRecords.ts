@@ -0,0 +1,85 @@
+// The DNS records a custom domain needs. Shared with the frontend through
+// src/lib/domainRecords.ts so the instructions and the checks agree.
+
+export const DOMAIN_A_RECORD = '76.76.21.21'
+export const DOMAIN_CNAME_TARGET = 'cname.ncbx.app'
+const VERIFICATION_PREFIX = '_ncbx-verification'
+
+export interface RequiredRecord {
+  type: 'A' | 'CNAME' | 'TXT'
+  // Fully qualified name the record is looked up at
+  name: string
+  // Name as entered at most registrars, relative to the domain
+  host: string
+  value: string
+  ttl: number
+}
+
+export type DomainStatus = 'pending' | 'verified' | 'active' | 'failed'
+
+export interface RecordCheck {
+  type: RequiredRecord['type']
+  name: string
+  expected: string
+  found: string[]
+  ok: boolean
+}
+
+// Result of one verify-domain check
+export interface DomainCheck {
+  status: Exclude<DomainStatus, 'pending'>
+  // What to fix, when the domain is not active
+  reason: string | null
+  records: RecordCheck[]
+}
+
+export const verificationRecordName = (domain: string) => `${VERIFICATION_PREFIX}.${domain}`
+export const verificationRecordValue = (token: string) => `ncbx-verification=${token}`
+
+// Apex domains cannot have a CNAME, so they get an A record instead. Two
+// labels is a heuristic; a domain like example.co.uk can use the A record
+// too, since either is accepted.
+export const isApexDomain = (domain: string) => domain.split('.').length === 2
+
+export const requiredRecords = (domain: string, token: string): RequiredRecord[] => {
+  const apex = isApexDomain(domain)
+  const subdomainHost = apex ? '@' : domain.split('.').slice(0, -2).join('.')
+
+  return [
+    {
+      type: 'TXT',
+      name: verificationRecordName(domain),
+      host: apex ? VERIFICATION_PREFIX : `${VERIFICATION_PREFIX}.${subdomainHost}`,
+      value: verificationRecordValue(token),
+      ttl: 3600,
+    },
+    apex
+      ? { type: 'A', name: domain, host: '@', value: DOMAIN_A_RECORD, ttl: 3600 }
+      : { type: 'CNAME', name: domain, host: subdomainHost, value: DOMAIN_CNAME_TARGET, ttl: 3600 },
+  ]
+}
+
+// What an alias domain does; the primary domain serves the website
+export type DomainRedirect = 'primary' | 'apex_www'
+
+export interface AttachedDomain {
+  domain: string
+  is_primary: boolean
+  redirect: DomainRedirect | null
+}
+
+// example.com <-> www.example.com
+export const wwwCounterpart = (domain: string) =>
+  domain.startsWith('www.') ? domain.slice('www.'.length) : `www.${domain}`
+
+// Where a visitor to `domain` is sent, or null when it serves the website.
+// Mirrors resolve_custom_domain, which the edge proxy uses.
+export const redirectTarget = (domain: AttachedDomain, domains: AttachedDomain[]) => {
+  if (domain.is_primary) return null
+
+  const counterpart = wwwCounterpart(domain.domain)
+  if (domain.redirect === 'apex_www' && domains.some((other) => other.domain === counterpart)) {
+    return counterpart
+  }
+  return domains.find((other) => other.is_primary)?.domain ?? null
+}
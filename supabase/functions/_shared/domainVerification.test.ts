@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { checkDomain } from './domainVerification.ts'
+import { StaticResolver } from './dns.ts'
+
+const TOKEN = 'abc123'
+const TXT = 'ncbx-verification=abc123'
+
+describe('checkDomain', () => {
+  it('activates an apex domain with the TXT and A records', async () => {
+    const resolver = new StaticResolver({
+      '_ncbx-verification.example.com': { TXT: [TXT] },
+      'example.com': { A: ['76.76.21.21'] },
+    })
+
+    expect(await checkDomain(resolver, 'example.com', TOKEN)).toEqual({
+      status: 'active',
+      reason: null,
+      records: [
+        { type: 'TXT', name: '_ncbx-verification.example.com', expected: TXT, found: [TXT], ok: true },
+        { type: 'A', name: 'example.com', expected: '76.76.21.21', found: ['76.76.21.21'], ok: true },
+      ],
+    })
+  })
+
+  it('activates a subdomain that has a CNAME to us', async () => {
+    const resolver = new StaticResolver({
+      '_ncbx-verification.www.example.com': { TXT: [TXT] },
+      'www.example.com': { CNAME: ['cname.ncbx.app'], A: ['104.16.0.1'] },
+    })
+
+    const check = await checkDomain(resolver, 'www.example.com', TOKEN)
+
+    expect(check.status).toBe('active')
+    expect(check.records[1]).toEqual({
+      type: 'CNAME',
+      name: 'www.example.com',
+      expected: 'cname.ncbx.app',
+      found: ['cname.ncbx.app'],
+      ok: true,
+    })
+  })
+
+  it('accepts a subdomain with our A record instead of a CNAME', async () => {
+    const resolver = new StaticResolver({
+      '_ncbx-verification.shop.example.com': { TXT: [TXT] },
+      'shop.example.com': { A: ['76.76.21.21'] },
+    })
+
+    expect((await checkDomain(resolver, 'shop.example.com', TOKEN)).status).toBe('active')
+  })
+
+  it('verifies a domain that proves ownership but does not point at us yet', async () => {
+    const resolver = new StaticResolver({ '_ncbx-verification.example.com': { TXT: ['other', TXT] } })
+
+    expect(await checkDomain(resolver, 'example.com', TOKEN)).toMatchObject({
+      status: 'verified',
+      reason: 'example.com has no A record yet. Point it at 76.76.21.21.',
+    })
+  })
+
+  it('says where a verified domain points instead', async () => {
+    const resolver = new StaticResolver({
+      '_ncbx-verification.www.example.com': { TXT: [TXT] },
+      'www.example.com': { CNAME: ['example.netlify.app'] },
+    })
+
+    expect(await checkDomain(resolver, 'www.example.com', TOKEN)).toMatchObject({
+      status: 'verified',
+      reason: 'www.example.com points at example.netlify.app; it should point at cname.ncbx.app.',
+    })
+  })
+
+  it('does not activate an apex domain with only some of its A records on us', async () => {
+    const resolver = new StaticResolver({
+      '_ncbx-verification.example.com': { TXT: [TXT] },
+      'example.com': { A: ['76.76.21.21', '192.0.2.10'] },
+    })
+
+    expect((await checkDomain(resolver, 'example.com', TOKEN)).status).toBe('verified')
+  })
+
+  it('fails a domain without the TXT record, even when it points at us', async () => {
+    const resolver = new StaticResolver({ 'example.com': { A: ['76.76.21.21'] } })
+
+    expect(await checkDomain(resolver, 'example.com', TOKEN)).toMatchObject({
+      status: 'failed',
+      reason: `No TXT record found at _ncbx-verification.example.com. Add it with the value ${TXT}.`,
+    })
+  })
+
+  it('fails a domain whose TXT record holds another token', async () => {
+    const resolver = new StaticResolver({
+      '_ncbx-verification.example.com': { TXT: ['ncbx-verification=old'] },
+      'example.com': { A: ['76.76.21.21'] },
+    })
+
+    expect(await checkDomain(resolver, 'example.com', TOKEN)).toMatchObject({
+      status: 'failed',
+      reason: `The TXT record at _ncbx-verification.example.com is ncbx-verification=old; it should be ${TXT}.`,
+    })
+  })
+})
+
+describe('StaticResolver', () => {
+  it('looks names up whatever their case and trailing dot', async () => {
+    const resolver = new StaticResolver({ 'example.com': { A: ['76.76.21.21'] } })
+
+    expect(await resolver.resolve('Example.COM.', 'A')).toEqual(['76.76.21.21'])
+    expect(await resolver.resolve('example.com', 'CNAME')).toEqual([])
+    expect(await resolver.resolve('www.example.com', 'A')).toEqual([])
+  })
+})
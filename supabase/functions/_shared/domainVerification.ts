@@ -0,0 +1,80 @@
+import type { DnsResolver } from './dns.ts'
+import {
+  type DomainCheck,
+  type RecordCheck,
+  DOMAIN_A_RECORD,
+  DOMAIN_CNAME_TARGET,
+  isApexDomain,
+  verificationRecordName,
+  verificationRecordValue,
+} from './domainRecords.ts'
+
+// A custom domain moves pending → verified → active, or to failed:
+//   - verified: the TXT record proves the user controls the domain
+//   - active: the domain also points at us, by A record or CNAME
+//   - failed: the TXT record is missing or holds another value
+// Every check starts from scratch, so a failed domain recovers once its
+// records are fixed.
+
+export const checkDomain = async (resolver: DnsResolver, domain: string, token: string): Promise<DomainCheck> => {
+  const txtName = verificationRecordName(domain)
+  const expectedTxt = verificationRecordValue(token)
+
+  const [txt, cname, a] = await Promise.all([
+    resolver.resolve(txtName, 'TXT'),
+    resolver.resolve(domain, 'CNAME'),
+    resolver.resolve(domain, 'A'),
+  ])
+
+  const ownership: RecordCheck = {
+    type: 'TXT',
+    name: txtName,
+    expected: expectedTxt,
+    found: txt,
+    ok: txt.includes(expectedTxt),
+  }
+
+  // A CNAME takes precedence: its A answers belong to the target
+  const routing: RecordCheck =
+    cname.length > 0 || !isApexDomain(domain)
+      ? {
+          type: 'CNAME',
+          name: domain,
+          expected: DOMAIN_CNAME_TARGET,
+          found: cname.length > 0 ? cname : a,
+          ok: cname.includes(DOMAIN_CNAME_TARGET) || (cname.length === 0 && a.length > 0 && a.every((ip) => ip === DOMAIN_A_RECORD)),
+        }
+      : {
+          type: 'A',
+          name: domain,
+          expected: DOMAIN_A_RECORD,
+          found: a,
+          ok: a.length > 0 && a.every((ip) => ip === DOMAIN_A_RECORD),
+        }
+
+  const records = [ownership, routing]
+
+  if (!ownership.ok) {
+    return {
+      status: 'failed',
+      reason:
+        txt.length === 0
+          ? `No TXT record found at ${txtName}. Add it with the value ${expectedTxt}.`
+          : `The TXT record at ${txtName} is ${txt.join(', ')}; it should be ${expectedTxt}.`,
+      records,
+    }
+  }
+
+  if (!routing.ok) {
+    return {
+      status: 'verified',
+      reason:
+        routing.found.length === 0
+          ? `${domain} has no ${routing.type} record yet. Point it at ${routing.expected}.`
+          : `${domain} points at ${routing.found.join(', ')}; it should point at ${routing.expected}.`,
+      records,
+    }
+  }
+
+  return { status: 'active', reason: null, records }
+}
@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { expireGracePeriods, handlePaymentFailed, handlePaymentSucceeded } from './dunning.ts'
+import { createFakeSupabase } from './testing/fakeSupabase.ts'
+import { resetStripe, stripeData } from './testing/fakeStripe.ts'
+import { breakSmtp, outbox, resetOutbox } from './testing/outbox.ts'
+import type { Stripe } from './stripe.ts'
+
+vi.mock('./mailer.ts', () => import('./testing/outbox.ts'))
+vi.mock('https://esm.sh/stripe@14.21.0', () => import('./testing/fakeStripe.ts'))
+
+const NOW = '2025-07-01T12:00:00.000Z'
+
+const subscriptionRow = {
+  id: 'row-1',
+  user_id: 'user-1',
+  stripe_subscription_id: 'sub_1',
+  plan_id: 'pro',
+  dunning_status: 'none',
+  payment_failed_at: null,
+  grace_period_ends_at: null,
+  downgraded_at: null,
+  // Embedded through subscriptions_user_id_fkey
+  profile: { email: 'ada@example.com', full_name: 'Ada' },
+}
+
+const invoice = { id: 'in_1', subscription: 'sub_1', amount_due: 1900, currency: 'usd' } as Stripe.Invoice
+
+// A Supabase stand-in whose downgrade suspends two websites and whose
+// restore brings one back
+const setUp = (rows: Record<string, unknown>[] = [subscriptionRow]) =>
+  createFakeSupabase({
+    tables: { subscriptions: rows, profiles: [{ id: 'user-1', plan: 'pro' }] },
+    rpc: {
+      apply_plan_downgrade: (args, tables) => {
+        tables.profiles.filter((profile) => profile.id === args.user_uuid).forEach((profile) => (profile.plan = args.new_plan))
+        return 2
+      },
+      restore_suspended_websites: () => 1,
+    },
+  })
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(NOW)
+  resetStripe()
+  resetOutbox()
+  stripeData.invoices.set('in_1', { id: 'in_1', status: 'open' })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllEnvs()
+})
+
+describe('handlePaymentFailed', () => {
+  it('starts the grace period and emails the deadline', async () => {
+    const supabase = setUp()
+
+    await handlePaymentFailed(supabase.client, invoice)
+
+    expect(supabase.tables.subscriptions[0]).toMatchObject({
+      dunning_status: 'grace',
+      payment_failed_at: NOW,
+      grace_period_ends_at: '2025-07-08T12:00:00.000Z',
+    })
+    expect(outbox).toHaveLength(1)
+    expect(outbox[0]).toMatchObject({ to: 'ada@example.com', subject: 'Your payment failed' })
+    expect(outbox[0].text).toContain('We could not collect the payment of 19.00 USD')
+    expect(outbox[0].text).toContain('by July 8, 2025 to keep your pro plan')
+  })
+
+  it('uses DUNNING_GRACE_DAYS for the length of the grace period', async () => {
+    vi.stubEnv('DUNNING_GRACE_DAYS', '3')
+    const supabase = setUp()
+
+    await handlePaymentFailed(supabase.client, invoice)
+
+    expect(supabase.tables.subscriptions[0].grace_period_ends_at).toBe('2025-07-04T12:00:00.000Z')
+  })
+
+  it('keeps the deadline when a retry fails during the grace period', async () => {
+    const supabase = setUp([
+      {
+        ...subscriptionRow,
+        dunning_status: 'grace',
+        payment_failed_at: '2025-06-28T12:00:00.000Z',
+        grace_period_ends_at: '2025-07-05T12:00:00.000Z',
+      },
+    ])
+
+    await handlePaymentFailed(supabase.client, invoice)
+
+    expect(supabase.tables.subscriptions[0]).toMatchObject({
+      dunning_status: 'grace',
+      grace_period_ends_at: '2025-07-05T12:00:00.000Z',
+    })
+    expect(outbox[0].text).toContain('by July 5, 2025')
+  })
+
+  it('ignores a failure for an invoice that has been paid since', async () => {
+    stripeData.invoices.set('in_1', { id: 'in_1', status: 'paid' })
+    const supabase = setUp()
+
+    await handlePaymentFailed(supabase.client, invoice)
+
+    expect(supabase.tables.subscriptions[0].dunning_status).toBe('none')
+    expect(outbox).toEqual([])
+  })
+
+  it('changes the status even when the email cannot be sent', async () => {
+    breakSmtp()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const supabase = setUp()
+
+    await handlePaymentFailed(supabase.client, invoice)
+
+    expect(supabase.tables.subscriptions[0].dunning_status).toBe('grace')
+  })
+})
+
+describe('expireGracePeriods', () => {
+  it('downgrades accounts whose grace period has run out', async () => {
+    const supabase = setUp([
+      { ...subscriptionRow, dunning_status: 'grace', grace_period_ends_at: '2025-07-01T11:59:59.000Z' },
+      {
+        ...subscriptionRow,
+        id: 'row-2',
+        user_id: 'user-2',
+        dunning_status: 'grace',
+        grace_period_ends_at: '2025-07-02T00:00:00.000Z',
+      },
+    ])
+
+    const downgraded = await expireGracePeriods(supabase.client)
+
+    expect(downgraded).toBe(1)
+    expect(supabase.rpcCalls).toEqual([{ name: 'apply_plan_downgrade', args: { user_uuid: 'user-1', new_plan: 'free' } }])
+    expect(supabase.tables.profiles[0].plan).toBe('free')
+    expect(supabase.tables.subscriptions[0]).toMatchObject({ dunning_status: 'downgraded', downgraded_at: NOW })
+    expect(supabase.tables.subscriptions[1].dunning_status).toBe('grace')
+    expect(outbox).toHaveLength(1)
+    expect(outbox[0].subject).toBe('Your account has been moved to the Free plan')
+    expect(outbox[0].text).toContain('2 website(s) over the Free plan limits are unpublished and read-only.')
+  })
+
+  it('leaves the account in grace when the downgrade fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const supabase = createFakeSupabase({
+      tables: {
+        subscriptions: [{ ...subscriptionRow, dunning_status: 'grace', grace_period_ends_at: '2025-06-30T00:00:00.000Z' }],
+      },
+    })
+
+    expect(await expireGracePeriods(supabase.client)).toBe(0)
+    expect(supabase.tables.subscriptions[0].dunning_status).toBe('grace')
+    expect(outbox).toEqual([])
+  })
+})
+
+describe('handlePaymentSucceeded', () => {
+  it('restores the plan and websites of a downgraded account', async () => {
+    const supabase = setUp([
+      {
+        ...subscriptionRow,
+        dunning_status: 'downgraded',
+        payment_failed_at: '2025-06-20T12:00:00.000Z',
+        grace_period_ends_at: '2025-06-27T12:00:00.000Z',
+        downgraded_at: '2025-06-27T12:00:00.000Z',
+      },
+    ])
+    supabase.tables.profiles[0].plan = 'free'
+
+    await handlePaymentSucceeded(supabase.client, invoice)
+
+    expect(supabase.tables.profiles[0].plan).toBe('pro')
+    expect(supabase.rpcCalls).toEqual([{ name: 'restore_suspended_websites', args: { user_uuid: 'user-1' } }])
+    expect(supabase.tables.subscriptions[0]).toMatchObject({
+      dunning_status: 'none',
+      payment_failed_at: null,
+      grace_period_ends_at: null,
+      downgraded_at: null,
+    })
+    expect(outbox[0].subject).toBe('Payment received')
+    expect(outbox[0].text).toContain('Your pro plan is back and 1 suspended website(s) are active again.')
+  })
+
+  it('ends the grace period without touching the plan', async () => {
+    const supabase = setUp([{ ...subscriptionRow, dunning_status: 'grace', grace_period_ends_at: '2025-07-05T12:00:00.000Z' }])
+
+    await handlePaymentSucceeded(supabase.client, invoice)
+
+    expect(supabase.tables.subscriptions[0].dunning_status).toBe('none')
+    expect(supabase.tables.profiles[0].plan).toBe('pro')
+    expect(supabase.rpcCalls).toEqual([])
+  })
+
+  it('does nothing for an account that is not in dunning', async () => {
+    const supabase = setUp()
+
+    await handlePaymentSucceeded(supabase.client, invoice)
+
+    expect(outbox).toEqual([])
+  })
+})
+
+describe('dunning', () => {
+  it('goes from none to grace to downgraded and back to none', async () => {
+    const supabase = setUp()
+    const status = () => supabase.tables.subscriptions[0].dunning_status
+
+    await handlePaymentFailed(supabase.client, invoice)
+    expect(status()).toBe('grace')
+
+    vi.setSystemTime('2025-07-08T12:00:00.000Z')
+    await expireGracePeriods(supabase.client)
+    expect(status()).toBe('downgraded')
+    expect(supabase.tables.profiles[0].plan).toBe('free')
+
+    await handlePaymentSucceeded(supabase.client, invoice)
+    expect(status()).toBe('none')
+    expect(supabase.tables.profiles[0].plan).toBe('pro')
+    expect(outbox.map((email) => email.subject)).toEqual([
+      'Your payment failed',
+      'Your account has been moved to the Free plan',
+      'Payment received',
+    ])
+  })
+})
@@ -0,0 +1,191 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { sendEmail } from './mailer.ts'
+import { Stripe, stripe } from './stripe.ts'
+
+// Dunning: what happens to an account whose subscription payment failed.
+//
+//   none ──payment failed──▶ grace ──grace period over──▶ downgraded
+//     ▲                        │                             │
+//     └─────payment succeeded──┴─────────────────────────────┘
+//
+// During the grace period nothing changes except a banner and an email.
+// Once it runs out the account moves to the free plan and websites over
+// the free limits are suspended. A successful payment restores the plan
+// and the websites.
+
+export type DunningStatus = 'none' | 'grace' | 'downgraded'
+
+// A subscription whose grace period has run out, with the owner to notify.
+// profile is a to-one embed through subscriptions_user_id_fkey.
+interface ExpiredSubscriptionRow {
+  id: string
+  user_id: string
+  plan_id: string
+  profile: { email: string; full_name: string | null } | null
+}
+
+// Days between the first failed payment and the downgrade
+const graceDays = () => Number(Deno.env.get('DUNNING_GRACE_DAYS') ?? '7')
+
+const appUrl = () => Deno.env.get('APP_URL') ?? 'https://ncbx.app'
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+
+const findSubscription = async (supabase: SupabaseClient, stripeSubscriptionId: string) => {
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .select('*, profile:profiles!subscriptions_user_id_fkey(email, full_name)')
+    .eq('stripe_subscription_id', stripeSubscriptionId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load subscription: ${error.message}`)
+  return data
+}
+
+const updateSubscription = async (supabase: SupabaseClient, id: string, fields: Record<string, unknown>) => {
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', id)
+  if (error) throw new Error(`Failed to update dunning status: ${error.message}`)
+}
+
+// Email is best effort; a mail outage must not stop billing state changing
+const notify = async (to: string | null | undefined, subject: string, text: string) => {
+  if (!to) return
+  try {
+    await sendEmail({ to, subject, text })
+  } catch (err) {
+    console.error(`Failed to send "${subject}" to ${to}:`, err)
+  }
+}
+
+// invoice.payment_failed: starts the grace period, or reminds the user when
+// a retry fails during it
+export const handlePaymentFailed = async (supabase: SupabaseClient, invoice: Stripe.Invoice) => {
+  if (!invoice.subscription) return
+
+  // Events can arrive late; ignore a failure for an invoice paid since
+  const current = await stripe.invoices.retrieve(invoice.id)
+  if (current.status === 'paid') return
+
+  const subscription = await findSubscription(supabase, invoice.subscription as string)
+  if (!subscription) return
+
+  let graceEndsAt = subscription.grace_period_ends_at as string | null
+  if (subscription.dunning_status === 'none') {
+    const now = new Date()
+    graceEndsAt = new Date(now.getTime() + graceDays() * 24 * 60 * 60 * 1000).toISOString()
+    await updateSubscription(supabase, subscription.id, {
+      dunning_status: 'grace',
+      payment_failed_at: now.toISOString(),
+      grace_period_ends_at: graceEndsAt,
+    })
+  }
+
+  const deadline =
+    subscription.dunning_status === 'downgraded' || !graceEndsAt
+      ? 'Your account has been moved to the Free plan until it is paid.'
+      : `Please update your payment method by ${formatDate(graceEndsAt)} to keep your ${subscription.plan_id} plan.`
+
+  await notify(
+    subscription.profile?.email,
+    'Your payment failed',
+    [
+      `Hi ${subscription.profile?.full_name || 'there'},`,
+      '',
+      `We could not collect the payment of ${(invoice.amount_due / 100).toFixed(2)} ${invoice.currency.toUpperCase()} for your subscription.`,
+      deadline,
+      '',
+      `Update your payment method: ${appUrl()}/profile`,
+    ].join('\n')
+  )
+}
+
+// invoice.payment_succeeded: ends dunning and undoes a downgrade
+export const handlePaymentSucceeded = async (supabase: SupabaseClient, invoice: Stripe.Invoice) => {
+  if (!invoice.subscription) return
+
+  const subscription = await findSubscription(supabase, invoice.subscription as string)
+  if (!subscription || subscription.dunning_status === 'none') return
+
+  let restoredText = ''
+  if (subscription.dunning_status === 'downgraded') {
+    const { error: planError } = await supabase
+      .from('profiles')
+      .update({ plan: subscription.plan_id, updated_at: new Date().toISOString() })
+      .eq('id', subscription.user_id)
+    if (planError) throw new Error(`Failed to restore plan: ${planError.message}`)
+
+    const { data: restored, error: restoreError } = await supabase.rpc('restore_suspended_websites', {
+      user_uuid: subscription.user_id,
+    })
+    if (restoreError) throw new Error(`Failed to restore websites: ${restoreError.message}`)
+    restoredText = `Your ${subscription.plan_id} plan is back${restored ? ` and ${restored} suspended website(s) are active again` : ''}.`
+  }
+
+  await updateSubscription(supabase, subscription.id, {
+    dunning_status: 'none',
+    payment_failed_at: null,
+    grace_period_ends_at: null,
+    downgraded_at: null,
+  })
+
+  await notify(
+    subscription.profile?.email,
+    'Payment received',
+    [
+      `Hi ${subscription.profile?.full_name || 'there'},`,
+      '',
+      'Thanks, your payment went through.',
+      restoredText,
+    ].filter(Boolean).join('\n')
+  )
+}
+
+// Downgrades every account whose grace period has run out. Run on a
+// schedule by the process-dunning function.
+export const expireGracePeriods = async (supabase: SupabaseClient) => {
+  const { data: expired, error } = await supabase
+    .from('subscriptions')
+    .select('id, user_id, plan_id, profile:profiles!subscriptions_user_id_fkey(email, full_name)')
+    .eq('dunning_status', 'grace')
+    .lte('grace_period_ends_at', new Date().toISOString())
+    .returns<ExpiredSubscriptionRow[]>()
+  if (error) throw new Error(`Failed to load expired grace periods: ${error.message}`)
+
+  let downgraded = 0
+  for (const subscription of expired ?? []) {
+    try {
+      const { data: suspended, error: downgradeError } = await supabase.rpc('apply_plan_downgrade', {
+        user_uuid: subscription.user_id,
+        new_plan: 'free',
+      })
+      if (downgradeError) throw new Error(downgradeError.message)
+
+      await updateSubscription(supabase, subscription.id, {
+        dunning_status: 'downgraded',
+        downgraded_at: new Date().toISOString(),
+      })
+      downgraded++
+
+      await notify(
+        subscription.profile?.email,
+        'Your account has been moved to the Free plan',
+        [
+          `Hi ${subscription.profile?.full_name || 'there'},`,
+          '',
+          `We still could not collect your payment, so your ${subscription.plan_id} plan has been paused and your account is on the Free plan.`,
+          suspended ? `${suspended} website(s) over the Free plan limits are unpublished and read-only.` : '',
+          'Everything is restored as soon as your payment goes through.',
+          '',
+          `Update your payment method: ${appUrl()}/profile`,
+        ].filter(Boolean).join('\n')
+      )
+    } catch (err) {
+      console.error(`Failed to downgrade subscription ${subscription.id}:`, err)
+    }
+  }
+
+  return downgraded
+}
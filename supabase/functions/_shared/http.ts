@@ -0,0 +1,179 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, type SupabaseClient, type User } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+
+export { z }
+
+// Request handling shared by every edge function: CORS, caller
+// authentication, body validation and one error shape.
+//
+// Successful calls answer with the handler's JSON. Failed calls answer with
+//   { "error": { "code": "...", "message": "...", "details": ... } }
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+export const badRequest = (message: string, details?: unknown) => new HttpError(400, 'bad_request', message, details)
+export const unauthorized = (message = 'Sign in to continue') => new HttpError(401, 'unauthorized', message)
+export const forbidden = (message: string) => new HttpError(403, 'forbidden', message)
+export const notFound = (message: string) => new HttpError(404, 'not_found', message)
+export const conflict = (message: string) => new HttpError(409, 'conflict', message)
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+const errorResponse = (error: HttpError) =>
+  jsonResponse(
+    { error: { code: error.code, message: error.message, ...(error.details === undefined ? {} : { details: error.details }) } },
+    error.status
+  )
+
+// Service-role client; handlers check permissions themselves
+export const createServiceClient = () =>
+  createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')
+
+export interface HandlerContext<Body> {
+  req: Request
+  body: Body
+  supabase: SupabaseClient
+}
+
+export interface AuthenticatedContext<Body> extends HandlerContext<Body> {
+  // The caller, taken from the verified JWT, never from the body
+  user: User
+}
+
+interface HandlerOptions<Schema extends z.ZodTypeAny> {
+  // Validates the JSON body; omit for functions that read the raw request
+  schema?: Schema
+}
+
+type Handler<Context> = (context: Context) => Promise<unknown>
+
+const authenticate = async (supabase: SupabaseClient, req: Request) => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) throw unauthorized()
+
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data.user) throw unauthorized('Your session has expired. Sign in again.')
+  return data.user
+}
+
+const parseBody = async <Schema extends z.ZodTypeAny>(req: Request, schema?: Schema): Promise<z.infer<Schema>> => {
+  if (!schema) return undefined
+
+  let json: unknown
+  try {
+    json = await req.json()
+  } catch {
+    throw badRequest('Request body must be JSON')
+  }
+
+  const parsed = schema.safeParse(json)
+  if (!parsed.success) {
+    throw badRequest('Invalid request', parsed.error.flatten().fieldErrors)
+  }
+  return parsed.data
+}
+
+const run = <Context>(name: string, buildContext: (req: Request) => Promise<Context>, handler: Handler<Context>) =>
+  serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+      const result = await handler(await buildContext(req))
+      return result instanceof Response ? result : jsonResponse(result)
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (error.status >= 500) console.error(`${name}:`, error)
+        return errorResponse(error)
+      }
+      console.error(`${name}:`, error)
+      return errorResponse(new HttpError(500, 'internal_error', 'Something went wrong. Please try again.'))
+    }
+  })
+
+// Serves a function that requires a signed-in caller
+export const serveAuthenticated = <Schema extends z.ZodTypeAny>(
+  name: string,
+  options: HandlerOptions<Schema>,
+  handler: Handler<AuthenticatedContext<z.infer<Schema>>>
+) =>
+  run(
+    name,
+    async (req) => {
+      const supabase = createServiceClient()
+      const user = await authenticate(supabase, req)
+      return { req, supabase, user, body: await parseBody(req, options.schema) }
+    },
+    handler
+  )
+
+// Serves a function called by other services, which authenticate their own
+// way (e.g. Stripe's webhook signature)
+export const servePublic = <Schema extends z.ZodTypeAny>(
+  name: string,
+  options: HandlerOptions<Schema>,
+  handler: Handler<HandlerContext<z.infer<Schema>>>
+) =>
+  run(
+    name,
+    async (req) => ({ req, supabase: createServiceClient(), body: await parseBody(req, options.schema) }),
+    handler
+  )
+
+export type WebsitePermission = 'edit' | 'publish' | 'delete' | 'invite'
+
+// Throws unless userId collaborates on the website, with the given
+// permission when one is named
+export const requireWebsitePermission = async (
+  supabase: SupabaseClient,
+  websiteId: string,
+  userId: string,
+  permission?: WebsitePermission
+) => {
+  const { data: collaborator, error } = await supabase
+    .from('website_collaborators')
+    .select('permissions')
+    .eq('website_id', websiteId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw new HttpError(500, 'internal_error', 'Failed to check permissions')
+  if (!collaborator) throw notFound('Website not found')
+  if (permission && collaborator.permissions?.[permission] !== true) {
+    throw forbidden(`You do not have permission to ${permission} this website`)
+  }
+}
+
+// Throws unless userId has the admin role
+export const requireAdmin = async (supabase: SupabaseClient, userId: string) => {
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) throw new HttpError(500, 'internal_error', 'Failed to check permissions')
+  if (profile?.role !== 'admin') throw forbidden('Admin role required')
+}
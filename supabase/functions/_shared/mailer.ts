@@ -0,0 +1,36 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+
+// Sends plain-text email over SMTP. Without configuration it delivers to a
+// local mail catcher such as Mailpit or MailHog on localhost:1025, so
+// emails can be checked in development without sending anything.
+
+export interface Email {
+  to: string
+  subject: string
+  text: string
+}
+
+export const sendEmail = async ({ to, subject, text }: Email) => {
+  const port = Number(Deno.env.get('SMTP_PORT') ?? '1025')
+  const username = Deno.env.get('SMTP_USERNAME')
+
+  const client = new SMTPClient({
+    connection: {
+      hostname: Deno.env.get('SMTP_HOST') ?? 'localhost',
+      port,
+      tls: port === 465,
+      ...(username ? { auth: { username, password: Deno.env.get('SMTP_PASSWORD') ?? '' } } : {}),
+    },
+  })
+
+  try {
+    await client.send({
+      from: Deno.env.get('MAIL_FROM') ?? 'NCBX Billing <billing@ncbx.app>',
+      to,
+      subject,
+      content: text,
+    })
+  } finally {
+    await client.close()
+  }
+}
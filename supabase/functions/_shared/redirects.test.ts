@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { hostingConfig, parseRedirectsCsv, redirectRuleError } from './redirects.ts'
+
+describe('redirectRuleError', () => {
+  it('accepts exact and wildcard rules', () => {
+    expect(redirectRuleError({ source: '/about-us', target: '/about', status_code: 301 })).toBeNull()
+    expect(redirectRuleError({ source: '/blog/*', target: '/news/:splat', status_code: 302 })).toBeNull()
+    expect(redirectRuleError({ source: '/*', target: 'https://example.com/:splat', status_code: 301 })).toBeNull()
+  })
+
+  it('rejects wildcard rules whose target the source matches', () => {
+    expect(redirectRuleError({ source: '/*', target: '/', status_code: 301 })).toMatch(/loop/)
+    expect(redirectRuleError({ source: '/blog/*', target: '/blog/:splat', status_code: 301 })).toMatch(/loop/)
+    expect(redirectRuleError({ source: '/blog*', target: '/blog-archive/:splat', status_code: 301 })).toMatch(/loop/)
+  })
+
+  it('rejects a path redirecting to itself', () => {
+    expect(redirectRuleError({ source: '/a', target: '/a', status_code: 301 })).toBe('A path cannot redirect to itself')
+  })
+})
+
+describe('parseRedirectsCsv', () => {
+  it('skips a header on the first line that is not blank', () => {
+    const { rules, errors } = parseRedirectsCsv('\n  \r\nSource,Target,Status\n/old,/new,302\n')
+
+    expect(errors).toEqual([])
+    expect(rules).toEqual([{ source: '/old', target: '/new', status_code: 302 }])
+  })
+
+  it('reports invalid lines by their line number', () => {
+    const { rules, errors } = parseRedirectsCsv('/a,/b\n\nold,/c\n"/d, e",/f,301')
+
+    expect(rules).toEqual([{ source: '/a', target: '/b', status_code: 301 }])
+    expect(errors).toEqual([
+      'Line 3: The source must be a path starting with /',
+      'Line 4: The source cannot contain spaces, ? or #',
+    ])
+  })
+
+  it('treats a later source row as a rule', () => {
+    const { rules, errors } = parseRedirectsCsv('/a,/b\nsource,target')
+
+    expect(rules).toHaveLength(1)
+    expect(errors).toEqual(['Line 2: The source must be a path starting with /'])
+  })
+})
+
+describe('hostingConfig', () => {
+  it('orders exact sources before wildcards, longest prefix first', () => {
+    const config = hostingConfig(
+      [
+        { source: '/*', target: 'https://example.com/:splat', status_code: 301 },
+        { source: '/blog/*', target: '/news/:splat', status_code: 301 },
+        { source: '/about', target: '/team', status_code: 302 },
+      ],
+      '404.html'
+    )
+
+    expect(config.redirects.map((redirect) => redirect.source)).toEqual(['/about', '/blog/*', '/*'])
+    expect(config.notFoundPage).toBe('404.html')
+  })
+})
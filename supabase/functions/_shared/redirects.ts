@@ -0,0 +1,145 @@
+// Redirect rules a website defines for its paths, e.g. the pages of a site it
+// replaced, and the hosting config a deployment serves them from. Shared with
+// the frontend through src/lib/redirects.ts; the website_redirects table
+// applies the same format rules.
+
+export type RedirectStatusCode = 301 | 302
+
+export const REDIRECT_STATUS_CODES: RedirectStatusCode[] = [301, 302]
+
+export const MAX_REDIRECT_PATH_LENGTH = 2048
+
+export interface RedirectRule {
+  // A path such as /about-us, or a prefix ending in * such as /blog/*
+  source: string
+  // A path on this site or an absolute http(s) URL. For wildcard sources,
+  // :splat is replaced with the part of the path the * matched.
+  target: string
+  status_code: RedirectStatusCode
+}
+
+export interface WebsiteRedirect extends RedirectRule {
+  id: string
+  website_id: string
+  created_at: string
+  updated_at: string
+}
+
+// Written to hosting.json next to index.html in every deployment
+export interface HostingConfig {
+  // In the order the host should try them; the first match wins
+  redirects: { source: string; target: string; statusCode: RedirectStatusCode }[]
+  // Served with status 404 for paths that have no file and no redirect
+  notFoundPage: string | null
+}
+
+export const isWildcard = (source: string) => source.endsWith('*')
+
+// Why the rule is not allowed, or null when it is fine.
+// Keep in step with the CHECK constraints on website_redirects.
+export const redirectRuleError = (rule: RedirectRule): string | null => {
+  const { source, target, status_code } = rule
+  if (!source.startsWith('/')) {
+    return 'The source must be a path starting with /'
+  }
+  if (source.length > MAX_REDIRECT_PATH_LENGTH || target.length > MAX_REDIRECT_PATH_LENGTH) {
+    return `Paths can be at most ${MAX_REDIRECT_PATH_LENGTH} characters`
+  }
+  if (/[\s?#]/.test(source)) {
+    return 'The source cannot contain spaces, ? or #'
+  }
+  if (source.slice(0, -1).includes('*')) {
+    return 'A * can only be the last character of the source'
+  }
+  if (!/^(\/|https?:\/\/)\S*$/.test(target)) {
+    return 'The target must be a path starting with / or an http(s) URL'
+  }
+  if (!REDIRECT_STATUS_CODES.includes(status_code)) {
+    return 'The status code must be 301 or 302'
+  }
+  if (source === target) {
+    return 'A path cannot redirect to itself'
+  }
+  // Every path the target can produce would match the source again, e.g.
+  // /blog/* to /blog/:splat, so visitors would be redirected forever
+  if (isWildcard(source) && target.startsWith(source.slice(0, -1))) {
+    return 'The target is matched by the source, so the redirect would loop'
+  }
+  return null
+}
+
+export const normalizeRedirectRule = (rule: RedirectRule): RedirectRule => ({
+  source: rule.source.trim(),
+  target: rule.target.trim(),
+  status_code: rule.status_code,
+})
+
+// Splits one CSV line, honouring double-quoted fields with "" escapes
+const splitCsvLine = (line: string) => {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field)
+  return fields.map((value) => value.trim())
+}
+
+// Reads rules from CSV with the columns source, target and an optional
+// status code (301 when left out). A header row, the first line that is not
+// blank, is skipped. Lines that are not valid rules are reported by line
+// number instead of imported.
+export const parseRedirectsCsv = (text: string) => {
+  const rules: RedirectRule[] = []
+  const errors: string[] = []
+  let firstLine = true
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return
+    const [source = '', target = '', status = ''] = splitCsvLine(line)
+    const isHeader = firstLine && source.toLowerCase() === 'source'
+    firstLine = false
+    if (isHeader) return
+
+    const statusCode = status ? Number(status) : 301
+    const rule = normalizeRedirectRule({ source, target, status_code: statusCode as RedirectStatusCode })
+    const error = redirectRuleError(rule)
+    if (error) {
+      errors.push(`Line ${index + 1}: ${error}`)
+    } else {
+      rules.push(rule)
+    }
+  })
+
+  return { rules, errors }
+}
+
+// Exact sources before wildcards, and longer wildcards before shorter ones,
+// so the most specific rule matches first whatever order rules were added in
+export const hostingConfig = (rules: RedirectRule[], notFoundPage: string | null): HostingConfig => ({
+  redirects: [...rules]
+    .sort((a, b) => {
+      if (isWildcard(a.source) !== isWildcard(b.source)) return isWildcard(a.source) ? 1 : -1
+      return b.source.length - a.source.length || a.source.localeCompare(b.source)
+    })
+    .map((rule) => ({ source: rule.source, target: rule.target, statusCode: rule.status_code })),
+  notFoundPage,
+})
@@ -0,0 +1,150 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { hostingConfig } from './redirects.ts'
+import type { RedirectRule } from './redirects.ts'
+import { compileSite, notFoundPageContent } from './siteCompiler/index.ts'
+
+// Builds a deployment: compiles its version, uploads the files to the sites
+// bucket and moves the row through building to deployed or failed, logging
+// each step to build_log as it happens. A production build then becomes the
+// website's live deployment.
+//
+// Besides the page, every build writes hosting.json with the website's
+// redirect rules and, when the version has a custom 404 page, 404.html.
+
+export const SITES_BUCKET = 'sites'
+
+export interface BuildTarget {
+  deploymentId: string
+  website: { id: string; user_id: string; name: string; description?: string | null }
+  version: { id: string; version_number: number; content: unknown }
+  // Point websites.live_deployment_id at the build once it succeeds
+  promote: boolean
+}
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const formatBytes = (text: string) => {
+  const bytes = new TextEncoder().encode(text).length
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} kB`
+}
+
+export const buildDeployment = async (supabase: SupabaseClient, target: BuildTarget) => {
+  const { deploymentId, website, version, promote } = target
+
+  const log = async (line: string) => {
+    console.log(`[deployment ${deploymentId}] ${line}`)
+    const { error } = await supabase.rpc('append_deployment_log', {
+      deployment_uuid: deploymentId,
+      line: `${new Date().toISOString()} ${line}`,
+    })
+    if (error) console.error('Error writing build log:', error)
+  }
+
+  const setStatus = async (fields: Record<string, unknown>) => {
+    const { error } = await supabase
+      .from('website_deployments')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', deploymentId)
+    if (error) throw new Error(`Failed to update deployment: ${error.message}`)
+  }
+
+  try {
+    await setStatus({ status: 'building', started_at: new Date().toISOString() })
+    await log(`Compiling version ${version.version_number}`)
+
+    const site = compileSite(version.content, {
+      title: website.name,
+      description: website.description ?? undefined,
+    })
+    await log(`Compiled index.html (${formatBytes(site.html)}) and styles.css (${formatBytes(site.css)})`)
+
+    const files = [
+      { name: 'index.html', body: site.html, contentType: 'text/html; charset=utf-8' },
+      { name: 'styles.css', body: site.css, contentType: 'text/css; charset=utf-8' },
+    ]
+
+    const notFoundContent = notFoundPageContent(version.content)
+    if (notFoundContent) {
+      // Served at whatever path was not found, on the site's domain or under
+      // the storage folder of a preview, so no stylesheet link would resolve
+      // everywhere. The styles go in the page instead.
+      const notFoundPage = compileSite(notFoundContent, {
+        title: `Page not found | ${website.name}`,
+        inlineCss: true,
+      })
+      files.push({ name: '404.html', body: notFoundPage.html, contentType: 'text/html; charset=utf-8' })
+      await log(`Compiled 404.html (${formatBytes(notFoundPage.html)})`)
+    }
+
+    const { data: redirects, error: redirectsError } = await supabase
+      .from('website_redirects')
+      .select('source, target, status_code')
+      .eq('website_id', website.id)
+    if (redirectsError) throw new Error(`Failed to load redirects: ${redirectsError.message}`)
+
+    const config = hostingConfig((redirects ?? []) as RedirectRule[], notFoundContent ? '404.html' : null)
+    files.push({ name: 'hosting.json', body: JSON.stringify(config, null, 2), contentType: 'application/json' })
+    await log(`Wrote hosting.json with ${config.redirects.length} redirect${config.redirects.length === 1 ? '' : 's'}`)
+
+    // Files live under a folder named after their content, so an unchanged
+    // site reuses its folder and earlier deployments stay intact
+    const contentHash = await sha256(files.map((file) => `${file.name}\n${file.body}`).join('\n'))
+    const artifactPath = `${website.id}/${contentHash}`
+
+    // Deployed files count towards the owner's plan storage
+    const { data: storage, error: storageError } = await supabase
+      .rpc('entitlement_status', { user_uuid: website.user_id, feature_name: 'storage' })
+      .single<{ plan: string; used: number; limit_count: number | null; allowed: boolean }>()
+    if (storageError) throw new Error(`Failed to check storage: ${storageError.message}`)
+    if (!storage.allowed) {
+      throw new Error(`Storage limit reached: ${storage.used} of ${storage.limit_count} MB used on the ${storage.plan} plan`)
+    }
+
+    for (const file of files) {
+      await log(`Uploading ${artifactPath}/${file.name}`)
+      const { error } = await supabase.storage
+        .from(SITES_BUCKET)
+        .upload(`${artifactPath}/${file.name}`, new Blob([file.body], { type: file.contentType }), {
+          contentType: file.contentType,
+          cacheControl: '31536000',
+          upsert: true,
+        })
+      if (error) throw new Error(`Upload of ${file.name} failed: ${error.message}`)
+    }
+
+    await setStatus({
+      status: 'deployed',
+      artifact_path: artifactPath,
+      content_hash: contentHash,
+      finished_at: new Date().toISOString(),
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`Deployment ${deploymentId} failed:`, error)
+    await log(`Build failed: ${message}`)
+    await setStatus({ status: 'failed', finished_at: new Date().toISOString() }).catch((err) =>
+      console.error('Error marking deployment as failed:', err)
+    )
+    return
+  }
+
+  if (promote) {
+    // Builds finish in any order; one started before the live deployment
+    // was made live, by another build or a rollback, never replaces it
+    const { data: promoted, error } = await supabase.rpc('promote_finished_deployment', {
+      deployment_uuid: deploymentId,
+    })
+    if (error) {
+      // The build itself succeeded, so it stays deployed and can still be
+      // made live from the deployment history
+      console.error(`Deployment ${deploymentId} could not be made live:`, error)
+      await log(`Could not make this deployment live: ${error.message}. The previous deployment is still being served.`)
+      return
+    }
+    await log(promoted ? 'Now serving this deployment in production' : 'Another deployment was made live after this build started; not promoting this one')
+  }
+  await log('Deployment complete')
+}
@@ -0,0 +1,18 @@
+// Player and map URLs shared by the editor preview and the published site
+
+// Turns YouTube and Vimeo page links into embeddable player URLs
+export const getVideoEmbedUrl = (url: string, options: { autoplay: boolean; muted: boolean; controls: boolean }) => {
+  const params = new URLSearchParams({
+    autoplay: options.autoplay ? '1' : '0',
+    mute: options.muted ? '1' : '0',
+    controls: options.controls ? '1' : '0',
+  })
+  const youtube = url.match(/(?:youtube\.com\/(?:watch\?v=|embed\/)|youtu\.be\/)([\w-]{11})/)
+  if (youtube) return `https://www.youtube.com/embed/${youtube[1]}?${params}`
+  const vimeo = url.match(/vimeo\.com\/(?:video\/)?(\d+)/)
+  if (vimeo) return `https://player.vimeo.com/video/${vimeo[1]}?${params}`
+  return null
+}
+
+export const getMapEmbedUrl = (address: string, zoom: number) =>
+  `https://maps.google.com/maps?q=${encodeURIComponent(address)}&z=${zoom}&output=embed`
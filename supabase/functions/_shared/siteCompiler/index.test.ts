@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest'
+import { compileSite, notFoundPageContent } from './index.ts'
+import { classFor } from './markup.ts'
+import nestedContainers from './fixtures/nested-containers.json' with { type: 'json' }
+import flexStack from './fixtures/flex-stack.json' with { type: 'json' }
+import breakpointOverrides from './fixtures/breakpoint-overrides.json' with { type: 'json' }
+import htmlEscaping from './fixtures/html-escaping.json' with { type: 'json' }
+
+// The fixtures are website_versions.content documents as the editor saves them
+
+// The rules inside the @media block for the given max-width
+const mediaBlock = (css: string, width: number) => {
+  const match = css.match(new RegExp(`@media \\(max-width:${width}px\\)\\{\\n([\\s\\S]*?)\\n\\}`))
+  return match ? match[1].split('\n') : []
+}
+
+describe('compileSite', () => {
+  it('nests containers and their children in layer order', () => {
+    const { html, css } = compileSite(nestedContainers)
+
+    expect(html).toContain(
+      '<main class="ncbx-page"><section class="n-section-1"><div class="n-section-1-box"></div>' +
+        '<div class="n-container-1"><div class="n-container-1-box"></div>' +
+        '<div class="n-heading-1"><h1 class="n-heading-1-c">Welcome</h1></div>' +
+        '<div class="n-text-1"><p class="n-text-1-c">First line<br>Second line</p></div>' +
+        '</div></section>'
+    )
+    expect(css).toContain('.n-container-1{position:absolute;left:40px;top:80px;width:400px;height:300px;z-index:2}')
+    expect(css).toContain('.n-section-1-box{position:absolute;inset:0;background-color:#f9fafb}')
+    expect(css).toContain('.n-container-1-box{position:absolute;inset:0;border-radius:8px}')
+  })
+
+  it('places components whose parent was deleted on the page', () => {
+    const { html, css } = compileSite(nestedContainers)
+
+    expect(html).toContain('</section><div class="n-orphan-1"><p class="n-orphan-1-c">Orphan</p></div></main>')
+    expect(css).toContain('.ncbx-page{min-height:940px}')
+  })
+
+  it('loads the Google fonts the page uses', () => {
+    const { html } = compileSite(nestedContainers)
+
+    expect(html).toContain('href="https://fonts.googleapis.com/css2?family=Poppins:wght@400;500;600;700&amp;display=swap"')
+  })
+
+  it('lays out the children of a flex stack in flow', () => {
+    const { html, css } = compileSite(flexStack)
+
+    expect(html).toContain(
+      '<div class="n-stack-1"><div class="n-stack-1-box"></div><div class="n-stack-1-stack">' +
+        '<div class="n-button-1"><a class="ncbx-button n-button-1-c" href="/signup">Sign up</a></div>' +
+        '<div class="n-button-2"><button type="button" class="ncbx-button n-button-2-c">Learn more</button></div>' +
+        '</div></div>'
+    )
+    expect(css).toContain(
+      '.n-stack-1-stack{position:absolute;inset:0;display:flex;flex-direction:row;gap:24px;' +
+        'align-items:center;justify-content:space-between;flex-wrap:wrap;padding:8px}'
+    )
+    expect(css).toContain('.n-button-1{position:relative;flex:0 1 auto;max-width:100%;width:160px;height:48px;z-index:2}')
+    expect(css).not.toMatch(/\.n-button-1\{[^}]*left:/)
+  })
+
+  it('writes breakpoint overrides to media rules at the saved breakpoints', () => {
+    const { html, css } = compileSite(breakpointOverrides)
+
+    expect(css).not.toContain('@media (max-width:768px)')
+    expect(mediaBlock(css, 900)).toEqual([
+      '.ncbx-page{min-height:120px}',
+      '.n-hero-title{left:20px;top:60px;width:600px;height:60px}',
+      '.n-hero-title-c{font-size:32px}',
+      '.n-desktop-only{display:none}',
+    ])
+    expect(mediaBlock(css, 480)).toEqual([
+      '.ncbx-page{min-height:160px}',
+      '.n-hero-title{width:320px;height:100px}',
+      '.n-hero-title-c{font-size:24px;font-family:Lato}',
+    ])
+    expect(css).toContain('.ncbx-page{min-height:1440px}')
+    expect(html).toContain('family=Lato:wght@400;500;600;700')
+  })
+
+  it('escapes text, attributes and style values', () => {
+    const { html, css } = compileSite(htmlEscaping, { title: 'Tom & Jerry <3' })
+
+    expect(html).toContain('<title>Tom &amp; Jerry &lt;3</title>')
+    expect(html).toContain(
+      '<p class="n-text_2e_1-c">&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; Tom &amp; Jerry&#39;s</p>'
+    )
+    expect(html).toContain('alt="&quot;Quoted&quot; &lt;alt&gt;"')
+    expect(html).toContain('src="https://example.com/a.png?w=1&amp;h=2"')
+    expect(html).toContain('href="https://&quot; onclick=&quot;alert(1)"')
+    expect(html).not.toContain('<script>')
+    expect(html).not.toContain('javascript:')
+    expect(css).toContain('.n-text_2e_1-c{width:100%;height:100%;color:red/stylescriptalert(1)/script}')
+  })
+
+  it('gives ids that differ only in punctuation their own classes', () => {
+    const { html, css } = compileSite(htmlEscaping)
+
+    expect(html).toContain('<div class="n-text_2e_1">')
+    expect(html).toContain('<div class="n-text_5f_1">')
+    expect(css).toContain('.n-text_5f_1{position:absolute;left:0;top:60px;')
+  })
+
+  it('inlines the stylesheet or links it at the given path', () => {
+    const inline = compileSite(flexStack, { inlineCss: true })
+    const linked = compileSite(flexStack, { stylesheetPath: 'assets/site.css' })
+
+    expect(inline.html).toContain(`<style>\n${inline.css}\n</style>`)
+    expect(inline.html).not.toContain('rel="stylesheet"')
+    expect(linked.html).toContain('<link rel="stylesheet" href="assets/site.css">')
+  })
+
+  it('rejects content without components', () => {
+    expect(() => compileSite({ settings: {} })).toThrow('Version content has no components to compile')
+  })
+})
+
+describe('notFoundPageContent', () => {
+  it('shares the main page settings with the 404 page', () => {
+    const content = { ...breakpointOverrides, notFoundPage: { components: flexStack.components } }
+
+    expect(notFoundPageContent(content)).toEqual({
+      components: flexStack.components,
+      settings: breakpointOverrides.settings,
+    })
+    expect(notFoundPageContent(flexStack)).toBeNull()
+  })
+})
+
+describe('classFor', () => {
+  it('keeps letters, digits and dashes', () => {
+    expect(classFor('hero-Title-2')).toBe('n-hero-Title-2')
+  })
+
+  it('maps different ids to different classes', () => {
+    const ids = ['a.b', 'a_b', 'a_2e_b', 'a b', 'a:b', 'a-b', 'é', '_e9_']
+    const classes = ids.map(classFor)
+
+    expect(new Set(classes).size).toBe(ids.length)
+    classes.forEach((className) => expect(className).toMatch(/^n-[a-zA-Z0-9_-]+$/))
+  })
+})
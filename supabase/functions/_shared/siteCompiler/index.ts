@@ -0,0 +1,365 @@
+import type {
+  CompileOptions,
+  CompiledSite,
+  SiteBreakpoints,
+  SiteComponent,
+  SiteDocument,
+  SiteLayout,
+  SiteOverride,
+  StyleMap,
+} from './types.ts'
+import { attributes, classFor, escapeHtml, mergeStyles, rule } from './markup.ts'
+import { containerTags, isContainer, renderContent } from './renderers.ts'
+
+export type * from './types.ts'
+export { getMapEmbedUrl, getVideoEmbedUrl } from './embeds.ts'
+
+// Compiles saved editor content (website_versions.content) to a standalone
+// HTML page and stylesheet. Pure and dependency free so the editor export and
+// the deploy-website edge function produce the same output.
+
+const DEFAULT_BREAKPOINTS: SiteBreakpoints = { tablet: 768, mobile: 375 }
+
+const DEFAULT_LAYOUT: SiteLayout = {
+  mode: 'absolute',
+  direction: 'column',
+  gap: 16,
+  align: 'start',
+  justify: 'start',
+  wrap: false,
+  padding: 16,
+}
+
+const flexAlignment: Record<string, string> = {
+  start: 'flex-start',
+  center: 'center',
+  end: 'flex-end',
+  stretch: 'stretch',
+  'space-between': 'space-between',
+}
+
+// Web fonts offered in the editor's font picker
+const GOOGLE_FONTS = ['Inter', 'Roboto', 'Open Sans', 'Lato', 'Montserrat', 'Poppins', 'Playfair Display', 'Merriweather']
+
+type Json = Record<string, unknown>
+
+const isObject = (value: unknown): value is Json => !!value && typeof value === 'object' && !Array.isArray(value)
+
+const toNumber = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+const toStyles = (value: unknown): StyleMap =>
+  isObject(value)
+    ? Object.fromEntries(
+        Object.entries(value).filter((entry): entry is [string, string | number] =>
+          typeof entry[1] === 'string' || typeof entry[1] === 'number'
+        )
+      )
+    : {}
+
+const toPosition = (value: unknown) =>
+  isObject(value) ? { x: toNumber(value.x, 0), y: toNumber(value.y, 0) } : undefined
+
+const toSize = (value: unknown) =>
+  isObject(value) ? { width: toNumber(value.width, 0), height: toNumber(value.height, 0) } : undefined
+
+const toOverride = (value: unknown): SiteOverride | undefined =>
+  isObject(value)
+    ? {
+        styles: isObject(value.styles) ? toStyles(value.styles) : undefined,
+        position: toPosition(value.position),
+        size: toSize(value.size),
+        hidden: typeof value.hidden === 'boolean' ? value.hidden : undefined,
+      }
+    : undefined
+
+const toLayout = (value: unknown): SiteLayout | undefined =>
+  isObject(value) ? ({ ...DEFAULT_LAYOUT, ...value } as SiteLayout) : undefined
+
+// Fills in the defaults the editor applies when it loads a version, skipping
+// entries that are not components at all
+export const normalizeDocument = (content: unknown): SiteDocument => {
+  if (!isObject(content) || !Array.isArray(content.components)) {
+    throw new Error('Version content has no components to compile')
+  }
+
+  const components = content.components
+    .filter((item): item is Json => isObject(item) && typeof item.id === 'string' && typeof item.type === 'string')
+    .map((item): SiteComponent => ({
+      id: item.id as string,
+      type: item.type as string,
+      parentId: typeof item.parentId === 'string' ? item.parentId : null,
+      content: typeof item.content === 'string' ? item.content : '',
+      styles: toStyles(item.styles),
+      props: isObject(item.props) ? item.props : {},
+      position: toPosition(item.position) ?? { x: 0, y: 0 },
+      size: toSize(item.size) ?? { width: 0, height: 0 },
+      hidden: item.hidden === true,
+      layer: toNumber(item.layer, 1),
+      layout: toLayout(item.layout),
+      responsive: isObject(item.responsive)
+        ? { tablet: toOverride(item.responsive.tablet), mobile: toOverride(item.responsive.mobile) }
+        : undefined,
+    }))
+
+  const settings = isObject(content.settings) ? content.settings : {}
+  const breakpoints = isObject(settings.breakpoints) ? settings.breakpoints : {}
+
+  return {
+    components,
+    breakpoints: {
+      tablet: toNumber(breakpoints.tablet, DEFAULT_BREAKPOINTS.tablet),
+      mobile: toNumber(breakpoints.mobile, DEFAULT_BREAKPOINTS.mobile),
+    },
+  }
+}
+
+// The custom 404 page saved next to the main page, as content compileSite
+// accepts, or null when the website uses the host's default 404 page. It
+// shares the main page's breakpoints.
+export const notFoundPageContent = (content: unknown): Json | null => {
+  if (!isObject(content) || !isObject(content.notFoundPage)) return null
+  return { ...content.notFoundPage, settings: content.settings }
+}
+
+const BASE_CSS = [
+  '*,*::before,*::after{box-sizing:border-box}',
+  'body{margin:0;font-family:Inter,system-ui,sans-serif;color:#111827;-webkit-font-smoothing:antialiased}',
+  '.ncbx-page{position:relative;width:100%;margin:0 auto;overflow-x:hidden}',
+  'h1,h2,h3,p,figure,blockquote,ul{margin:0}',
+  '.ncbx-link{display:block;width:100%;height:100%;color:inherit;text-decoration:none}',
+  '.ncbx-button{display:flex;align-items:center;justify-content:center;text-decoration:none;border:0;cursor:pointer}',
+  '.ncbx-image{display:block;object-fit:cover}',
+  '.ncbx-center{display:flex;align-items:center;justify-content:center}',
+  '.ncbx-embed{overflow:hidden}.ncbx-embed iframe,.ncbx-embed video{display:block;width:100%;height:100%;border:0}',
+  '.ncbx-gallery{display:grid;gap:8px;overflow:hidden}.ncbx-gallery img{display:block;width:100%;height:100%;object-fit:cover;border-radius:4px}',
+  '.ncbx-form{display:flex;flex-direction:column;gap:12px;overflow:hidden}.ncbx-form label,.ncbx-field{display:flex;flex-direction:column;gap:4px;font-size:14px}',
+  '.ncbx-form input,.ncbx-form textarea,.ncbx-field input,.ncbx-field textarea{padding:8px 12px;border:1px solid #d1d5db;border-radius:4px;font:inherit}',
+  '.ncbx-field textarea{flex:1;resize:none}',
+  '.ncbx-form button{align-self:flex-start;padding:8px 16px;border:0;border-radius:4px;background:#2563eb;color:#fff;font-weight:500;cursor:pointer}',
+  '.ncbx-checkbox{display:flex;align-items:center;gap:8px;font-size:14px}',
+  '.ncbx-testimonials,.ncbx-pricing{display:grid;gap:16px}',
+  '.ncbx-testimonials figure{display:flex;flex-direction:column;padding:16px;background:#fff;border:1px solid #f3f4f6;border-radius:8px}',
+  '.ncbx-testimonials blockquote{flex:1;font-style:italic;color:#374151}.ncbx-testimonials figcaption{margin-top:12px;font-size:14px;color:#6b7280}',
+  '.ncbx-testimonials strong{color:#111827}',
+  '.ncbx-pricing article{display:flex;flex-direction:column;padding:20px;background:#fff;border:1px solid #e5e7eb;border-radius:8px}',
+  '.ncbx-pricing article.is-highlighted{background:#eff6ff;border-color:#3b82f6;box-shadow:0 10px 15px -3px rgba(0,0,0,.1)}',
+  '.ncbx-price{margin:12px 0}.ncbx-price strong{font-size:30px}.ncbx-price span{font-size:14px;color:#6b7280}',
+  '.ncbx-pricing ul{flex:1;padding:0;list-style:none;font-size:14px;color:#374151}',
+  '.ncbx-cta{margin-top:16px;padding:8px 16px;border-radius:4px;background:#f3f4f6;text-align:center;font-weight:500}',
+  '.is-highlighted .ncbx-cta{background:#2563eb;color:#fff}',
+  '.ncbx-social ul{display:flex;align-items:center;gap:12px;height:100%;padding:0;list-style:none}',
+  '.ncbx-social a{padding:4px 12px;border-radius:9999px;background:#f3f4f6;color:#374151;font-size:14px;text-decoration:none}',
+  '.ncbx-blog{display:flex;flex-direction:column;gap:16px;overflow:hidden}.ncbx-blog article{padding-bottom:12px;border-bottom:1px solid #f3f4f6}',
+  '.ncbx-blog h3{font-size:16px}.ncbx-blog a{color:inherit}.ncbx-blog time{font-size:12px;color:#6b7280}.ncbx-blog p{margin-top:4px;font-size:14px;color:#374151}',
+].join('\n')
+
+// Counts down every [data-countdown] element once a second
+const COUNTDOWN_SCRIPT = `document.querySelectorAll('[data-countdown]').forEach(function(el){var target=new Date(el.dataset.countdown).getTime();function tick(){var left=target-Date.now();if(!(left>0)){el.textContent=el.dataset.expired||'';return false}var d=Math.floor(left/864e5),h=Math.floor(left/36e5)%24,m=Math.floor(left/6e4)%60,s=Math.floor(left/1e3)%60;el.textContent=d+'d '+h+'h '+m+'m '+s+'s';return true}if(tick()){var timer=setInterval(function(){if(!tick())clearInterval(timer)},1000)}})`
+
+const SMALLER_BREAKPOINTS = ['tablet', 'mobile'] as const
+
+type SmallerBreakpoint = typeof SMALLER_BREAKPOINTS[number]
+
+// The component as it renders at a breakpoint; tablet values carry down to mobile
+const resolveAt = (component: SiteComponent, breakpoint: 'desktop' | SmallerBreakpoint): SiteComponent => {
+  const cascade = breakpoint === 'desktop' ? [] : SMALLER_BREAKPOINTS.slice(0, SMALLER_BREAKPOINTS.indexOf(breakpoint) + 1)
+  return cascade.reduce((resolved, name) => {
+    const override = component.responsive?.[name]
+    return override
+      ? {
+          ...resolved,
+          styles: mergeStyles(resolved.styles, override.styles),
+          position: override.position ?? resolved.position,
+          size: override.size ?? resolved.size,
+          hidden: override.hidden ?? resolved.hidden,
+        }
+      : resolved
+  }, component)
+}
+
+interface Compilation {
+  children: Map<string | null, SiteComponent[]>
+  byId: Map<string, SiteComponent>
+  css: { desktop: string[]; tablet: string[]; mobile: string[] }
+  hasHeading: boolean
+  hasCountdown: boolean
+  fonts: Set<string>
+}
+
+const isInFlow = (compilation: Compilation, component: SiteComponent) =>
+  !!component.parentId && compilation.byId.get(component.parentId)?.layout?.mode === 'flex'
+
+const collectFonts = (compilation: Compilation, styles: StyleMap) => {
+  const family = typeof styles.fontFamily === 'string' ? styles.fontFamily.split(',')[0].trim().replace(/['"]/g, '') : ''
+  if (GOOGLE_FONTS.includes(family)) compilation.fonts.add(family)
+}
+
+// Layout rules for the element that places the component
+const placementStyles = (component: SiteComponent, inFlow: boolean) => ({
+  ...(inFlow
+    ? { position: 'relative', flex: '0 1 auto', maxWidth: '100%' }
+    : { position: 'absolute', left: component.position.x, top: component.position.y }),
+  width: component.size.width,
+  height: component.size.height,
+  zIndex: component.layer,
+  display: component.hidden ? 'none' : undefined,
+})
+
+const stackStyles = (layout: SiteLayout) => ({
+  position: 'absolute',
+  inset: 0,
+  display: 'flex',
+  flexDirection: layout.direction,
+  gap: layout.gap,
+  alignItems: flexAlignment[layout.align],
+  justifyContent: flexAlignment[layout.justify],
+  flexWrap: layout.wrap ? 'wrap' : 'nowrap',
+  padding: layout.padding,
+})
+
+// Rules that differ from the desktop design at a smaller breakpoint
+const addOverrideRules = (
+  compilation: Compilation,
+  component: SiteComponent,
+  inFlow: boolean,
+  contentSelector: string
+) => {
+  const outer = `.${classFor(component.id)}`
+  SMALLER_BREAKPOINTS.forEach((breakpoint) => {
+    const override = component.responsive?.[breakpoint]
+    if (!override) return
+    const rules = compilation.css[breakpoint]
+    rules.push(
+      rule(outer, {
+        left: !inFlow ? override.position?.x : undefined,
+        top: !inFlow ? override.position?.y : undefined,
+        width: override.size?.width,
+        height: override.size?.height,
+        display: override.hidden === undefined ? undefined : override.hidden ? 'none' : 'block',
+      })
+    )
+    if (override.styles) {
+      collectFonts(compilation, override.styles)
+      rules.push(rule(contentSelector, override.styles))
+    }
+  })
+}
+
+const compileComponent = (compilation: Compilation, component: SiteComponent): string => {
+  const className = classFor(component.id)
+  const inFlow = isInFlow(compilation, component)
+  collectFonts(compilation, component.styles)
+  compilation.css.desktop.push(rule(`.${className}`, placementStyles(component, inFlow)))
+
+  if (isContainer(component.type)) {
+    const tag = containerTags[component.type]
+    const layout = component.layout ?? DEFAULT_LAYOUT
+    const children = (compilation.children.get(component.id) ?? [])
+      .map((child) => compileComponent(compilation, child))
+      .join('')
+    compilation.css.desktop.push(rule(`.${className}-box`, { position: 'absolute', inset: 0, ...component.styles }))
+    addOverrideRules(compilation, component, inFlow, `.${className}-box`)
+
+    let inner = children
+    if (layout.mode === 'flex') {
+      compilation.css.desktop.push(rule(`.${className}-stack`, stackStyles(layout)))
+      inner = `<div class="${className}-stack">${children}</div>`
+    }
+    return `<${tag} class="${className}"><div class="${className}-box"></div>${inner}</${tag}>`
+  }
+
+  const contentClass = `${className}-c`
+  compilation.css.desktop.push(rule(`.${contentClass}`, { width: '100%', height: '100%', ...component.styles }))
+  addOverrideRules(compilation, component, inFlow, `.${contentClass}`)
+
+  const isFirstHeading = component.type === 'heading' && !compilation.hasHeading
+  if (component.type === 'heading') compilation.hasHeading = true
+  if (component.type === 'countdown') compilation.hasCountdown = true
+
+  const content = renderContent({ component, className: contentClass, isFirstHeading })
+  return `<div class="${className}">${content}</div>`
+}
+
+// Bottom edge of the lowest top-level component, so the page is tall enough
+// to scroll to everything placed on it
+const pageHeight = (roots: SiteComponent[], breakpoint: 'desktop' | SmallerBreakpoint) =>
+  roots.reduce((height, root) => {
+    const resolved = resolveAt(root, breakpoint)
+    return resolved.hidden ? height : Math.max(height, resolved.position.y + resolved.size.height)
+  }, 0)
+
+export const compileSite = (content: unknown, options: CompileOptions = {}): CompiledSite => {
+  const site = normalizeDocument(content)
+  const byId = new Map(site.components.map((component) => [component.id, component]))
+
+  // Components whose parent no longer exists are placed on the page
+  const children = new Map<string | null, SiteComponent[]>()
+  site.components.forEach((component) => {
+    const parentId = component.parentId && byId.has(component.parentId) ? component.parentId : null
+    const siblings = children.get(parentId) ?? []
+    siblings.push(parentId === component.parentId ? component : { ...component, parentId: null })
+    children.set(parentId, siblings)
+  })
+  children.forEach((siblings) => siblings.sort((a, b) => a.layer - b.layer))
+
+  const compilation: Compilation = {
+    children,
+    byId,
+    css: { desktop: [], tablet: [], mobile: [] },
+    hasHeading: false,
+    hasCountdown: false,
+    fonts: new Set(),
+  }
+
+  const roots = children.get(null) ?? []
+  const body = roots.map((root) => compileComponent(compilation, root)).join('')
+
+  compilation.css.desktop.unshift(rule('.ncbx-page', { minHeight: pageHeight(roots, 'desktop') }))
+  compilation.css.tablet.unshift(rule('.ncbx-page', { minHeight: pageHeight(roots, 'tablet') }))
+  compilation.css.mobile.unshift(rule('.ncbx-page', { minHeight: pageHeight(roots, 'mobile') }))
+
+  const media = (width: number, rules: string[]) => {
+    const block = rules.filter(Boolean).join('\n')
+    return block ? `@media (max-width:${width}px){\n${block}\n}` : ''
+  }
+
+  const css = [
+    BASE_CSS,
+    compilation.css.desktop.filter(Boolean).join('\n'),
+    media(site.breakpoints.tablet, compilation.css.tablet),
+    media(site.breakpoints.mobile, compilation.css.mobile),
+  ]
+    .filter(Boolean)
+    .join('\n')
+
+  const fonts = [...compilation.fonts]
+  const fontLink = fonts.length
+    ? `<link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>\n<link${attributes({
+        rel: 'stylesheet',
+        href: `https://fonts.googleapis.com/css2?${fonts
+          .map((font) => `family=${font.replace(/ /g, '+')}:wght@400;500;600;700`)
+          .join('&')}&display=swap`,
+      })}>\n`
+    : ''
+
+  const stylesheet = options.inlineCss
+    ? `<style>\n${css}\n</style>`
+    : `<link rel="stylesheet" href="${escapeHtml(options.stylesheetPath ?? 'styles.css')}">`
+
+  const html = `<!DOCTYPE html>
+<html lang="${escapeHtml(options.lang ?? 'en')}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(options.title ?? '')}</title>
+${options.description ? `<meta name="description" content="${escapeHtml(options.description)}">\n` : ''}${fontLink}${stylesheet}
+</head>
+<body>
+<main class="ncbx-page">${body}</main>
+${compilation.hasCountdown ? `<script>${COUNTDOWN_SCRIPT}</script>\n` : ''}</body>
+</html>
+`
+
+  return { html, css }
+}
@@ -0,0 +1,72 @@
+import type { StyleMap } from './types.ts'
+
+// Escaping and CSS helpers for the site compiler
+
+export const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+// Text content keeps the line breaks typed in the editor
+export const escapeText = (value: unknown) => escapeHtml(value).replace(/\n/g, '<br>')
+
+// Links may only point at web pages, email, phone numbers or the same page
+export const safeUrl = (value: unknown) => {
+  const url = String(value ?? '').trim()
+  if (!url) return ''
+  if (/^(https?:|mailto:|tel:|\/|#|\.)/i.test(url)) return url
+  return /^[a-z][a-z0-9+.-]*:/i.test(url) ? '' : `https://${url}`
+}
+
+export const attributes = (attrs: Record<string, string | number | boolean | undefined>) =>
+  Object.entries(attrs)
+    .filter(([, value]) => value !== undefined && value !== false && value !== '')
+    .map(([name, value]) => (value === true ? ` ${name}` : ` ${name}="${escapeHtml(value)}"`))
+    .join('')
+
+// Numbers React renders without a px suffix
+const UNITLESS = new Set([
+  'opacity',
+  'zIndex',
+  'fontWeight',
+  'lineHeight',
+  'flex',
+  'flexGrow',
+  'flexShrink',
+  'order',
+  'zoom',
+])
+
+const toKebabCase = (property: string) => property.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)
+
+// Values come from users, so nothing that could close the rule or the
+// surrounding <style> element survives
+const sanitizeCssValue = (value: string) => value.replace(/[;{}<>]/g, '').trim()
+
+export const declarations = (styles: Record<string, string | number | undefined>) =>
+  Object.entries(styles)
+    .filter(([property, value]) => value !== undefined && value !== '' && /^[a-zA-Z-]+$/.test(property))
+    .map(([property, value]) => {
+      const css =
+        typeof value === 'number' && !UNITLESS.has(property) && value !== 0 ? `${value}px` : String(value)
+      return `${toKebabCase(property)}:${sanitizeCssValue(css)}`
+    })
+    .filter((declaration) => !declaration.endsWith(':'))
+    .join(';')
+
+export const rule = (selector: string, styles: Record<string, string | number | undefined>) => {
+  const body = declarations(styles)
+  return body ? `${selector}{${body}}` : ''
+}
+
+export const mergeStyles = (...styles: (StyleMap | undefined)[]) =>
+  Object.assign({}, ...styles) as StyleMap
+
+// Class-safe version of a component id. Every character other than letters,
+// digits and - becomes _<hex code point>_, _ included, so different ids never
+// share a class (a.b is n-a_2e_b, a_b is n-a_5f_b).
+export const classFor = (id: string) =>
+  `n-${Array.from(id, (char) => (/[a-zA-Z0-9-]/.test(char) ? char : `_${(char.codePointAt(0) ?? 0).toString(16)}_`)).join('')}`
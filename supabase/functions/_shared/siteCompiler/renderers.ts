@@ -0,0 +1,249 @@
+import type { SiteComponent } from './types.ts'
+import { attributes, escapeHtml, escapeText, safeUrl } from './markup.ts'
+import { getMapEmbedUrl, getVideoEmbedUrl } from './embeds.ts'
+
+// Static markup for the content of each component type. The element returned
+// carries className, which the stylesheet sizes to fill the component's box.
+
+export interface RenderContext {
+  component: SiteComponent
+  className: string
+  // The first heading on the page becomes the <h1>
+  isFirstHeading: boolean
+}
+
+type Renderer = (context: RenderContext) => string
+
+type Item = Record<string, unknown>
+
+const text = (props: Item, key: string, fallback = '') =>
+  typeof props[key] === 'string' ? (props[key] as string) : fallback
+
+const flag = (props: Item, key: string, fallback = false) =>
+  typeof props[key] === 'boolean' ? (props[key] as boolean) : fallback
+
+const number = (props: Item, key: string, fallback: number) =>
+  typeof props[key] === 'number' && Number.isFinite(props[key]) ? (props[key] as number) : fallback
+
+const list = (props: Item, key: string): Item[] =>
+  Array.isArray(props[key]) ? (props[key] as unknown[]).filter((item): item is Item => !!item && typeof item === 'object') : []
+
+// Wraps content in a link when the component has one
+const withLink = (props: Item, markup: string) => {
+  const href = safeUrl(text(props, 'href'))
+  if (!href) return markup
+  const newTab = flag(props, 'openInNewTab')
+  return `<a${attributes({
+    class: 'ncbx-link',
+    href,
+    target: newTab ? '_blank' : undefined,
+    rel: newTab ? 'noopener noreferrer' : undefined,
+  })}>${markup}</a>`
+}
+
+// Stable field name for a form field label, e.g. "Email address" -> "email_address"
+const fieldName = (label: string, index: number) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || `field_${index + 1}`
+
+const renderers: Record<string, Renderer> = {
+  text: ({ component, className }) =>
+    withLink(component.props, `<p class="${className}">${escapeText(component.content)}</p>`),
+
+  heading: ({ component, className, isFirstHeading }) => {
+    const tag = isFirstHeading ? 'h1' : 'h2'
+    return `<${tag} class="${className}">${escapeText(component.content)}</${tag}>`
+  },
+
+  button: ({ component, className }) => {
+    const href = safeUrl(text(component.props, 'href'))
+    const label = escapeText(component.content)
+    if (!href) return `<button type="button" class="ncbx-button ${className}">${label}</button>`
+    const newTab = flag(component.props, 'openInNewTab')
+    return `<a${attributes({
+      class: `ncbx-button ${className}`,
+      href,
+      target: newTab ? '_blank' : undefined,
+      rel: newTab ? 'noopener noreferrer' : undefined,
+    })}>${label}</a>`
+  },
+
+  divider: ({ className }) => `<hr class="${className}">`,
+
+  image: ({ component, className }) => {
+    const src = safeUrl(text(component.props, 'src'))
+    if (!src) return `<div class="${className}"></div>`
+    return `<img${attributes({ class: `ncbx-image ${className}`, src, alt: text(component.props, 'alt'), loading: 'lazy' })}>`
+  },
+
+  video: ({ component, className }) => {
+    const { props } = component
+    const url = text(props, 'url')
+    const options = {
+      autoplay: flag(props, 'autoplay'),
+      muted: flag(props, 'muted'),
+      controls: flag(props, 'controls', true),
+    }
+    const embedUrl = url && getVideoEmbedUrl(url, options)
+    const player = embedUrl
+      ? `<iframe${attributes({ src: embedUrl, title: 'Video', allow: 'autoplay; fullscreen', allowfullscreen: true, loading: 'lazy' })}></iframe>`
+      : url
+        ? `<video${attributes({ src: safeUrl(url), autoplay: options.autoplay, muted: options.muted, controls: options.controls, playsinline: true })}></video>`
+        : ''
+    return `<div class="ncbx-embed ${className}">${player}</div>`
+  },
+
+  gallery: ({ component, className }) => {
+    const columns = Math.min(6, Math.max(1, number(component.props, 'columns', 3)))
+    const images = list(component.props, 'images')
+      .map((image) => `<figure><img${attributes({ src: safeUrl(image.src), alt: text(image, 'alt'), loading: 'lazy' })}></figure>`)
+      .join('')
+    return `<div class="ncbx-gallery ${className}" style="grid-template-columns:repeat(${columns},1fr)">${images}</div>`
+  },
+
+  icon: ({ component, className }) =>
+    `<div class="ncbx-center ${className}" style="font-size:${number(component.props, 'size', 48)}px" aria-hidden="true">${escapeHtml(
+      text(component.props, 'icon', '⭐')
+    )}</div>`,
+
+  form: ({ component, className }) => {
+    const { props } = component
+    const action = text(props, 'action').trim()
+    // An email address sends submissions through the visitor's mail app
+    const formAttributes = action.includes('@') && !action.includes('/')
+      ? { action: `mailto:${action}`, method: 'post', enctype: 'text/plain' }
+      : { action: safeUrl(action) || undefined, method: 'post' }
+    const title = text(props, 'title')
+    const fields = list(props, 'fields')
+      .map((field, index) => {
+        const label = text(field, 'label')
+        const required = flag(field, 'required')
+        const type = text(field, 'type', 'text')
+        const control = type === 'textarea'
+          ? `<textarea${attributes({ name: fieldName(label, index), rows: 3, required })}></textarea>`
+          : `<input${attributes({ type, name: fieldName(label, index), required })}>`
+        return `<label><span>${escapeHtml(label)}${required ? ' *' : ''}</span>${control}</label>`
+      })
+      .join('')
+    return `<form${attributes({ class: `ncbx-form ${className}`, ...formAttributes })}>${
+      title ? `<h3>${escapeHtml(title)}</h3>` : ''
+    }${fields}<button type="submit">${escapeHtml(text(props, 'submitLabel', 'Send'))}</button></form>`
+  },
+
+  input: ({ component, className }) => {
+    const { props } = component
+    const label = text(props, 'label')
+    const required = flag(props, 'required')
+    return `<label class="ncbx-field ${className}">${label ? `<span>${escapeHtml(label)}${required ? ' *' : ''}</span>` : ''}<input${attributes({
+      type: text(props, 'inputType', 'text'),
+      name: text(props, 'name'),
+      placeholder: text(props, 'placeholder'),
+      required,
+    })}></label>`
+  },
+
+  textarea: ({ component, className }) => {
+    const { props } = component
+    const label = text(props, 'label')
+    const required = flag(props, 'required')
+    return `<label class="ncbx-field ${className}">${label ? `<span>${escapeHtml(label)}${required ? ' *' : ''}</span>` : ''}<textarea${attributes({
+      name: text(props, 'name'),
+      placeholder: text(props, 'placeholder'),
+      rows: number(props, 'rows', 4),
+      required,
+    })}></textarea></label>`
+  },
+
+  checkbox: ({ component, className }) =>
+    `<label class="ncbx-checkbox ${className}"><input${attributes({
+      type: 'checkbox',
+      name: text(component.props, 'name'),
+      checked: flag(component.props, 'checked'),
+    })}><span>${escapeHtml(text(component.props, 'label'))}</span></label>`,
+
+  map: ({ component, className }) => {
+    const address = text(component.props, 'address')
+    return `<div class="ncbx-embed ${className}"><iframe${attributes({
+      src: getMapEmbedUrl(address, number(component.props, 'zoom', 13)),
+      title: `Map of ${address}`,
+      loading: 'lazy',
+    })}></iframe></div>`
+  },
+
+  testimonials: ({ component, className }) => {
+    const items = list(component.props, 'items')
+    const figures = items
+      .map((item) => {
+        const role = text(item, 'role')
+        return `<figure><blockquote>“${escapeHtml(text(item, 'quote'))}”</blockquote><figcaption><strong>${escapeHtml(
+          text(item, 'author')
+        )}</strong>${role ? `<span> · ${escapeHtml(role)}</span>` : ''}</figcaption></figure>`
+      })
+      .join('')
+    return `<div class="ncbx-testimonials ${className}" style="grid-template-columns:repeat(${Math.max(1, items.length)},1fr)">${figures}</div>`
+  },
+
+  pricing: ({ component, className }) => {
+    const tiers = list(component.props, 'tiers')
+    const cards = tiers
+      .map((tier) => {
+        const features = (Array.isArray(tier.features) ? tier.features : [])
+          .map((feature) => `<li>✓ ${escapeHtml(feature)}</li>`)
+          .join('')
+        return `<article${attributes({ class: flag(tier, 'highlighted') ? 'is-highlighted' : undefined })}><h3>${escapeHtml(
+          text(tier, 'name')
+        )}</h3><p class="ncbx-price"><strong>${escapeHtml(text(tier, 'price'))}</strong><span>${escapeHtml(
+          text(tier, 'period')
+        )}</span></p><ul>${features}</ul><span class="ncbx-cta">${escapeHtml(text(tier, 'ctaLabel'))}</span></article>`
+      })
+      .join('')
+    return `<div class="ncbx-pricing ${className}" style="grid-template-columns:repeat(${Math.max(1, tiers.length)},1fr)">${cards}</div>`
+  },
+
+  // Filled in by the countdown script in the page
+  countdown: ({ component, className }) =>
+    `<div${attributes({
+      class: `ncbx-center ${className}`,
+      'data-countdown': text(component.props, 'targetDate'),
+      'data-expired': text(component.props, 'expiredLabel'),
+    })}></div>`,
+
+  social: ({ component, className }) => {
+    const links = list(component.props, 'links')
+      .map((link) => `<li><a${attributes({ href: safeUrl(link.url), target: '_blank', rel: 'noopener noreferrer' })}>${escapeHtml(
+        text(link, 'platform')
+      )}</a></li>`)
+      .join('')
+    return `<nav class="ncbx-social ${className}" aria-label="Social links"><ul>${links}</ul></nav>`
+  },
+
+  blog: ({ component, className }) => {
+    const posts = list(component.props, 'posts')
+      .map((post) => {
+        const url = safeUrl(post.url)
+        const title = escapeHtml(text(post, 'title'))
+        const date = text(post, 'date')
+        const excerpt = text(post, 'excerpt')
+        return `<article><h3>${url ? `<a href="${escapeHtml(url)}">${title}</a>` : title}</h3>${
+          date ? `<time datetime="${escapeHtml(date)}">${escapeHtml(date)}</time>` : ''
+        }${excerpt ? `<p>${escapeHtml(excerpt)}</p>` : ''}</article>`
+      })
+      .join('')
+    return `<div class="ncbx-blog ${className}">${posts}</div>`
+  },
+}
+
+// Types the compiler has no renderer for, such as in-house types only the
+// editor knows, fall back to their text content
+export const renderContent = (context: RenderContext) =>
+  (renderers[context.component.type] ?? renderers.text)(context)
+
+// Semantic wrapper elements for container types
+export const containerTags: Record<string, string> = {
+  section: 'section',
+  hero: 'header',
+  container: 'div',
+  columns: 'div',
+  column: 'div',
+}
+
+export const isContainer = (type: string) => type in containerTags
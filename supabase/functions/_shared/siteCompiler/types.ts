@@ -0,0 +1,63 @@
+// The editor document as stored in website_versions.content. Kept free of
+// imports so the compiler runs unchanged in the browser and in Deno.
+
+export type StyleMap = Record<string, string | number>
+
+export interface SiteLayout {
+  mode: 'absolute' | 'flex'
+  direction: 'column' | 'row'
+  gap: number
+  align: 'start' | 'center' | 'end' | 'stretch'
+  justify: 'start' | 'center' | 'end' | 'space-between'
+  wrap: boolean
+  padding: number
+}
+
+export interface SiteOverride {
+  styles?: StyleMap
+  position?: { x: number; y: number }
+  size?: { width: number; height: number }
+  hidden?: boolean
+}
+
+export interface SiteComponent {
+  id: string
+  type: string
+  parentId: string | null
+  content: string
+  styles: StyleMap
+  props: Record<string, unknown>
+  position: { x: number; y: number }
+  size: { width: number; height: number }
+  hidden: boolean
+  layer: number
+  layout?: SiteLayout
+  responsive?: {
+    tablet?: SiteOverride
+    mobile?: SiteOverride
+  }
+}
+
+export interface SiteBreakpoints {
+  tablet: number
+  mobile: number
+}
+
+export interface SiteDocument {
+  components: SiteComponent[]
+  breakpoints: SiteBreakpoints
+}
+
+export interface CompileOptions {
+  title?: string
+  description?: string
+  lang?: string
+  // Embed the stylesheet in the page instead of linking to stylesheetPath
+  inlineCss?: boolean
+  stylesheetPath?: string
+}
+
+export interface CompiledSite {
+  html: string
+  css: string
+}
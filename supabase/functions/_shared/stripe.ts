@@ -0,0 +1,98 @@
+import Stripe from 'https://esm.sh/stripe@14.21.0'
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export { Stripe }
+
+// STRIPE_API_BASE points the client at another API host, such as a local
+// stripe-mock server (http://localhost:12111) in tests
+const apiBase = Deno.env.get('STRIPE_API_BASE')
+const apiUrl = apiBase ? new URL(apiBase) : null
+
+export const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+  apiVersion: '2023-10-16',
+  ...(apiUrl
+    ? {
+        host: apiUrl.hostname,
+        port: apiUrl.port || (apiUrl.protocol === 'https:' ? '443' : '80'),
+        protocol: apiUrl.protocol.replace(':', '') as 'http' | 'https',
+      }
+    : {}),
+})
+
+// The plan a Stripe price belongs to
+export const planIdForPrice = (priceId: string): string => {
+  const priceMap: Record<string, string> = {
+    'price_pro_monthly': 'pro',
+    'price_business_monthly': 'business',
+    'price_pro_yearly': 'pro',
+    'price_business_yearly': 'business',
+  }
+
+  return priceMap[priceId] || 'free'
+}
+
+const toIso = (seconds: number | null) => (seconds ? new Date(seconds * 1000).toISOString() : null)
+
+// The user's Stripe customer id, if they have ever checked out
+export const findCustomerId = async (supabase: SupabaseClient, userId: string) => {
+  const { data } = await supabase
+    .from('subscriptions')
+    .select('stripe_customer_id')
+    .eq('user_id', userId)
+    .maybeSingle()
+  return (data?.stripe_customer_id as string | undefined) ?? null
+}
+
+// Reuses the customer from an earlier subscription so all of a user's
+// payments share one Stripe customer
+export const getOrCreateCustomerId = async (supabase: SupabaseClient, user: User) => {
+  const existing = await findCustomerId(supabase, user.id)
+  if (existing) return existing
+
+  const customer = await stripe.customers.create({
+    email: user.email,
+    metadata: {
+      supabase_user_id: user.id,
+    },
+  })
+  return customer.id
+}
+
+// The subscription the user is currently billed for, if any
+export const findCurrentSubscription = async (supabase: SupabaseClient, userId: string) => {
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .select('*')
+    .eq('user_id', userId)
+    .in('status', ['active', 'trialing', 'past_due'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load subscription: ${error.message}`)
+  return data
+}
+
+// Copies the billing state Stripe returned onto the subscriptions row, so
+// the change shows before the matching webhook arrives. last_event_at is
+// left to the webhook: the event for this change was created before the API
+// call returned, and it still has to reach handleSubscriptionChange to
+// update profiles.plan.
+export const syncSubscriptionRow = async (supabase: SupabaseClient, subscription: Stripe.Subscription) => {
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .update({
+      status: subscription.status,
+      plan_id: planIdForPrice(subscription.items.data[0]?.price.id),
+      price_id: subscription.items.data[0]?.price.id,
+      cancel_at_period_end: subscription.cancel_at_period_end,
+      canceled_at: toIso(subscription.canceled_at),
+      current_period_start: toIso(subscription.current_period_start),
+      current_period_end: toIso(subscription.current_period_end),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('stripe_subscription_id', subscription.id)
+    .select()
+    .single()
+  if (error) throw new Error(`Failed to update subscription: ${error.message}`)
+  return data
+}
@@ -0,0 +1,335 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { recordCouponRedemption } from './coupons.ts'
+import { handlePaymentFailed, handlePaymentSucceeded } from './dunning.ts'
+import { planIdForPrice, Stripe, stripe } from './stripe.ts'
+
+// Applies Stripe webhook events through the stripe_events ledger. Every
+// event is recorded before it is applied, so a redelivered event is skipped
+// and a failed one keeps its payload for an admin to replay.
+
+export type StripeEventStatus = 'received' | 'processing' | 'processed' | 'skipped' | 'failed'
+
+export interface StripeEventRow {
+  id: string
+  type: string
+  payload: Stripe.Event
+  status: StripeEventStatus
+  error: string | null
+  attempts: number
+  stripe_created_at: string
+  received_at: string
+  last_attempt_at: string | null
+  processed_at: string | null
+}
+
+// 'skipped' means the event was older than state already applied
+type EventOutcome = 'processed' | 'skipped'
+
+const toIso = (seconds: number | null) => (seconds ? new Date(seconds * 1000).toISOString() : null)
+
+const check = <T>({ data, error }: { data: T; error: { message: string } | null }, action: string) => {
+  if (error) throw new Error(`Failed to ${action}: ${error.message}`)
+  return data
+}
+
+// Adds the event to the ledger; a redelivery leaves the existing row alone
+export const recordStripeEvent = async (supabase: SupabaseClient, event: Stripe.Event) => {
+  check(
+    await supabase.from('stripe_events').upsert(
+      {
+        id: event.id,
+        type: event.type,
+        payload: event,
+        stripe_created_at: toIso(event.created),
+      },
+      { onConflict: 'id', ignoreDuplicates: true }
+    ),
+    'record Stripe event'
+  )
+}
+
+// Applies a recorded event unless it has already been handled. Returns the
+// updated ledger row, or null when another attempt handled or is handling
+// it. Failures are stored on the row rather than thrown.
+export const processStripeEvent = async (supabase: SupabaseClient, eventId: string) => {
+  const claimed = check(
+    await supabase.rpc('claim_stripe_event', { event_id: eventId }).maybeSingle<StripeEventRow>(),
+    'claim Stripe event'
+  )
+  if (!claimed) return null
+
+  const finish = async (fields: Partial<StripeEventRow>) =>
+    check(
+      await supabase.from('stripe_events').update(fields).eq('id', eventId).select().single<StripeEventRow>(),
+      'update Stripe event'
+    )
+
+  try {
+    const outcome = await applyEvent(supabase, claimed.payload)
+    return await finish({ status: outcome, processed_at: new Date().toISOString() })
+  } catch (err) {
+    console.error(`Stripe event ${eventId} failed:`, err)
+    return await finish({ status: 'failed', error: err instanceof Error ? err.message : String(err) })
+  }
+}
+
+const applyEvent = async (supabase: SupabaseClient, event: Stripe.Event): Promise<EventOutcome> => {
+  const createdAt = new Date(event.created * 1000)
+
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return handleCheckoutCompleted(supabase, event.data.object as Stripe.Checkout.Session)
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+      return handleSubscriptionChange(supabase, event.data.object as Stripe.Subscription, createdAt)
+
+    case 'customer.subscription.deleted':
+      return handleSubscriptionDeleted(supabase, event.data.object as Stripe.Subscription, createdAt)
+
+    case 'invoice.created':
+    case 'invoice.updated':
+      return handleInvoiceChange(supabase, event.data.object as Stripe.Invoice)
+
+    case 'invoice.payment_failed':
+      await handleInvoiceChange(supabase, event.data.object as Stripe.Invoice)
+      await handlePaymentFailed(supabase, event.data.object as Stripe.Invoice)
+      return 'processed'
+
+    case 'invoice.payment_succeeded':
+      await handleInvoiceChange(supabase, event.data.object as Stripe.Invoice)
+      await handlePaymentSucceeded(supabase, event.data.object as Stripe.Invoice)
+      return 'processed'
+
+    case 'payment_method.attached':
+      return handlePaymentMethodAttached(supabase, event.data.object as Stripe.PaymentMethod)
+
+    case 'payment_method.detached':
+      return handlePaymentMethodDetached(supabase, event.data.object as Stripe.PaymentMethod)
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`)
+      return 'processed'
+  }
+}
+
+async function handleCheckoutCompleted(supabase: SupabaseClient, session: Stripe.Checkout.Session): Promise<EventOutcome> {
+  const userId = session.metadata?.user_id
+  if (!userId) return 'processed'
+
+  if (session.mode === 'subscription') {
+    await recordCouponRedemption(supabase, session)
+
+    // Fetched now, so this copy is newer than any event already applied
+    const subscription = await stripe.subscriptions.retrieve(session.subscription as string)
+    return handleSubscriptionChange(supabase, subscription, new Date())
+  } else if (session.mode === 'payment' && session.metadata?.type === 'template_purchase') {
+    // Handle template purchase
+    const templateId = session.metadata.template_id
+    const paymentIntent = await stripe.paymentIntents.retrieve(session.payment_intent as string)
+
+    // A replayed or redelivered event finds the purchase already recorded
+    check(
+      await supabase
+        .from('template_purchases')
+        .upsert(
+          {
+            user_id: userId,
+            template_id: templateId,
+            stripe_payment_intent_id: paymentIntent.id,
+            amount_paid: paymentIntent.amount,
+            currency: paymentIntent.currency,
+          },
+          { onConflict: 'stripe_payment_intent_id', ignoreDuplicates: true }
+        ),
+      'record template purchase'
+    )
+  }
+  return 'processed'
+}
+
+async function handleSubscriptionChange(
+  supabase: SupabaseClient,
+  subscription: Stripe.Subscription,
+  stateAt: Date
+): Promise<EventOutcome> {
+  const userId = subscription.metadata?.user_id
+  if (!userId) return 'processed'
+
+  // Stripe does not deliver events in order; never let an older event
+  // overwrite newer state
+  const existing = check(
+    await supabase
+      .from('subscriptions')
+      .select('last_event_at, dunning_status')
+      .eq('stripe_subscription_id', subscription.id)
+      .maybeSingle(),
+    'load subscription'
+  )
+  if (existing?.last_event_at && new Date(existing.last_event_at) > stateAt) {
+    return 'skipped'
+  }
+
+  const planId = planIdForPrice(subscription.items.data[0]?.price.id)
+
+  check(
+    await supabase
+      .from('subscriptions')
+      .upsert(
+        {
+          user_id: userId,
+          stripe_subscription_id: subscription.id,
+          stripe_customer_id: subscription.customer as string,
+          status: subscription.status,
+          plan_id: planId,
+          price_id: subscription.items.data[0]?.price.id,
+          current_period_start: toIso(subscription.current_period_start),
+          current_period_end: toIso(subscription.current_period_end),
+          cancel_at_period_end: subscription.cancel_at_period_end,
+          canceled_at: toIso(subscription.canceled_at),
+          trial_start: toIso(subscription.trial_start),
+          trial_end: toIso(subscription.trial_end),
+          last_event_at: stateAt.toISOString(),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'stripe_subscription_id' }
+      ),
+    'save subscription'
+  )
+
+  // Update user's plan in profiles table, unless dunning has moved the
+  // account to free until the open invoice is paid
+  if (existing?.dunning_status !== 'downgraded') {
+    check(await supabase.from('profiles').update({ plan: planId }).eq('id', userId), 'update plan')
+  }
+  return 'processed'
+}
+
+async function handleSubscriptionDeleted(
+  supabase: SupabaseClient,
+  subscription: Stripe.Subscription,
+  stateAt: Date
+): Promise<EventOutcome> {
+  const userId = subscription.metadata?.user_id
+  if (!userId) return 'processed'
+
+  // Deletion is final, so it applies whatever arrived before it
+  check(
+    await supabase
+      .from('subscriptions')
+      .update({
+        status: 'canceled',
+        canceled_at: toIso(subscription.canceled_at) ?? new Date().toISOString(),
+        last_event_at: stateAt.toISOString(),
+        dunning_status: 'none',
+        grace_period_ends_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('stripe_subscription_id', subscription.id),
+    'cancel subscription'
+  )
+
+  // Downgrade user to free plan, suspending websites it does not include
+  check(
+    await supabase.rpc('apply_plan_downgrade', { user_uuid: userId, new_plan: 'free' }),
+    'downgrade plan'
+  )
+  return 'processed'
+}
+
+async function handleInvoiceChange(supabase: SupabaseClient, invoice: Stripe.Invoice): Promise<EventOutcome> {
+  const customerId = invoice.customer as string
+
+  // Get user ID from subscription
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('user_id')
+    .eq('stripe_customer_id', customerId)
+    .limit(1)
+    .maybeSingle()
+
+  if (!subscription) return 'processed'
+
+  const { data: invoiceSubscription } = invoice.subscription
+    ? await supabase
+        .from('subscriptions')
+        .select('id')
+        .eq('stripe_subscription_id', invoice.subscription)
+        .maybeSingle()
+    : { data: null }
+
+  check(
+    await supabase
+      .from('invoices')
+      .upsert(
+        {
+          user_id: subscription.user_id,
+          subscription_id: invoiceSubscription?.id ?? null,
+          stripe_invoice_id: invoice.id,
+          stripe_customer_id: customerId,
+          status: invoice.status,
+          amount_due: invoice.amount_due,
+          amount_paid: invoice.amount_paid,
+          currency: invoice.currency,
+          description: invoice.description,
+          invoice_pdf: invoice.invoice_pdf,
+          hosted_invoice_url: invoice.hosted_invoice_url,
+          due_date: toIso(invoice.due_date),
+          paid_at: toIso(invoice.status_transitions.paid_at),
+        },
+        { onConflict: 'stripe_invoice_id' }
+      ),
+    'save invoice'
+  )
+  return 'processed'
+}
+
+async function handlePaymentMethodAttached(supabase: SupabaseClient, paymentMethod: Stripe.PaymentMethod): Promise<EventOutcome> {
+  const customerId = paymentMethod.customer as string
+
+  // Get user ID from customer
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('user_id')
+    .eq('stripe_customer_id', customerId)
+    .limit(1)
+    .maybeSingle()
+
+  if (!subscription) return 'processed'
+
+  // Check if this should be the default payment method
+  const customer = await stripe.customers.retrieve(customerId) as Stripe.Customer
+  const isDefault = customer.invoice_settings.default_payment_method === paymentMethod.id
+
+  check(
+    await supabase
+      .from('payment_methods')
+      .upsert(
+        {
+          user_id: subscription.user_id,
+          stripe_payment_method_id: paymentMethod.id,
+          type: paymentMethod.type,
+          is_default: isDefault,
+          last_four: paymentMethod.card?.last4,
+          brand: paymentMethod.card?.brand,
+          exp_month: paymentMethod.card?.exp_month,
+          exp_year: paymentMethod.card?.exp_year,
+          billing_details: paymentMethod.billing_details,
+        },
+        { onConflict: 'stripe_payment_method_id' }
+      ),
+    'save payment method'
+  )
+  return 'processed'
+}
+
+async function handlePaymentMethodDetached(supabase: SupabaseClient, paymentMethod: Stripe.PaymentMethod): Promise<EventOutcome> {
+  check(
+    await supabase
+      .from('payment_methods')
+      .delete()
+      .eq('stripe_payment_method_id', paymentMethod.id),
+    'delete payment method'
+  )
+  return 'processed'
+}
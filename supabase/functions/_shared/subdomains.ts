@@ -0,0 +1,38 @@
+// Rules for the <subdomain>.ncbx.app address every website gets. Shared
+// with the frontend through src/lib/subdomains.ts; the database applies the
+// same rules in subdomain_unavailable_reason, plus the reserved-word blocklist.
+
+export const SITE_DOMAIN = 'ncbx.app'
+export const SUBDOMAIN_MIN_LENGTH = 3
+// Leaves room for the -v<version> suffix of preview addresses
+export const SUBDOMAIN_MAX_LENGTH = 48
+// How long a replaced subdomain keeps redirecting to the new one
+export const SUBDOMAIN_REDIRECT_DAYS = 30
+// Replaced subdomains a website can keep redirecting at once; a rename past
+// this releases the oldest one early
+export const SUBDOMAIN_REDIRECT_LIMIT = 3
+
+export const normalizeSubdomain = (input: string) => input.trim().toLowerCase()
+
+// Why the subdomain is not allowed, or null when its format is fine.
+// Availability and reserved words are checked by the database.
+export const subdomainFormatError = (subdomain: string): string | null => {
+  if (subdomain.length < SUBDOMAIN_MIN_LENGTH || subdomain.length > SUBDOMAIN_MAX_LENGTH) {
+    return `Use ${SUBDOMAIN_MIN_LENGTH} to ${SUBDOMAIN_MAX_LENGTH} characters`
+  }
+  if (!/^[a-z0-9-]+$/.test(subdomain)) {
+    return 'Use only lowercase letters, numbers and hyphens'
+  }
+  if (subdomain.startsWith('-') || subdomain.endsWith('-')) {
+    return 'Start and end with a letter or number'
+  }
+  if (subdomain.includes('--')) {
+    return 'Do not use two hyphens in a row'
+  }
+  return null
+}
+
+export const subdomainHost = (subdomain: string) => `${subdomain}.${SITE_DOMAIN}`
+
+export const previewHost = (subdomain: string, versionNumber: number) =>
+  `${subdomain}-v${versionNumber}.preview.${SITE_DOMAIN}`
@@ -0,0 +1,5 @@
+// Edge functions read their configuration through Deno.env. Under vitest it
+// comes from process.env, so tests can set it with vi.stubEnv.
+Object.assign(globalThis, {
+  Deno: { env: { get: (name: string) => process.env[name] } },
+})
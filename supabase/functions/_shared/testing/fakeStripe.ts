@@ -0,0 +1,40 @@
+// An in-memory stand-in for the Stripe client, for tests that run without
+// stripe-mock (see STRIPE_API_BASE in _shared/stripe.ts). Only the calls the
+// functions make are implemented, and updates are applied as given.
+
+type StripeObject = Record<string, unknown>
+
+export const stripeData = {
+  subscriptions: new Map<string, StripeObject>(),
+  invoices: new Map<string, StripeObject>(),
+  // Every update call, in order
+  updates: [] as { id: string; params: StripeObject }[],
+}
+
+export const resetStripe = () => {
+  stripeData.subscriptions.clear()
+  stripeData.invoices.clear()
+  stripeData.updates.length = 0
+}
+
+const find = (objects: Map<string, StripeObject>, kind: string, id: string) => {
+  const object = objects.get(id)
+  if (!object) throw new Error(`No such ${kind}: '${id}'`)
+  return object
+}
+
+export default class Stripe {
+  subscriptions = {
+    retrieve: async (id: string) => structuredClone(find(stripeData.subscriptions, 'subscription', id)),
+    update: async (id: string, params: StripeObject) => {
+      const subscription = find(stripeData.subscriptions, 'subscription', id)
+      stripeData.updates.push({ id, params })
+      Object.assign(subscription, params)
+      return structuredClone(subscription)
+    },
+  }
+
+  invoices = {
+    retrieve: async (id: string) => structuredClone(find(stripeData.invoices, 'invoice', id)),
+  }
+}
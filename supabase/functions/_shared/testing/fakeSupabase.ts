@@ -0,0 +1,142 @@
+// An in-memory stand-in for the service-role Supabase client. It supports
+// the query builder calls the edge functions make, matches rows on the
+// filters and ignores column lists, so embedded relations such as
+// profile:profiles(...) are stored on the row itself.
+
+type Row = Record<string, unknown>
+
+interface QueryResult {
+  data: unknown
+  error: { message: string } | null
+}
+
+interface FakeUser {
+  id: string
+  email?: string
+}
+
+export interface FakeSupabaseSeed {
+  tables?: Record<string, Row[]>
+  // Access token -> the user it signs in
+  users?: Record<string, FakeUser>
+  // What each RPC does, given its arguments and the tables; unknown
+  // functions answer with an error
+  rpc?: Record<string, (args: Row, tables: Record<string, Row[]>) => unknown>
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private filters: ((row: Row) => boolean)[] = []
+  private changes: Row | null = null
+  private ordering: { column: string; ascending: boolean } | null = null
+  private maxRows: number | null = null
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(private rows: Row[]) {}
+
+  select() {
+    return this
+  }
+
+  update(changes: Row) {
+    this.changes = changes
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value)
+    return this
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]))
+    return this
+  }
+
+  lte(column: string, value: string) {
+    this.filters.push((row) => typeof row[column] === 'string' && (row[column] as string) <= value)
+    return this
+  }
+
+  order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+    this.ordering = { column, ascending }
+    return this
+  }
+
+  limit(count: number) {
+    this.maxRows = count
+    return this
+  }
+
+  single() {
+    this.mode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle'
+    return this
+  }
+
+  returns() {
+    return this
+  }
+
+  then<Result1 = QueryResult, Result2 = never>(
+    onfulfilled?: ((value: QueryResult) => Result1 | PromiseLike<Result1>) | null,
+    onrejected?: ((reason: unknown) => Result2 | PromiseLike<Result2>) | null
+  ) {
+    return Promise.resolve(this.execute()).then(onfulfilled, onrejected)
+  }
+
+  private execute(): QueryResult {
+    let matched = this.rows.filter((row) => this.filters.every((filter) => filter(row)))
+    if (this.changes) matched.forEach((row) => Object.assign(row, this.changes))
+
+    if (this.ordering) {
+      const { column, ascending } = this.ordering
+      matched = [...matched].sort((a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1))
+    }
+    if (this.maxRows !== null) matched = matched.slice(0, this.maxRows)
+
+    const copies = matched.map((row) => structuredClone(row))
+    if (this.mode === 'many') return { data: copies, error: null }
+    if (copies.length > 1 || (this.mode === 'single' && copies.length === 0)) {
+      return { data: null, error: { message: `Expected one row, found ${copies.length}` } }
+    }
+    return { data: copies[0] ?? null, error: null }
+  }
+}
+
+export const createFakeSupabase = (seed: FakeSupabaseSeed = {}) => {
+  const tables: Record<string, Row[]> = structuredClone(seed.tables ?? {})
+  const rpcCalls: { name: string; args: Row }[] = []
+
+  const client = {
+    from: (table: string) => new FakeQuery((tables[table] ??= [])),
+    rpc: async (name: string, args: Row = {}) => {
+      rpcCalls.push({ name, args })
+      const implementation = seed.rpc?.[name]
+      if (!implementation) return { data: null, error: { message: `Unknown function ${name}` } }
+      return { data: await implementation(args, tables), error: null }
+    },
+    auth: {
+      getUser: async (token: string) => {
+        const user = seed.users?.[token]
+        return user ? { data: { user }, error: null } : { data: { user: null }, error: { message: 'Invalid token' } }
+      },
+    },
+  }
+
+  return { client, tables, rpcCalls }
+}
+
+// The client createClient hands out, for tests that go through
+// createServiceClient
+let current = createFakeSupabase()
+
+export const installFakeSupabase = (seed: FakeSupabaseSeed = {}) => {
+  current = createFakeSupabase(seed)
+  return current
+}
+
+export const createClient = () => current.client
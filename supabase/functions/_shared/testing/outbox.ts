@@ -0,0 +1,23 @@
+import type { Email } from '../mailer.ts'
+
+// Stands in for mailer.ts: keeps the email that would have gone out over
+// SMTP so tests can read it
+
+export const outbox: Email[] = []
+
+let unavailable = false
+
+export const resetOutbox = () => {
+  outbox.length = 0
+  unavailable = false
+}
+
+// Makes every send fail, as when the SMTP server is down
+export const breakSmtp = () => {
+  unavailable = true
+}
+
+export const sendEmail = async (email: Email) => {
+  if (unavailable) throw new Error('Connection refused')
+  outbox.push(email)
+}
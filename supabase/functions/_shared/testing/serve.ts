@@ -0,0 +1,26 @@
+// Stands in for std/http's serve: keeps the handler an edge function
+// registers so tests can send it requests
+
+type RequestHandler = (req: Request) => Promise<Response>
+
+let registered: RequestHandler | null = null
+
+export const serve = (handler: RequestHandler) => {
+  registered = handler
+}
+
+// POSTs a JSON body to the function, signed in with the given access token
+export const invoke = async (body: unknown, token?: string) => {
+  if (!registered) throw new Error('No edge function has been served')
+  const response = await registered(
+    new Request('http://localhost/', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(body),
+    })
+  )
+  return { status: response.status, body: await response.json() }
+}
@@ -0,0 +1,24 @@
+import { notFound, servePublic } from '../_shared/http.ts'
+
+// Answers ACME HTTP-01 challenges. The proxy in front of custom domains
+// forwards /.well-known/acme-challenge/<token> here, so the ACME server
+// can confirm we control the domain.
+servePublic('acme-challenge', {}, async ({ req, supabase }) => {
+  const url = new URL(req.url)
+  const token = url.pathname.split('/').pop() ?? ''
+  const host = (req.headers.get('X-Forwarded-Host') ?? url.searchParams.get('domain') ?? '').toLowerCase()
+
+  const { data: challenge, error } = await supabase
+    .from('acme_challenges')
+    .select('domain, key_authorization')
+    .eq('token', token)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load ACME challenge: ${error.message}`)
+  // Only answer for the domain the challenge was issued for, when known
+  if (!challenge || (host && challenge.domain !== host)) throw notFound('Unknown challenge')
+
+  return new Response(challenge.key_authorization, {
+    headers: { 'Content-Type': 'text/plain' },
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest'
+import { invoke } from '../_shared/testing/serve.ts'
+import { installFakeSupabase } from '../_shared/testing/fakeSupabase.ts'
+import { resetStripe, stripeData } from '../_shared/testing/fakeStripe.ts'
+import './index.ts'
+
+vi.mock('https://deno.land/std@0.168.0/http/server.ts', () => import('../_shared/testing/serve.ts'))
+vi.mock('https://esm.sh/@supabase/supabase-js@2', () => import('../_shared/testing/fakeSupabase.ts'))
+vi.mock('https://esm.sh/stripe@14.21.0', () => import('../_shared/testing/fakeStripe.ts'))
+vi.mock('https://deno.land/x/zod@v3.22.4/mod.ts', () => import('zod'))
+
+const subscriptionRow = {
+  id: 'row-1',
+  user_id: 'user-1',
+  stripe_subscription_id: 'sub_1',
+  stripe_customer_id: 'cus_1',
+  status: 'active',
+  plan_id: 'pro',
+  price_id: 'price_pro_monthly',
+  cancel_at_period_end: false,
+  canceled_at: null,
+  dunning_status: 'none',
+  last_event_at: null,
+  created_at: '2025-06-01T00:00:00.000Z',
+}
+
+const stripeSubscription = {
+  id: 'sub_1',
+  customer: 'cus_1',
+  status: 'active',
+  cancel_at_period_end: false,
+  canceled_at: null,
+  current_period_start: 1748736000,
+  current_period_end: 1751328000,
+  items: { data: [{ id: 'si_1', price: { id: 'price_pro_monthly' } }] },
+}
+
+const setUp = (row: Record<string, unknown> = subscriptionRow, subscription: Record<string, unknown> = stripeSubscription) => {
+  resetStripe()
+  stripeData.subscriptions.set('sub_1', structuredClone(subscription))
+  return installFakeSupabase({
+    users: { 'token-1': { id: 'user-1', email: 'ada@example.com' } },
+    tables: { subscriptions: [row] },
+  })
+}
+
+describe('cancel-subscription', () => {
+  it('cancels at the end of the billing period', async () => {
+    const supabase = setUp()
+
+    const response = await invoke({}, 'token-1')
+
+    expect(response.status).toBe(200)
+    expect(stripeData.updates).toEqual([{ id: 'sub_1', params: { cancel_at_period_end: true } }])
+    expect(response.body.subscription).toMatchObject({
+      status: 'active',
+      cancel_at_period_end: true,
+      current_period_end: '2025-07-01T00:00:00.000Z',
+    })
+    expect(supabase.tables.subscriptions[0]).toMatchObject({ status: 'active', cancel_at_period_end: true })
+  })
+
+  it('leaves last_event_at to the webhook', async () => {
+    const supabase = setUp()
+
+    await invoke({}, 'token-1')
+
+    expect(supabase.tables.subscriptions[0].last_event_at).toBeNull()
+  })
+
+  it('does nothing when the subscription is already cancelling', async () => {
+    setUp({ ...subscriptionRow, cancel_at_period_end: true }, { ...stripeSubscription, cancel_at_period_end: true })
+
+    const response = await invoke({}, 'token-1')
+
+    expect(response.status).toBe(200)
+    expect(response.body.subscription.cancel_at_period_end).toBe(true)
+    expect(stripeData.updates).toEqual([])
+  })
+
+  it('answers 404 without a current subscription', async () => {
+    setUp({ ...subscriptionRow, status: 'canceled' })
+
+    const response = await invoke({}, 'token-1')
+
+    expect(response.status).toBe(404)
+    expect(response.body.error).toEqual({ code: 'not_found', message: 'No active subscription found' })
+    expect(stripeData.updates).toEqual([])
+  })
+
+  it('requires a signed-in caller', async () => {
+    setUp()
+
+    const response = await invoke({})
+
+    expect(response.status).toBe(401)
+    expect(response.body.error.code).toBe('unauthorized')
+  })
+})
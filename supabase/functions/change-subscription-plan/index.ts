@@ -0,0 +1,83 @@
+import { badRequest, conflict, notFound, serveAuthenticated, z } from '../_shared/http.ts'
+import { findCurrentSubscription, planIdForPrice, stripe, syncSubscriptionRow } from '../_shared/stripe.ts'
+
+const ChangeSubscriptionPlanSchema = z.object({
+  priceId: z.string().min(1),
+  // Return what the change would cost without making it
+  preview: z.boolean().default(false),
+  // From the preview, so the change is prorated to the second it was quoted
+  prorationDate: z.number().int().positive().optional(),
+})
+
+// Moves the current subscription to another plan or interval. The prorated
+// difference is invoiced straight away: an upgrade is charged now and a
+// downgrade leaves a credit for the next invoice.
+serveAuthenticated('change-subscription-plan', { schema: ChangeSubscriptionPlanSchema }, async ({ body, user, supabase }) => {
+  const planId = planIdForPrice(body.priceId)
+  if (planId === 'free') {
+    throw badRequest('Unknown price; cancel the subscription to move to the free plan')
+  }
+
+  const current = await findCurrentSubscription(supabase, user.id)
+  if (!current) {
+    throw notFound('No active subscription found')
+  }
+
+  if (current.price_id === body.priceId) {
+    throw conflict('You are already on this plan')
+  }
+  if (current.cancel_at_period_end) {
+    throw conflict('Reactivate your subscription before changing plans')
+  }
+  if (current.dunning_status !== 'none') {
+    throw conflict('Update your payment method before changing plans')
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(current.stripe_subscription_id)
+  const item = subscription.items.data[0]
+  const prorationDate = body.prorationDate ?? Math.floor(Date.now() / 1000)
+
+  if (body.preview) {
+    const invoice = await stripe.invoices.retrieveUpcoming({
+      customer: subscription.customer as string,
+      subscription: subscription.id,
+      subscription_items: [{ id: item.id, price: body.priceId }],
+      subscription_proration_behavior: 'always_invoice',
+      subscription_proration_date: prorationDate,
+    })
+
+    return {
+      preview: {
+        planId,
+        priceId: body.priceId,
+        prorationDate,
+        // Charged when the change is confirmed; 0 when credit covers it
+        amountDue: invoice.amount_due,
+        // Negative when the change leaves a credit
+        total: invoice.total,
+        currency: invoice.currency,
+        lines: invoice.lines.data.map((line) => ({
+          description: line.description,
+          amount: line.amount,
+          proration: line.proration,
+        })),
+      },
+    }
+  }
+
+  // Stripe applies the new price only once the proration invoice is paid. A
+  // declined or 3DS-pending payment leaves the subscription on its current
+  // price with the change in pending_update.
+  const updated = await stripe.subscriptions.update(subscription.id, {
+    items: [{ id: item.id, price: body.priceId }],
+    proration_behavior: 'always_invoice',
+    proration_date: prorationDate,
+    payment_behavior: 'pending_if_incomplete',
+  })
+
+  const row = await syncSubscriptionRow(supabase, updated)
+
+  // profiles.plan follows the subscription through the webhook, so the plan
+  // only changes once Stripe has applied the new price
+  return { subscription: row, pending: Boolean(updated.pending_update) }
+})
@@ -1,89 +1,47 @@
-import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import Stripe from 'https://esm.sh/stripe@14.21.0'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
-
-  try {
-    const { priceId, successUrl, cancelUrl, userId, userEmail } = await req.json()
-
-    // Initialize Stripe
-    const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
-      apiVersion: '2023-10-16',
-    })
-
-    // Initialize Supabase
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
-
-    // Get or create Stripe customer
-    let customer
-    const { data: existingSubscription } = await supabaseClient
-      .from('subscriptions')
-      .select('stripe_customer_id')
-      .eq('user_id', userId)
-      .single()
-
-    if (existingSubscription?.stripe_customer_id) {
-      customer = await stripe.customers.retrieve(existingSubscription.stripe_customer_id)
-    } else {
-      // Create new customer
-      customer = await stripe.customers.create({
-        email: userEmail,
-        metadata: {
-          supabase_user_id: userId,
-        },
-      })
-    }
-
-    // Create checkout session
-    const session = await stripe.checkout.sessions.create({
-      customer: customer.id,
-      payment_method_types: ['card'],
-      line_items: [
-        {
-          price: priceId,
-          quantity: 1,
-        },
-      ],
-      mode: 'subscription',
-      success_url: successUrl,
-      cancel_url: cancelUrl,
-      metadata: {
-        user_id: userId,
+import { serveAuthenticated, z } from '../_shared/http.ts'
+import { findRedeemableCoupon } from '../_shared/coupons.ts'
+import { getOrCreateCustomerId, planIdForPrice, stripe } from '../_shared/stripe.ts'
+
+const CreateCheckoutSessionSchema = z.object({
+  priceId: z.string().min(1),
+  successUrl: z.string().url(),
+  cancelUrl: z.string().url(),
+  couponCode: z.string().trim().min(1).optional(),
+})
+
+serveAuthenticated('create-checkout-session', { schema: CreateCheckoutSessionSchema }, async ({ body, user, supabase }) => {
+  // Checked before creating anything, so a bad code fails with its reason
+  const coupon = body.couponCode
+    ? await findRedeemableCoupon(supabase, body.couponCode, user.id, body.priceId)
+    : null
+
+  const customerId = await getOrCreateCustomerId(supabase, user)
+
+  // Create checkout session
+  const session = await stripe.checkout.sessions.create({
+    customer: customerId,
+    payment_method_types: ['card'],
+    line_items: [
+      {
+        price: body.priceId,
+        quantity: 1,
       },
-      subscription_data: {
-        metadata: {
-          user_id: userId,
-        },
+    ],
+    mode: 'subscription',
+    ...(coupon ? { discounts: [{ promotion_code: coupon.stripe_promotion_code_id }] } : {}),
+    success_url: body.successUrl,
+    cancel_url: body.cancelUrl,
+    metadata: {
+      user_id: user.id,
+      plan_id: planIdForPrice(body.priceId),
+      ...(coupon ? { coupon_id: coupon.id } : {}),
+    },
+    subscription_data: {
+      metadata: {
+        user_id: user.id,
       },
-    })
+    },
+  })
 
-    return new Response(
-      JSON.stringify({ url: session.url }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      }
-    )
-  } catch (error) {
-    console.error('Error creating checkout session:', error)
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      }
-    )
-  }
-})
\ No newline at end of file
+  return { url: session.url }
+})
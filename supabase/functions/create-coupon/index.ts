@@ -0,0 +1,94 @@
+import { conflict, requireAdmin, serveAuthenticated, z } from '../_shared/http.ts'
+import { normalizeCouponCode } from '../_shared/coupons.ts'
+import { stripe } from '../_shared/stripe.ts'
+
+const CreateCouponSchema = z
+  .object({
+    code: z.string().trim().regex(/^[A-Za-z0-9_-]{3,32}$/, 'Use 3-32 letters, digits, dashes or underscores'),
+    name: z.string().trim().min(1).max(100),
+    percentOff: z.number().int().min(1).max(100).optional(),
+    // In cents
+    amountOff: z.number().int().positive().optional(),
+    currency: z.string().length(3).default('usd'),
+    duration: z.enum(['once', 'repeating', 'forever']),
+    durationInMonths: z.number().int().positive().optional(),
+    maxRedemptions: z.number().int().positive().optional(),
+    expiresAt: z.string().datetime().optional(),
+    allowedPlans: z.array(z.enum(['pro', 'business'])).default([]),
+  })
+  .refine((coupon) => (coupon.percentOff === undefined) !== (coupon.amountOff === undefined), {
+    message: 'Give either percentOff or amountOff',
+  })
+  .refine((coupon) => (coupon.duration === 'repeating') === (coupon.durationInMonths !== undefined), {
+    message: 'durationInMonths is required for repeating coupons, and only for them',
+  })
+  .refine((coupon) => !coupon.expiresAt || new Date(coupon.expiresAt) > new Date(), {
+    message: 'expiresAt must be in the future',
+  })
+
+// Creates the Stripe coupon and the promotion code users type at checkout,
+// then records both
+serveAuthenticated('create-coupon', { schema: CreateCouponSchema }, async ({ body, user, supabase }) => {
+  await requireAdmin(supabase, user.id)
+
+  const code = normalizeCouponCode(body.code)
+
+  const { data: existing } = await supabase
+    .from('coupons')
+    .select('id')
+    .eq('code', code)
+    .maybeSingle()
+
+  if (existing) {
+    throw conflict(`A coupon with the code ${code} already exists`)
+  }
+
+  const currency = body.currency.toLowerCase()
+  const redeemBy = body.expiresAt ? Math.floor(new Date(body.expiresAt).getTime() / 1000) : undefined
+
+  const stripeCoupon = await stripe.coupons.create({
+    name: body.name,
+    ...(body.percentOff !== undefined ? { percent_off: body.percentOff } : { amount_off: body.amountOff, currency }),
+    duration: body.duration,
+    duration_in_months: body.durationInMonths,
+    max_redemptions: body.maxRedemptions,
+    redeem_by: redeemBy,
+    metadata: { created_by: user.id },
+  })
+
+  const promotionCode = await stripe.promotionCodes.create({
+    coupon: stripeCoupon.id,
+    code,
+    max_redemptions: body.maxRedemptions,
+    expires_at: redeemBy,
+  })
+
+  const { data: coupon, error } = await supabase
+    .from('coupons')
+    .insert({
+      code,
+      name: body.name,
+      percent_off: body.percentOff ?? null,
+      amount_off: body.amountOff ?? null,
+      currency,
+      duration: body.duration,
+      duration_in_months: body.durationInMonths ?? null,
+      max_redemptions: body.maxRedemptions ?? null,
+      expires_at: body.expiresAt ?? null,
+      allowed_plans: body.allowedPlans,
+      stripe_coupon_id: stripeCoupon.id,
+      stripe_promotion_code_id: promotionCode.id,
+      created_by: user.id,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // Keep Stripe from holding a code the app does not know about
+    await stripe.promotionCodes.update(promotionCode.id, { active: false })
+    await stripe.coupons.del(stripeCoupon.id)
+    throw new Error(`Failed to save coupon: ${error.message}`)
+  }
+
+  return { coupon }
+})
@@ -1,63 +1,21 @@
-import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { notFound, serveAuthenticated, z } from '../_shared/http.ts'
+import { findCustomerId, stripe } from '../_shared/stripe.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+const CreatePortalSessionSchema = z.object({
+  returnUrl: z.string().url(),
+})
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
+serveAuthenticated('create-portal-session', { schema: CreatePortalSessionSchema }, async ({ body, user, supabase }) => {
+  const customerId = await findCustomerId(supabase, user.id)
+  if (!customerId) {
+    throw notFound('No active subscription found')
   }
 
-  try {
-    const { userId, returnUrl } = await req.json()
+  // Create portal session
+  const portalSession = await stripe.billingPortal.sessions.create({
+    customer: customerId,
+    return_url: body.returnUrl,
+  })
 
-    // Initialize Stripe
-    const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
-      apiVersion: '2023-10-16',
-    })
-
-    // Initialize Supabase
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
-
-    // Get customer ID from subscription
-    const { data: subscription, error } = await supabaseClient
-      .from('subscriptions')
-      .select('stripe_customer_id')
-      .eq('user_id', userId)
-      .single()
-
-    if (error || !subscription?.stripe_customer_id) {
-      throw new Error('No active subscription found')
-    }
-
-    // Create portal session
-    const portalSession = await stripe.billingPortal.sessions.create({
-      customer: subscription.stripe_customer_id,
-      return_url: returnUrl,
-    })
-
-    return new Response(
-      JSON.stringify({ url: portalSession.url }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      }
-    )
-  } catch (error) {
-    console.error('Error creating portal session:', error)
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      }
-    )
-  }
-})
\ No newline at end of file
+  return { url: portalSession.url }
+})
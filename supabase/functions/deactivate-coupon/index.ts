@@ -0,0 +1,38 @@
+import { notFound, requireAdmin, serveAuthenticated, z } from '../_shared/http.ts'
+import { stripe } from '../_shared/stripe.ts'
+
+const DeactivateCouponSchema = z.object({
+  couponId: z.string().uuid(),
+})
+
+// Stops a code from being used at checkout. Subscriptions that already
+// have the discount keep it.
+serveAuthenticated('deactivate-coupon', { schema: DeactivateCouponSchema }, async ({ body, user, supabase }) => {
+  await requireAdmin(supabase, user.id)
+
+  const { data: coupon } = await supabase
+    .from('coupons')
+    .select('*')
+    .eq('id', body.couponId)
+    .maybeSingle()
+
+  if (!coupon) {
+    throw notFound('Coupon not found')
+  }
+
+  if (!coupon.is_active) {
+    return { coupon }
+  }
+
+  await stripe.promotionCodes.update(coupon.stripe_promotion_code_id, { active: false })
+
+  const { data: updated, error } = await supabase
+    .from('coupons')
+    .update({ is_active: false })
+    .eq('id', coupon.id)
+    .select()
+    .single()
+
+  if (error) throw new Error(`Failed to deactivate coupon: ${error.message}`)
+  return { coupon: updated }
+})
@@ -0,0 +1,96 @@
+import { buildDeployment } from '../_shared/siteBuild.ts'
+import { HttpError, notFound, requireWebsitePermission, serveAuthenticated, z } from '../_shared/http.ts'
+import { previewHost } from '../_shared/subdomains.ts'
+
+// Supabase's edge runtime keeps the worker alive for promises passed here
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void }
+
+const DeployPreviewSchema = z.object({
+  versionId: z.string().uuid(),
+})
+
+// Deploys one saved version to its own preview URL. Production and
+// websites.live_deployment_id are left alone.
+serveAuthenticated('deploy-preview', { schema: DeployPreviewSchema }, async ({ body, user, supabase }) => {
+  const { data: version, error: versionError } = await supabase
+    .from('website_versions')
+    .select('*')
+    .eq('id', body.versionId)
+    .maybeSingle()
+
+  if (versionError || !version) {
+    throw notFound('Version not found')
+  }
+
+  // Anyone who can edit the website can preview its versions
+  await requireWebsitePermission(supabase, version.website_id, user.id, 'edit')
+
+  const { data: website, error: websiteError } = await supabase
+    .from('websites')
+    .select('*')
+    .eq('id', version.website_id)
+    .single()
+
+  if (websiteError || !website) {
+    throw notFound('Website not found')
+  }
+
+  const findPreview = () =>
+    supabase
+      .from('website_deployments')
+      .select('*')
+      .eq('version_id', version.id)
+      .eq('kind', 'preview')
+      .neq('status', 'failed')
+      .maybeSingle()
+
+  const describe = (deployment: { id: string; deployment_url: string; status: string }, message: string) => ({
+    success: true,
+    message,
+    deploymentId: deployment.id,
+    url: deployment.deployment_url,
+    status: deployment.status
+  })
+
+  // Versions never change, so an existing preview is reused
+  const { data: existing } = await findPreview()
+  if (existing) {
+    return describe(existing, 'Preview already exists')
+  }
+
+  const previewUrl = `https://${previewHost(website.subdomain, version.version_number)}`
+
+  const { data: deployment, error: deploymentError } = await supabase
+    .from('website_deployments')
+    .insert({
+      website_id: website.id,
+      version_id: version.id,
+      kind: 'preview',
+      status: 'pending',
+      deployed_by: user.id,
+      deployment_url: previewUrl,
+      build_log: `${new Date().toISOString()} Queued preview of version ${version.version_number}\n`
+    })
+    .select()
+    .single()
+
+  if (deploymentError) {
+    // Another request created the preview first
+    if (deploymentError.code === '23505') {
+      const { data: concurrent } = await findPreview()
+      if (concurrent) return describe(concurrent, 'Preview already exists')
+    }
+    throw new HttpError(500, 'internal_error', 'Failed to create preview deployment')
+  }
+
+  EdgeRuntime.waitUntil(
+    buildDeployment(supabase, {
+      deploymentId: deployment.id,
+      website,
+      version,
+      promote: false
+    })
+  )
+
+  return describe(deployment, 'Preview started')
+})
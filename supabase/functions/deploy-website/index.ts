@@ -1,119 +1,84 @@
-import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildDeployment } from '../_shared/siteBuild.ts'
+import { HttpError, notFound, requireWebsitePermission, serveAuthenticated, z } from '../_shared/http.ts'
+import { subdomainHost } from '../_shared/subdomains.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+// Supabase's edge runtime keeps the worker alive for promises passed here
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
-
-  try {
-    const { websiteId, userId } = await req.json()
+const DeployWebsiteSchema = z.object({
+  websiteId: z.string().uuid(),
+})
 
-    // Initialize Supabase
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
+serveAuthenticated('deploy-website', { schema: DeployWebsiteSchema }, async ({ body, user, supabase }) => {
+  const { websiteId } = body
 
-    // Get website details
-    const { data: website, error: websiteError } = await supabaseClient
-      .from('websites')
-      .select('*')
-      .eq('id', websiteId)
-      .single()
+  // Verify user has permission to deploy
+  await requireWebsitePermission(supabase, websiteId, user.id, 'publish')
 
-    if (websiteError || !website) {
-      throw new Error('Website not found')
-    }
+  // Get website details
+  const { data: website, error: websiteError } = await supabase
+    .from('websites')
+    .select('*')
+    .eq('id', websiteId)
+    .single()
 
-    // Verify user has permission to deploy
-    const { data: permission, error: permissionError } = await supabaseClient.rpc('user_can_publish_website', {
-      user_uuid: userId,
-      website_uuid: websiteId
-    })
+  if (websiteError || !website) {
+    throw notFound('Website not found')
+  }
 
-    if (permissionError || !permission) {
-      throw new Error('You do not have permission to deploy this website')
-    }
+  // Get latest published version
+  const { data: latestVersion, error: versionError } = await supabase
+    .from('website_versions')
+    .select('*')
+    .eq('website_id', websiteId)
+    .eq('is_published', true)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
 
-    // Get latest published version
-    const { data: latestVersion, error: versionError } = await supabaseClient
-      .from('website_versions')
-      .select('*')
-      .eq('website_id', websiteId)
-      .eq('is_published', true)
-      .order('version_number', { ascending: false })
-      .limit(1)
-      .single()
+  if (versionError) {
+    throw new HttpError(500, 'internal_error', 'Failed to get website version')
+  }
 
-    if (versionError && versionError.code !== 'PGRST116') {
-      throw new Error('Failed to get website version')
-    }
+  if (!latestVersion) {
+    throw notFound('No published version found')
+  }
 
-    if (!latestVersion) {
-      throw new Error('No published version found')
-    }
+  const deploymentUrl = `https://${website.domain ?? subdomainHost(website.subdomain)}`
 
-    // Create deployment record
-    const { data: deployment, error: deploymentError } = await supabaseClient
-      .from('website_deployments')
-      .insert({
-        website_id: websiteId,
-        version_id: latestVersion.id,
-        status: 'in_progress',
-        deployed_by: userId,
-        custom_domain: website.domain
-      })
-      .select()
-      .single()
+  // Create deployment record
+  const { data: deployment, error: deploymentError } = await supabase
+    .from('website_deployments')
+    .insert({
+      website_id: websiteId,
+      version_id: latestVersion.id,
+      kind: 'production',
+      status: 'pending',
+      deployed_by: user.id,
+      custom_domain: website.domain,
+      deployment_url: deploymentUrl,
+      build_log: `${new Date().toISOString()} Queued version ${latestVersion.version_number} for deployment\n`
+    })
+    .select()
+    .single()
 
-    if (deploymentError) {
-      throw new Error('Failed to create deployment record')
-    }
+  if (deploymentError) {
+    throw new HttpError(500, 'internal_error', 'Failed to create deployment record')
+  }
 
-    // In a real implementation, this would trigger a build process
-    // For demo purposes, we'll simulate a successful deployment
-    setTimeout(async () => {
-      try {
-        // Update deployment status
-        await supabaseClient
-          .from('website_deployments')
-          .update({
-            status: 'completed',
-            deployment_url: website.domain 
-              ? `https://${website.domain}` 
-              : `https://${website.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}-${websiteId.substring(0, 8)}.ncbx.app`
-          })
-          .eq('id', deployment.id)
-      } catch (err) {
-        console.error('Error updating deployment status:', err)
-      }
-    }, 3000)
+  // Build after responding; the editor follows progress on the row
+  EdgeRuntime.waitUntil(
+    buildDeployment(supabase, {
+      deploymentId: deployment.id,
+      website,
+      version: latestVersion,
+      promote: true
+    })
+  )
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: 'Deployment started',
-        deploymentId: deployment.id
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      }
-    )
-  } catch (error) {
-    console.error('Error deploying website:', error)
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      }
-    )
+  return {
+    success: true,
+    message: 'Deployment started',
+    deploymentId: deployment.id
   }
-})
\ No newline at end of file
+})
@@ -1,54 +1,25 @@
-import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { notFound, requireWebsitePermission, serveAuthenticated, z } from '../_shared/http.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+const GetDeploymentStatusSchema = z.object({
+  deploymentId: z.string().uuid(),
+})
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
-
-  try {
-    const { deploymentId } = await req.json()
+serveAuthenticated('get-deployment-status', { schema: GetDeploymentStatusSchema }, async ({ body, user, supabase }) => {
+  // Get deployment details
+  const { data: deployment, error: deploymentError } = await supabase
+    .from('website_deployments')
+    .select('*')
+    .eq('id', body.deploymentId)
+    .maybeSingle()
 
-    // Initialize Supabase
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
-
-    // Get deployment details
-    const { data: deployment, error: deploymentError } = await supabaseClient
-      .from('website_deployments')
-      .select('*')
-      .eq('id', deploymentId)
-      .single()
+  if (deploymentError || !deployment) {
+    throw notFound('Deployment not found')
+  }
 
-    if (deploymentError) {
-      throw new Error('Deployment not found')
-    }
+  await requireWebsitePermission(supabase, deployment.website_id, user.id)
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        deployment
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      }
-    )
-  } catch (error) {
-    console.error('Error getting deployment status:', error)
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      }
-    )
+  return {
+    success: true,
+    deployment
   }
-})
\ No newline at end of file
+})
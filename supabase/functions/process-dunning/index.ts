@@ -0,0 +1,14 @@
+import { servePublic, unauthorized } from '../_shared/http.ts'
+import { expireGracePeriods } from '../_shared/dunning.ts'
+
+// Called on a schedule rather than by users; the shared CRON_SECRET proves
+// where the request came from
+servePublic('process-dunning', {}, async ({ req, supabase }) => {
+  const secret = Deno.env.get('CRON_SECRET')
+  if (!secret || req.headers.get('Authorization') !== `Bearer ${secret}`) {
+    throw unauthorized('Invalid scheduler credentials')
+  }
+
+  const downgraded = await expireGracePeriods(supabase)
+  return { downgraded }
+})
@@ -1,118 +1,57 @@
-import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import Stripe from 'https://esm.sh/stripe@14.21.0'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
+import { conflict, notFound, serveAuthenticated, z } from '../_shared/http.ts'
+import { getOrCreateCustomerId, stripe } from '../_shared/stripe.ts'
+
+const PurchaseTemplateSchema = z.object({
+  templateId: z.string().uuid(),
+  successUrl: z.string().url(),
+  cancelUrl: z.string().url(),
+})
+
+serveAuthenticated('purchase-template', { schema: PurchaseTemplateSchema }, async ({ body, user, supabase }) => {
+  const { templateId } = body
+
+  // Get template details
+  const { data: template, error: templateError } = await supabase
+    .from('premium_templates')
+    .select('*')
+    .eq('id', templateId)
+    .maybeSingle()
+
+  if (templateError || !template) {
+    throw notFound('Template not found')
   }
 
-  try {
-    const { templateId, userId, successUrl, cancelUrl } = await req.json()
-
-    // Initialize Stripe
-    const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
-      apiVersion: '2023-10-16',
-    })
-
-    // Initialize Supabase
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
-
-    // Get template details
-    const { data: template, error: templateError } = await supabaseClient
-      .from('premium_templates')
-      .select('*')
-      .eq('id', templateId)
-      .single()
-
-    if (templateError || !template) {
-      throw new Error('Template not found')
-    }
-
-    // Get user details
-    const { data: profile, error: profileError } = await supabaseClient
-      .from('profiles')
-      .select('email')
-      .eq('id', userId)
-      .single()
-
-    if (profileError || !profile) {
-      throw new Error('User not found')
-    }
+  // Check if user already has access
+  const { data: hasAccess } = await supabase.rpc('user_has_template_access', {
+    user_uuid: user.id,
+    template_uuid: templateId
+  })
 
-    // Check if user already has access
-    const { data: hasAccess } = await supabaseClient.rpc('user_has_template_access', {
-      user_uuid: userId,
-      template_uuid: templateId
-    })
-
-    if (hasAccess) {
-      throw new Error('You already have access to this template')
-    }
-
-    // Get or create Stripe customer
-    let customer
-    const { data: existingSubscription } = await supabaseClient
-      .from('subscriptions')
-      .select('stripe_customer_id')
-      .eq('user_id', userId)
-      .single()
-
-    if (existingSubscription?.stripe_customer_id) {
-      customer = await stripe.customers.retrieve(existingSubscription.stripe_customer_id)
-    } else {
-      // Create new customer
-      customer = await stripe.customers.create({
-        email: profile.email,
-        metadata: {
-          supabase_user_id: userId,
-        },
-      })
-    }
+  if (hasAccess) {
+    throw conflict('You already have access to this template')
+  }
 
-    // Create checkout session for one-time payment
-    const session = await stripe.checkout.sessions.create({
-      customer: customer.id,
-      payment_method_types: ['card'],
-      line_items: [
-        {
-          price: template.stripe_price_id,
-          quantity: 1,
-        },
-      ],
-      mode: 'payment',
-      success_url: successUrl,
-      cancel_url: cancelUrl,
-      metadata: {
-        user_id: userId,
-        template_id: templateId,
-        type: 'template_purchase',
-      },
-    })
+  const customerId = await getOrCreateCustomerId(supabase, user)
 
-    return new Response(
-      JSON.stringify({ url: session.url }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      }
-    )
-  } catch (error) {
-    console.error('Error creating template purchase session:', error)
-    return new Response(
-      JSON.stringify({ error: error.message }),
+  // Create checkout session for one-time payment
+  const session = await stripe.checkout.sessions.create({
+    customer: customerId,
+    payment_method_types: ['card'],
+    line_items: [
       {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      }
-    )
-  }
-})
\ No newline at end of file
+        price: template.stripe_price_id,
+        quantity: 1,
+      },
+    ],
+    mode: 'payment',
+    success_url: body.successUrl,
+    cancel_url: body.cancelUrl,
+    metadata: {
+      user_id: user.id,
+      template_id: templateId,
+      type: 'template_purchase',
+    },
+  })
+
+  return { url: session.url }
+})
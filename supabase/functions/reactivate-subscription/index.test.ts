@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest'
+import { invoke } from '../_shared/testing/serve.ts'
+import { installFakeSupabase } from '../_shared/testing/fakeSupabase.ts'
+import { resetStripe, stripeData } from '../_shared/testing/fakeStripe.ts'
+import './index.ts'
+
+vi.mock('https://deno.land/std@0.168.0/http/server.ts', () => import('../_shared/testing/serve.ts'))
+vi.mock('https://esm.sh/@supabase/supabase-js@2', () => import('../_shared/testing/fakeSupabase.ts'))
+vi.mock('https://esm.sh/stripe@14.21.0', () => import('../_shared/testing/fakeStripe.ts'))
+vi.mock('https://deno.land/x/zod@v3.22.4/mod.ts', () => import('zod'))
+
+const subscriptionRow = {
+  id: 'row-1',
+  user_id: 'user-1',
+  stripe_subscription_id: 'sub_1',
+  stripe_customer_id: 'cus_1',
+  status: 'active',
+  plan_id: 'business',
+  price_id: 'price_business_yearly',
+  cancel_at_period_end: true,
+  canceled_at: null,
+  dunning_status: 'none',
+  last_event_at: null,
+  created_at: '2025-06-01T00:00:00.000Z',
+}
+
+const stripeSubscription = {
+  id: 'sub_1',
+  customer: 'cus_1',
+  status: 'active',
+  cancel_at_period_end: true,
+  canceled_at: null,
+  current_period_start: 1748736000,
+  current_period_end: 1780272000,
+  items: { data: [{ id: 'si_1', price: { id: 'price_business_yearly' } }] },
+}
+
+const setUp = (row: Record<string, unknown> = subscriptionRow, subscription: Record<string, unknown> = stripeSubscription) => {
+  resetStripe()
+  stripeData.subscriptions.set('sub_1', structuredClone(subscription))
+  return installFakeSupabase({
+    users: { 'token-1': { id: 'user-1', email: 'ada@example.com' } },
+    tables: { subscriptions: [row] },
+  })
+}
+
+describe('reactivate-subscription', () => {
+  it('undoes a pending cancellation', async () => {
+    const supabase = setUp()
+
+    const response = await invoke({}, 'token-1')
+
+    expect(response.status).toBe(200)
+    expect(stripeData.updates).toEqual([{ id: 'sub_1', params: { cancel_at_period_end: false } }])
+    expect(response.body.subscription).toMatchObject({ plan_id: 'business', cancel_at_period_end: false })
+    expect(supabase.tables.subscriptions[0].cancel_at_period_end).toBe(false)
+  })
+
+  it('does nothing when the subscription is not cancelling', async () => {
+    setUp({ ...subscriptionRow, cancel_at_period_end: false }, { ...stripeSubscription, cancel_at_period_end: false })
+
+    const response = await invoke({}, 'token-1')
+
+    expect(response.status).toBe(200)
+    expect(response.body.subscription.cancel_at_period_end).toBe(false)
+    expect(stripeData.updates).toEqual([])
+  })
+
+  it('answers 404 once the subscription has ended', async () => {
+    setUp({ ...subscriptionRow, status: 'canceled' })
+
+    const response = await invoke({}, 'token-1')
+
+    expect(response.status).toBe(404)
+    expect(stripeData.updates).toEqual([])
+  })
+
+  it('only acts on a subscription of the caller', async () => {
+    setUp({ ...subscriptionRow, user_id: 'user-2' })
+
+    const response = await invoke({}, 'token-1')
+
+    expect(response.status).toBe(404)
+    expect(stripeData.updates).toEqual([])
+  })
+
+  it('answers 500 without changing the row when Stripe fails', async () => {
+    const supabase = setUp()
+    stripeData.subscriptions.clear()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const response = await invoke({}, 'token-1')
+
+    expect(response.status).toBe(500)
+    expect(response.body.error.code).toBe('internal_error')
+    expect(supabase.tables.subscriptions[0].cancel_at_period_end).toBe(true)
+  })
+})
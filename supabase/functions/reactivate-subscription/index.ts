@@ -0,0 +1,21 @@
+import { notFound, serveAuthenticated, z } from '../_shared/http.ts'
+import { findCurrentSubscription, stripe, syncSubscriptionRow } from '../_shared/stripe.ts'
+
+// Undoes a pending cancellation. Subscriptions that have already ended need a
+// new checkout instead.
+serveAuthenticated('reactivate-subscription', { schema: z.object({}) }, async ({ user, supabase }) => {
+  const current = await findCurrentSubscription(supabase, user.id)
+  if (!current) {
+    throw notFound('No active subscription found')
+  }
+
+  if (!current.cancel_at_period_end) {
+    return { subscription: current }
+  }
+
+  const subscription = await stripe.subscriptions.update(current.stripe_subscription_id, {
+    cancel_at_period_end: false,
+  })
+
+  return { subscription: await syncSubscriptionRow(supabase, subscription) }
+})
@@ -0,0 +1,13 @@
+import { servePublic, unauthorized } from '../_shared/http.ts'
+import { renewCertificates } from '../_shared/certificates.ts'
+
+// Called on a schedule rather than by users; the shared CRON_SECRET proves
+// where the request came from
+servePublic('renew-certificates', {}, async ({ req, supabase }) => {
+  const secret = Deno.env.get('CRON_SECRET')
+  if (!secret || req.headers.get('Authorization') !== `Bearer ${secret}`) {
+    throw unauthorized('Invalid scheduler credentials')
+  }
+
+  return await renewCertificates(supabase)
+})
@@ -0,0 +1,32 @@
+import { conflict, notFound, requireAdmin, serveAuthenticated, z } from '../_shared/http.ts'
+import { processStripeEvent } from '../_shared/stripeEvents.ts'
+
+const ReplayStripeEventSchema = z.object({
+  eventId: z.string().startsWith('evt_'),
+})
+
+// Runs a failed webhook event again from its stored payload
+serveAuthenticated('replay-stripe-event', { schema: ReplayStripeEventSchema }, async ({ body, user, supabase }) => {
+  await requireAdmin(supabase, user.id)
+
+  const { data: event } = await supabase
+    .from('stripe_events')
+    .select('status')
+    .eq('id', body.eventId)
+    .maybeSingle()
+
+  if (!event) {
+    throw notFound('Stripe event not found')
+  }
+
+  if (event.status !== 'failed') {
+    throw conflict(`Only failed events can be replayed; this event is ${event.status}`)
+  }
+
+  const replayed = await processStripeEvent(supabase, body.eventId)
+  if (!replayed) {
+    throw conflict('This event is already being processed')
+  }
+
+  return { event: replayed }
+})
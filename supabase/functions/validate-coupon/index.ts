@@ -0,0 +1,14 @@
+import { serveAuthenticated, z } from '../_shared/http.ts'
+import { describeCoupon, findRedeemableCoupon } from '../_shared/coupons.ts'
+
+const ValidateCouponSchema = z.object({
+  code: z.string().trim().min(1),
+  // Leave out to check the code for any plan
+  priceId: z.string().min(1).optional(),
+})
+
+// Lets the pricing page show a discount before redirecting to Stripe
+serveAuthenticated('validate-coupon', { schema: ValidateCouponSchema }, async ({ body, user, supabase }) => {
+  const coupon = await findRedeemableCoupon(supabase, body.code, user.id, body.priceId)
+  return { coupon: describeCoupon(coupon) }
+})
@@ -0,0 +1,98 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { badRequest, HttpError, notFound, requireWebsitePermission, serveAuthenticated, z } from '../_shared/http.ts'
+import { DnsLookupError, resolverFromEnv } from '../_shared/dns.ts'
+import { checkDomain } from '../_shared/domainVerification.ts'
+import { issuerFromEnv, provisionCertificate } from '../_shared/certificates.ts'
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void }
+
+const VerifyDomainSchema = z.object({
+  websiteId: z.string().uuid(),
+  // Checks every domain of the website when omitted
+  domain: z.string().min(1).optional(),
+})
+
+const resolver = resolverFromEnv()
+
+// The first certificate is issued as soon as a domain routes to us;
+// renew-certificates takes care of it from then on
+const ensureCertificate = async (supabase: SupabaseClient, websiteId: string, domain: string) => {
+  const { data: certificate } = await supabase
+    .from('domain_certificates')
+    .select('status, renew_at')
+    .eq('domain', domain)
+    .maybeSingle()
+
+  // A failed attempt is retried once its backoff has passed
+  const retryDue = !certificate?.renew_at || new Date(certificate.renew_at) <= new Date()
+  if (certificate && (certificate.status === 'issued' || !retryDue)) return
+
+  EdgeRuntime.waitUntil(
+    issuerFromEnv(supabase)
+      .then((issuer) => provisionCertificate(supabase, issuer, websiteId, domain))
+      .catch((err) => console.error(`Certificate for ${domain} failed:`, err))
+  )
+}
+
+// Checks the DNS records of the website's custom domains and stores the results
+serveAuthenticated('verify-domain', { schema: VerifyDomainSchema }, async ({ body, user, supabase }) => {
+  await requireWebsitePermission(supabase, body.websiteId, user.id)
+
+  const { data: website, error } = await supabase
+    .from('websites')
+    .select('id, domain_verification_token')
+    .eq('id', body.websiteId)
+    .single()
+
+  if (error) throw new Error(`Failed to load website: ${error.message}`)
+
+  let query = supabase
+    .from('website_domains')
+    .select('id, domain, verified_at')
+    .eq('website_id', website.id)
+    .order('is_primary', { ascending: false })
+    .order('created_at')
+  if (body.domain) query = query.eq('domain', body.domain.trim().toLowerCase())
+
+  const { data: domains, error: domainsError } = await query
+  if (domainsError) throw new Error(`Failed to load domains: ${domainsError.message}`)
+  if (!domains?.length) {
+    throw body.domain ? notFound('This domain is not connected to the website') : badRequest('This website has no custom domain')
+  }
+
+  const checkedAt = new Date().toISOString()
+  const results = []
+  for (const row of domains) {
+    let check
+    try {
+      check = await checkDomain(resolver, row.domain, website.domain_verification_token)
+    } catch (err) {
+      if (err instanceof DnsLookupError) {
+        // Says nothing about the records, so the stored status is left alone
+        throw new HttpError(502, 'dns_lookup_failed', `${err.message}. Try again in a moment.`)
+      }
+      throw err
+    }
+
+    // Updating by id also skips domains removed while the lookups ran
+    const { error: updateError } = await supabase
+      .from('website_domains')
+      .update({
+        status: check.status,
+        failure_reason: check.reason,
+        checked_at: checkedAt,
+        verified_at: check.status === 'failed' ? null : row.verified_at ?? checkedAt,
+      })
+      .eq('id', row.id)
+
+    if (updateError) throw new Error(`Failed to save domain status: ${updateError.message}`)
+
+    if (check.status === 'active') {
+      await ensureCertificate(supabase, website.id, row.domain)
+    }
+
+    results.push({ domain: row.domain, ...check })
+  }
+
+  return { checkedAt, domains: results }
+})
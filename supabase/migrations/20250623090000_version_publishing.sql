@@ -0,0 +1,56 @@
+/*
+  # Website Version Publishing
+
+  1. Functions
+    - publish_website_version: marks one saved version as the published
+      version of its website and clears the flag on every other version
+
+  2. Security
+    - Requires the caller to have publish permission on the website
+    - website_versions has no UPDATE policy, so this is the only way
+      clients can change is_published
+*/
+
+CREATE OR REPLACE FUNCTION publish_website_version(version_uuid uuid)
+RETURNS website_versions AS $$
+DECLARE
+  target_website_id uuid;
+  published_version website_versions;
+BEGIN
+  SELECT website_id INTO target_website_id
+  FROM website_versions
+  WHERE id = version_uuid;
+
+  IF target_website_id IS NULL THEN
+    RAISE EXCEPTION 'Version % not found', version_uuid;
+  END IF;
+
+  -- Check if user has publish permissions
+  IF NOT EXISTS (
+    SELECT 1 FROM website_collaborators wc
+    WHERE wc.website_id = target_website_id
+    AND wc.user_id = auth.uid()
+    AND (wc.permissions->>'publish')::boolean = true
+  ) THEN
+    RAISE EXCEPTION 'Permission denied: User cannot publish this website';
+  END IF;
+
+  -- Only one version per website is published at a time
+  UPDATE website_versions
+  SET is_published = false
+  WHERE website_id = target_website_id
+    AND id <> version_uuid
+    AND is_published = true;
+
+  UPDATE website_versions
+  SET is_published = true, published_at = now()
+  WHERE id = version_uuid
+  RETURNING * INTO published_version;
+
+  RETURN published_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION publish_website_version(uuid) TO authenticated;
+
+COMMENT ON FUNCTION publish_website_version(uuid) IS 'Mark a saved version as the published version of its website';
@@ -0,0 +1,71 @@
+/*
+  # Deployment Pipeline
+
+  1. Changes to website_deployments
+    - status is limited to pending, building, deployed and failed; rows
+      written with the old in_progress/completed values are migrated
+    - artifact_path: storage folder holding the compiled site
+    - content_hash: SHA-256 of the compiled files, which also names the folder
+    - started_at / finished_at: when the build ran
+    - Added to the realtime publication so the editor can follow a build
+
+  2. Storage
+    - Public `sites` bucket for compiled sites, written only by the
+      deploy-website edge function
+
+  3. Functions
+    - append_deployment_log: appends one line to build_log without
+      overwriting lines written concurrently
+
+  4. Security
+    - append_deployment_log is only executable by the service role
+*/
+
+UPDATE website_deployments SET status = 'building' WHERE status = 'in_progress';
+UPDATE website_deployments SET status = 'deployed' WHERE status = 'completed';
+
+ALTER TABLE website_deployments
+  ADD COLUMN IF NOT EXISTS artifact_path text,
+  ADD COLUMN IF NOT EXISTS content_hash text,
+  ADD COLUMN IF NOT EXISTS started_at timestamptz,
+  ADD COLUMN IF NOT EXISTS finished_at timestamptz;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'website_deployments_status_check'
+  ) THEN
+    ALTER TABLE website_deployments
+      ADD CONSTRAINT website_deployments_status_check
+      CHECK (status IN ('pending', 'building', 'deployed', 'failed'));
+  END IF;
+END $$;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('sites', 'sites', true)
+ON CONFLICT (id) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'website_deployments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE website_deployments;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION append_deployment_log(deployment_uuid uuid, line text)
+RETURNS void AS $$
+BEGIN
+  UPDATE website_deployments
+  SET build_log = COALESCE(build_log, '') || line || E'\n',
+      updated_at = now()
+  WHERE id = deployment_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION append_deployment_log(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION append_deployment_log(uuid, text) TO service_role;
+
+COMMENT ON FUNCTION append_deployment_log(uuid, text) IS 'Append a line to the build log of a deployment';
@@ -0,0 +1,68 @@
+/*
+  # Deployment Rollback
+
+  1. Changes to websites
+    - live_deployment_id: the deployment whose files production serves.
+      Set when a build finishes and when an earlier deployment is promoted,
+      so rolling back only repoints the site at files already in storage.
+    - Backfilled with each website's most recent successful deployment
+
+  2. Functions
+    - promote_deployment: makes an earlier successful deployment live again
+
+  3. Security
+    - Requires the caller to have publish permission on the website
+*/
+
+ALTER TABLE websites
+  ADD COLUMN IF NOT EXISTS live_deployment_id uuid REFERENCES website_deployments(id) ON DELETE SET NULL;
+
+UPDATE websites w
+SET live_deployment_id = latest.id
+FROM (
+  SELECT DISTINCT ON (website_id) id, website_id
+  FROM website_deployments
+  WHERE status = 'deployed' AND artifact_path IS NOT NULL
+  ORDER BY website_id, deployed_at DESC
+) latest
+WHERE latest.website_id = w.id
+  AND w.live_deployment_id IS NULL;
+
+CREATE OR REPLACE FUNCTION promote_deployment(deployment_uuid uuid)
+RETURNS website_deployments AS $$
+DECLARE
+  target website_deployments;
+BEGIN
+  SELECT * INTO target
+  FROM website_deployments
+  WHERE id = deployment_uuid;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Deployment % not found', deployment_uuid;
+  END IF;
+
+  -- Check if user has publish permissions
+  IF NOT EXISTS (
+    SELECT 1 FROM website_collaborators wc
+    WHERE wc.website_id = target.website_id
+    AND wc.user_id = auth.uid()
+    AND (wc.permissions->>'publish')::boolean = true
+  ) THEN
+    RAISE EXCEPTION 'Permission denied: User cannot publish this website';
+  END IF;
+
+  IF target.status <> 'deployed' OR target.artifact_path IS NULL THEN
+    RAISE EXCEPTION 'Only successful deployments can be promoted';
+  END IF;
+
+  UPDATE websites
+  SET live_deployment_id = target.id, updated_at = now()
+  WHERE id = target.website_id;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION promote_deployment(uuid) TO authenticated;
+
+COMMENT ON FUNCTION promote_deployment(uuid) IS 'Serve an earlier successful deployment in production again';
@@ -0,0 +1,73 @@
+/*
+  # Preview Deployments
+
+  1. Changes to website_deployments
+    - kind: 'production' for deployments of the published version, 'preview'
+      for deployments of a single saved version at its own URL
+    - At most one preview per version that has not failed. Versions never
+      change, so a preview can be reused for as long as it exists.
+
+  2. Functions
+    - promote_deployment: now refuses previews. Previews live at their own
+      URL; a version reaches production through deploy-website.
+*/
+
+ALTER TABLE website_deployments
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'production';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'website_deployments_kind_check'
+  ) THEN
+    ALTER TABLE website_deployments
+      ADD CONSTRAINT website_deployments_kind_check
+      CHECK (kind IN ('production', 'preview'));
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS website_deployments_version_preview_idx
+  ON website_deployments(version_id)
+  WHERE kind = 'preview' AND status <> 'failed';
+
+CREATE INDEX IF NOT EXISTS website_deployments_website_kind_idx
+  ON website_deployments(website_id, kind, deployed_at DESC);
+
+CREATE OR REPLACE FUNCTION promote_deployment(deployment_uuid uuid)
+RETURNS website_deployments AS $$
+DECLARE
+  target website_deployments;
+BEGIN
+  SELECT * INTO target
+  FROM website_deployments
+  WHERE id = deployment_uuid;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Deployment % not found', deployment_uuid;
+  END IF;
+
+  -- Check if user has publish permissions
+  IF NOT EXISTS (
+    SELECT 1 FROM website_collaborators wc
+    WHERE wc.website_id = target.website_id
+    AND wc.user_id = auth.uid()
+    AND (wc.permissions->>'publish')::boolean = true
+  ) THEN
+    RAISE EXCEPTION 'Permission denied: User cannot publish this website';
+  END IF;
+
+  IF target.kind <> 'production' THEN
+    RAISE EXCEPTION 'Preview deployments cannot be promoted';
+  END IF;
+
+  IF target.status <> 'deployed' OR target.artifact_path IS NULL THEN
+    RAISE EXCEPTION 'Only successful deployments can be promoted';
+  END IF;
+
+  UPDATE websites
+  SET live_deployment_id = target.id, updated_at = now()
+  WHERE id = target.website_id;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
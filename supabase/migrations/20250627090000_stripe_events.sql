@@ -0,0 +1,82 @@
+/*
+  # Stripe Event Ledger
+
+  1. New Tables
+    - stripe_events: one row per Stripe event the webhook has received
+      - id: Stripe's event id (evt_...), so a redelivered event hits the
+        same row
+      - type, payload: the event as Stripe sent it, kept so failed events
+        can be replayed without asking Stripe again
+      - status: received, processing, processed, skipped (a newer event
+        already applied) or failed
+      - error: why the last attempt failed
+      - attempts, last_attempt_at, processed_at: processing history
+      - stripe_created_at: when Stripe created the event
+
+  2. Changes to subscriptions
+    - last_event_at: creation time of the newest Stripe state applied to
+      the row. Older subscription events are skipped instead of
+      overwriting newer state.
+
+  3. Functions
+    - claim_stripe_event: marks an event as processing and returns it, or
+      returns nothing when it is already processed, skipped or being
+      processed. Attempts stuck in processing for five minutes can be
+      claimed again.
+
+  4. Security
+    - Admins can read the ledger; only the service role writes to it
+    - claim_stripe_event is only executable by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id text PRIMARY KEY,
+  type text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'processing', 'processed', 'skipped', 'failed')),
+  error text,
+  attempts integer NOT NULL DEFAULT 0,
+  stripe_created_at timestamptz NOT NULL,
+  received_at timestamptz DEFAULT now(),
+  last_attempt_at timestamptz,
+  processed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS stripe_events_status_idx
+  ON stripe_events(status, received_at DESC);
+
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read stripe events" ON stripe_events;
+
+CREATE POLICY "Admins can read stripe events"
+  ON stripe_events FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+ALTER TABLE subscriptions
+  ADD COLUMN IF NOT EXISTS last_event_at timestamptz;
+
+CREATE OR REPLACE FUNCTION claim_stripe_event(event_id text)
+RETURNS SETOF stripe_events AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE stripe_events
+  SET status = 'processing',
+      error = NULL,
+      attempts = attempts + 1,
+      last_attempt_at = now()
+  WHERE id = event_id
+  AND (
+    status IN ('received', 'failed')
+    OR (status = 'processing' AND last_attempt_at < now() - interval '5 minutes')
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION claim_stripe_event(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_stripe_event(text) TO service_role;
+
+COMMENT ON FUNCTION claim_stripe_event(text) IS 'Mark a Stripe event as processing unless it is already handled';
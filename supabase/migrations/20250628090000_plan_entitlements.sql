@@ -0,0 +1,355 @@
+/*
+  # Plan Entitlements
+
+  1. New Tables
+    - plan_entitlements: what each plan includes, one row per plan. NULL
+      limits are unlimited.
+      - max_websites: websites the user owns
+      - max_custom_domains: owned websites with a custom domain
+      - max_collaborators: collaborators per website, not counting the owner
+      - storage_limit_mb: deployed site files across all owned websites
+      - version_retention: saved versions kept per website
+      - premium_templates: every premium template is included
+
+  2. Functions
+    - entitlement_status: a user's plan, usage and limit for one feature,
+      and the cheapest plan that would allow one more
+    - check_entitlement: entitlement_status for the signed-in user. For
+      collaborators the website owner's plan applies.
+    - user_has_template_access: reads premium_templates instead of
+      hard-coding the paid plans
+
+  3. Enforcement
+    - Inserting a website, setting a custom domain and adding a collaborator
+      are refused past the plan's limit. The error has hint
+      'upgrade_required' and the entitlement_status row as JSON in detail.
+    - Saving a version removes the oldest versions past version_retention.
+      Published versions and versions with a deployment are kept.
+
+  4. Security
+    - Everyone can read plan_entitlements; only migrations change it
+    - entitlement_status is only executable by the service role
+    - Users cannot change the plan on their own profile; only the service
+      role, SECURITY DEFINER functions and admins can
+*/
+
+CREATE TABLE IF NOT EXISTS plan_entitlements (
+  plan user_plan PRIMARY KEY,
+  max_websites integer,
+  max_custom_domains integer,
+  max_collaborators integer,
+  storage_limit_mb integer,
+  version_retention integer,
+  premium_templates boolean NOT NULL DEFAULT false,
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO plan_entitlements (
+  plan, max_websites, max_custom_domains, max_collaborators,
+  storage_limit_mb, version_retention, premium_templates
+)
+VALUES
+  ('free', 1, 0, 0, 5120, 10, false),
+  ('pro', NULL, 10, 5, 102400, 100, true),
+  ('business', NULL, NULL, NULL, 512000, NULL, true)
+ON CONFLICT (plan) DO UPDATE SET
+  max_websites = EXCLUDED.max_websites,
+  max_custom_domains = EXCLUDED.max_custom_domains,
+  max_collaborators = EXCLUDED.max_collaborators,
+  storage_limit_mb = EXCLUDED.storage_limit_mb,
+  version_retention = EXCLUDED.version_retention,
+  premium_templates = EXCLUDED.premium_templates,
+  updated_at = now();
+
+ALTER TABLE plan_entitlements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read plan entitlements" ON plan_entitlements;
+
+CREATE POLICY "Anyone can read plan entitlements"
+  ON plan_entitlements FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- The limit a plan sets on a feature; NULL is unlimited, 0/1 for flags
+CREATE OR REPLACE FUNCTION plan_limit(entitlements plan_entitlements, feature_name text)
+RETURNS integer AS $$
+BEGIN
+  RETURN CASE feature_name
+    WHEN 'websites' THEN entitlements.max_websites
+    WHEN 'custom_domains' THEN entitlements.max_custom_domains
+    WHEN 'collaborators' THEN entitlements.max_collaborators
+    WHEN 'storage' THEN entitlements.storage_limit_mb
+    WHEN 'premium_templates' THEN CASE WHEN entitlements.premium_templates THEN NULL ELSE 0 END
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION entitlement_status(
+  user_uuid uuid,
+  feature_name text,
+  website_uuid uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  feature text,
+  plan user_plan,
+  used bigint,
+  limit_count integer,
+  allowed boolean,
+  upgrade_plan user_plan
+) AS $$
+DECLARE
+  current_plan user_plan;
+  current_usage bigint;
+  current_limit integer;
+BEGIN
+  IF feature_name NOT IN ('websites', 'custom_domains', 'collaborators', 'storage', 'premium_templates') THEN
+    RAISE EXCEPTION 'Unknown entitlement %', feature_name;
+  END IF;
+
+  SELECT COALESCE(p.plan, 'free') INTO current_plan
+  FROM profiles p
+  WHERE p.id = user_uuid;
+
+  current_plan := COALESCE(current_plan, 'free');
+
+  current_usage := CASE feature_name
+    WHEN 'websites' THEN
+      (SELECT COUNT(*) FROM websites w WHERE w.user_id = user_uuid)
+    WHEN 'custom_domains' THEN
+      -- Replacing a website's domain does not use another one
+      (SELECT COUNT(*) FROM websites w
+       WHERE w.user_id = user_uuid
+       AND w.domain IS NOT NULL
+       AND w.id IS DISTINCT FROM website_uuid)
+    WHEN 'collaborators' THEN
+      (SELECT COUNT(*) FROM website_collaborators wc
+       WHERE wc.website_id = website_uuid
+       AND wc.role <> 'owner')
+    WHEN 'storage' THEN
+      (SELECT COALESCE(SUM((o.metadata->>'size')::bigint), 0) / (1024 * 1024)
+       FROM storage.objects o
+       JOIN websites w ON w.id::text = split_part(o.name, '/', 1)
+       WHERE o.bucket_id = 'sites'
+       AND w.user_id = user_uuid)
+    ELSE 0
+  END;
+
+  SELECT plan_limit(pe, feature_name) INTO current_limit
+  FROM plan_entitlements pe
+  WHERE pe.plan = current_plan;
+
+  RETURN QUERY
+  SELECT
+    feature_name,
+    current_plan,
+    current_usage,
+    current_limit,
+    current_limit IS NULL OR current_usage < current_limit,
+    (
+      SELECT pe.plan
+      FROM plan_entitlements pe
+      WHERE pe.plan > current_plan
+      AND (plan_limit(pe, feature_name) IS NULL OR current_usage < plan_limit(pe, feature_name))
+      ORDER BY pe.plan
+      LIMIT 1
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION check_entitlement(feature_name text, website_uuid uuid DEFAULT NULL)
+RETURNS TABLE (
+  feature text,
+  plan user_plan,
+  used bigint,
+  limit_count integer,
+  allowed boolean,
+  upgrade_plan user_plan
+) AS $$
+DECLARE
+  subject_uuid uuid := auth.uid();
+BEGIN
+  IF feature_name = 'collaborators' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM website_collaborators wc
+      WHERE wc.website_id = website_uuid
+      AND wc.user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Permission denied: User cannot access this website';
+    END IF;
+
+    -- Collaborators count against the owner's plan
+    SELECT w.user_id INTO subject_uuid FROM websites w WHERE w.id = website_uuid;
+  END IF;
+
+  RETURN QUERY SELECT * FROM entitlement_status(subject_uuid, feature_name, website_uuid);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION require_entitlement(
+  user_uuid uuid,
+  feature_name text,
+  website_uuid uuid DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  status record;
+  labels jsonb := '{
+    "websites": "websites",
+    "custom_domains": "custom domains",
+    "collaborators": "collaborators per website",
+    "storage": "MB of storage",
+    "premium_templates": "premium templates"
+  }';
+BEGIN
+  SELECT * INTO status FROM entitlement_status(user_uuid, feature_name, website_uuid);
+
+  IF NOT status.allowed THEN
+    RAISE EXCEPTION '%', format(
+      'Your %s plan includes %s %s.%s',
+      initcap(status.plan::text),
+      status.limit_count,
+      labels->>feature_name,
+      CASE WHEN status.upgrade_plan IS NULL THEN ''
+        ELSE format(' Upgrade to %s for more.', initcap(status.upgrade_plan::text)) END
+    )
+    USING
+      ERRCODE = 'check_violation',
+      HINT = 'upgrade_required',
+      DETAIL = row_to_json(status)::text;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION enforce_plan_limits()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'websites' AND TG_OP = 'INSERT' THEN
+    PERFORM require_entitlement(NEW.user_id, 'websites');
+    IF NEW.domain IS NOT NULL THEN
+      PERFORM require_entitlement(NEW.user_id, 'custom_domains', NEW.id);
+    END IF;
+  ELSIF TG_TABLE_NAME = 'websites' THEN
+    PERFORM require_entitlement(NEW.user_id, 'custom_domains', NEW.id);
+  ELSIF TG_TABLE_NAME = 'website_collaborators' THEN
+    PERFORM require_entitlement(
+      (SELECT w.user_id FROM websites w WHERE w.id = NEW.website_id),
+      'collaborators',
+      NEW.website_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enforce_website_limit ON websites;
+CREATE TRIGGER enforce_website_limit
+  BEFORE INSERT ON websites
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_plan_limits();
+
+DROP TRIGGER IF EXISTS enforce_custom_domain_limit ON websites;
+CREATE TRIGGER enforce_custom_domain_limit
+  BEFORE UPDATE OF domain ON websites
+  FOR EACH ROW
+  WHEN (NEW.domain IS NOT NULL AND NEW.domain IS DISTINCT FROM OLD.domain)
+  EXECUTE FUNCTION enforce_plan_limits();
+
+DROP TRIGGER IF EXISTS enforce_collaborator_limit ON website_collaborators;
+CREATE TRIGGER enforce_collaborator_limit
+  BEFORE INSERT ON website_collaborators
+  FOR EACH ROW
+  WHEN (NEW.role <> 'owner')
+  EXECUTE FUNCTION enforce_plan_limits();
+
+CREATE OR REPLACE FUNCTION prune_website_versions()
+RETURNS trigger AS $$
+DECLARE
+  retention integer;
+BEGIN
+  SELECT pe.version_retention INTO retention
+  FROM websites w
+  JOIN profiles p ON p.id = w.user_id
+  JOIN plan_entitlements pe ON pe.plan = p.plan
+  WHERE w.id = NEW.website_id;
+
+  IF retention IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM website_versions wv
+  WHERE wv.website_id = NEW.website_id
+  AND wv.version_number <= NEW.version_number - retention
+  AND COALESCE(wv.is_published, false) = false
+  AND NOT EXISTS (
+    SELECT 1 FROM website_deployments wd WHERE wd.version_id = wv.id
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS prune_website_versions ON website_versions;
+CREATE TRIGGER prune_website_versions
+  AFTER INSERT ON website_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION prune_website_versions();
+
+CREATE OR REPLACE FUNCTION user_has_template_access(user_uuid uuid, template_uuid uuid)
+RETURNS boolean AS $$
+DECLARE
+  template_price integer;
+BEGIN
+  -- Get template price
+  SELECT price INTO template_price
+  FROM premium_templates
+  WHERE id = template_uuid AND is_active = true;
+
+  -- If template not found or free, allow access
+  IF template_price IS NULL OR template_price = 0 THEN
+    RETURN true;
+  END IF;
+
+  -- Plans with premium_templates include every premium template
+  IF (SELECT allowed FROM entitlement_status(user_uuid, 'premium_templates')) THEN
+    RETURN true;
+  END IF;
+
+  -- Otherwise the user must have purchased this specific template
+  RETURN EXISTS(
+    SELECT 1 FROM template_purchases
+    WHERE user_id = user_uuid AND template_id = template_uuid
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The limits above all read profiles.plan, so users must not be able to
+-- set it on their own profile. Billing changes it through the service role
+-- and SECURITY DEFINER functions; admins through the admin tools.
+CREATE OR REPLACE FUNCTION guard_profile_plan()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user = 'authenticated' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Your plan changes through billing'
+    USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_profile_plan ON profiles;
+CREATE TRIGGER guard_profile_plan
+  BEFORE UPDATE OF plan ON profiles
+  FOR EACH ROW
+  WHEN (NEW.plan IS DISTINCT FROM OLD.plan)
+  EXECUTE FUNCTION guard_profile_plan();
+
+REVOKE EXECUTE ON FUNCTION entitlement_status(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION require_entitlement(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION entitlement_status(uuid, text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION check_entitlement(text, uuid) TO authenticated;
+
+COMMENT ON FUNCTION entitlement_status(uuid, text, uuid) IS 'Plan, usage and limit of one entitlement for a user';
+COMMENT ON FUNCTION check_entitlement(text, uuid) IS 'Plan, usage and limit of one entitlement for the current user';
+COMMENT ON FUNCTION require_entitlement(uuid, text, uuid) IS 'Raise upgrade_required when a user is at the limit of an entitlement';
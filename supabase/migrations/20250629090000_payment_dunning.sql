@@ -0,0 +1,210 @@
+/*
+  # Payment Dunning
+
+  1. Changes to subscriptions
+    - dunning_status: 'none', 'grace' (a payment failed and the user has
+      until grace_period_ends_at to pay) or 'downgraded' (the grace period
+      ran out and the account is on the free plan until payment succeeds)
+    - payment_failed_at: first failure of the current dunning cycle
+    - grace_period_ends_at, downgraded_at
+
+  2. Changes to websites
+    - suspended_at: set on websites over the plan's limit after a
+      downgrade. Suspended websites are unpublished and read-only.
+    - suspended_status, suspended_live_deployment_id: what to put back when
+      the website is restored
+
+  3. Functions
+    - apply_plan_downgrade: moves a user to a plan and suspends the
+      websites the plan no longer includes, keeping published and recently
+      updated ones
+    - restore_suspended_websites: restores suspended websites as far as
+      the user's current plan allows
+
+  4. Enforcement
+    - New versions, deployments, publishing and domain changes are refused
+      for suspended websites. The error has hint 'website_suspended'.
+    - Users cannot change the suspended_* columns themselves
+
+  5. Security
+    - Both functions are only executable by the service role
+*/
+
+ALTER TABLE subscriptions
+  ADD COLUMN IF NOT EXISTS dunning_status text NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS payment_failed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS grace_period_ends_at timestamptz,
+  ADD COLUMN IF NOT EXISTS downgraded_at timestamptz;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'subscriptions_dunning_status_check'
+  ) THEN
+    ALTER TABLE subscriptions
+      ADD CONSTRAINT subscriptions_dunning_status_check
+      CHECK (dunning_status IN ('none', 'grace', 'downgraded'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS subscriptions_grace_period_idx
+  ON subscriptions(grace_period_ends_at)
+  WHERE dunning_status = 'grace';
+
+ALTER TABLE websites
+  ADD COLUMN IF NOT EXISTS suspended_at timestamptz,
+  ADD COLUMN IF NOT EXISTS suspended_status website_status,
+  ADD COLUMN IF NOT EXISTS suspended_live_deployment_id uuid REFERENCES website_deployments(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION apply_plan_downgrade(user_uuid uuid, new_plan user_plan DEFAULT 'free')
+RETURNS integer AS $$
+DECLARE
+  included integer;
+  suspended_count integer;
+BEGIN
+  UPDATE profiles
+  SET plan = new_plan, updated_at = now()
+  WHERE id = user_uuid;
+
+  SELECT pe.max_websites INTO included
+  FROM plan_entitlements pe
+  WHERE pe.plan = new_plan;
+
+  IF included IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  WITH extra AS (
+    SELECT w.id
+    FROM websites w
+    WHERE w.user_id = user_uuid
+    AND w.suspended_at IS NULL
+    ORDER BY (w.status = 'published') DESC, w.updated_at DESC
+    OFFSET included
+  )
+  UPDATE websites w
+  SET suspended_at = now(),
+      suspended_status = w.status,
+      suspended_live_deployment_id = w.live_deployment_id,
+      status = 'draft',
+      live_deployment_id = NULL,
+      updated_at = now()
+  FROM extra
+  WHERE w.id = extra.id;
+
+  GET DIAGNOSTICS suspended_count = ROW_COUNT;
+  RETURN suspended_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION restore_suspended_websites(user_uuid uuid)
+RETURNS integer AS $$
+DECLARE
+  included integer;
+  active_count integer;
+  restored_count integer;
+BEGIN
+  SELECT pe.max_websites INTO included
+  FROM profiles p
+  JOIN plan_entitlements pe ON pe.plan = p.plan
+  WHERE p.id = user_uuid;
+
+  SELECT COUNT(*) INTO active_count
+  FROM websites w
+  WHERE w.user_id = user_uuid
+  AND w.suspended_at IS NULL;
+
+  WITH restorable AS (
+    SELECT w.id
+    FROM websites w
+    WHERE w.user_id = user_uuid
+    AND w.suspended_at IS NOT NULL
+    ORDER BY (w.suspended_status = 'published') DESC, w.updated_at DESC
+    -- LIMIT NULL restores every suspended website
+    LIMIT CASE WHEN included IS NULL THEN NULL ELSE GREATEST(included - active_count, 0) END
+  )
+  UPDATE websites w
+  SET status = COALESCE(w.suspended_status, 'draft'),
+      live_deployment_id = w.suspended_live_deployment_id,
+      suspended_at = NULL,
+      suspended_status = NULL,
+      suspended_live_deployment_id = NULL,
+      updated_at = now()
+  FROM restorable
+  WHERE w.id = restorable.id;
+
+  GET DIAGNOSTICS restored_count = ROW_COUNT;
+  RETURN restored_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION prevent_suspended_website_changes()
+RETURNS trigger AS $$
+DECLARE
+  suspended boolean;
+BEGIN
+  IF TG_TABLE_NAME = 'websites' THEN
+    -- Only apply_plan_downgrade and restore_suspended_websites, which run as
+    -- their owner, and the service role may suspend or restore a website
+    IF current_user = 'authenticated' AND (
+      NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+      OR NEW.suspended_status IS DISTINCT FROM OLD.suspended_status
+      OR NEW.suspended_live_deployment_id IS DISTINCT FROM OLD.suspended_live_deployment_id
+    ) THEN
+      RAISE EXCEPTION 'Website suspension follows your billing and cannot be changed directly'
+      USING
+        ERRCODE = 'insufficient_privilege',
+        HINT = 'website_suspended';
+    END IF;
+
+    -- Restoring clears suspended_at in the same update, which is allowed
+    suspended := NEW.suspended_at IS NOT NULL AND OLD.suspended_at IS NOT NULL
+      AND (
+        NEW.status = 'published'
+        OR NEW.live_deployment_id IS NOT NULL
+        OR NEW.domain IS DISTINCT FROM OLD.domain
+      );
+  ELSE
+    SELECT w.suspended_at IS NOT NULL INTO suspended
+    FROM websites w
+    WHERE w.id = NEW.website_id;
+  END IF;
+
+  IF COALESCE(suspended, false) THEN
+    RAISE EXCEPTION 'This website is read-only because your plan no longer includes it. Upgrade or pay your open invoice to edit it again.'
+    USING
+      ERRCODE = 'check_violation',
+      HINT = 'website_suspended';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_suspended_website_updates ON websites;
+CREATE TRIGGER prevent_suspended_website_updates
+  BEFORE UPDATE ON websites
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_suspended_website_changes();
+
+DROP TRIGGER IF EXISTS prevent_suspended_website_versions ON website_versions;
+CREATE TRIGGER prevent_suspended_website_versions
+  BEFORE INSERT ON website_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_suspended_website_changes();
+
+DROP TRIGGER IF EXISTS prevent_suspended_website_deployments ON website_deployments;
+CREATE TRIGGER prevent_suspended_website_deployments
+  BEFORE INSERT ON website_deployments
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_suspended_website_changes();
+
+-- Supabase grants EXECUTE on new functions to anon and authenticated
+-- directly, so revoking from PUBLIC alone leaves them callable
+REVOKE EXECUTE ON FUNCTION apply_plan_downgrade(uuid, user_plan) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION restore_suspended_websites(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_plan_downgrade(uuid, user_plan) TO service_role;
+GRANT EXECUTE ON FUNCTION restore_suspended_websites(uuid) TO service_role;
+
+COMMENT ON FUNCTION apply_plan_downgrade(uuid, user_plan) IS 'Move a user to a plan and suspend the websites it no longer includes';
+COMMENT ON FUNCTION restore_suspended_websites(uuid) IS 'Restore suspended websites as far as the current plan allows';
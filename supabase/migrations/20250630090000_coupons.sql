@@ -0,0 +1,106 @@
+/*
+  # Coupons
+
+  1. New Tables
+    - coupons: discount codes created by admins, each mirrored by a Stripe
+      coupon and promotion code
+      - code: what users type at checkout, stored in upper case
+      - percent_off or amount_off (in cents, with currency); exactly one
+      - duration: 'once', 'repeating' (for duration_in_months) or 'forever'
+      - max_redemptions, expires_at: NULL for no limit
+      - allowed_plans: plan ids the code applies to; empty for every plan
+      - is_active: false once an admin deactivates the code
+      - times_redeemed: kept up to date from coupon_redemptions
+    - coupon_redemptions: one row per completed checkout that used a coupon
+
+  2. Triggers
+    - Recording a redemption increments coupons.times_redeemed
+
+  3. Security
+    - Admins can read both tables; edge functions write them, since every
+      change has to be made in Stripe as well
+*/
+
+CREATE TABLE IF NOT EXISTS coupons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL CHECK (code = upper(code)),
+  name text NOT NULL,
+  percent_off integer CHECK (percent_off BETWEEN 1 AND 100),
+  amount_off integer CHECK (amount_off > 0),
+  currency text NOT NULL DEFAULT 'usd',
+  duration text NOT NULL CHECK (duration IN ('once', 'repeating', 'forever')),
+  duration_in_months integer CHECK (duration_in_months > 0),
+  max_redemptions integer CHECK (max_redemptions > 0),
+  expires_at timestamptz,
+  allowed_plans text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  times_redeemed integer NOT NULL DEFAULT 0,
+  stripe_coupon_id text NOT NULL,
+  stripe_promotion_code_id text NOT NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK ((percent_off IS NULL) <> (amount_off IS NULL)),
+  CHECK ((duration = 'repeating') = (duration_in_months IS NOT NULL))
+);
+
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  coupon_id uuid REFERENCES coupons(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  plan_id text NOT NULL,
+  stripe_checkout_session_id text UNIQUE NOT NULL,
+  stripe_subscription_id text,
+  amount_discount integer NOT NULL DEFAULT 0,
+  currency text NOT NULL DEFAULT 'usd',
+  redeemed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS coupon_redemptions_coupon_id_idx
+  ON coupon_redemptions(coupon_id, redeemed_at DESC);
+
+CREATE INDEX IF NOT EXISTS coupon_redemptions_user_id_idx
+  ON coupon_redemptions(user_id);
+
+ALTER TABLE coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read coupons" ON coupons;
+DROP POLICY IF EXISTS "Admins can read coupon redemptions" ON coupon_redemptions;
+
+CREATE POLICY "Admins can read coupons"
+  ON coupons FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can read coupon redemptions"
+  ON coupon_redemptions FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION count_coupon_redemption()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE coupons
+  SET times_redeemed = times_redeemed + 1, updated_at = now()
+  WHERE id = NEW.coupon_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS count_coupon_redemption ON coupon_redemptions;
+CREATE TRIGGER count_coupon_redemption
+  AFTER INSERT ON coupon_redemptions
+  FOR EACH ROW
+  EXECUTE FUNCTION count_coupon_redemption();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_coupons_updated_at') THEN
+    CREATE TRIGGER update_coupons_updated_at
+      BEFORE UPDATE ON coupons
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
@@ -0,0 +1,47 @@
+/*
+  # Billing summary price
+
+  1. Functions
+    - get_user_billing_summary now also returns the subscription's price_id,
+      so the billing page knows the current interval when offering plan
+      changes. The return type changes, so the function is recreated.
+*/
+
+DROP FUNCTION IF EXISTS get_user_billing_summary(uuid);
+
+CREATE FUNCTION get_user_billing_summary(user_uuid uuid)
+RETURNS TABLE (
+  subscription_status subscription_status,
+  plan_id text,
+  price_id text,
+  current_period_end timestamptz,
+  cancel_at_period_end boolean,
+  next_invoice_amount integer,
+  payment_method_last_four text,
+  payment_method_brand text
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.status,
+    s.plan_id,
+    s.price_id,
+    s.current_period_end,
+    s.cancel_at_period_end,
+    COALESCE(i.amount_due, 0) as next_invoice_amount,
+    pm.last_four,
+    pm.brand
+  FROM subscriptions s
+  LEFT JOIN invoices i ON s.id = i.subscription_id
+    AND i.status = 'open'
+    AND i.due_date > now()
+  LEFT JOIN payment_methods pm ON pm.user_id = s.user_id
+    AND pm.is_default = true
+  WHERE s.user_id = user_uuid
+    AND s.status IN ('active', 'trialing', 'past_due')
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_user_billing_summary(uuid) TO authenticated;
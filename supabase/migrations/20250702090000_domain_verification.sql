@@ -0,0 +1,86 @@
+/*
+  # Domain Verification
+
+  1. Changes to websites
+    - domain_status: where the custom domain is in verification
+      - 'pending': connected, not checked yet
+      - 'verified': the ownership TXT record was found, but the domain does
+        not point at us yet
+      - 'active': ownership and routing records are both correct
+      - 'failed': the ownership TXT record is missing or wrong
+    - domain_verification_token: per-website value for the TXT record at
+      _ncbx-verification.<domain>. It stays the same when the domain changes.
+    - domain_verified_at: when ownership was first confirmed
+    - domain_checked_at, domain_failure_reason: the latest check and what
+      it found wrong
+
+  2. Triggers
+    - Changing websites.domain resets verification to 'pending'
+    - Signed-in users cannot set the verification columns themselves; only
+      the verify-domain edge function (service role) can
+
+  3. Data
+    - Domains connected before this migration start as 'pending'
+*/
+
+ALTER TABLE websites
+  ADD COLUMN IF NOT EXISTS domain_status text,
+  ADD COLUMN IF NOT EXISTS domain_verification_token text NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  ADD COLUMN IF NOT EXISTS domain_verified_at timestamptz,
+  ADD COLUMN IF NOT EXISTS domain_checked_at timestamptz,
+  ADD COLUMN IF NOT EXISTS domain_failure_reason text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'websites_domain_status_check'
+  ) THEN
+    ALTER TABLE websites ADD CONSTRAINT websites_domain_status_check
+      CHECK (domain_status IN ('pending', 'verified', 'active', 'failed'));
+  END IF;
+END $$;
+
+UPDATE websites
+SET domain_status = 'pending'
+WHERE domain IS NOT NULL AND domain_status IS NULL;
+
+CREATE OR REPLACE FUNCTION guard_domain_verification()
+RETURNS trigger AS $$
+BEGIN
+  -- Only the service role may record verification results
+  IF current_user = 'authenticated' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.domain_verification_token := replace(gen_random_uuid()::text, '-', '');
+      NEW.domain_status := NULL;
+      NEW.domain_verified_at := NULL;
+      NEW.domain_checked_at := NULL;
+      NEW.domain_failure_reason := NULL;
+    ELSE
+      NEW.domain_verification_token := OLD.domain_verification_token;
+      NEW.domain_status := OLD.domain_status;
+      NEW.domain_verified_at := OLD.domain_verified_at;
+      NEW.domain_checked_at := OLD.domain_checked_at;
+      NEW.domain_failure_reason := OLD.domain_failure_reason;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.domain IS DISTINCT FROM OLD.domain THEN
+    NEW.domain_status := CASE WHEN NEW.domain IS NULL THEN NULL ELSE 'pending' END;
+    NEW.domain_verified_at := NULL;
+    NEW.domain_checked_at := NULL;
+    NEW.domain_failure_reason := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_domain_verification ON websites;
+CREATE TRIGGER guard_domain_verification
+  BEFORE INSERT OR UPDATE ON websites
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_domain_verification();
+
+COMMENT ON COLUMN websites.domain_status IS 'Custom domain verification: pending, verified, active or failed';
+COMMENT ON COLUMN websites.domain_verification_token IS 'Value of the _ncbx-verification TXT record that proves domain ownership';
@@ -0,0 +1,194 @@
+/*
+  # Domain Certificates
+
+  1. New Tables
+    - domain_certificates: the TLS certificate for each custom domain
+      - status: 'pending' (none issued yet), 'issued', 'failed' (the last
+        attempt failed and there is no certificate) or 'expired'
+      - issuer, issued_at, expires_at: read from the issued certificate
+      - certificate_pem, private_key_pem: what the edge proxy serves; never
+        readable by signed-in users
+      - locked_at: set while an issuance or renewal runs
+      - attempts, last_error: failures since the last success
+      - renew_at: when the renewal job next tries; some time before expiry,
+        or after a backoff when an attempt failed
+    - acme_accounts: one ACME account key per certificate authority
+    - acme_challenges: pending HTTP-01 answers, served by the acme-challenge
+      function at /.well-known/acme-challenge/<token>
+
+  2. Changes to website_deployments
+    - ssl_enabled now defaults to false and is kept up to date: true for
+      *.ncbx.app deployments, and for custom domains while they have an
+      unexpired certificate
+
+  3. Functions
+    - claim_domain_certificate: locks a domain's row for one issuance,
+      creating it if needed. Returns nothing while another run holds it.
+      Locks older than ten minutes are taken over.
+
+  4. Triggers
+    - Certificate changes update ssl_enabled on the domain's deployments
+    - Changing or removing websites.domain deletes the old certificate
+
+  5. Security
+    - Collaborators can read the status columns of their websites'
+      certificates; everything else is service role only
+*/
+
+CREATE TABLE IF NOT EXISTS domain_certificates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  website_id uuid REFERENCES websites(id) ON DELETE CASCADE NOT NULL,
+  domain text UNIQUE NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'issued', 'failed', 'expired')),
+  issuer text,
+  issued_at timestamptz,
+  expires_at timestamptz,
+  certificate_pem text,
+  private_key_pem text,
+  locked_at timestamptz,
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  renew_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS domain_certificates_renew_at_idx
+  ON domain_certificates(renew_at);
+
+CREATE TABLE IF NOT EXISTS acme_accounts (
+  directory_url text PRIMARY KEY,
+  private_key_jwk jsonb NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS acme_challenges (
+  token text PRIMARY KEY,
+  domain text NOT NULL,
+  key_authorization text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE domain_certificates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE acme_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE acme_challenges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Collaborators can read domain certificates" ON domain_certificates;
+
+CREATE POLICY "Collaborators can read domain certificates"
+  ON domain_certificates FOR SELECT
+  TO authenticated
+  USING (
+    website_id IN (
+      SELECT website_id FROM website_collaborators
+      WHERE user_id = auth.uid()
+    ) OR
+    is_admin()
+  );
+
+-- Keys and certificates stay with the service role
+REVOKE ALL ON domain_certificates FROM anon, authenticated;
+GRANT SELECT (id, website_id, domain, status, issuer, issued_at, expires_at, locked_at, last_error, renew_at, updated_at)
+  ON domain_certificates TO authenticated;
+REVOKE ALL ON acme_accounts FROM anon, authenticated;
+REVOKE ALL ON acme_challenges FROM anon, authenticated;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_domain_certificates_updated_at') THEN
+    CREATE TRIGGER update_domain_certificates_updated_at
+      BEFORE UPDATE ON domain_certificates
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION claim_domain_certificate(website_uuid uuid, domain_name text)
+RETURNS SETOF domain_certificates AS $$
+BEGIN
+  RETURN QUERY
+  INSERT INTO domain_certificates (website_id, domain, locked_at)
+  VALUES (website_uuid, domain_name, now())
+  ON CONFLICT (domain) DO UPDATE
+  SET locked_at = now(),
+      website_id = EXCLUDED.website_id
+  WHERE domain_certificates.locked_at IS NULL
+    OR domain_certificates.locked_at < now() - interval '10 minutes'
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ssl_enabled used to default to true whether or not a certificate existed
+ALTER TABLE website_deployments ALTER COLUMN ssl_enabled SET DEFAULT false;
+
+CREATE OR REPLACE FUNCTION has_valid_certificate(domain_name text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM domain_certificates
+    WHERE domain = domain_name
+      AND status = 'issued'
+      AND expires_at > now()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+UPDATE website_deployments
+SET ssl_enabled = custom_domain IS NULL OR has_valid_certificate(custom_domain);
+
+CREATE OR REPLACE FUNCTION set_deployment_ssl()
+RETURNS trigger AS $$
+BEGIN
+  -- *.ncbx.app is covered by the platform's wildcard certificate
+  NEW.ssl_enabled := NEW.custom_domain IS NULL OR has_valid_certificate(NEW.custom_domain);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_deployment_ssl ON website_deployments;
+CREATE TRIGGER set_deployment_ssl
+  BEFORE INSERT OR UPDATE OF custom_domain ON website_deployments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_deployment_ssl();
+
+CREATE OR REPLACE FUNCTION sync_certificate_ssl()
+RETURNS trigger AS $$
+DECLARE
+  changed_domain text := COALESCE(NEW.domain, OLD.domain);
+BEGIN
+  UPDATE website_deployments
+  SET ssl_enabled = has_valid_certificate(changed_domain)
+  WHERE custom_domain = changed_domain;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_certificate_ssl ON domain_certificates;
+CREATE TRIGGER sync_certificate_ssl
+  AFTER INSERT OR UPDATE OF status, expires_at OR DELETE ON domain_certificates
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_certificate_ssl();
+
+CREATE OR REPLACE FUNCTION drop_stale_certificates()
+RETURNS trigger AS $$
+BEGIN
+  DELETE FROM domain_certificates
+  WHERE website_id = NEW.id
+    AND domain IS DISTINCT FROM NEW.domain;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS drop_stale_certificates ON websites;
+CREATE TRIGGER drop_stale_certificates
+  AFTER UPDATE OF domain ON websites
+  FOR EACH ROW
+  WHEN (NEW.domain IS DISTINCT FROM OLD.domain)
+  EXECUTE FUNCTION drop_stale_certificates();
+
+REVOKE EXECUTE ON FUNCTION claim_domain_certificate(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_domain_certificate(uuid, text) TO service_role;
+
+COMMENT ON FUNCTION claim_domain_certificate(uuid, text) IS 'Lock a domain certificate row for one issuance or renewal';
+COMMENT ON FUNCTION has_valid_certificate(text) IS 'Whether a custom domain has an unexpired certificate';
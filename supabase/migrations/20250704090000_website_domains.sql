@@ -0,0 +1,459 @@
+/*
+  # Website Domains
+
+  1. New Tables
+    - website_domains: every custom domain attached to a website
+      - domain: stored in lower case; unique across all websites, and
+        cannot be renamed (remove it and add the new one instead)
+      - is_primary: the domain the website is served on. Each website with
+        domains has exactly one; the first domain added becomes primary.
+      - redirect: what an alias does, NULL for the primary
+        - 'primary': 301 to the primary domain
+        - 'apex_www': 301 to its apex or www counterpart (example.com <->
+          www.example.com), falling back to the primary when the
+          counterpart is not attached
+      - status, verified_at, checked_at, failure_reason: DNS verification,
+        moved here from websites so that each domain is verified on its own
+
+  2. Changes to websites
+    - domain is now kept equal to the primary website_domains row once it
+      is verified, and NULL until then, so that deployments and suspension
+      keep working unchanged. Signed-in users can no longer write it
+      directly.
+    - domain_status, domain_verified_at, domain_checked_at and
+      domain_failure_reason are dropped; their values move to
+      website_domains. domain_verification_token stays: one TXT value
+      covers every domain of the website.
+
+  3. Changes to domain_certificates
+    - domain references website_domains, so removing a domain removes its
+      certificate. This replaces the drop_stale_certificates trigger.
+
+  4. Functions
+    - resolve_custom_domain: for the edge proxy, which website a host
+      serves and where it redirects, if anywhere. Only verified domains
+      resolve, so a domain cannot be served before its owner has proved
+      they control it.
+    - entitlement_status counts every website_domains row of the user's
+      websites towards custom_domains, aliases included. The limit is
+      enforced when a domain is added instead of when websites.domain
+      changes.
+
+  5. Security
+    - Collaborators can read their websites' domains; website owners and
+      admins can add, change and remove them
+    - Verification columns can only be written by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS website_domains (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  website_id uuid REFERENCES websites(id) ON DELETE CASCADE NOT NULL,
+  domain text UNIQUE NOT NULL CHECK (domain = lower(domain)),
+  is_primary boolean NOT NULL DEFAULT false,
+  redirect text CHECK (redirect IN ('primary', 'apex_www')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'active', 'failed')),
+  verified_at timestamptz,
+  checked_at timestamptz,
+  failure_reason text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (is_primary = (redirect IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS website_domains_primary_idx
+  ON website_domains(website_id) WHERE is_primary;
+
+CREATE INDEX IF NOT EXISTS website_domains_website_id_idx
+  ON website_domains(website_id, created_at);
+
+ALTER TABLE website_domains ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Collaborators can read website domains" ON website_domains;
+DROP POLICY IF EXISTS "Owners can add website domains" ON website_domains;
+DROP POLICY IF EXISTS "Owners can update website domains" ON website_domains;
+DROP POLICY IF EXISTS "Owners can remove website domains" ON website_domains;
+
+CREATE POLICY "Collaborators can read website domains"
+  ON website_domains FOR SELECT
+  TO authenticated
+  USING (
+    website_id IN (
+      SELECT website_id FROM website_collaborators
+      WHERE user_id = auth.uid()
+    ) OR
+    is_admin()
+  );
+
+-- Matches who could change websites.domain before
+CREATE POLICY "Owners can add website domains"
+  ON website_domains FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    website_id IN (SELECT id FROM websites WHERE user_id = auth.uid()) OR
+    is_admin()
+  );
+
+CREATE POLICY "Owners can update website domains"
+  ON website_domains FOR UPDATE
+  TO authenticated
+  USING (
+    website_id IN (SELECT id FROM websites WHERE user_id = auth.uid()) OR
+    is_admin()
+  )
+  WITH CHECK (
+    website_id IN (SELECT id FROM websites WHERE user_id = auth.uid()) OR
+    is_admin()
+  );
+
+CREATE POLICY "Owners can remove website domains"
+  ON website_domains FOR DELETE
+  TO authenticated
+  USING (
+    website_id IN (SELECT id FROM websites WHERE user_id = auth.uid()) OR
+    is_admin()
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_website_domains_updated_at') THEN
+    CREATE TRIGGER update_website_domains_updated_at
+      BEFORE UPDATE ON website_domains
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION prepare_website_domain()
+RETURNS trigger AS $$
+BEGIN
+  NEW.domain := lower(trim(NEW.domain));
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.domain <> OLD.domain THEN
+      RAISE EXCEPTION 'A domain cannot be renamed. Remove it and add the new domain instead.'
+      USING ERRCODE = 'check_violation';
+    END IF;
+    IF NEW.website_id <> OLD.website_id THEN
+      RAISE EXCEPTION 'A domain cannot be moved to another website'
+      USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  -- Only the service role may record verification results
+  IF current_user = 'authenticated' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.status := 'pending';
+      NEW.verified_at := NULL;
+      NEW.checked_at := NULL;
+      NEW.failure_reason := NULL;
+    ELSE
+      NEW.status := OLD.status;
+      NEW.verified_at := OLD.verified_at;
+      NEW.checked_at := OLD.checked_at;
+      NEW.failure_reason := OLD.failure_reason;
+    END IF;
+  END IF;
+
+  IF NEW.is_primary THEN
+    NEW.redirect := NULL;
+    -- Promoting a domain demotes the current primary to a redirect
+    IF TG_OP = 'INSERT' OR NOT OLD.is_primary THEN
+      UPDATE website_domains
+      SET is_primary = false, redirect = 'primary'
+      WHERE website_id = NEW.website_id
+        AND is_primary
+        AND id <> NEW.id;
+    END IF;
+  ELSIF TG_OP = 'UPDATE' AND OLD.is_primary THEN
+    -- The demotion above runs one trigger level down
+    IF pg_trigger_depth() = 1 THEN
+      RAISE EXCEPTION 'Make another domain primary first'
+      USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.redirect := COALESCE(NEW.redirect, 'primary');
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM website_domains
+    WHERE website_id = NEW.website_id
+      AND is_primary
+      AND id <> NEW.id
+  ) THEN
+    -- A website's first domain is always its primary
+    NEW.is_primary := true;
+    NEW.redirect := NULL;
+  ELSE
+    NEW.redirect := COALESCE(NEW.redirect, 'primary');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prepare_website_domain ON website_domains;
+CREATE TRIGGER prepare_website_domain
+  BEFORE INSERT OR UPDATE ON website_domains
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_website_domain();
+
+-- Suspended websites cannot gain or change domains, as with websites.domain
+DROP TRIGGER IF EXISTS prevent_suspended_website_domains ON website_domains;
+CREATE TRIGGER prevent_suspended_website_domains
+  BEFORE INSERT OR UPDATE ON website_domains
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_suspended_website_changes();
+
+CREATE OR REPLACE FUNCTION sync_primary_domain()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.is_primary THEN
+      -- The oldest remaining domain takes over, which syncs websites.domain
+      UPDATE website_domains
+      SET is_primary = true
+      WHERE id = (
+        SELECT id FROM website_domains
+        WHERE website_id = OLD.website_id
+        ORDER BY created_at
+        LIMIT 1
+      );
+
+      IF NOT FOUND THEN
+        UPDATE websites SET domain = NULL WHERE id = OLD.website_id;
+      END IF;
+    END IF;
+  ELSIF NEW.is_primary THEN
+    -- An unverified primary leaves the website on its subdomain until the
+    -- TXT check passes. Suspension is enforced by the websites triggers.
+    UPDATE websites
+    SET domain = CASE WHEN NEW.status IN ('verified', 'active') THEN NEW.domain END
+    WHERE id = NEW.website_id
+      AND domain IS DISTINCT FROM CASE WHEN NEW.status IN ('verified', 'active') THEN NEW.domain END;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_primary_domain ON website_domains;
+CREATE TRIGGER sync_primary_domain
+  AFTER INSERT OR UPDATE OF is_primary, status OR DELETE ON website_domains
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_primary_domain();
+
+-- Replaced by the foreign key from domain_certificates below
+DROP TRIGGER IF EXISTS drop_stale_certificates ON websites;
+DROP FUNCTION IF EXISTS drop_stale_certificates();
+
+-- The limit now applies to website_domains rows; see enforce_plan_limits below
+DROP TRIGGER IF EXISTS enforce_custom_domain_limit ON websites;
+
+-- Move existing domains over, keeping their verification state. The rows
+-- are already primary and lower case, and suspended websites keep theirs,
+-- so the triggers above stay out of it.
+ALTER TABLE website_domains DISABLE TRIGGER USER;
+
+INSERT INTO website_domains (website_id, domain, is_primary, status, verified_at, checked_at, failure_reason)
+SELECT
+  id,
+  lower(domain),
+  true,
+  COALESCE(domain_status, 'pending'),
+  domain_verified_at,
+  domain_checked_at,
+  domain_failure_reason
+FROM websites
+WHERE domain IS NOT NULL
+ON CONFLICT (domain) DO NOTHING;
+
+ALTER TABLE website_domains ENABLE TRIGGER USER;
+
+-- Websites stop claiming domains they have not verified
+UPDATE websites w
+SET domain = NULL
+WHERE w.domain IS NOT NULL
+  AND w.suspended_at IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM website_domains d
+    WHERE d.website_id = w.id
+      AND d.domain = lower(w.domain)
+      AND d.status IN ('verified', 'active')
+  );
+
+-- Every attached domain counts, aliases included
+CREATE OR REPLACE FUNCTION entitlement_status(
+  user_uuid uuid,
+  feature_name text,
+  website_uuid uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  feature text,
+  plan user_plan,
+  used bigint,
+  limit_count integer,
+  allowed boolean,
+  upgrade_plan user_plan
+) AS $$
+DECLARE
+  current_plan user_plan;
+  current_usage bigint;
+  current_limit integer;
+BEGIN
+  IF feature_name NOT IN ('websites', 'custom_domains', 'collaborators', 'storage', 'premium_templates') THEN
+    RAISE EXCEPTION 'Unknown entitlement %', feature_name;
+  END IF;
+
+  SELECT COALESCE(p.plan, 'free') INTO current_plan
+  FROM profiles p
+  WHERE p.id = user_uuid;
+
+  current_plan := COALESCE(current_plan, 'free');
+
+  current_usage := CASE feature_name
+    WHEN 'websites' THEN
+      (SELECT COUNT(*) FROM websites w WHERE w.user_id = user_uuid)
+    WHEN 'custom_domains' THEN
+      (SELECT COUNT(*) FROM website_domains d
+       JOIN websites w ON w.id = d.website_id
+       WHERE w.user_id = user_uuid)
+    WHEN 'collaborators' THEN
+      (SELECT COUNT(*) FROM website_collaborators wc
+       WHERE wc.website_id = website_uuid
+       AND wc.role <> 'owner')
+    WHEN 'storage' THEN
+      (SELECT COALESCE(SUM((o.metadata->>'size')::bigint), 0) / (1024 * 1024)
+       FROM storage.objects o
+       JOIN websites w ON w.id::text = split_part(o.name, '/', 1)
+       WHERE o.bucket_id = 'sites'
+       AND w.user_id = user_uuid)
+    ELSE 0
+  END;
+
+  SELECT plan_limit(pe, feature_name) INTO current_limit
+  FROM plan_entitlements pe
+  WHERE pe.plan = current_plan;
+
+  RETURN QUERY
+  SELECT
+    feature_name,
+    current_plan,
+    current_usage,
+    current_limit,
+    current_limit IS NULL OR current_usage < current_limit,
+    (
+      SELECT pe.plan
+      FROM plan_entitlements pe
+      WHERE pe.plan > current_plan
+      AND (plan_limit(pe, feature_name) IS NULL OR current_usage < plan_limit(pe, feature_name))
+      ORDER BY pe.plan
+      LIMIT 1
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION enforce_plan_limits()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'websites' THEN
+    PERFORM require_entitlement(NEW.user_id, 'websites');
+  ELSIF TG_TABLE_NAME = 'website_domains' THEN
+    PERFORM require_entitlement(
+      (SELECT w.user_id FROM websites w WHERE w.id = NEW.website_id),
+      'custom_domains',
+      NEW.website_id
+    );
+  ELSIF TG_TABLE_NAME = 'website_collaborators' THEN
+    PERFORM require_entitlement(
+      (SELECT w.user_id FROM websites w WHERE w.id = NEW.website_id),
+      'collaborators',
+      NEW.website_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Created after the data move, so existing domains are kept even when they
+-- are over the limit
+DROP TRIGGER IF EXISTS enforce_custom_domain_limit ON website_domains;
+CREATE TRIGGER enforce_custom_domain_limit
+  BEFORE INSERT ON website_domains
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_plan_limits();
+
+-- websites.domain now follows website_domains
+CREATE OR REPLACE FUNCTION guard_domain_verification()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.domain_verification_token := replace(gen_random_uuid()::text, '-', '');
+      IF NEW.domain IS NOT NULL THEN
+        RAISE EXCEPTION 'Add custom domains to a website after creating it'
+        USING ERRCODE = 'check_violation';
+      END IF;
+    ELSE
+      NEW.domain_verification_token := OLD.domain_verification_token;
+      IF NEW.domain IS DISTINCT FROM OLD.domain THEN
+        RAISE EXCEPTION 'Manage custom domains in Domain Settings'
+        USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE websites
+  DROP COLUMN IF EXISTS domain_status,
+  DROP COLUMN IF EXISTS domain_verified_at,
+  DROP COLUMN IF EXISTS domain_checked_at,
+  DROP COLUMN IF EXISTS domain_failure_reason;
+
+-- Certificates follow their domain
+DELETE FROM domain_certificates
+WHERE domain NOT IN (SELECT domain FROM website_domains);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'domain_certificates_domain_fkey'
+  ) THEN
+    ALTER TABLE domain_certificates ADD CONSTRAINT domain_certificates_domain_fkey
+      FOREIGN KEY (domain) REFERENCES website_domains(domain) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION resolve_custom_domain(host text)
+RETURNS TABLE (website_id uuid, redirect_to text) AS $$
+  SELECT
+    d.website_id,
+    CASE
+      WHEN d.is_primary THEN NULL
+      WHEN d.redirect = 'apex_www' AND counterpart.domain IS NOT NULL THEN counterpart.domain
+      ELSE p.domain
+    END
+  FROM website_domains d
+  -- An alias of a website whose primary is not verified yet serves the
+  -- website itself instead of redirecting to a host that does not resolve
+  LEFT JOIN website_domains p
+    ON p.website_id = d.website_id
+    AND p.is_primary
+    AND p.status IN ('verified', 'active')
+  LEFT JOIN website_domains counterpart
+    ON counterpart.website_id = d.website_id
+    AND counterpart.status IN ('verified', 'active')
+    AND counterpart.domain = CASE
+      WHEN d.domain LIKE 'www.%' THEN substr(d.domain, 5)
+      ELSE 'www.' || d.domain
+    END
+  WHERE d.domain = lower(host)
+    AND d.status IN ('verified', 'active');
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION resolve_custom_domain(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_custom_domain(text) TO service_role;
+
+COMMENT ON COLUMN website_domains.redirect IS 'Alias behaviour: primary (301 to the primary domain) or apex_www (301 to the apex/www counterpart)';
+COMMENT ON FUNCTION resolve_custom_domain(text) IS 'The website a custom domain serves, and the host to redirect to for aliases';
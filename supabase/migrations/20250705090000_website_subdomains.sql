@@ -0,0 +1,253 @@
+/*
+  # Website Subdomains
+
+  1. Changes to websites
+    - subdomain: the website's address on ncbx.app, chosen by its owner.
+      It used to be derived from the website name and changed with it.
+      - 3 to 48 lowercase letters, numbers and hyphens; starts and ends
+        with a letter or number; no two hyphens in a row
+      - New websites get <name>-<first 8 characters of the id>, as before
+
+  2. New Tables
+    - reserved_subdomains: names no website may use, managed by admins
+    - subdomain_redirects: subdomains a website used before. They redirect
+      to its current subdomain until expires_at (30 days), and no other
+      website can take them until then. A website keeps at most 3; a
+      rename past that releases its oldest one early.
+
+  3. Functions
+    - check_subdomain: whether a subdomain is free for a website, with the
+      reason when it is not. Used for the live check in the picker.
+    - resolve_subdomain: for the edge proxy, which website a subdomain
+      serves and where it redirects, if anywhere
+
+  4. Triggers
+    - Changing websites.subdomain validates it, raising with hint
+      'subdomain_unavailable', and starts a redirect from the old one,
+      ending the website's oldest redirect when it already has 3
+
+  5. Data
+    - Existing websites keep their current address. Where that address
+      breaks the new rules (e.g. a name ending in punctuation), they get a
+      cleaned-up one and the old address redirects for 30 days.
+*/
+
+CREATE TABLE IF NOT EXISTS reserved_subdomains (
+  name text PRIMARY KEY CHECK (name = lower(name)),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS subdomain_redirects (
+  subdomain text PRIMARY KEY,
+  website_id uuid REFERENCES websites(id) ON DELETE CASCADE NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS subdomain_redirects_website_id_idx
+  ON subdomain_redirects(website_id);
+
+ALTER TABLE reserved_subdomains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE subdomain_redirects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage reserved subdomains" ON reserved_subdomains;
+DROP POLICY IF EXISTS "Collaborators can read subdomain redirects" ON subdomain_redirects;
+
+CREATE POLICY "Admins can manage reserved subdomains"
+  ON reserved_subdomains FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Collaborators can read subdomain redirects"
+  ON subdomain_redirects FOR SELECT
+  TO authenticated
+  USING (
+    website_id IN (
+      SELECT website_id FROM website_collaborators
+      WHERE user_id = auth.uid()
+    ) OR
+    is_admin()
+  );
+
+INSERT INTO reserved_subdomains (name) VALUES
+  ('abuse'), ('account'), ('accounts'), ('admin'), ('api'), ('app'),
+  ('assets'), ('auth'), ('billing'), ('blog'), ('cdn'), ('checkout'),
+  ('cname'), ('console'), ('dashboard'), ('demo'), ('dev'), ('dns'),
+  ('docs'), ('editor'), ('email'), ('files'), ('ftp'), ('help'),
+  ('hostmaster'), ('images'), ('img'), ('internal'), ('login'), ('logout'),
+  ('mail'), ('media'), ('ncbx'), ('ns1'), ('ns2'), ('pay'), ('payments'),
+  ('postmaster'), ('preview'), ('register'), ('root'), ('security'),
+  ('signup'), ('smtp'), ('staging'), ('static'), ('status'), ('support'),
+  ('test'), ('webmail'), ('www')
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS subdomain text;
+
+-- <name>-<id prefix>, cleaned up to follow the subdomain rules
+CREATE OR REPLACE FUNCTION default_subdomain(website_name text, website_uuid uuid)
+RETURNS text AS $$
+  SELECT COALESCE(
+    NULLIF(trim(BOTH '-' FROM left(
+      trim(BOTH '-' FROM regexp_replace(lower(website_name), '[^a-z0-9]+', '-', 'g')),
+      39
+    )), ''),
+    'site'
+  ) || '-' || left(website_uuid::text, 8);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Keep in step with subdomainFormatError in supabase/functions/_shared/subdomains.ts
+CREATE OR REPLACE FUNCTION subdomain_unavailable_reason(subdomain_name text, website_uuid uuid)
+RETURNS text AS $$
+BEGIN
+  IF length(subdomain_name) < 3 OR length(subdomain_name) > 48 THEN
+    RETURN 'Use 3 to 48 characters';
+  ELSIF subdomain_name !~ '^[a-z0-9-]+$' THEN
+    RETURN 'Use only lowercase letters, numbers and hyphens';
+  ELSIF subdomain_name LIKE '-%' OR subdomain_name LIKE '%-' THEN
+    RETURN 'Start and end with a letter or number';
+  ELSIF position('--' IN subdomain_name) > 0 THEN
+    RETURN 'Do not use two hyphens in a row';
+  ELSIF EXISTS (SELECT 1 FROM reserved_subdomains WHERE name = subdomain_name) THEN
+    RETURN 'This subdomain is reserved';
+  ELSIF EXISTS (
+    SELECT 1 FROM websites
+    WHERE subdomain = subdomain_name
+      AND id IS DISTINCT FROM website_uuid
+  ) OR EXISTS (
+    SELECT 1 FROM subdomain_redirects
+    WHERE subdomain = subdomain_name
+      AND expires_at > now()
+      AND website_id IS DISTINCT FROM website_uuid
+  ) THEN
+    RETURN 'This subdomain is already taken';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION check_subdomain(subdomain_name text, website_uuid uuid DEFAULT NULL)
+RETURNS TABLE (subdomain text, available boolean, reason text) AS $$
+  SELECT
+    normalized.name,
+    subdomain_unavailable_reason(normalized.name, website_uuid) IS NULL,
+    subdomain_unavailable_reason(normalized.name, website_uuid)
+  FROM (SELECT lower(trim(subdomain_name)) AS name) normalized;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Existing websites keep the address they had, where it follows the rules
+UPDATE websites
+SET subdomain = CASE
+  WHEN subdomain_unavailable_reason(
+    regexp_replace(lower(name), '[^a-z0-9]', '-', 'g') || '-' || left(id::text, 8),
+    id
+  ) IS NULL
+    THEN regexp_replace(lower(name), '[^a-z0-9]', '-', 'g') || '-' || left(id::text, 8)
+  ELSE default_subdomain(name, id)
+END
+WHERE subdomain IS NULL;
+
+INSERT INTO subdomain_redirects (subdomain, website_id, expires_at)
+SELECT
+  regexp_replace(lower(name), '[^a-z0-9]', '-', 'g') || '-' || left(id::text, 8),
+  id,
+  now() + interval '30 days'
+FROM websites
+WHERE subdomain <> regexp_replace(lower(name), '[^a-z0-9]', '-', 'g') || '-' || left(id::text, 8)
+ON CONFLICT (subdomain) DO NOTHING;
+
+ALTER TABLE websites ALTER COLUMN subdomain SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'websites_subdomain_key'
+  ) THEN
+    ALTER TABLE websites ADD CONSTRAINT websites_subdomain_key UNIQUE (subdomain);
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION assign_subdomain()
+RETURNS trigger AS $$
+DECLARE
+  reason text;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.subdomain IS NULL THEN
+    NEW.subdomain := default_subdomain(NEW.name, NEW.id);
+    RETURN NEW;
+  END IF;
+
+  NEW.subdomain := lower(trim(NEW.subdomain));
+  IF TG_OP = 'UPDATE' AND NEW.subdomain = OLD.subdomain THEN
+    RETURN NEW;
+  END IF;
+
+  reason := subdomain_unavailable_reason(NEW.subdomain, NEW.id);
+  IF reason IS NOT NULL THEN
+    RAISE EXCEPTION '%', reason
+    USING
+      ERRCODE = 'check_violation',
+      HINT = 'subdomain_unavailable';
+  END IF;
+
+  DELETE FROM subdomain_redirects WHERE expires_at <= now();
+
+  -- The old address keeps working for a while
+  IF TG_OP = 'UPDATE' THEN
+    INSERT INTO subdomain_redirects (subdomain, website_id, expires_at)
+    VALUES (OLD.subdomain, NEW.id, now() + interval '30 days')
+    ON CONFLICT (subdomain) DO UPDATE
+    SET website_id = EXCLUDED.website_id,
+        expires_at = EXCLUDED.expires_at,
+        created_at = now();
+
+    -- Renaming over and over cannot hold on to more than a few names.
+    -- Keep in step with SUBDOMAIN_REDIRECT_LIMIT in
+    -- supabase/functions/_shared/subdomains.ts
+    DELETE FROM subdomain_redirects
+    WHERE website_id = NEW.id
+      AND subdomain NOT IN (
+        SELECT subdomain FROM subdomain_redirects
+        WHERE website_id = NEW.id
+        ORDER BY created_at DESC, subdomain
+        LIMIT 3
+      );
+  END IF;
+
+  -- Taking back a subdomain the website used before ends its redirect
+  DELETE FROM subdomain_redirects WHERE subdomain = NEW.subdomain;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS assign_subdomain ON websites;
+CREATE TRIGGER assign_subdomain
+  BEFORE INSERT OR UPDATE OF subdomain ON websites
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_subdomain();
+
+CREATE OR REPLACE FUNCTION resolve_subdomain(subdomain_name text)
+RETURNS TABLE (website_id uuid, redirect_to text) AS $$
+  SELECT w.id, NULL::text
+  FROM websites w
+  WHERE w.subdomain = lower(subdomain_name)
+  UNION ALL
+  SELECT w.id, w.subdomain || '.ncbx.app'
+  FROM subdomain_redirects r
+  JOIN websites w ON w.id = r.website_id
+  WHERE r.subdomain = lower(subdomain_name)
+    AND r.expires_at > now()
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION subdomain_unavailable_reason(text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION resolve_subdomain(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_subdomain(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_subdomain(text) TO service_role;
+
+COMMENT ON COLUMN websites.subdomain IS 'The website''s address on ncbx.app, chosen by its owner';
+COMMENT ON FUNCTION check_subdomain(text, uuid) IS 'Whether a subdomain is free for a website, and why not';
+COMMENT ON FUNCTION resolve_subdomain(text) IS 'The website an ncbx.app subdomain serves, and the host to redirect to for old subdomains';
@@ -0,0 +1,122 @@
+/*
+  # Website Redirects
+
+  1. New Tables
+    - website_redirects: redirect rules for paths on a website, e.g. the
+      pages of a site it replaced
+      - source: a path such as /about-us, or a prefix ending in * such as
+        /blog/*. Unique per website.
+      - target: a path on the site or an absolute http(s) URL. For wildcard
+        sources, :splat stands for the part of the path the * matched.
+      - status_code: 301 (permanent) or 302 (temporary)
+    - The format rules match redirectRuleError in
+      supabase/functions/_shared/redirects.ts
+
+  2. Deployments
+    - Rules take effect with the next deployment, which writes them to the
+      hosting.json it serves from
+
+  3. Security
+    - Collaborators can read their websites' redirects; collaborators who
+      can edit the website, and admins, can add, change and remove them
+    - Suspended websites cannot add or change redirects
+*/
+
+CREATE TABLE IF NOT EXISTS website_redirects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  website_id uuid REFERENCES websites(id) ON DELETE CASCADE NOT NULL,
+  source text NOT NULL CHECK (
+    length(source) <= 2048 AND source ~ '^/[^\s?#*]*\*?$'
+  ),
+  target text NOT NULL CHECK (
+    length(target) <= 2048 AND target ~ '^(/|https?://)\S*$'
+  ),
+  status_code integer NOT NULL DEFAULT 301 CHECK (status_code IN (301, 302)),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (website_id, source),
+  CHECK (source <> target),
+  -- A wildcard whose target it matches itself would redirect forever
+  CHECK (NOT (source LIKE '%*' AND starts_with(target, left(source, -1))))
+);
+
+ALTER TABLE website_redirects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Collaborators can read website redirects" ON website_redirects;
+DROP POLICY IF EXISTS "Editors can add website redirects" ON website_redirects;
+DROP POLICY IF EXISTS "Editors can update website redirects" ON website_redirects;
+DROP POLICY IF EXISTS "Editors can remove website redirects" ON website_redirects;
+
+CREATE POLICY "Collaborators can read website redirects"
+  ON website_redirects FOR SELECT
+  TO authenticated
+  USING (
+    website_id IN (
+      SELECT website_id FROM website_collaborators
+      WHERE user_id = auth.uid()
+    ) OR
+    is_admin()
+  );
+
+-- Matches who can save versions of the website
+CREATE POLICY "Editors can add website redirects"
+  ON website_redirects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    website_id IN (
+      SELECT website_id FROM website_collaborators
+      WHERE user_id = auth.uid()
+      AND (permissions->>'edit')::boolean = true
+    ) OR
+    is_admin()
+  );
+
+CREATE POLICY "Editors can update website redirects"
+  ON website_redirects FOR UPDATE
+  TO authenticated
+  USING (
+    website_id IN (
+      SELECT website_id FROM website_collaborators
+      WHERE user_id = auth.uid()
+      AND (permissions->>'edit')::boolean = true
+    ) OR
+    is_admin()
+  )
+  WITH CHECK (
+    website_id IN (
+      SELECT website_id FROM website_collaborators
+      WHERE user_id = auth.uid()
+      AND (permissions->>'edit')::boolean = true
+    ) OR
+    is_admin()
+  );
+
+CREATE POLICY "Editors can remove website redirects"
+  ON website_redirects FOR DELETE
+  TO authenticated
+  USING (
+    website_id IN (
+      SELECT website_id FROM website_collaborators
+      WHERE user_id = auth.uid()
+      AND (permissions->>'edit')::boolean = true
+    ) OR
+    is_admin()
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_website_redirects_updated_at') THEN
+    CREATE TRIGGER update_website_redirects_updated_at
+      BEFORE UPDATE ON website_redirects
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS prevent_suspended_website_redirects ON website_redirects;
+CREATE TRIGGER prevent_suspended_website_redirects
+  BEFORE INSERT OR UPDATE ON website_redirects
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_suspended_website_changes();
+
+COMMENT ON TABLE website_redirects IS 'Redirect rules for paths on a website, applied by its next deployment';
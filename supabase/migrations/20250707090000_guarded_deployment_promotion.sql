@@ -0,0 +1,97 @@
+/*
+  # Guarded Deployment Promotion
+
+  1. Changes to websites
+    - live_deployment_promoted_at: when live_deployment_id was last pointed
+      at a deployment, by a finished build or by a rollback. Existing
+      websites start from their live deployment's created_at.
+
+  2. Functions
+    - promote_finished_deployment: makes a finished production build live,
+      unless the live deployment was made live after the build was
+      created. Builds run in the background, so an older build can finish
+      after a newer one, or after the user rolled back; it must not replace
+      what is served.
+    - promote_deployment: also records live_deployment_promoted_at, so a
+      rollback holds against builds queued before it
+
+  3. Security
+    - Only the service role (the deploy pipeline) can call
+      promote_finished_deployment
+*/
+
+ALTER TABLE websites
+  ADD COLUMN IF NOT EXISTS live_deployment_promoted_at timestamptz;
+
+UPDATE websites w
+SET live_deployment_promoted_at = d.created_at
+FROM website_deployments d
+WHERE d.id = w.live_deployment_id
+  AND w.live_deployment_promoted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION promote_finished_deployment(deployment_uuid uuid)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE websites w
+  SET live_deployment_id = d.id,
+      live_deployment_promoted_at = now(),
+      updated_at = now()
+  FROM website_deployments d
+  WHERE d.id = deployment_uuid
+    AND w.id = d.website_id
+    AND (
+      w.live_deployment_id IS NULL OR
+      w.live_deployment_promoted_at IS NULL OR
+      w.live_deployment_promoted_at < d.created_at
+    );
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION promote_deployment(deployment_uuid uuid)
+RETURNS website_deployments AS $$
+DECLARE
+  target website_deployments;
+BEGIN
+  SELECT * INTO target
+  FROM website_deployments
+  WHERE id = deployment_uuid;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Deployment % not found', deployment_uuid;
+  END IF;
+
+  -- Check if user has publish permissions
+  IF NOT EXISTS (
+    SELECT 1 FROM website_collaborators wc
+    WHERE wc.website_id = target.website_id
+    AND wc.user_id = auth.uid()
+    AND (wc.permissions->>'publish')::boolean = true
+  ) THEN
+    RAISE EXCEPTION 'Permission denied: User cannot publish this website';
+  END IF;
+
+  IF target.kind <> 'production' THEN
+    RAISE EXCEPTION 'Preview deployments cannot be promoted';
+  END IF;
+
+  IF target.status <> 'deployed' OR target.artifact_path IS NULL THEN
+    RAISE EXCEPTION 'Only successful deployments can be promoted';
+  END IF;
+
+  UPDATE websites
+  SET live_deployment_id = target.id,
+      live_deployment_promoted_at = now(),
+      updated_at = now()
+  WHERE id = target.website_id;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION promote_finished_deployment(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION promote_finished_deployment(uuid) TO service_role;
+
+COMMENT ON COLUMN websites.live_deployment_promoted_at IS 'When live_deployment_id was last changed by a build or a rollback';
+COMMENT ON FUNCTION promote_finished_deployment(uuid) IS 'Make a finished build live unless the live deployment was made live after the build was created';